@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+// Local stand-in for the M-Pesa gateway. Sends the same callback JSON Safaricom
+// posts for paybill/till (C2B) confirmations and STK push results to the
+// mpesa-callback edge function, so matching can be tested without Daraja.
+//
+//   npm run mock:mpesa -- --ref ADM001 --amount 500
+//   npm run mock:mpesa -- --type stk --phone 0712345678 --amount 250
+//   npm run mock:mpesa -- --type stk --fail
+//
+// Options:
+//   --url      callback URL (default: local Supabase functions server)
+//   --token    the function's MPESA_CALLBACK_TOKEN (default: $MPESA_CALLBACK_TOKEN)
+//   --type     c2b (default) or stk
+//   --amount   amount in Ksh (default 500)
+//   --ref      account reference / admission number (c2b only)
+//   --phone    payer phone number (default 254712345678)
+//   --id       transaction id (default: random, reuse it to test retries)
+//   --fail     send a cancelled STK push result instead of a payment
+
+import { parseArgs } from "node:util";
+
+const { values } = parseArgs({
+  options: {
+    url: { type: "string", default: "http://127.0.0.1:54321/functions/v1/mpesa-callback" },
+    token: { type: "string", default: process.env.MPESA_CALLBACK_TOKEN },
+    type: { type: "string", default: "c2b" },
+    amount: { type: "string", default: "500" },
+    ref: { type: "string", default: "" },
+    phone: { type: "string", default: "254712345678" },
+    id: { type: "string" },
+    fail: { type: "boolean", default: false },
+  },
+});
+
+const pad = (n) => n.toString().padStart(2, "0");
+
+// Daraja timestamps are YYYYMMDDHHmmss in East Africa Time (UTC+3)
+const darajaTimestamp = (date = new Date()) => {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return `${eat.getUTCFullYear()}${pad(eat.getUTCMonth() + 1)}${pad(eat.getUTCDate())}` +
+    `${pad(eat.getUTCHours())}${pad(eat.getUTCMinutes())}${pad(eat.getUTCSeconds())}`;
+};
+
+const randomTransactionId = () =>
+  Array.from({ length: 10 }, () => "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"[Math.floor(Math.random() * 36)]).join("");
+
+const toMsisdn = (phone) => {
+  const digits = phone.replace(/\D/g, "");
+  return `254${digits.slice(-9)}`;
+};
+
+const transactionId = values.id || randomTransactionId();
+
+const c2bPayload = () => ({
+  TransactionType: values.ref ? "Pay Bill" : "Buy Goods",
+  TransID: transactionId,
+  TransTime: darajaTimestamp(),
+  TransAmount: values.amount,
+  BusinessShortCode: "600000",
+  BillRefNumber: values.ref,
+  InvoiceNumber: "",
+  OrgAccountBalance: "",
+  ThirdPartyTransID: "",
+  MSISDN: toMsisdn(values.phone),
+  FirstName: "Test",
+  MiddleName: "",
+  LastName: "Guardian",
+});
+
+const stkPayload = () => {
+  const requestIds = {
+    MerchantRequestID: `mock-${Date.now()}`,
+    CheckoutRequestID: `ws_CO_${darajaTimestamp()}${Math.floor(Math.random() * 1000)}`,
+  };
+
+  if (values.fail) {
+    return {
+      Body: {
+        stkCallback: { ...requestIds, ResultCode: 1032, ResultDesc: "Request cancelled by user" },
+      },
+    };
+  }
+
+  return {
+    Body: {
+      stkCallback: {
+        ...requestIds,
+        ResultCode: 0,
+        ResultDesc: "The service request is processed successfully.",
+        CallbackMetadata: {
+          Item: [
+            { Name: "Amount", Value: Number(values.amount) },
+            { Name: "MpesaReceiptNumber", Value: transactionId },
+            { Name: "TransactionDate", Value: Number(darajaTimestamp()) },
+            { Name: "PhoneNumber", Value: Number(toMsisdn(values.phone)) },
+          ],
+        },
+      },
+    },
+  };
+};
+
+const payload = values.type === "stk" ? stkPayload() : c2bPayload();
+const url = new URL(values.url);
+if (values.token) {
+  url.searchParams.set("token", values.token);
+}
+
+console.log(`POST ${url.origin}${url.pathname}`);
+console.log(JSON.stringify(payload, null, 2));
+
+const response = await fetch(url, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(payload),
+});
+
+console.log(`\n${response.status} ${response.statusText}`);
+console.log(await response.text());
+process.exitCode = response.ok ? 0 : 1;
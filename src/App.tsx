@@ -12,9 +12,19 @@ import ChildProfile from "./pages/ChildProfile";
 import Reports from "./pages/Reports";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
+import Receipt from "./pages/Receipt";
+import Statements from "./pages/Statements";
+import MobileMoney from "./pages/MobileMoney";
+import AuditLog from "./pages/AuditLog";
+import GuardianProfile from "./pages/GuardianProfile";
+import Portal from "./pages/Portal";
 import Layout from "./components/Layout";
+import PortalLayout from "./components/PortalLayout";
 import NotFound from "./pages/NotFound";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { CenterSettingsProvider } from "./contexts/CenterSettingsContext";
+import { StaffProvider } from "./contexts/StaffContext";
+import { OfflineSyncProvider } from "./contexts/OfflineSyncContext";
 
 const queryClient = new QueryClient();
 
@@ -49,23 +59,36 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={<Navigate to="/dashboard" replace />} />
-            <Route path="/children" element={<ProtectedRoute><Children /></ProtectedRoute>} />
-            <Route path="/today" element={<ProtectedRoute><TodaysPayment /></ProtectedRoute>} />
-            <Route path="/child/:childId" element={<ProtectedRoute><ChildProfile /></ProtectedRoute>} />
-            <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-            <Route path="/reports" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
-            <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <CenterSettingsProvider>
+        <StaffProvider>
+          <OfflineSyncProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/auth" element={<Auth />} />
+                  <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="/children" element={<ProtectedRoute><Children /></ProtectedRoute>} />
+                  <Route path="/today" element={<ProtectedRoute><TodaysPayment /></ProtectedRoute>} />
+                  <Route path="/child/:childId" element={<ProtectedRoute><ChildProfile /></ProtectedRoute>} />
+                  <Route path="/guardian/:guardianId" element={<ProtectedRoute><GuardianProfile /></ProtectedRoute>} />
+                  <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+                  <Route path="/reports" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
+                  <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
+                  <Route path="/mobile-money" element={<ProtectedRoute><MobileMoney /></ProtectedRoute>} />
+                  <Route path="/audit" element={<ProtectedRoute><AuditLog /></ProtectedRoute>} />
+                  <Route path="/receipt/:receiptId" element={<ProtectedRoute><Receipt /></ProtectedRoute>} />
+                  <Route path="/statements" element={<ProtectedRoute><Statements /></ProtectedRoute>} />
+                  <Route path="/portal" element={<PortalLayout><Portal /></PortalLayout>} />
+                  <Route path="/portal/receipt/:receiptId" element={<PortalLayout><Receipt /></PortalLayout>} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </OfflineSyncProvider>
+        </StaffProvider>
+      </CenterSettingsProvider>
     </ThemeProvider>
   </QueryClientProvider>
 );
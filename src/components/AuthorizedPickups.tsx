@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { z } from "zod";
+import {
+  AuthorizedPickup,
+  PICKUP_RELATIONSHIPS,
+  fetchPickupPhotoUrls,
+  pickupSchema,
+  removePickupPhoto,
+  uploadPickupPhoto,
+} from "@/lib/pickups";
+import { useStaff } from "@/contexts/StaffContext";
+
+interface AuthorizedPickupsProps {
+  childId: string;
+  childName: string;
+}
+
+const emptyForm = { name: "", relationship: "", phone: "", id_number: "" };
+
+/**
+ * The people besides a child's guardians who may collect them
+ */
+const AuthorizedPickups = ({ childId, childName }: AuthorizedPickupsProps) => {
+  const [pickups, setPickups] = useState<AuthorizedPickup[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Map<string, string>>(new Map());
+  const [editing, setEditing] = useState<AuthorizedPickup | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pickupToRemove, setPickupToRemove] = useState<AuthorizedPickup | null>(null);
+  const { toast } = useToast();
+  const { can } = useStaff();
+
+  useEffect(() => {
+    fetchPickups();
+  }, [childId]);
+
+  const fetchPickups = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("authorized_pickups")
+        .select("*")
+        .eq("child_id", childId)
+        .order("name");
+
+      if (error) throw error;
+      setPickups(data || []);
+      setPhotoUrls(await fetchPickupPhotoUrls((data || []).map((p) => p.photo_path).filter(Boolean)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDialog = (pickup: AuthorizedPickup | null) => {
+    setEditing(pickup);
+    setFormData(
+      pickup
+        ? {
+            name: pickup.name,
+            relationship: pickup.relationship || "",
+            phone: pickup.phone || "",
+            id_number: pickup.id_number,
+          }
+        : emptyForm
+    );
+    setPhoto(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = pickupSchema.parse(formData);
+      setSaving(true);
+
+      const photoPath = photo ? await uploadPickupPhoto(childId, photo) : editing?.photo_path ?? null;
+      const pickupData = {
+        name: validated.name,
+        relationship: validated.relationship ?? null,
+        phone: validated.phone ?? null,
+        id_number: validated.id_number,
+        photo_path: photoPath,
+      };
+
+      const { error } = editing
+        ? await supabase.from("authorized_pickups").update(pickupData).eq("id", editing.id)
+        : await supabase.from("authorized_pickups").insert({ ...pickupData, child_id: childId });
+
+      if (error) throw error;
+
+      // The old photo is only dropped once the new one is saved against the record
+      if (photo && editing?.photo_path) {
+        await removePickupPhoto(editing.photo_path).catch((err) => console.error("Error removing old photo:", err));
+      }
+
+      toast({
+        title: "Success",
+        description: `${validated.name} ${editing ? "updated" : "added to the pickup list"}`,
+      });
+      setDialogOpen(false);
+      fetchPickups();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!pickupToRemove) return;
+
+    try {
+      const { error } = await supabase.from("authorized_pickups").delete().eq("id", pickupToRemove.id);
+      if (error) throw error;
+
+      if (pickupToRemove.photo_path) {
+        await removePickupPhoto(pickupToRemove.photo_path).catch((err) => console.error("Error removing photo:", err));
+      }
+
+      toast({
+        title: "Success",
+        description: `${pickupToRemove.name} removed from the pickup list`,
+      });
+      fetchPickups();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPickupToRemove(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Authorized Pickup
+        </CardTitle>
+        {can("manageChildren") && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Person
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Guardians can always collect {childName}. Anyone else must be on this list.
+        </p>
+        {pickups.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No one else is authorized</div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-3">
+            {pickups.map((pickup) => (
+              <div key={pickup.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                <Avatar className="h-14 w-14">
+                  {pickup.photo_path && photoUrls.get(pickup.photo_path) && (
+                    <AvatarImage src={photoUrls.get(pickup.photo_path)} alt={pickup.name} className="object-cover" />
+                  )}
+                  <AvatarFallback>{pickup.name.slice(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold truncate">{pickup.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {[pickup.relationship, pickup.phone].filter(Boolean).join(" · ") || "—"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">ID {pickup.id_number}</p>
+                </div>
+                {can("manageChildren") && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" title="Edit" onClick={() => openDialog(pickup)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Remove" onClick={() => setPickupToRemove(pickup)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Authorized Person" : "Add Authorized Person"}</DialogTitle>
+            <DialogDescription>Staff check their photo and ID before releasing {childName}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pickup-name">Name*</Label>
+              <Input
+                id="pickup-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-relationship">Relationship</Label>
+              <Select
+                value={formData.relationship}
+                onValueChange={(value) => setFormData({ ...formData, relationship: value })}
+              >
+                <SelectTrigger id="pickup-relationship">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PICKUP_RELATIONSHIPS.map((relationship) => (
+                    <SelectItem key={relationship} value={relationship}>
+                      {relationship}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-phone">Phone</Label>
+              <Input
+                id="pickup-phone"
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                placeholder="0712345678"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-id">ID Number*</Label>
+              <Input
+                id="pickup-id"
+                value={formData.id_number}
+                onChange={(e) => setFormData({ ...formData, id_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-photo">Photo</Label>
+              <Input
+                id="pickup-photo"
+                type="file"
+                accept="image/*"
+                capture="user"
+                onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pickupToRemove} onOpenChange={(open) => !open && setPickupToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pickupToRemove?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They'll no longer be allowed to collect {childName}. Past check-outs keep their name.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AuthorizedPickups;
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarRange, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+import { BillingTerm, billingTermSchema } from "@/lib/fee-plans";
+import { useStaff } from "@/contexts/StaffContext";
+
+const emptyForm = { name: "", start_date: "", end_date: "" };
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+const BillingTermsSettings = () => {
+  const [terms, setTerms] = useState<BillingTerm[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const canEdit = can("manageSettings");
+
+  useEffect(() => {
+    fetchTerms();
+  }, []);
+
+  const fetchTerms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("billing_terms")
+        .select("*")
+        .order("start_date", { ascending: false });
+
+      if (error) throw error;
+      setTerms(data || []);
+    } catch (error) {
+      console.error("Error fetching terms:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    try {
+      const validated = billingTermSchema.parse(formData);
+      setSaving(true);
+
+      const { error } = await supabase.from("billing_terms").insert({
+        name: validated.name,
+        start_date: validated.start_date,
+        end_date: validated.end_date,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Term added",
+        description: `${validated.name} saved.`,
+      });
+      setFormData(emptyForm);
+      fetchTerms();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (term: BillingTerm) => {
+    try {
+      const { error } = await supabase.from("billing_terms").delete().eq("id", term.id);
+      if (error) throw error;
+      setTerms(terms.filter((t) => t.id !== term.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Terms
+        </CardTitle>
+        <CardDescription>
+          Term dates for termly fee plans. Days outside every term aren't billed on those plans.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="term-name">Name</Label>
+                <Input
+                  id="term-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Term 1 2026"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="term-start">From</Label>
+                <Input
+                  id="term-start"
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="term-end">To</Label>
+                <Input
+                  id="term-end"
+                  type="date"
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button onClick={handleAdd} disabled={saving} className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Add Term"}
+            </Button>
+          </>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : terms.length === 0 ? (
+          <p className="text-muted-foreground">No terms set.</p>
+        ) : (
+          <div className="space-y-3">
+            {terms.map((term) => (
+              <div
+                key={term.id}
+                className="flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3"
+              >
+                <div>
+                  <p className="font-medium text-foreground">{term.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(term.start_date)} – {formatDate(term.end_date)}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(term)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillingTermsSettings;
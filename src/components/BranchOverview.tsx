@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Building2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { effectiveEntryType } from "@/lib/ledger";
+import { DEFAULT_TIMEZONE, businessDate } from "@/lib/dates";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+interface BranchTotals {
+  centerId: string;
+  name: string;
+  children: number;
+  presentToday: number;
+  collectedToday: number;
+  outstanding: number;
+}
+
+const formatCurrency = (amount: number) => `Ksh ${amount.toFixed(2)}`;
+
+/**
+ * Owner's view across every branch: today's figures are for each branch's own
+ * business day. Picking a branch switches the app to it.
+ */
+const BranchOverview = () => {
+  const [rows, setRows] = useState<BranchTotals[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { centers, centerId, setCenterId } = useCenterSettings();
+  const { toast } = useToast();
+
+  const fetchOverview = useCallback(async () => {
+    try {
+      const { data: settings, error: settingsError } = await supabase
+        .from("center_settings")
+        .select("center_id, timezone");
+
+      if (settingsError) throw settingsError;
+
+      const todayByCenter = new Map(
+        centers.map((center) => {
+          const timezone = settings?.find((row) => row.center_id === center.id)?.timezone || DEFAULT_TIMEZONE;
+          return [center.id, businessDate(timezone)];
+        })
+      );
+      const days = [...new Set(todayByCenter.values())];
+
+      const [childrenResult, presentResult, receivedResult, balancesResult] = await Promise.all([
+        supabase.from("children").select("center_id").eq("status", "active"),
+        supabase
+          .from("payments")
+          .select("center_id, payment_date")
+          .in("payment_date", days)
+          .eq("attendance_status", "present"),
+        supabase
+          .from("ledger_entries")
+          .select(
+            "id, center_id, entry_date, amount, entry_type, reverses_entry_id, reversed_entry:ledger_entries!reverses_entry_id(entry_type)"
+          )
+          .in("entry_type", ["payment", "reversal"])
+          .in("entry_date", days),
+        supabase.from("child_balances").select("center_id, balance"),
+      ]);
+
+      if (childrenResult.error) throw childrenResult.error;
+      if (presentResult.error) throw presentResult.error;
+      if (receivedResult.error) throw receivedResult.error;
+      if (balancesResult.error) throw balancesResult.error;
+
+      setRows(
+        centers.map((center) => {
+          const today = todayByCenter.get(center.id);
+          return {
+            centerId: center.id,
+            name: center.name,
+            children: childrenResult.data.filter((row) => row.center_id === center.id).length,
+            presentToday: presentResult.data.filter(
+              (row) => row.center_id === center.id && row.payment_date === today
+            ).length,
+            collectedToday: receivedResult.data
+              .filter((entry) => entry.center_id === center.id && entry.entry_date === today)
+              .reduce((sum, entry) => (effectiveEntryType(entry) === "payment" ? sum - Number(entry.amount) : sum), 0),
+            // Only amounts owed count; credit isn't netted against them
+            outstanding: balancesResult.data
+              .filter((row) => row.center_id === center.id)
+              .reduce((sum, row) => sum + Math.max(0, Number(row.balance) || 0), 0),
+          };
+        })
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [centers, toast]);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const total = (key: "children" | "presentToday" | "collectedToday" | "outstanding") =>
+    rows.reduce((sum, row) => sum + row[key], 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          All Branches
+        </CardTitle>
+        <CardDescription>Today at every branch. Select a branch to work in it.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-4">Loading...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Branch</TableHead>
+                  <TableHead className="text-right">Children</TableHead>
+                  <TableHead className="text-right">Present Today</TableHead>
+                  <TableHead className="text-right">Collected Today</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow
+                    key={row.centerId}
+                    className={`cursor-pointer ${row.centerId === centerId ? "bg-muted/50" : ""}`}
+                    onClick={() => setCenterId(row.centerId)}
+                  >
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell className="text-right">{row.children}</TableCell>
+                    <TableCell className="text-right">{row.presentToday}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.collectedToday)}</TableCell>
+                    <TableCell className="text-right text-destructive">{formatCurrency(row.outstanding)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-semibold">All branches</TableCell>
+                  <TableCell className="text-right font-semibold">{total("children")}</TableCell>
+                  <TableCell className="text-right font-semibold">{total("presentToday")}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(total("collectedToday"))}</TableCell>
+                  <TableCell className="text-right font-semibold text-destructive">
+                    {formatCurrency(total("outstanding"))}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BranchOverview;
@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+/**
+ * Picks the branch the app works in. Hidden when there's only one to choose from.
+ */
+const BranchSwitcher = () => {
+  const { centers, centerId, setCenterId } = useCenterSettings();
+
+  if (centers.length < 2 || !centerId) return null;
+
+  return (
+    <Select value={centerId} onValueChange={setCenterId}>
+      <SelectTrigger className="h-9 w-auto max-w-[10rem] sm:max-w-[14rem] gap-1.5" aria-label="Branch">
+        <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {centers.map((center) => (
+          <SelectItem key={center.id} value={center.id}>
+            {center.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Building2, Check, Pencil, Plus, X } from "lucide-react";
+import { z } from "zod";
+import { useStaff } from "@/contexts/StaffContext";
+import { Center, useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+const branchNameSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Branch name is required" })
+  .max(100, { message: "Branch name must be less than 100 characters" });
+
+/**
+ * Owners add and rename branches. A new branch starts with a copy of the first
+ * branch's settings.
+ */
+const BranchesSettings = () => {
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centers, centerId, refreshSettings } = useCenterSettings();
+
+  if (!can("manageBranches")) return null;
+
+  const showError = (error: unknown) => {
+    toast({
+      title: error instanceof z.ZodError ? "Validation Error" : "Error",
+      description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async () => {
+    try {
+      const name = branchNameSchema.parse(newName);
+      setSaving(true);
+
+      const { error } = await supabase.from("centers").insert({ name });
+      if (error) throw error;
+
+      toast({
+        title: "Branch added",
+        description: `${name} is ready. Assign staff to it below and switch to it from the header.`,
+      });
+      setNewName("");
+      await refreshSettings();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (center: Center) => {
+    if (!editing) return;
+    try {
+      const name = branchNameSchema.parse(editing.name);
+      setSaving(true);
+
+      const { error } = await supabase.from("centers").update({ name }).eq("id", center.id);
+      if (error) throw error;
+
+      setEditing(null);
+      await refreshSettings();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Branches
+        </CardTitle>
+        <CardDescription>
+          Each branch has its own children, attendance, payments, receipt numbers, closures and settings. Fee plans
+          and discounts can be kept to one branch or shared by all; terms are shared. The center details, late pickup and SMS settings below are for the branch selected at
+          the top.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {centers.map((center) => (
+            <div
+              key={center.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/50 p-3"
+            >
+              {editing?.id === center.id ? (
+                <>
+                  <Input
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={(e) => e.key === "Enter" && handleRename(center)}
+                    aria-label="Branch name"
+                    autoFocus
+                  />
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" title="Save" onClick={() => handleRename(center)} disabled={saving}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Cancel" onClick={() => setEditing(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="font-medium text-foreground">
+                    {center.name}
+                    {center.id === centerId && (
+                      <Badge variant="secondary" className="ml-2">Selected</Badge>
+                    )}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Rename branch"
+                    onClick={() => setEditing({ id: center.id, name: center.name })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="branch-name">New branch</Label>
+            <Input
+              id="branch-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              placeholder="e.g. Westlands"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="mr-2 h-4 w-4" />
+            {saving ? "Saving..." : "Add Branch"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BranchesSettings;
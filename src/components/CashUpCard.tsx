@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Lock, LockOpen } from "lucide-react";
+import { CashUp, formatVariance } from "@/lib/cash-up";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+interface CashUpCardProps {
+  date: string;
+  /** The cash-up currently locking the day, if it's been closed */
+  cashUp: CashUp | null;
+  /** What the ledger shows was received so far; the database recalculates it on closing */
+  expectedCash: number;
+  expectedMobileMoney: number;
+  onChange: () => void;
+}
+
+const formatCurrency = (amount: number) => `Ksh ${Math.abs(amount).toFixed(2)}`;
+
+const varianceClass = (amount: number) => (amount === 0 ? "text-success" : "text-destructive");
+
+/**
+ * End of day: count the money, compare it with what was recorded and lock the day
+ */
+const CashUpCard = ({ date, cashUp, expectedCash, expectedMobileMoney, onChange }: CashUpCardProps) => {
+  const [counted, setCounted] = useState({ cash: "", mobileMoney: "", note: "" });
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+
+  const countedCash = parseFloat(counted.cash);
+  const countedMobileMoney = parseFloat(counted.mobileMoney);
+  const cashVariance = (countedCash || 0) - expectedCash;
+  const mobileMoneyVariance = (countedMobileMoney || 0) - expectedMobileMoney;
+  const hasVariance = cashVariance !== 0 || mobileMoneyVariance !== 0;
+
+  const requestClose = () => {
+    if (isNaN(countedCash) || countedCash < 0 || isNaN(countedMobileMoney) || countedMobileMoney < 0) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the cash counted and the mobile money total, using 0 for none",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (hasVariance && !counted.note.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Explain the difference between the counted and recorded totals",
+        variant: "destructive",
+      });
+      return;
+    }
+    setConfirmOpen(true);
+  };
+
+  const handleClose = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("cash_ups")
+        .insert({
+          center_id: centerId,
+          business_date: date,
+          counted_cash: countedCash,
+          counted_mobile_money: countedMobileMoney,
+          note: counted.note.trim() || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Day closed",
+        description: `Cash ${formatVariance(Number(data.cash_variance))}; mobile money ${formatVariance(
+          Number(data.mobile_money_variance)
+        )}.`,
+      });
+      setCounted({ cash: "", mobileMoney: "", note: "" });
+      onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!cashUp) return;
+
+    if (!reopenReason.trim()) {
+      toast({ title: "Validation Error", description: "Give a reason for reopening the day", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("cash_ups")
+        .update({ reopened_at: new Date().toISOString(), reopen_reason: reopenReason.trim() })
+        .eq("id", cashUp.id);
+
+      if (error) throw error;
+
+      toast({ title: "Day reopened", description: "Payments for the day can be changed again." });
+      setReopenOpen(false);
+      setReopenReason("");
+      onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (cashUp) {
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Day Closed
+            </CardTitle>
+            <CardDescription>
+              Cashed up by {cashUp.closed_by_email || "a staff member"} at{" "}
+              {new Date(cashUp.closed_at).toLocaleTimeString()}. Only owners can change today's payments now.
+            </CardDescription>
+          </div>
+          {can("reopenDay") && (
+            <Button variant="outline" size="sm" onClick={() => setReopenOpen(true)}>
+              <LockOpen className="h-4 w-4 mr-2" />
+              Reopen
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Cash</p>
+              <p className="text-lg font-semibold">
+                {formatCurrency(cashUp.counted_cash)} counted / {formatCurrency(cashUp.expected_cash)} recorded
+              </p>
+              <p className={`text-sm font-medium ${varianceClass(Number(cashUp.cash_variance))}`}>
+                {formatVariance(Number(cashUp.cash_variance))}
+              </p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Mobile money</p>
+              <p className="text-lg font-semibold">
+                {formatCurrency(cashUp.counted_mobile_money)} counted / {formatCurrency(cashUp.expected_mobile_money)}{" "}
+                recorded
+              </p>
+              <p className={`text-sm font-medium ${varianceClass(Number(cashUp.mobile_money_variance))}`}>
+                {formatVariance(Number(cashUp.mobile_money_variance))}
+              </p>
+            </div>
+          </div>
+          {cashUp.note && <p className="text-sm text-muted-foreground mt-4">Note: {cashUp.note}</p>}
+        </CardContent>
+
+        <AlertDialog open={reopenOpen} onOpenChange={setReopenOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Reopen this day?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Cashiers will be able to change the day's payments again. This cash-up stays in the history; close the
+                day again once the changes are made.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reopen-reason">Reason</Label>
+              <Input
+                id="reopen-reason"
+                value={reopenReason}
+                onChange={(e) => setReopenReason(e.target.value)}
+                placeholder="e.g. Payment entered against the wrong child"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <Button onClick={handleReopen} disabled={saving}>
+                Reopen
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </Card>
+    );
+  }
+
+  if (!can("closeDay")) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          End of Day Cash-Up
+          <Badge variant="secondary">Open</Badge>
+        </CardTitle>
+        <CardDescription>
+          Count the cash box and check the mobile money statement, then close the day. Once closed, only owners can
+          change {new Date(`${date}T00:00:00`).toLocaleDateString()}'s payments.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="counted-cash">Cash counted (KSH)</Label>
+            <Input
+              id="counted-cash"
+              type="number"
+              min="0"
+              step="0.01"
+              value={counted.cash}
+              onChange={(e) => setCounted({ ...counted, cash: e.target.value })}
+            />
+            <p className="text-sm text-muted-foreground">
+              Recorded {formatCurrency(expectedCash)}
+              {counted.cash && (
+                <span className={`ml-2 font-medium ${varianceClass(cashVariance)}`}>{formatVariance(cashVariance)}</span>
+              )}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counted-mobile-money">Mobile money total (KSH)</Label>
+            <Input
+              id="counted-mobile-money"
+              type="number"
+              min="0"
+              step="0.01"
+              value={counted.mobileMoney}
+              onChange={(e) => setCounted({ ...counted, mobileMoney: e.target.value })}
+            />
+            <p className="text-sm text-muted-foreground">
+              Recorded {formatCurrency(expectedMobileMoney)}
+              {counted.mobileMoney && (
+                <span className={`ml-2 font-medium ${varianceClass(mobileMoneyVariance)}`}>
+                  {formatVariance(mobileMoneyVariance)}
+                </span>
+              )}
+            </p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cash-up-note">Note{hasVariance ? "" : " (optional)"}</Label>
+          <Textarea
+            id="cash-up-note"
+            value={counted.note}
+            onChange={(e) => setCounted({ ...counted, note: e.target.value })}
+            placeholder={hasVariance ? "Why the totals don't match" : "Anything to hand over"}
+            rows={2}
+          />
+        </div>
+        <Button onClick={requestClose} disabled={saving}>
+          <Lock className="h-4 w-4 mr-2" />
+          Close Day
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close the day?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {hasVariance
+                ? `Cash ${formatVariance(cashVariance).toLowerCase()}, mobile money ${formatVariance(
+                    mobileMoneyVariance
+                  ).toLowerCase()}. `
+                : "The counted totals match what was recorded. "}
+              After closing, only an owner can change the day's payments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClose} disabled={saving}>
+              Close Day
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CashUpCard;
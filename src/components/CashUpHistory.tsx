@@ -0,0 +1,82 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History } from "lucide-react";
+import { CashUp, formatVariance, isClosed } from "@/lib/cash-up";
+
+interface CashUpHistoryProps {
+  cashUps: CashUp[];
+}
+
+const varianceClass = (amount: number) => (amount === 0 ? "text-success" : "text-destructive font-medium");
+
+/**
+ * Past cash-ups, newest first, including ones later reopened
+ */
+const CashUpHistory = ({ cashUps }: CashUpHistoryProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Closed Days
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      {cashUps.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">No days cashed up yet</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Cash</TableHead>
+                <TableHead>Mobile Money</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead>Closed By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cashUps.map((cashUp) => (
+                <TableRow key={cashUp.id} className={isClosed(cashUp) ? "" : "opacity-60"}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(`${cashUp.business_date}T00:00:00`).toLocaleDateString()}
+                    {!isClosed(cashUp) && (
+                      <Badge variant="secondary" className="ml-2">
+                        Reopened
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className={varianceClass(Number(cashUp.cash_variance))}>
+                    {formatVariance(Number(cashUp.cash_variance))}
+                  </TableCell>
+                  <TableCell className={varianceClass(Number(cashUp.mobile_money_variance))}>
+                    {formatVariance(Number(cashUp.mobile_money_variance))}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {cashUp.note || "-"}
+                    {cashUp.reopened_at && (
+                      <span className="block text-xs">
+                        Reopened by {cashUp.reopened_by_email || "an owner"}: {cashUp.reopen_reason}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{cashUp.closed_by_email || "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default CashUpHistory;
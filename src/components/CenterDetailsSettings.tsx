@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Building2 } from "lucide-react";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+import { isValidTimeZone } from "@/lib/dates";
+import { centerLogoUrl, removeCenterLogo, uploadCenterLogo } from "@/lib/center";
+
+// Suggestions only; any IANA timezone name is accepted
+const COMMON_TIMEZONES = [
+  "Africa/Nairobi",
+  "Africa/Kampala",
+  "Africa/Dar_es_Salaam",
+  "Africa/Kigali",
+  "Africa/Addis_Ababa",
+  "Africa/Lagos",
+  "Africa/Johannesburg",
+  "Africa/Cairo",
+  "Europe/London",
+  "UTC",
+];
+
+const CenterDetailsSettings = () => {
+  const { settings, timezone, getToday, updateSettings } = useCenterSettings();
+  const [timezoneInput, setTimezoneInput] = useState(timezone);
+  const [details, setDetails] = useState({ center_name: "", phone: "", email: "", address: "" });
+  const [logo, setLogo] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const canEdit = can("manageSettings");
+
+  useEffect(() => {
+    setTimezoneInput(timezone);
+  }, [timezone]);
+
+  useEffect(() => {
+    if (settings) {
+      setDetails({
+        center_name: settings.center_name || "",
+        phone: settings.phone || "",
+        email: settings.email || "",
+        address: settings.address || "",
+      });
+    }
+  }, [settings]);
+
+  const handleSave = async () => {
+    const value = timezoneInput.trim();
+    if (!isValidTimeZone(value)) {
+      toast({
+        title: "Validation Error",
+        description: `"${value}" is not a recognised timezone`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const logoPath = logo ? await uploadCenterLogo(logo) : settings?.logo_path ?? null;
+      await updateSettings({
+        timezone: value,
+        center_name: details.center_name.trim() || null,
+        phone: details.phone.trim() || null,
+        email: details.email.trim() || null,
+        address: details.address.trim() || null,
+        logo_path: logoPath,
+      });
+
+      // The old logo is only dropped once the new one is saved in settings
+      if (logo && settings?.logo_path) {
+        await removeCenterLogo(settings.logo_path).catch((err) => console.error("Error removing old logo:", err));
+      }
+      setLogo(null);
+
+      toast({
+        title: "Settings saved",
+        description: value === timezone ? "Center details updated." : `Business days now follow ${value}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Center
+        </CardTitle>
+        <CardDescription>
+          Name, logo and contact details appear on statements. The day changes at midnight in the center's
+          timezone, for attendance, payments and the daily reset.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="center-name">Center name</Label>
+            <Input
+              id="center-name"
+              value={details.center_name}
+              onChange={(e) => setDetails({ ...details, center_name: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="center-phone">Phone</Label>
+            <Input
+              id="center-phone"
+              type="tel"
+              value={details.phone}
+              onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="center-email">Email</Label>
+            <Input
+              id="center-email"
+              type="email"
+              value={details.email}
+              onChange={(e) => setDetails({ ...details, email: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="center-address">Address</Label>
+            <Input
+              id="center-address"
+              value={details.address}
+              onChange={(e) => setDetails({ ...details, address: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="center-logo">Logo</Label>
+          <div className="flex items-center gap-4">
+            {settings?.logo_path && (
+              <img src={centerLogoUrl(settings.logo_path)} alt="Center logo" className="h-12 w-12 rounded object-contain" />
+            )}
+            {canEdit && (
+              <Input
+                id="center-logo"
+                type="file"
+                accept="image/*"
+                onChange={(e) => setLogo(e.target.files?.[0] ?? null)}
+              />
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="center-timezone">Timezone</Label>
+          <Input
+            id="center-timezone"
+            list="center-timezone-options"
+            value={timezoneInput}
+            onChange={(e) => setTimezoneInput(e.target.value)}
+            placeholder="e.g. Africa/Nairobi"
+            disabled={!canEdit}
+          />
+          <datalist id="center-timezone-options">
+            {COMMON_TIMEZONES.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+          <p className="text-sm text-muted-foreground">
+            Today at the center: {new Date(`${getToday()}T00:00:00`).toLocaleDateString(undefined, { dateStyle: "full" })}
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={handleSave}
+            disabled={saving || !settings}
+            className="w-full sm:w-auto"
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CenterDetailsSettings;
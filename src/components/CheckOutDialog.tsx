@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, UserRound } from "lucide-react";
+import { AuthorizedPickup, PickupPerson, fetchPickupPhotoUrls } from "@/lib/pickups";
+
+interface PickupOption {
+  key: string;
+  name: string;
+  detail: string;
+  idNumber: string | null;
+  photoUrl: string | null;
+}
+
+interface CheckOutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  child: { id: string; name: string } | null;
+  onConfirm: (pickup: PickupPerson) => Promise<void>;
+}
+
+const OTHER = "other";
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+
+const CheckOutDialog = ({ open, onOpenChange, child, onConfirm }: CheckOutDialogProps) => {
+  const [options, setOptions] = useState<PickupOption[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [other, setOther] = useState({ name: "", idNumber: "" });
+  const [loadingOptions, setLoadingOptions] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open && child) {
+      setSelected(null);
+      setOther({ name: "", idNumber: "" });
+      fetchOptions(child.id);
+    }
+  }, [open, child?.id]);
+
+  const fetchOptions = async (childId: string) => {
+    setLoadingOptions(true);
+    try {
+      const [{ data: links, error: guardiansError }, { data: pickups, error: pickupsError }] = await Promise.all([
+        supabase
+          .from("child_guardians")
+          .select("is_primary, guardians(id, name, relationship, phone, national_id)")
+          .eq("child_id", childId)
+          .order("is_primary", { ascending: false }),
+        supabase
+          .from("authorized_pickups")
+          .select("*")
+          .eq("child_id", childId)
+          .order("name"),
+      ]);
+
+      if (guardiansError) throw guardiansError;
+      if (pickupsError) throw pickupsError;
+
+      const photoPaths = (pickups || []).map((p) => p.photo_path).filter(Boolean);
+      // Photos are a nice-to-have; the list is still usable without them
+      const photoUrls = await fetchPickupPhotoUrls(photoPaths).catch(() => new Map<string, string>());
+
+      setOptions([
+        ...(links || [])
+          .filter((link) => link.guardians)
+          .map((link) => ({
+            key: `guardian:${link.guardians.id}`,
+            name: link.guardians.name,
+            detail: [link.guardians.relationship || "Guardian", link.guardians.phone].join(" · "),
+            idNumber: link.guardians.national_id,
+            photoUrl: null,
+          })),
+        ...(pickups || []).map((pickup: AuthorizedPickup) => ({
+          key: `pickup:${pickup.id}`,
+          name: pickup.name,
+          detail: [pickup.relationship, `ID ${pickup.id_number}`].filter(Boolean).join(" · "),
+          idNumber: pickup.id_number,
+          photoUrl: pickup.photo_path ? photoUrls.get(pickup.photo_path) ?? null : null,
+        })),
+      ]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingOptions(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    let pickup: PickupPerson;
+    if (selected === OTHER) {
+      if (!other.name.trim() || !other.idNumber.trim()) {
+        toast({
+          title: "Validation Error",
+          description: "Enter the name and ID number of the person collecting",
+          variant: "destructive",
+        });
+        return;
+      }
+      pickup = { name: other.name.trim(), idNumber: other.idNumber.trim(), authorized: false };
+    } else {
+      const option = options.find((o) => o.key === selected);
+      if (!option) return;
+      pickup = { name: option.name, idNumber: option.idNumber, authorized: true };
+    }
+
+    try {
+      setSaving(true);
+      await onConfirm(pickup);
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Check out {child?.name}</DialogTitle>
+          <DialogDescription>Who is collecting them? Check the person against their photo and ID.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {loadingOptions ? (
+            <p className="text-center py-4 text-muted-foreground">Loading...</p>
+          ) : (
+            options.map((option) => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setSelected(option.key)}
+                className={`flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors ${
+                  selected === option.key ? "border-primary bg-primary/10" : "border-border hover:bg-muted"
+                }`}
+              >
+                <Avatar className="h-12 w-12">
+                  {option.photoUrl && <AvatarImage src={option.photoUrl} alt={option.name} className="object-cover" />}
+                  <AvatarFallback>{initials(option.name)}</AvatarFallback>
+                </Avatar>
+                <div>
+                  <p className="font-medium">{option.name}</p>
+                  <p className="text-sm text-muted-foreground">{option.detail}</p>
+                </div>
+              </button>
+            ))
+          )}
+          <button
+            type="button"
+            onClick={() => setSelected(OTHER)}
+            className={`flex w-full items-center gap-3 rounded-lg border p-3 text-left transition-colors ${
+              selected === OTHER ? "border-destructive bg-destructive/10" : "border-border hover:bg-muted"
+            }`}
+          >
+            <Avatar className="h-12 w-12">
+              <AvatarFallback>
+                <UserRound className="h-5 w-5" />
+              </AvatarFallback>
+            </Avatar>
+            <p className="font-medium">Someone else</p>
+          </button>
+        </div>
+
+        {selected === OTHER && (
+          <div className="space-y-4">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Not on the authorized pickup list</AlertTitle>
+              <AlertDescription>
+                Only release {child?.name} after confirming with a guardian. The name and ID number will be recorded.
+              </AlertDescription>
+            </Alert>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-name">Name*</Label>
+              <Input
+                id="pickup-name"
+                value={other.name}
+                onChange={(e) => setOther({ ...other, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pickup-id-number">ID Number*</Label>
+              <Input
+                id="pickup-id-number"
+                value={other.idNumber}
+                onChange={(e) => setOther({ ...other, idNumber: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!selected || saving}
+            variant={selected === OTHER ? "destructive" : "default"}
+          >
+            {saving ? "Saving..." : selected === OTHER ? "Release anyway" : "Check out"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckOutDialog;
@@ -19,29 +19,36 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
 import { z } from "zod";
 import { normalizeAgeUnit } from "@/lib/age-utils";
+import GuardianFields from "@/components/GuardianFields";
+import {
+  Guardian,
+  GuardianForm,
+  emptyGuardianForm,
+  guardianSchema,
+  saveGuardian,
+  setChildGuardians,
+  toGuardianForm,
+} from "@/lib/guardians";
+import { FeePlan, describeFeePlanRate } from "@/lib/fee-plans";
+import { ChildClass, countByClass, describeAgeRange } from "@/lib/classes";
+import { branchOrShared } from "@/lib/center";
+import { Plus, Star, X } from "lucide-react";
 
 const childSchema = z.object({
   name: z.string().trim().min(1, { message: "Name is required" }).max(100),
   admission_number: z.string().trim().min(1, { message: "Admission number is required" }).max(20),
-  guardian_name: z.string().trim().min(1, { message: "Guardian name is required" }).max(100),
-  contact_number: z.string().trim()
-    .min(1, { message: "Guardian phone is required" })
-    .refine((val) => {
-      const digitsOnly = val.replace(/\D/g, '');
-      return digitsOnly.length >= 10;
-    }, { message: "no less than ten" })
-    .refine((val) => {
-      const digitsOnly = val.replace(/\D/g, '');
-      return digitsOnly.length <= 10;
-    }, { message: "no more than ten" }),
   admission_date: z.string().min(1, { message: "Admission date is required" }),
-  payment_amount: z.number().min(0, { message: "Payment amount must be 0 or greater" }),
+  fee_plan_id: z.string().min(1, { message: "Fee plan is required" }),
+  class_id: z.string().nullable(),
   age_value: z.number().min(1, { message: "Age is required" }).optional(),
   age_unit: z.enum(['months', 'years']).optional(),
 });
 
+const NO_CLASS = "none";
+
 interface ChildDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -50,40 +57,98 @@ interface ChildDialogProps {
 }
 
 const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps) => {
+  const { centerId, getToday } = useCenterSettings();
   const [formData, setFormData] = useState({
     name: "",
     admission_number: "",
-    guardian_name: "",
-    contact_number: "",
-    admission_date: new Date().toISOString().split("T")[0],
-    payment_amount: "",
+    admission_date: getToday(),
+    fee_plan_id: "",
+    class_id: NO_CLASS,
     age_value: "",
     age_unit: "years" as string,
   });
+  const [guardians, setGuardians] = useState<GuardianForm[]>([emptyGuardianForm()]);
+  const [primaryIndex, setPrimaryIndex] = useState(0);
+  const [allGuardians, setAllGuardians] = useState<Guardian[]>([]);
+  const [feePlans, setFeePlans] = useState<FeePlan[]>([]);
+  const [classes, setClasses] = useState<ChildClass[]>([]);
+  // Active children already in each class, not counting this child
+  const [enrolled, setEnrolled] = useState<Map<string, number>>(new Map());
   const [loading, setLoading] = useState(false);
-  const [contactError, setContactError] = useState("");
   const { toast } = useToast();
 
-  const validateContact = (value: string) => {
-    const digitsOnly = value.replace(/\D/g, '');
-    if (digitsOnly.length < 10) {
-      setContactError("no less than ten");
-    } else if (digitsOnly.length > 10) {
-      setContactError("no more than ten");
-    } else {
-      setContactError("");
+  const fetchGuardians = async () => {
+    const { data } = await supabase.from("guardians").select("*").order("name");
+    setAllGuardians(data || []);
+
+    if (child) {
+      const { data: links } = await supabase
+        .from("child_guardians")
+        .select("is_primary, guardians(*)")
+        .eq("child_id", child.id)
+        .order("is_primary", { ascending: false });
+
+      const linked = (links || []).filter((link) => link.guardians);
+      setGuardians(linked.length ? linked.map((link) => toGuardianForm(link.guardians)) : [emptyGuardianForm()]);
+      setPrimaryIndex(0);
     }
   };
 
+  useEffect(() => {
+    if (!open) return;
+    // Retired plans are only offered to children already on them
+    supabase
+      .from("fee_plans")
+      .select("*")
+      .or(branchOrShared(centerId))
+      .order("name")
+      .then(({ data }) => setFeePlans((data || []).filter((plan) => plan.active || plan.id === child?.fee_plan_id)));
+  }, [child, open, centerId]);
+
+  useEffect(() => {
+    if (!open) return;
+    Promise.all([
+      supabase.from("classes").select("*").eq("center_id", centerId).order("name"),
+      supabase.from("children").select("id, class_id, status").eq("center_id", centerId),
+    ]).then(([classesResult, childrenResult]) => {
+      setClasses(classesResult.data || []);
+      setEnrolled(countByClass((childrenResult.data || []).filter((c) => c.id !== child?.id)));
+    });
+  }, [centerId, child, open]);
+
+  useEffect(() => {
+    if (!open) return;
+    setGuardians([emptyGuardianForm()]);
+    setPrimaryIndex(0);
+    fetchGuardians();
+  }, [child, open]);
+
+  const updateGuardian = (index: number, guardian: GuardianForm) => {
+    setGuardians(guardians.map((g, i) => (i === index ? guardian : g)));
+  };
+
+  const removeGuardian = (index: number) => {
+    setGuardians(guardians.filter((_, i) => i !== index));
+    if (index === primaryIndex) setPrimaryIndex(0);
+    else if (index < primaryIndex) setPrimaryIndex(primaryIndex - 1);
+  };
+
+  // Siblings share a guardian by linking the existing record
+  const linkGuardian = (guardianId: string) => {
+    const guardian = allGuardians.find((g) => g.id === guardianId);
+    if (!guardian) return;
+    const blank = guardians.length === 1 && !guardians[0].id && !guardians[0].name && !guardians[0].phone;
+    setGuardians(blank ? [toGuardianForm(guardian)] : [...guardians, toGuardianForm(guardian)]);
+  };
+
   useEffect(() => {
     if (child) {
       setFormData({
         name: child.name || "",
         admission_number: child.admission_number || "",
-        guardian_name: child.guardian_name,
-        contact_number: child.contact_number,
         admission_date: child.admission_date,
-        payment_amount: child.payment_amount?.toString() || "",
+        fee_plan_id: child.fee_plan_id || "",
+        class_id: child.class_id || NO_CLASS,
         age_value: child.age_value?.toString() || "",
         age_unit: child.age_unit || "years",
       });
@@ -91,10 +156,9 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
       setFormData({
         name: "",
         admission_number: "",
-        guardian_name: "",
-        contact_number: "",
-        admission_date: new Date().toISOString().split("T")[0],
-        payment_amount: "",
+        admission_date: getToday(),
+        fee_plan_id: "",
+        class_id: NO_CLASS,
         age_value: "",
         age_unit: "years",
       });
@@ -108,20 +172,25 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
       
       const validated = childSchema.parse({
         ...formData,
-        payment_amount: parseFloat(formData.payment_amount),
+        class_id: formData.class_id === NO_CLASS ? null : formData.class_id,
         age_value: ageValue,
         age_unit: normalizedAgeUnit,
       });
 
+      const primary = guardianSchema.parse(guardians[primaryIndex]);
+      guardians.forEach((guardian) => guardianSchema.parse(guardian));
+
       setLoading(true);
 
+      // Copy of the primary guardian kept on the child; the database keeps it in step
       const childData: any = {
         name: validated.name,
-        guardian_name: validated.guardian_name,
-        contact_number: validated.contact_number,
+        guardian_name: primary.name,
+        contact_number: primary.phone,
         admission_date: validated.admission_date,
         admission_number: validated.admission_number,
-        payment_amount: validated.payment_amount,
+        fee_plan_id: validated.fee_plan_id,
+        class_id: validated.class_id,
       };
 
       // Only include age fields if age was provided
@@ -134,6 +203,7 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
         }
       }
 
+      let childId = child?.id;
       if (child) {
         const { error } = await supabase
           .from("children")
@@ -141,16 +211,30 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
           .eq("id", child.id);
 
         if (error) throw error;
+      } else {
+        // New children are enrolled at the branch being worked in
+        const { data, error } = await supabase
+          .from("children")
+          .insert([{ ...childData, center_id: centerId }])
+          .select("id")
+          .single();
+
+        if (error) throw error;
+        childId = data.id;
+      }
+
+      const guardianIds: string[] = [];
+      for (const guardian of guardians) {
+        guardianIds.push(await saveGuardian(guardian));
+      }
+      await setChildGuardians(childId, guardianIds, guardianIds[primaryIndex]);
 
+      if (child) {
         toast({
           title: "Success",
           description: "Child record updated successfully",
         });
       } else {
-        const { error } = await supabase.from("children").insert([childData]);
-
-        if (error) throw error;
-
         toast({
           title: "Success",
           description: "Child registered successfully",
@@ -178,6 +262,13 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
     }
   };
 
+  const selectedClass = classes.find((c) => c.id === formData.class_id);
+  // Warn when an active child is being moved into a class that's already full
+  const isOverCapacity =
+    !!selectedClass &&
+    (enrolled.get(selectedClass.id) || 0) >= selectedClass.capacity &&
+    (!child || (child.status === "active" && formData.class_id !== child.class_id));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-2xl bg-[#0f1729] border-[#1e2a47] max-h-[90vh] overflow-hidden flex flex-col">
@@ -251,47 +342,130 @@ const ChildDialog = ({ open, onOpenChange, child, onSuccess }: ChildDialogProps)
             />
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="guardian_name" className="text-gray-200">Guardian Name*</Label>
-              <Input
-                id="guardian_name"
-                value={formData.guardian_name}
-                onChange={(e) => setFormData({ ...formData, guardian_name: e.target.value })}
-                placeholder="Jane Doe"
-                className="bg-[#1a2438] border-[#2d3b56] text-white placeholder:text-gray-500 focus:border-primary focus:ring-primary"
-              />
+          <div className="space-y-3">
+            <div>
+              <Label className="text-gray-200">Guardians*</Label>
+              <p className="text-xs text-gray-400">
+                Siblings share guardians; changing a guardian's details updates them for every child they're linked to.
+              </p>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="contact_number" className="text-gray-200">Guardian Phone*</Label>
-              <Input
-                id="contact_number"
-                value={formData.contact_number}
-                onChange={(e) => {
-                  setFormData({ ...formData, contact_number: e.target.value });
-                  validateContact(e.target.value);
-                }}
-                placeholder="0712345678"
-                className={`bg-[#1a2438] border-[#2d3b56] text-white placeholder:text-gray-500 focus:border-primary focus:ring-primary ${contactError ? "border-red-500 focus:border-red-500" : ""}`}
-              />
-              {contactError && (
-                <p className="text-sm text-red-500">{contactError}</p>
-              )}
+            {guardians.map((guardian, index) => (
+              <div key={guardian.id || `new-${index}`} className="space-y-3 rounded-lg border border-[#2d3b56] p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-200">Guardian {index + 1}</span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPrimaryIndex(index)}
+                      className={index === primaryIndex ? "text-primary hover:text-primary" : "text-gray-400 hover:text-white hover:bg-[#1a2438]"}
+                    >
+                      <Star className={`mr-1 h-4 w-4 ${index === primaryIndex ? "fill-current" : ""}`} />
+                      {index === primaryIndex ? "Primary" : "Make primary"}
+                    </Button>
+                    {guardians.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        title="Remove guardian"
+                        onClick={() => removeGuardian(index)}
+                        className="text-gray-400 hover:text-white hover:bg-[#1a2438]"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <GuardianFields
+                  guardian={guardian}
+                  onChange={(updated) => updateGuardian(index, updated)}
+                  idPrefix={`guardian-${index}`}
+                  labelClassName="text-gray-200"
+                  inputClassName="bg-[#1a2438] border-[#2d3b56] text-white placeholder:text-gray-500 focus:border-primary focus:ring-primary"
+                  selectContentClassName="bg-[#1a2438] border-[#2d3b56]"
+                  selectItemClassName="text-white hover:bg-[#2d3b56]"
+                />
+              </div>
+            ))}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setGuardians([...guardians, emptyGuardianForm()])}
+                className="bg-transparent border-[#2d3b56] text-gray-300 hover:bg-[#1a2438] hover:text-white"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Guardian
+              </Button>
+              <Select value="" onValueChange={linkGuardian}>
+                <SelectTrigger className="bg-[#1a2438] border-[#2d3b56] text-white sm:flex-1">
+                  <SelectValue placeholder="Add an existing guardian (siblings)" />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1a2438] border-[#2d3b56]">
+                  {allGuardians
+                    .filter((g) => !guardians.some((added) => added.id === g.id))
+                    .map((g) => (
+                      <SelectItem key={g.id} value={g.id} className="text-white hover:bg-[#2d3b56]">
+                        {g.name} – {g.phone}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="payment_amount" className="text-gray-200">Payment Amount (KSH)*</Label>
-            <Input
-              id="payment_amount"
-              type="number"
-              step="0.01"
-              min="0"
-              value={formData.payment_amount}
-              onChange={(e) => setFormData({ ...formData, payment_amount: e.target.value })}
-              placeholder="500.00"
-              className="bg-[#1a2438] border-[#2d3b56] text-white placeholder:text-gray-500 focus:border-primary focus:ring-primary"
-            />
+            <Label htmlFor="class" className="text-gray-200">Class</Label>
+            <Select
+              value={formData.class_id}
+              onValueChange={(value) => setFormData({ ...formData, class_id: value })}
+            >
+              <SelectTrigger id="class" className="bg-[#1a2438] border-[#2d3b56] text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1a2438] border-[#2d3b56]">
+                <SelectItem value={NO_CLASS} className="text-white hover:bg-[#2d3b56]">
+                  {classes.length ? "No class" : "No class (add classes in Settings)"}
+                </SelectItem>
+                {classes.map((c) => (
+                  <SelectItem key={c.id} value={c.id} className="text-white hover:bg-[#2d3b56]">
+                    {c.name} – {describeAgeRange(c)} · {enrolled.get(c.id) || 0}/{c.capacity}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isOverCapacity && (
+              <p className="text-xs text-destructive">
+                {selectedClass.name} is full ({enrolled.get(selectedClass.id)} of {selectedClass.capacity} places
+                taken). You can still enrol, but the class will be over capacity.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fee_plan" className="text-gray-200">Fee Plan*</Label>
+            <Select
+              value={formData.fee_plan_id}
+              onValueChange={(value) => setFormData({ ...formData, fee_plan_id: value })}
+            >
+              <SelectTrigger id="fee_plan" className="bg-[#1a2438] border-[#2d3b56] text-white">
+                <SelectValue placeholder={feePlans.length ? "Select a fee plan" : "Add a fee plan in Settings first"} />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1a2438] border-[#2d3b56]">
+                {feePlans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id} className="text-white hover:bg-[#2d3b56]">
+                    {plan.name} – {describeFeePlanRate(plan)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {child && formData.fee_plan_id !== (child.fee_plan_id || "") && (
+              <p className="text-xs text-gray-400">
+                The new plan applies from today. Charges already posted stay as they are.
+              </p>
+            )}
           </div>
         </div>
         <DialogFooter className="mt-6 flex justify-center gap-4 flex-shrink-0">
@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BadgePercent, Plus, Trash2 } from "lucide-react";
+import { ChildDiscount, DiscountRule, describeDiscountAmount, describeDiscountScope } from "@/lib/discounts";
+import { useStaff } from "@/contexts/StaffContext";
+import { branchOrShared } from "@/lib/center";
+
+interface ChildDiscountsProps {
+  childId: string;
+  childName: string;
+  /** The child's branch; only its own and shared discounts are offered */
+  centerId: string;
+}
+
+type ChildDiscountWithRule = ChildDiscount & { discount_rules: DiscountRule | null };
+
+/**
+ * A child's own discount settings: discounts given to them specifically,
+ * different amounts, and discounts they're left out of
+ */
+const ChildDiscounts = ({ childId, childName, centerId }: ChildDiscountsProps) => {
+  const [overrides, setOverrides] = useState<ChildDiscountWithRule[]>([]);
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ discount_rule_id: "", excluded: false, amount: "" });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const canEdit = can("manageSettings");
+
+  useEffect(() => {
+    fetchDiscounts();
+  }, [childId, centerId]);
+
+  const fetchDiscounts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("child_discounts")
+        .select("*, discount_rules(*)")
+        .eq("child_id", childId)
+        .order("created_at");
+
+      if (error) throw error;
+      setOverrides(data || []);
+
+      const { data: ruleData, error: rulesError } = await supabase
+        .from("discount_rules")
+        .select("*")
+        .or(branchOrShared(centerId))
+        .eq("active", true)
+        .order("name");
+
+      if (rulesError) throw rulesError;
+      setRules(ruleData || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedRule = rules.find((rule) => rule.id === formData.discount_rule_id);
+
+  const handleSave = async () => {
+    const amount = formData.amount ? parseFloat(formData.amount) : null;
+
+    if (!selectedRule) {
+      toast({ title: "Validation Error", description: "Choose a discount", variant: "destructive" });
+      return;
+    }
+    if (amount !== null && (!(amount > 0) || (selectedRule.discount_type === "percentage" && amount > 100))) {
+      toast({ title: "Validation Error", description: "Enter a valid discount amount", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("child_discounts").upsert({
+        child_id: childId,
+        discount_rule_id: selectedRule.id,
+        excluded: formData.excluded,
+        amount: formData.excluded ? null : amount,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: formData.excluded
+          ? `${childName} won't get ${selectedRule.name} on new charges`
+          : `${selectedRule.name} applies to ${childName}'s new charges`,
+      });
+      setDialogOpen(false);
+      fetchDiscounts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (override: ChildDiscountWithRule) => {
+    try {
+      const { error } = await supabase
+        .from("child_discounts")
+        .delete()
+        .eq("child_id", childId)
+        .eq("discount_rule_id", override.discount_rule_id);
+
+      if (error) throw error;
+      fetchDiscounts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <BadgePercent className="h-5 w-5 text-primary" />
+          Discounts
+        </CardTitle>
+        {canEdit && rules.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setFormData({ discount_rule_id: "", excluded: false, amount: "" });
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Set Discount
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Discounts for everyone and for siblings apply automatically. These are the ones set for {childName} alone.
+        </p>
+        {overrides.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">No discounts set for this child</div>
+        ) : (
+          <div className="space-y-3">
+            {overrides.map((override) => {
+              const rule = override.discount_rules;
+              if (!rule) return null;
+              return (
+                <div
+                  key={override.discount_rule_id}
+                  className="flex items-center justify-between rounded-lg border border-border p-3"
+                >
+                  <div>
+                    <p className="font-semibold">
+                      {rule.name}
+                      {override.excluded && <Badge variant="secondary" className="ml-2">Excluded</Badge>}
+                      {!rule.active && <Badge variant="secondary" className="ml-2">Off</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {override.excluded
+                        ? `Not applied to ${childName}`
+                        : `${describeDiscountAmount(rule, override.amount ?? rule.amount)} · ${describeDiscountScope(rule)}`}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button variant="ghost" size="icon" title="Remove" onClick={() => handleRemove(override)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set Discount for {childName}</DialogTitle>
+            <DialogDescription>Applies to charges from now on; discounts already given stay as they are.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="child-discount-rule">Discount</Label>
+              <Select
+                value={formData.discount_rule_id}
+                onValueChange={(value) => setFormData({ ...formData, discount_rule_id: value })}
+              >
+                <SelectTrigger id="child-discount-rule">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rules.map((rule) => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {rule.name} – {describeDiscountAmount(rule)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedRule && selectedRule.applies_to !== "selected" && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="child-discount-excluded">Leave {childName} out</Label>
+                  <p className="text-sm text-muted-foreground">{describeDiscountScope(selectedRule)}</p>
+                </div>
+                <Switch
+                  id="child-discount-excluded"
+                  checked={formData.excluded}
+                  onCheckedChange={(checked) => setFormData({ ...formData, excluded: checked })}
+                />
+              </div>
+            )}
+            {selectedRule && !formData.excluded && (
+              <div className="space-y-2">
+                <Label htmlFor="child-discount-amount">
+                  {selectedRule.discount_type === "percentage" ? "Percent" : "Amount (KSH)"} for this child
+                </Label>
+                <Input
+                  id="child-discount-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  placeholder={`Default: ${selectedRule.amount}`}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ChildDiscounts;
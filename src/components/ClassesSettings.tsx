@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { DoorOpen, Pencil, Plus } from "lucide-react";
+import { z } from "zod";
+import { ChildClass, classSchema, countByClass, describeAgeRange } from "@/lib/classes";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+const NO_TEACHER = "none";
+
+const emptyForm = {
+  name: "",
+  min_age_months: "",
+  max_age_months: "",
+  capacity: "",
+  lead_teacher_id: NO_TEACHER,
+};
+
+const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+/**
+ * Classes (rooms) at the selected branch. Children are placed in one when
+ * they're added or edited.
+ */
+const ClassesSettings = () => {
+  const [classes, setClasses] = useState<ChildClass[]>([]);
+  const [enrolled, setEnrolled] = useState<Map<string, number>>(new Map());
+  const [teachers, setTeachers] = useState<{ user_id: string; email: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ChildClass | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+  const canEdit = can("manageSettings");
+
+  const fetchClasses = useCallback(async () => {
+    try {
+      const [classesResult, childrenResult, teachersResult] = await Promise.all([
+        supabase.from("classes").select("*").eq("center_id", centerId).order("name"),
+        supabase.from("children").select("class_id, status").eq("center_id", centerId),
+        supabase.from("staff_profiles").select("user_id, email").is("disabled_at", null).order("email"),
+      ]);
+
+      if (classesResult.error) throw classesResult.error;
+      if (childrenResult.error) throw childrenResult.error;
+      if (teachersResult.error) throw teachersResult.error;
+
+      setClasses(classesResult.data || []);
+      setEnrolled(countByClass(childrenResult.data || []));
+      setTeachers(teachersResult.data || []);
+    } catch (error) {
+      console.error("Error fetching classes:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [fetchClasses]);
+
+  const teacherEmail = (userId: string | null) => teachers.find((t) => t.user_id === userId)?.email;
+
+  const openDialog = (childClass: ChildClass | null) => {
+    setEditing(childClass);
+    setFormData(
+      childClass
+        ? {
+            name: childClass.name,
+            min_age_months: childClass.min_age_months?.toString() ?? "",
+            max_age_months: childClass.max_age_months?.toString() ?? "",
+            capacity: childClass.capacity.toString(),
+            lead_teacher_id: childClass.lead_teacher_id || NO_TEACHER,
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = classSchema.parse({
+        name: formData.name,
+        min_age_months: optionalNumber(formData.min_age_months),
+        max_age_months: optionalNumber(formData.max_age_months),
+        capacity: Number(formData.capacity),
+        lead_teacher_id: formData.lead_teacher_id === NO_TEACHER ? null : formData.lead_teacher_id,
+      });
+      setSaving(true);
+
+      const classData = {
+        name: validated.name,
+        min_age_months: validated.min_age_months,
+        max_age_months: validated.max_age_months,
+        capacity: validated.capacity,
+        lead_teacher_id: validated.lead_teacher_id,
+      };
+
+      const { error } = editing
+        ? await supabase.from("classes").update(classData).eq("id", editing.id)
+        : await supabase.from("classes").insert({ ...classData, center_id: centerId });
+
+      if (error) {
+        // Unique per branch, ignoring case and spaces
+        if (error.code === "23505") throw new Error(`There's already a class called ${validated.name}`);
+        throw error;
+      }
+
+      const over = editing ? (enrolled.get(editing.id) || 0) - validated.capacity : 0;
+      toast({
+        title: "Class saved",
+        description:
+          over > 0
+            ? `${validated.name} has ${over} more ${over === 1 ? "child" : "children"} than its new capacity.`
+            : `${validated.name} can now be picked when adding or editing a child.`,
+      });
+      setDialogOpen(false);
+      fetchClasses();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <DoorOpen className="h-5 w-5" />
+            Classes
+          </CardTitle>
+          <CardDescription>
+            Rooms at this branch, with the ages they take, how many children fit and who leads them.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Class
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : classes.length === 0 ? (
+          <p className="text-muted-foreground">No classes yet.</p>
+        ) : (
+          classes.map((childClass) => {
+            const count = enrolled.get(childClass.id) || 0;
+            return (
+              <div
+                key={childClass.id}
+                className="flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3"
+              >
+                <div>
+                  <p className="font-medium text-foreground">
+                    {childClass.name}
+                    {count > childClass.capacity && (
+                      <Badge variant="destructive" className="ml-2">Over capacity</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {describeAgeRange(childClass)} · {count} of {childClass.capacity} places ·{" "}
+                    {teacherEmail(childClass.lead_teacher_id) || "No lead teacher"}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button variant="ghost" size="icon" title="Edit class" onClick={() => openDialog(childClass)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Class" : "Add Class"}</DialogTitle>
+            <DialogDescription>
+              Enrolling beyond capacity is allowed, but staff are warned when they do.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="class-name">Name</Label>
+              <Input
+                id="class-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Baby Class"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="class-min-age">Youngest (months)</Label>
+                <Input
+                  id="class-min-age"
+                  type="number"
+                  min="0"
+                  value={formData.min_age_months}
+                  onChange={(e) => setFormData({ ...formData, min_age_months: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="class-max-age">Oldest (months)</Label>
+                <Input
+                  id="class-max-age"
+                  type="number"
+                  min="0"
+                  value={formData.max_age_months}
+                  onChange={(e) => setFormData({ ...formData, max_age_months: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="class-capacity">Capacity</Label>
+              <Input
+                id="class-capacity"
+                type="number"
+                min="1"
+                value={formData.capacity}
+                onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="class-teacher">Lead teacher</Label>
+              <Select
+                value={formData.lead_teacher_id}
+                onValueChange={(value) => setFormData({ ...formData, lead_teacher_id: value })}
+              >
+                <SelectTrigger id="class-teacher">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEACHER}>No lead teacher</SelectItem>
+                  {teachers.map((teacher) => (
+                    <SelectItem key={teacher.user_id} value={teacher.user_id}>
+                      {teacher.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ClassesSettings;
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+import { CenterClosure, ClosureType, WEEKDAYS, describeClosure } from "@/lib/closures";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+const closureSchema = z
+  .object({
+    closure_type: z.enum(["date", "range", "weekday"]),
+    start_date: z.string().optional(),
+    end_date: z.string().optional(),
+    weekday: z.number().min(0).max(6).optional(),
+    reason: z.string().trim().min(1, { message: "Reason is required" }).max(100),
+  })
+  .refine((v) => v.closure_type === "weekday" || !!v.start_date, { message: "Date is required" })
+  .refine((v) => v.closure_type !== "range" || (!!v.end_date && v.end_date >= v.start_date!), {
+    message: "End date must be on or after the start date",
+  })
+  .refine((v) => v.closure_type !== "weekday" || v.weekday !== undefined, { message: "Select a weekday" });
+
+const emptyForm = {
+  closure_type: "date" as ClosureType,
+  start_date: "",
+  end_date: "",
+  weekday: "",
+  reason: "",
+};
+
+const ClosuresSettings = () => {
+  const [closures, setClosures] = useState<CenterClosure[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+  const canEdit = can("manageSettings");
+
+  const fetchClosures = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("center_closures")
+        .select("*")
+        .eq("center_id", centerId)
+        .order("closure_type")
+        .order("weekday")
+        .order("start_date");
+
+      if (error) throw error;
+      setClosures(data || []);
+    } catch (error) {
+      console.error("Error fetching closures:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchClosures();
+  }, [fetchClosures]);
+
+  const handleAdd = async () => {
+    try {
+      const validated = closureSchema.parse({
+        closure_type: formData.closure_type,
+        start_date: formData.start_date || undefined,
+        end_date: formData.end_date || undefined,
+        weekday: formData.weekday === "" ? undefined : parseInt(formData.weekday),
+        reason: formData.reason,
+      });
+
+      setSaving(true);
+
+      const { error } = await supabase.from("center_closures").insert({
+        center_id: centerId,
+        closure_type: validated.closure_type,
+        start_date: validated.closure_type === "weekday" ? null : validated.start_date,
+        end_date: validated.closure_type === "range" ? validated.end_date : null,
+        weekday: validated.closure_type === "weekday" ? validated.weekday : null,
+        reason: validated.reason,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Closure added",
+        description: `${validated.reason} saved to the calendar.`,
+      });
+      setFormData(emptyForm);
+      fetchClosures();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (closure: CenterClosure) => {
+    try {
+      const { error } = await supabase.from("center_closures").delete().eq("id", closure.id);
+      if (error) throw error;
+      setClosures(closures.filter((c) => c.id !== closure.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Holidays & Closures
+        </CardTitle>
+        <CardDescription>
+          Days this branch is closed are not marked absent and are left out of attendance reports
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="closure-type">Type</Label>
+                <Select
+                  value={formData.closure_type}
+                  onValueChange={(value) => setFormData({ ...formData, closure_type: value as ClosureType })}
+                >
+                  <SelectTrigger id="closure-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="date">One-off date</SelectItem>
+                    <SelectItem value="range">Date range</SelectItem>
+                    <SelectItem value="weekday">Every week</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="closure-reason">Reason</Label>
+                <Input
+                  id="closure-reason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder="e.g. Jamhuri Day"
+                />
+              </div>
+              {formData.closure_type === "weekday" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="closure-weekday">Weekday</Label>
+                  <Select
+                    value={formData.weekday}
+                    onValueChange={(value) => setFormData({ ...formData, weekday: value })}
+                  >
+                    <SelectTrigger id="closure-weekday">
+                      <SelectValue placeholder="Select a day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map((day, index) => (
+                        <SelectItem key={day} value={index.toString()}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="closure-start">{formData.closure_type === "range" ? "From" : "Date"}</Label>
+                  <Input
+                    id="closure-start"
+                    type="date"
+                    value={formData.start_date}
+                    onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  />
+                </div>
+              )}
+              {formData.closure_type === "range" && (
+                <div className="space-y-2">
+                  <Label htmlFor="closure-end">To</Label>
+                  <Input
+                    id="closure-end"
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            <Button onClick={handleAdd} disabled={saving} className="w-full sm:w-auto">
+              <Plus className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Add Closure"}
+            </Button>
+          </>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : closures.length === 0 ? (
+          <p className="text-muted-foreground">No closures set. The center is treated as open every day.</p>
+        ) : (
+          <div className="space-y-3">
+            {closures.map((closure) => (
+              <div
+                key={closure.id}
+                className="flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3"
+              >
+                <div>
+                  <p className="font-medium text-foreground">{closure.reason}</p>
+                  <p className="text-sm text-muted-foreground">{describeClosure(closure)}</p>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(closure)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClosuresSettings;
@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BadgePercent, Pencil, Plus } from "lucide-react";
+import { z } from "zod";
+import {
+  DISCOUNT_SCOPE_LABELS,
+  DiscountRule,
+  DiscountScope,
+  DiscountType,
+  describeDiscountAmount,
+  describeDiscountScope,
+  discountRuleSchema,
+} from "@/lib/discounts";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { branchOrShared } from "@/lib/center";
+
+const emptyForm = {
+  name: "",
+  discount_type: "percentage" as DiscountType,
+  amount: "",
+  applies_to: "siblings" as DiscountScope,
+  sibling_position: "2",
+  starts_on: "",
+  ends_on: "",
+  active: true,
+  all_branches: false,
+};
+
+const DiscountRulesSettings = () => {
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DiscountRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+  const canEdit = can("manageSettings");
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("discount_rules")
+        .select("*")
+        .or(branchOrShared(centerId))
+        .order("active", { ascending: false })
+        .order("created_at");
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error("Error fetching discount rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openDialog = (rule: DiscountRule | null) => {
+    setEditing(rule);
+    setFormData(
+      rule
+        ? {
+            name: rule.name,
+            discount_type: rule.discount_type as DiscountType,
+            amount: rule.amount.toString(),
+            applies_to: rule.applies_to as DiscountScope,
+            sibling_position: rule.sibling_position?.toString() || "2",
+            starts_on: rule.starts_on || "",
+            ends_on: rule.ends_on || "",
+            active: rule.active,
+            all_branches: rule.center_id === null,
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = discountRuleSchema.parse({
+        ...formData,
+        amount: parseFloat(formData.amount),
+        sibling_position: formData.applies_to === "siblings" ? parseInt(formData.sibling_position) : null,
+        starts_on: formData.starts_on || null,
+        ends_on: formData.ends_on || null,
+      });
+      setSaving(true);
+
+      const ruleData = {
+        name: validated.name,
+        discount_type: validated.discount_type,
+        amount: validated.amount,
+        applies_to: validated.applies_to,
+        sibling_position: validated.sibling_position,
+        starts_on: validated.starts_on,
+        ends_on: validated.ends_on,
+        active: validated.active,
+        center_id: formData.all_branches ? null : (editing?.center_id ?? centerId),
+      };
+
+      const { error } = editing
+        ? await supabase.from("discount_rules").update(ruleData).eq("id", editing.id)
+        : await supabase.from("discount_rules").insert(ruleData);
+
+      if (error) throw error;
+
+      toast({
+        title: "Discount saved",
+        description: `${validated.name} applies to charges posted from now on.`,
+      });
+      setDialogOpen(false);
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BadgePercent className="h-5 w-5" />
+            Discounts
+          </CardTitle>
+          <CardDescription>
+            Taken off fee charges as they're posted, each as its own line. Late fees aren't discounted.
+          </CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Discount
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-muted-foreground">No discounts set up.</p>
+        ) : (
+          rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3 ${
+                rule.active ? "" : "opacity-60"
+              }`}
+            >
+              <div>
+                <p className="font-medium text-foreground">
+                  {rule.name}
+                  {!rule.active && <Badge variant="secondary" className="ml-2">Off</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {describeDiscountAmount(rule)} · {describeDiscountScope(rule)}
+                  {rule.center_id === null && " · All branches"}
+                </p>
+              </div>
+              {canEdit && (
+                <Button variant="ghost" size="icon" title="Edit discount" onClick={() => openDialog(rule)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        {rules.some((rule) => rule.applies_to === "selected") && (
+          <p className="text-sm text-muted-foreground">
+            Discounts for selected children are given from the child's profile, where any discount can also be
+            adjusted or turned off for one child.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Discount" : "Add Discount"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to charges from now on; discounts already given stay as they are.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="discount-name">Name</Label>
+              <Input
+                id="discount-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Sibling discount"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="discount-type">Type</Label>
+                <Select
+                  value={formData.discount_type}
+                  onValueChange={(value) => setFormData({ ...formData, discount_type: value as DiscountType })}
+                >
+                  <SelectTrigger id="discount-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discount-amount">{formData.discount_type === "percentage" ? "Percent" : "Amount (KSH)"}</Label>
+                <Input
+                  id="discount-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="discount-scope">Applies to</Label>
+                <Select
+                  value={formData.applies_to}
+                  onValueChange={(value) => setFormData({ ...formData, applies_to: value as DiscountScope })}
+                >
+                  <SelectTrigger id="discount-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DISCOUNT_SCOPE_LABELS) as DiscountScope[]).map((scope) => (
+                      <SelectItem key={scope} value={scope}>
+                        {DISCOUNT_SCOPE_LABELS[scope]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.applies_to === "siblings" && (
+                <div className="space-y-2">
+                  <Label htmlFor="discount-sibling">From sibling no.</Label>
+                  <Input
+                    id="discount-sibling"
+                    type="number"
+                    min="2"
+                    value={formData.sibling_position}
+                    onChange={(e) => setFormData({ ...formData, sibling_position: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            {formData.applies_to === "siblings" && (
+              <p className="text-sm text-muted-foreground">
+                Siblings are children sharing a guardian, counted in order of admission among those enrolled.
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="discount-starts">From (optional)</Label>
+                <Input
+                  id="discount-starts"
+                  type="date"
+                  value={formData.starts_on}
+                  onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discount-ends">Until (optional)</Label>
+                <Input
+                  id="discount-ends"
+                  type="date"
+                  value={formData.ends_on}
+                  onChange={(e) => setFormData({ ...formData, ends_on: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="discount-all-branches">All branches</Label>
+                <p className="text-sm text-muted-foreground">Otherwise it only applies at this branch</p>
+              </div>
+              <Switch
+                id="discount-all-branches"
+                checked={formData.all_branches}
+                onCheckedChange={(checked) => setFormData({ ...formData, all_branches: checked })}
+              />
+            </div>
+            {editing && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="discount-active">Active</Label>
+                <Switch
+                  id="discount-active"
+                  checked={formData.active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DiscountRulesSettings;
@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus, Wallet } from "lucide-react";
+import { z } from "zod";
+import {
+  BILLING_PERIODS,
+  BILLING_PERIOD_LABELS,
+  BillingPeriod,
+  FeePlan,
+  describeAbsencePolicy,
+  describeFeePlanRate,
+  feePlanSchema,
+} from "@/lib/fee-plans";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { branchOrShared } from "@/lib/center";
+
+const emptyForm = {
+  name: "",
+  rate: "",
+  billing_period: "daily" as BillingPeriod,
+  charge_absences: false,
+  active: true,
+  all_branches: false,
+};
+
+const FeePlansSettings = () => {
+  const [plans, setPlans] = useState<FeePlan[]>([]);
+  const [childCounts, setChildCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<FeePlan | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+  const canEdit = can("manageSettings");
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("fee_plans")
+        .select("*")
+        .or(branchOrShared(centerId))
+        .order("active", { ascending: false })
+        .order("name");
+
+      if (error) throw error;
+      setPlans(data || []);
+
+      const { data: children, error: childrenError } = await supabase
+        .from("children")
+        .select("fee_plan_id")
+        .eq("status", "active");
+
+      if (childrenError) throw childrenError;
+
+      const counts = new Map<string, number>();
+      children?.forEach((child) => {
+        if (child.fee_plan_id) counts.set(child.fee_plan_id, (counts.get(child.fee_plan_id) || 0) + 1);
+      });
+      setChildCounts(counts);
+    } catch (error) {
+      console.error("Error fetching fee plans:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const openDialog = (plan: FeePlan | null) => {
+    setEditing(plan);
+    setFormData(
+      plan
+        ? {
+            name: plan.name,
+            rate: plan.rate.toString(),
+            billing_period: plan.billing_period as BillingPeriod,
+            charge_absences: plan.charge_absences,
+            active: plan.active,
+            all_branches: plan.center_id === null,
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = feePlanSchema.parse({ ...formData, rate: parseFloat(formData.rate) });
+      setSaving(true);
+
+      const planData = {
+        name: validated.name,
+        rate: validated.rate,
+        billing_period: validated.billing_period,
+        charge_absences: validated.charge_absences,
+        active: validated.active,
+        center_id: formData.all_branches ? null : (editing?.center_id ?? centerId),
+      };
+
+      const { error } = editing
+        ? await supabase.from("fee_plans").update(planData).eq("id", editing.id)
+        : await supabase.from("fee_plans").insert(planData);
+
+      if (error) throw error;
+
+      toast({
+        title: "Fee plan saved",
+        description: editing
+          ? `${validated.name} updated. Charges already posted are not changed.`
+          : `${validated.name} can now be assigned to children.`,
+      });
+      setDialogOpen(false);
+      fetchPlans();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Fee Plans
+          </CardTitle>
+          <CardDescription>What each child is charged. Plans are assigned when adding or editing a child.</CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Plan
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : plans.length === 0 ? (
+          <p className="text-muted-foreground">No fee plans yet. Add one before registering children.</p>
+        ) : (
+          plans.map((plan) => (
+            <div
+              key={plan.id}
+              className={`flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3 ${
+                plan.active ? "" : "opacity-60"
+              }`}
+            >
+              <div>
+                <p className="font-medium text-foreground">
+                  {plan.name}
+                  {!plan.active && <Badge variant="secondary" className="ml-2">Retired</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {describeFeePlanRate(plan)} · {describeAbsencePolicy(plan)} · {childCounts.get(plan.id) || 0} children
+                  {plan.center_id === null && " · All branches"}
+                </p>
+              </div>
+              {canEdit && (
+                <Button variant="ghost" size="icon" title="Edit plan" onClick={() => openDialog(plan)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Fee Plan" : "Add Fee Plan"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to charges from now on; anything already billed stays as it is.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-name">Name</Label>
+              <Input
+                id="plan-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Full-time monthly"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="plan-rate">Rate (KSH)</Label>
+                <Input
+                  id="plan-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-period">Billed</Label>
+                <Select
+                  value={formData.billing_period}
+                  onValueChange={(value) => setFormData({ ...formData, billing_period: value as BillingPeriod })}
+                >
+                  <SelectTrigger id="plan-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BILLING_PERIODS.map((period) => (
+                      <SelectItem key={period} value={period}>
+                        {BILLING_PERIOD_LABELS[period]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="plan-absences">Charge absences</Label>
+                <p className="text-sm text-muted-foreground">
+                  {describeAbsencePolicy(formData)}
+                </p>
+              </div>
+              <Switch
+                id="plan-absences"
+                checked={formData.charge_absences}
+                onCheckedChange={(checked) => setFormData({ ...formData, charge_absences: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="plan-all-branches">All branches</Label>
+                <p className="text-sm text-muted-foreground">Otherwise only this branch can use it</p>
+              </div>
+              <Switch
+                id="plan-all-branches"
+                checked={formData.all_branches}
+                onCheckedChange={(checked) => setFormData({ ...formData, all_branches: checked })}
+              />
+            </div>
+            {editing && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="plan-active">Available for new children</Label>
+                  <p className="text-sm text-muted-foreground">Children already on a retired plan stay on it</p>
+                </div>
+                <Switch
+                  id="plan-active"
+                  checked={formData.active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default FeePlansSettings;
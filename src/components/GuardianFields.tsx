@@ -0,0 +1,75 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GuardianForm, RELATIONSHIPS } from "@/lib/guardians";
+
+interface GuardianFieldsProps {
+  guardian: GuardianForm;
+  onChange: (guardian: GuardianForm) => void;
+  /** Keeps input ids unique when several guardians are edited at once */
+  idPrefix: string;
+  labelClassName?: string;
+  inputClassName?: string;
+  selectContentClassName?: string;
+  selectItemClassName?: string;
+}
+
+const GuardianFields = ({
+  guardian,
+  onChange,
+  idPrefix,
+  labelClassName,
+  inputClassName,
+  selectContentClassName,
+  selectItemClassName,
+}: GuardianFieldsProps) => {
+  const field = (key: keyof GuardianForm, label: string, placeholder: string, type = "text") => (
+    <div className="space-y-2">
+      <Label htmlFor={`${idPrefix}-${key}`} className={labelClassName}>{label}</Label>
+      <Input
+        id={`${idPrefix}-${key}`}
+        type={type}
+        value={guardian[key] || ""}
+        onChange={(e) => onChange({ ...guardian, [key]: e.target.value })}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {field("name", "Name*", "Jane Doe")}
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-relationship`} className={labelClassName}>Relationship</Label>
+        <Select
+          value={guardian.relationship}
+          onValueChange={(value) => onChange({ ...guardian, relationship: value })}
+        >
+          <SelectTrigger id={`${idPrefix}-relationship`} className={inputClassName}>
+            <SelectValue placeholder="Select" />
+          </SelectTrigger>
+          <SelectContent className={selectContentClassName}>
+            {RELATIONSHIPS.map((relationship) => (
+              <SelectItem key={relationship} value={relationship} className={selectItemClassName}>
+                {relationship}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {field("phone", "Phone*", "0712345678", "tel")}
+      {field("alternate_phone", "Alternate Phone", "0798765432", "tel")}
+      {field("email", "Email", "jane@example.com", "email")}
+      {field("national_id", "National ID", "12345678")}
+    </div>
+  );
+};
+
+export default GuardianFields;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Clock } from "lucide-react";
+import { z } from "zod";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+
+const lateFeeSchema = z.object({
+  closing_time: z.string().regex(/^\d{2}:\d{2}$/, { message: "Closing time is required" }),
+  late_fee_amount: z.coerce.number().min(0, { message: "Fee can't be negative" }),
+  late_fee_block_minutes: z.coerce.number().int().min(1, { message: "Charge interval must be at least 1 minute" }),
+  late_fee_grace_minutes: z.coerce.number().int().min(0, { message: "Grace period can't be negative" }),
+});
+
+/**
+ * What a pickup this many minutes after closing costs under the given rules
+ */
+const lateFeeFor = (minutesLate: number, rules: z.infer<typeof lateFeeSchema>) => {
+  const billable = minutesLate - rules.late_fee_grace_minutes;
+  return billable > 0 ? Math.ceil(billable / rules.late_fee_block_minutes) * rules.late_fee_amount : 0;
+};
+
+const LateFeeSettings = () => {
+  const { settings, updateSettings } = useCenterSettings();
+  const [formData, setFormData] = useState({
+    closing_time: "18:00",
+    late_fee_amount: "0",
+    late_fee_block_minutes: "15",
+    late_fee_grace_minutes: "0",
+  });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const canEdit = can("manageSettings");
+
+  useEffect(() => {
+    if (settings) {
+      setFormData({
+        closing_time: settings.closing_time.slice(0, 5),
+        late_fee_amount: String(settings.late_fee_amount),
+        late_fee_block_minutes: String(settings.late_fee_block_minutes),
+        late_fee_grace_minutes: String(settings.late_fee_grace_minutes),
+      });
+    }
+  }, [settings]);
+
+  const parsed = lateFeeSchema.safeParse(formData);
+  const exampleFee = parsed.success ? lateFeeFor(20, parsed.data) : null;
+
+  const handleSave = async () => {
+    try {
+      const validated = lateFeeSchema.parse(formData);
+      setSaving(true);
+      await updateSettings(validated);
+      toast({
+        title: "Settings saved",
+        description: validated.late_fee_amount > 0
+          ? `Children collected after ${validated.closing_time} will be charged a late fee.`
+          : "Late pickup fees are turned off.",
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Closing Time & Late Pickup
+        </CardTitle>
+        <CardDescription>
+          Children checked out after closing are charged automatically. Set the fee to 0 to turn this off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="closing-time">Closing time</Label>
+            <Input
+              id="closing-time"
+              type="time"
+              value={formData.closing_time}
+              onChange={(e) => setFormData({ ...formData, closing_time: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-grace">Grace period (minutes)</Label>
+            <Input
+              id="late-fee-grace"
+              type="number"
+              min="0"
+              value={formData.late_fee_grace_minutes}
+              onChange={(e) => setFormData({ ...formData, late_fee_grace_minutes: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-amount">Fee (Ksh)</Label>
+            <Input
+              id="late-fee-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.late_fee_amount}
+              onChange={(e) => setFormData({ ...formData, late_fee_amount: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-block">For every (minutes)</Label>
+            <Input
+              id="late-fee-block"
+              type="number"
+              min="1"
+              value={formData.late_fee_block_minutes}
+              onChange={(e) => setFormData({ ...formData, late_fee_block_minutes: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Use 1 minute to charge per minute. Each started block counts in full once the grace period is over.
+          {exampleFee !== null && ` A child collected 20 minutes late is charged Ksh ${exampleFee.toFixed(2)}.`}
+        </p>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving || !settings} className="w-full sm:w-auto">
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LateFeeSettings;
@@ -1,9 +1,14 @@
 import { ReactNode } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Baby, Users, DollarSign, BarChart3, Settings, Download } from "lucide-react";
+import { Baby, Users, DollarSign, BarChart3, Settings, Download, Smartphone, History } from "lucide-react";
 import { usePwaInstall } from "@/hooks/use-pwa-install";
 import InstallGuideModal from "@/components/InstallGuideModal";
+import SyncStatus from "@/components/SyncStatus";
+import BranchSwitcher from "@/components/BranchSwitcher";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { Permission, ROLE_LABELS } from "@/lib/permissions";
 
 interface LayoutProps {
   children: ReactNode;
@@ -13,17 +18,22 @@ const Layout = ({ children }: LayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
   const { canInstall, install, showManualGuide, setShowManualGuide, isSamsungBrowser } = usePwaInstall();
+  const { profile, role, loading: staffLoading, can } = useStaff();
+  const { centers, loadingCenters } = useCenterSettings();
 
-  const navItems = [
+  const allNavItems: { path: string; label: string; icon: typeof BarChart3; permission?: Permission }[] = [
     { path: "/dashboard", label: "Dashboard", icon: BarChart3 },
     { path: "/children", label: "Children", icon: Users },
     { path: "/today", label: "Today's Payment", icon: DollarSign },
+    { path: "/mobile-money", label: "Mobile Money", icon: Smartphone, permission: "manageMobileMoney" },
+    { path: "/audit", label: "Audit Log", icon: History, permission: "viewAuditLog" },
   ];
+  const navItems = allNavItems.filter((item) => !item.permission || can(item.permission));
 
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
-      <header className="border-b bg-card shadow-sm">
+      <header className="border-b bg-card shadow-sm print:hidden">
         <div className="container mx-auto flex items-center justify-between px-4 py-4">
           <div className="flex items-center gap-2">
             <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
@@ -31,10 +41,14 @@ const Layout = ({ children }: LayoutProps) => {
             </div>
             <div>
               <h1 className="text-xl font-bold text-foreground">Daycare Management</h1>
-              <p className="text-xs text-muted-foreground">Admin Portal</p>
+              <p className="text-xs text-muted-foreground">
+                {role ? `${ROLE_LABELS[role]} Portal` : "Admin Portal"}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <BranchSwitcher />
+            <SyncStatus />
             {canInstall && (
               <Button
                 variant="outline"
@@ -65,7 +79,7 @@ const Layout = ({ children }: LayoutProps) => {
       </header>
 
       {/* Navigation */}
-      <nav className="border-b bg-card overflow-x-auto">
+      <nav className="border-b bg-card overflow-x-auto print:hidden">
         <div className="container mx-auto px-2 sm:px-4">
           <div className="flex gap-1 min-w-max">
             {navItems.map((item) => {
@@ -88,7 +102,23 @@ const Layout = ({ children }: LayoutProps) => {
       </nav>
 
       {/* Main Content */}
-      <main className="container mx-auto px-4 py-6">{children}</main>
+      <main className="container mx-auto px-4 py-6 print:p-0">
+        {!staffLoading && !role ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {profile?.disabled_at
+              ? "Your account has been disabled. Contact the center owner."
+              : "Your account has not been given staff access. Ask the center owner to invite you, or use the parent portal at /portal."}
+          </div>
+        ) : loadingCenters ? (
+          <div className="text-center py-8">Loading...</div>
+        ) : centers.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            You haven't been assigned to a branch yet. Ask the center owner to assign you.
+          </div>
+        ) : (
+          children
+        )}
+      </main>
       <InstallGuideModal open={showManualGuide} onOpenChange={setShowManualGuide} isSamsungBrowser={isSamsungBrowser} />
     </div>
   );
@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Bell } from "lucide-react";
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_STATUS_LABELS,
+  NotificationChannel,
+  NotificationStatus,
+  OutboxNotification,
+} from "@/lib/notifications";
+
+interface NotificationHistoryProps {
+  childId: string;
+}
+
+type HistoryRow = OutboxNotification & { guardians: { name: string } | null };
+
+const STATUS_VARIANTS: Record<NotificationStatus, "default" | "destructive" | "secondary" | "outline"> = {
+  pending: "outline",
+  sending: "outline",
+  sent: "default",
+  failed: "destructive",
+};
+
+/**
+ * Check-in and check-out messages sent to the child's guardians, newest first
+ */
+const NotificationHistory = ({ childId }: NotificationHistoryProps) => {
+  const [notifications, setNotifications] = useState<HistoryRow[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from("notification_outbox")
+      .select("*, guardians(name)")
+      .eq("child_id", childId)
+      .order("created_at", { ascending: false })
+      .limit(50)
+      .then(({ data }) => setNotifications((data as HistoryRow[]) || []));
+  }, [childId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Parent Notifications
+        </CardTitle>
+        <CardDescription>
+          Sent on check-in and check-out to guardians who chose a channel on their profile. Failed sends are retried
+          automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {notifications.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No notifications sent</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Guardian</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Message</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notifications.map((notification) => (
+                  <TableRow key={notification.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(notification.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell>{NOTIFICATION_EVENT_LABELS[notification.event] ?? notification.event}</TableCell>
+                    <TableCell>
+                      {notification.guardians?.name ?? "-"}
+                      <span className="block text-xs text-muted-foreground">{notification.recipient}</span>
+                    </TableCell>
+                    <TableCell>
+                      {NOTIFICATION_CHANNEL_LABELS[notification.channel as NotificationChannel]}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[notification.status as NotificationStatus]}>
+                        {NOTIFICATION_STATUS_LABELS[notification.status as NotificationStatus]}
+                      </Badge>
+                      {notification.attempts > 1 && (
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {notification.attempts} attempts
+                        </span>
+                      )}
+                      {notification.status !== "sent" && notification.last_error && (
+                        <span className="block text-xs text-destructive mt-1">{notification.last_error}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground max-w-xs">{notification.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationHistory;
@@ -20,6 +20,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+import PaymentMethodFields from "@/components/PaymentMethodFields";
+import { recordLedgerPayment } from "@/lib/ledger";
+import { EMPTY_PAYMENT_METHOD } from "@/lib/payment-methods";
 import { z } from "zod";
 
 const paymentSchema = z.object({
@@ -37,14 +42,17 @@ interface PaymentDialogProps {
 }
 
 const PaymentDialog = ({ open, onOpenChange, onSuccess }: PaymentDialogProps) => {
+  const { centerId, getToday } = useCenterSettings();
+  const { can } = useStaff();
   const [children, setChildren] = useState<any[]>([]);
   const [formData, setFormData] = useState({
     child_id: "",
     amount: "",
-    payment_date: new Date().toISOString().split("T")[0],
+    payment_date: getToday(),
     status: "paid",
     note: "",
   });
+  const [paymentMethod, setPaymentMethod] = useState(EMPTY_PAYMENT_METHOD);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
@@ -54,15 +62,16 @@ const PaymentDialog = ({ open, onOpenChange, onSuccess }: PaymentDialogProps) =>
       setFormData({
         child_id: "",
         amount: "",
-        payment_date: new Date().toISOString().split("T")[0],
+        payment_date: getToday(),
         status: "paid",
         note: "",
       });
+      setPaymentMethod(EMPTY_PAYMENT_METHOD);
     }
   }, [open]);
 
   const fetchChildren = async () => {
-    const { data } = await supabase.from("children").select("id, name").order("name");
+    const { data } = await supabase.from("children").select("id, name").eq("center_id", centerId).order("name");
     setChildren(data || []);
   };
 
@@ -76,16 +85,29 @@ const PaymentDialog = ({ open, onOpenChange, onSuccess }: PaymentDialogProps) =>
 
       setLoading(true);
 
-      const { error } = await supabase.from("payments").insert([{
+      const { data: payment, error } = await supabase.from("payments").insert([{
         child_id: validated.child_id,
         amount: validated.amount,
         payment_date: validated.payment_date,
         status: validated.status,
         note: validated.note || null,
-      }]);
+      }]).select("id").single();
 
       if (error) throw error;
 
+      // Money received goes on the child's account with how it was paid. Only
+      // owners can book it on another day; everyone else takes it today.
+      if (validated.status === "paid" && validated.amount > 0) {
+        await recordLedgerPayment(validated.child_id, validated.amount, {
+          paymentId: payment.id,
+          description: validated.note || "Payment",
+          entryDate: can("backdateEntries") ? validated.payment_date : getToday(),
+          method: paymentMethod.method,
+          reference: paymentMethod.reference.trim(),
+          receivedBy: paymentMethod.receivedBy,
+        });
+      }
+
       toast({
         title: "Success",
         description: "Payment recorded successfully",
@@ -173,6 +195,9 @@ const PaymentDialog = ({ open, onOpenChange, onSuccess }: PaymentDialogProps) =>
               </SelectContent>
             </Select>
           </div>
+          {formData.status === "paid" && (
+            <PaymentMethodFields value={paymentMethod} onChange={setPaymentMethod} />
+          )}
           <div className="space-y-2">
             <Label htmlFor="note">Note (Optional)</Label>
             <Textarea
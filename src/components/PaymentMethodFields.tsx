@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  PaymentMethod,
+  PaymentMethodValue,
+  needsReference,
+} from "@/lib/payment-methods";
+import { useStaff } from "@/contexts/StaffContext";
+
+interface PaymentMethodFieldsProps {
+  value: PaymentMethodValue;
+  onChange: (value: PaymentMethodValue) => void;
+  idPrefix?: string;
+}
+
+/**
+ * How a payment was received and by whom. Owners can pick another staff member;
+ * everyone else is recorded as receiving it themselves.
+ */
+const PaymentMethodFields = ({ value, onChange, idPrefix = "payment" }: PaymentMethodFieldsProps) => {
+  const { profile, can } = useStaff();
+  const canChooseReceiver = can("manageStaff");
+  const [staff, setStaff] = useState<{ user_id: string; email: string }[]>([]);
+
+  useEffect(() => {
+    if (!canChooseReceiver) return;
+    supabase
+      .from("staff_profiles")
+      .select("user_id, email")
+      .is("disabled_at", null)
+      .order("email")
+      .then(({ data }) => setStaff(data || []));
+  }, [canChooseReceiver]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-method`}>Method</Label>
+          <Select
+            value={value.method}
+            onValueChange={(method) => onChange({ ...value, method: method as PaymentMethod })}
+          >
+            <SelectTrigger id={`${idPrefix}-method`} className="bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map((method) => (
+                <SelectItem key={method} value={method}>
+                  {PAYMENT_METHOD_LABELS[method]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-reference`}>Reference</Label>
+          <Input
+            id={`${idPrefix}-reference`}
+            value={value.reference}
+            onChange={(e) => onChange({ ...value, reference: e.target.value })}
+            placeholder={needsReference(value.method) ? "Transaction / cheque no." : "Optional"}
+            className="bg-background"
+          />
+        </div>
+      </div>
+      {canChooseReceiver ? (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-received-by`}>Received by</Label>
+          <Select
+            value={value.receivedBy || profile?.user_id || ""}
+            onValueChange={(receivedBy) => onChange({ ...value, receivedBy })}
+          >
+            <SelectTrigger id={`${idPrefix}-received-by`} className="bg-background">
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              {staff.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Received by {profile?.email ?? "you"}</p>
+      )}
+    </div>
+  );
+};
+
+export default PaymentMethodFields;
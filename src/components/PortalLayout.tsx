@@ -0,0 +1,92 @@
+import { ReactNode, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Baby, LogOut } from "lucide-react";
+import PortalLogin from "@/components/PortalLogin";
+import { linkGuardianAccount } from "@/lib/portal";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+/**
+ * Everything under /portal: signs the guardian in, links the account to their
+ * guardian record and frames the page. Nothing here uses the staff layout.
+ */
+const PortalLayout = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [linked, setLinked] = useState<number | null>(null);
+  const [linkError, setLinkError] = useState("");
+  const { settings, refreshSettings } = useCenterSettings();
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      setSession(session);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    setLinked(null);
+    setLinkError("");
+    if (!userId) return;
+
+    linkGuardianAccount()
+      .then((count) => {
+        setLinked(count);
+        if (count > 0) refreshSettings();
+      })
+      .catch((error) => setLinkError((error as Error).message));
+  }, [userId, refreshSettings]);
+
+  const handleSignOut = () => supabase.auth.signOut();
+
+  if (loading) {
+    return <div className="flex min-h-screen items-center justify-center">Loading...</div>;
+  }
+
+  if (!session) {
+    return <PortalLogin />;
+  }
+
+  let content = children;
+  if (linkError) {
+    content = <div className="text-center py-12 text-destructive">{linkError}</div>;
+  } else if (linked === null) {
+    content = <div className="text-center py-12">Loading...</div>;
+  } else if (linked === 0) {
+    content = (
+      <div className="text-center py-12 text-muted-foreground">
+        No children are linked to {session.user.email || session.user.phone}. Ask the center to check the contact
+        details on your guardian record, then sign in again.
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card print:hidden">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Baby className="h-6 w-6 text-primary" />
+            <h1 className="text-lg font-bold text-foreground">{settings?.center_name || "Parent Portal"}</h1>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </Button>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-6 print:p-0">{content}</main>
+    </div>
+  );
+};
+
+export default PortalLayout;
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { Baby } from "lucide-react";
+import { z } from "zod";
+import { phoneNumber } from "@/lib/guardians";
+import { PortalContact, sendPortalCode, verifyPortalCode } from "@/lib/portal";
+
+const CODE_LENGTH = 6;
+
+const emailSchema = z.string().trim().email({ message: "Invalid email address" });
+
+/**
+ * Guardian sign-in with a one-time code sent to the phone or email the center has on record
+ */
+const PortalLogin = () => {
+  const [method, setMethod] = useState<"phone" | "email">("phone");
+  const [value, setValue] = useState("");
+  const [sentTo, setSentTo] = useState<PortalContact | null>(null);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleSend = async () => {
+    try {
+      const contact: PortalContact =
+        method === "email"
+          ? { email: emailSchema.parse(value) }
+          : { phone: phoneNumber("Phone number").parse(value) };
+
+      setLoading(true);
+      await sendPortalCode(contact);
+      setSentTo(contact);
+      setCode("");
+      toast({
+        title: "Code sent",
+        description:
+          method === "email"
+            ? "Check your email for the code, or open the link in it."
+            : "Check your messages for the code.",
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // onComplete hands over the code before the state has caught up
+  const handleVerify = async (token = code) => {
+    if (!sentTo || token.length !== CODE_LENGTH) return;
+
+    try {
+      setLoading(true);
+      await verifyPortalCode(sentTo, token);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/10 via-background to-secondary/10 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-primary/10 p-3">
+              <Baby className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">Parent Portal</CardTitle>
+          <CardDescription>
+            See your children's attendance, balance and receipts. Use the phone number or email you gave the center.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sentTo ? (
+            <>
+              <div className="space-y-2">
+                <Label>Enter the {CODE_LENGTH}-digit code</Label>
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={CODE_LENGTH}
+                    value={code}
+                    onChange={setCode}
+                    onComplete={(token: string) => handleVerify(token)}
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                <p className="text-sm text-muted-foreground text-center">
+                  Sent to {"email" in sentTo ? sentTo.email : sentTo.phone}
+                </p>
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => handleVerify()}
+                disabled={loading || code.length !== CODE_LENGTH}
+              >
+                {loading ? "Checking..." : "Sign In"}
+              </Button>
+              <Button variant="ghost" className="w-full" onClick={() => setSentTo(null)} disabled={loading}>
+                Use a different {method === "email" ? "email" : "number"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Tabs
+                value={method}
+                onValueChange={(next) => {
+                  setMethod(next as "phone" | "email");
+                  setValue("");
+                }}
+              >
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="phone">Phone</TabsTrigger>
+                  <TabsTrigger value="email">Email</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <div className="space-y-2">
+                <Label htmlFor="portal-contact">{method === "email" ? "Email" : "Phone number"}</Label>
+                <Input
+                  id="portal-contact"
+                  type={method === "email" ? "email" : "tel"}
+                  placeholder={method === "email" ? "you@example.com" : "0712345678"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSend()}
+                />
+              </div>
+              <Button className="w-full" onClick={handleSend} disabled={loading}>
+                {loading ? "Sending..." : "Send Code"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PortalLogin;
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MessageSquare } from "lucide-react";
+import { SMS_STATUS_LABELS, SmsMessage, SmsStatus } from "@/lib/sms";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+interface ReminderLogProps {
+  /** Bumped after sending so the log reloads */
+  refreshKey: number;
+}
+
+type LogRow = SmsMessage & { children: { name: string } | null };
+
+const STATUS_VARIANTS: Record<SmsStatus, "default" | "destructive" | "secondary"> = {
+  sent: "default",
+  failed: "destructive",
+  skipped: "secondary",
+};
+
+/**
+ * The most recent fee reminders, whether sent by staff or on the schedule
+ */
+const ReminderLog = ({ refreshKey }: ReminderLogProps) => {
+  const [messages, setMessages] = useState<LogRow[]>([]);
+  const { centerId } = useCenterSettings();
+
+  useEffect(() => {
+    supabase
+      .from("sms_messages")
+      .select("*, children!inner(name)")
+      .eq("children.center_id", centerId)
+      .eq("kind", "fee_reminder")
+      .order("created_at", { ascending: false })
+      .limit(50)
+      .then(({ data }) => setMessages((data as LogRow[]) || []));
+  }, [refreshKey, centerId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Reminder Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {messages.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No reminders sent yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Child</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {messages.map((message) => (
+                  <TableRow key={message.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(message.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="font-medium">{message.children?.name ?? "-"}</TableCell>
+                    <TableCell>{message.phone || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[message.status as SmsStatus]}>
+                        {SMS_STATUS_LABELS[message.status as SmsStatus]}
+                      </Badge>
+                      {message.detail && (
+                        <span className="block text-xs text-muted-foreground mt-1">{message.detail}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground max-w-xs">{message.message}</TableCell>
+                    <TableCell>{message.trigger === "schedule" ? "Schedule" : message.sent_by_email || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReminderLog;
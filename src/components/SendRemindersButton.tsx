@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquare } from "lucide-react";
+import { invokeEdgeFunction } from "@/lib/edge-functions";
+import { ReminderRunResult } from "@/lib/sms";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+interface SendRemindersButtonProps {
+  /** Children with a balance; the function checks balances again before sending */
+  childCount: number;
+  onSent: () => void;
+}
+
+/**
+ * Texts a fee reminder to the guardians of every child who owes a balance
+ */
+const SendRemindersButton = ({ childCount, onSent }: SendRemindersButtonProps) => {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const { centerId } = useCenterSettings();
+
+  if (!can("sendReminders")) return null;
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const result = await invokeEdgeFunction<ReminderRunResult>("fee-reminders", { centerId });
+      toast({
+        title: "Reminders sent",
+        description: `${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped.`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+      onSent();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setConfirmOpen(true)} disabled={sending}>
+        <MessageSquare className="h-4 w-4 mr-2" />
+        {sending ? "Sending..." : "Send Reminders"}
+      </Button>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send fee reminders?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The primary guardian of each of the {childCount} {childCount === 1 ? "child" : "children"} with a
+              balance will get an SMS with the amount owed. Guardians who opted out are skipped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSend} disabled={sending}>
+              Send
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default SendRemindersButton;
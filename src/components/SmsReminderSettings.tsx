@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { MessageSquare } from "lucide-react";
+import { z } from "zod";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+import { REMINDER_PLACEHOLDERS, renderReminder } from "@/lib/sms";
+
+const optionalTime = z.string().regex(/^(\d{2}:\d{2})?$/, { message: "Enter quiet hours as HH:MM" });
+
+const reminderSchema = z
+  .object({
+    sms_reminder_template: z.string().trim().min(1, { message: "The message can't be empty" }).max(480, {
+      message: "Keep the message under 480 characters",
+    }),
+    sms_quiet_start: optionalTime,
+    sms_quiet_end: optionalTime,
+    sms_reminder_interval_days: z.coerce.number().int().min(1, { message: "Remind at most once a day" }),
+  })
+  .refine((values) => !values.sms_quiet_start === !values.sms_quiet_end, {
+    message: "Set both ends of the quiet hours, or neither",
+  });
+
+const SmsReminderSettings = () => {
+  const { settings, updateSettings } = useCenterSettings();
+  const [formData, setFormData] = useState({
+    sms_reminder_template: "",
+    sms_quiet_start: "",
+    sms_quiet_end: "",
+    sms_reminder_interval_days: "7",
+  });
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+  const canEdit = can("manageSettings");
+
+  useEffect(() => {
+    if (settings) {
+      setFormData({
+        sms_reminder_template: settings.sms_reminder_template,
+        sms_quiet_start: settings.sms_quiet_start?.slice(0, 5) ?? "",
+        sms_quiet_end: settings.sms_quiet_end?.slice(0, 5) ?? "",
+        sms_reminder_interval_days: String(settings.sms_reminder_interval_days),
+      });
+    }
+  }, [settings]);
+
+  const preview = renderReminder(formData.sms_reminder_template, {
+    child: "Amani",
+    amount: "1500.00",
+    guardian: "Grace",
+    center: settings?.center_name || "the daycare",
+  });
+
+  const handleSave = async () => {
+    try {
+      const validated = reminderSchema.parse(formData);
+      setSaving(true);
+      await updateSettings({
+        ...validated,
+        sms_quiet_start: validated.sms_quiet_start || null,
+        sms_quiet_end: validated.sms_quiet_end || null,
+      });
+      toast({
+        title: "Settings saved",
+        description: validated.sms_quiet_start
+          ? `Reminders won't be sent between ${validated.sms_quiet_start} and ${validated.sms_quiet_end}.`
+          : "Reminders can be sent at any time.",
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          SMS Reminders
+        </CardTitle>
+        <CardDescription>
+          Fee reminders texted to the primary guardian of each child with a balance, from Reports or on a schedule.
+          Guardians can be opted out from their profile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="sms-reminder-template">Message</Label>
+          <Textarea
+            id="sms-reminder-template"
+            value={formData.sms_reminder_template}
+            onChange={(e) => setFormData({ ...formData, sms_reminder_template: e.target.value })}
+            rows={3}
+            disabled={!canEdit}
+          />
+          <p className="text-sm text-muted-foreground">
+            Placeholders: {REMINDER_PLACEHOLDERS.join(", ")}. {formData.sms_reminder_template.length} characters.
+          </p>
+          {formData.sms_reminder_template.trim() && (
+            <p className="text-sm p-3 bg-muted/50 rounded-lg">{preview}</p>
+          )}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sms-quiet-start">Quiet hours from</Label>
+            <Input
+              id="sms-quiet-start"
+              type="time"
+              value={formData.sms_quiet_start}
+              onChange={(e) => setFormData({ ...formData, sms_quiet_start: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sms-quiet-end">Until</Label>
+            <Input
+              id="sms-quiet-end"
+              type="time"
+              value={formData.sms_quiet_end}
+              onChange={(e) => setFormData({ ...formData, sms_quiet_end: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sms-reminder-interval">Scheduled reminders every (days)</Label>
+            <Input
+              id="sms-reminder-interval"
+              type="number"
+              min="1"
+              value={formData.sms_reminder_interval_days}
+              onChange={(e) => setFormData({ ...formData, sms_reminder_interval_days: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Quiet hours are in the center's timezone; clear both to allow sending at any time. A scheduled run skips
+          children already reminded within the interval.
+        </p>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={saving || !settings} className="w-full sm:w-auto">
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SmsReminderSettings;
@@ -0,0 +1,439 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Ban, Building2, Copy, Mail, RotateCcw, Trash2, UserPlus, X } from "lucide-react";
+import { z } from "zod";
+import { useStaff } from "@/contexts/StaffContext";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { ROLE_LABELS, STAFF_ROLES, StaffRole } from "@/lib/permissions";
+import {
+  StaffInvitation,
+  StaffMember,
+  fetchStaffBranches,
+  inviteStaff,
+  inviteUrl,
+  listStaff,
+  removeStaff,
+  revokeInvitation,
+  setStaffBranch,
+  setStaffDisabled,
+} from "@/lib/staff";
+
+const inviteSchema = z.object({
+  email: z.string().trim().email({ message: "Invalid email address" }),
+  role: z.enum(["owner", "cashier", "teacher", "read_only"]),
+});
+
+const StaffSettings = () => {
+  const { profile, can } = useStaff();
+  const canManage = can("manageStaff");
+  const { centers, centerId } = useCenterSettings();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  // Branch ids by user id
+  const [branches, setBranches] = useState<Map<string, string[]>>(new Map());
+  const [invitations, setInvitations] = useState<StaffInvitation[]>([]);
+  const [inviteForm, setInviteForm] = useState({ email: "", role: "teacher" as StaffRole });
+  const [memberToRemove, setMemberToRemove] = useState<StaffMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (canManage) {
+      fetchStaff();
+    } else {
+      setLoading(false);
+    }
+  }, [canManage]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchStaff = async () => {
+    try {
+      const [data, assignments] = await Promise.all([listStaff(), fetchStaffBranches()]);
+      setStaff(data.staff);
+      setInvitations(data.invitations);
+      setBranches(assignments);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyInviteLink = async (invitation: StaffInvitation) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invitation.token));
+      toast({
+        title: "Invite link copied",
+        description: `Send it to ${invitation.email} to finish setting up their account.`,
+      });
+    } catch {
+      toast({
+        title: "Invite link",
+        description: inviteUrl(invitation.token),
+      });
+    }
+  };
+
+  const handleInvite = async () => {
+    try {
+      const validated = inviteSchema.parse(inviteForm);
+      setSaving(true);
+
+      // New staff start in the branch being worked in
+      const { invitation } = await inviteStaff(validated.email, validated.role, centerId);
+      setInviteForm({ email: "", role: validated.role });
+      await copyInviteLink(invitation);
+      fetchStaff();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      } else {
+        showError(error);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: StaffInvitation) => {
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations(invitations.filter((i) => i.id !== invitation.id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: StaffRole) => {
+    try {
+      const { error } = await supabase
+        .from("staff_profiles")
+        .update({ role })
+        .eq("user_id", member.user_id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Role updated",
+        description: `${member.email} is now ${ROLE_LABELS[role].toLowerCase()}.`,
+      });
+      setStaff(staff.map((s) => (s.user_id === member.user_id ? { ...s, role } : s)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggleBranch = async (member: StaffMember, branchId: string) => {
+    const current = branches.get(member.user_id) || [];
+    const assigned = !current.includes(branchId);
+    try {
+      await setStaffBranch(member.user_id, branchId, assigned);
+      setBranches(
+        new Map(branches).set(
+          member.user_id,
+          assigned ? [...current, branchId] : current.filter((id) => id !== branchId)
+        )
+      );
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const centerName = (id: string | null) => centers.find((center) => center.id === id)?.name;
+
+  const handleToggleDisabled = async (member: StaffMember) => {
+    const disable = !member.disabled_at;
+    try {
+      await setStaffDisabled(member.user_id, disable);
+      toast({
+        title: disable ? "Account disabled" : "Account enabled",
+        description: disable
+          ? `${member.email} can no longer sign in.`
+          : `${member.email} can sign in again.`,
+      });
+      fetchStaff();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!memberToRemove) return;
+    try {
+      await removeStaff(memberToRemove.user_id);
+      toast({
+        title: "User removed",
+        description: `${memberToRemove.email} has been removed.`,
+      });
+      setStaff(staff.filter((s) => s.user_id !== memberToRemove.user_id));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setMemberToRemove(null);
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Email
+          </CardTitle>
+          <CardDescription>Your staff account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {profile ? (
+            <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/50 p-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+                <Mail className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium text-foreground">{profile.email}</p>
+                <span className="text-xs text-muted-foreground">
+                  {ROLE_LABELS[profile.role as StaffRole]}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No staff account found.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Staff
+        </CardTitle>
+        <CardDescription>Invite staff, set their roles and branches, and remove access</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-[1fr_160px_auto] sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={inviteForm.email}
+              onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+              placeholder="teacher@daycare.com"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select
+              value={inviteForm.role}
+              onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as StaffRole })}
+            >
+              <SelectTrigger id="invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFF_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleInvite} disabled={saving}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            {saving ? "Inviting..." : "Invite"}
+          </Button>
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-muted-foreground">Pending invitations</p>
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expires_at).getTime() < Date.now();
+              return (
+                <div
+                  key={invitation.id}
+                  className="flex items-center justify-between gap-2 rounded-lg border border-dashed border-border p-3"
+                >
+                  <div>
+                    <p className="font-medium text-foreground">{invitation.email}</p>
+                    <span className="text-xs text-muted-foreground">
+                      {ROLE_LABELS[invitation.role]} ·{" "}
+                      {centers.length > 1 && invitation.center_id && `${centerName(invitation.center_id)} · `}
+                      {expired
+                        ? "Expired"
+                        : `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    {!expired && (
+                      <Button variant="ghost" size="icon" title="Copy invite link" onClick={() => copyInviteLink(invitation)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" title="Revoke invitation" onClick={() => handleRevoke(invitation)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-3">
+            {staff.map((member) => {
+              const isSelf = member.user_id === profile?.user_id;
+              return (
+                <div
+                  key={member.user_id}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border bg-muted/50 p-3"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+                      <Mail className="h-5 w-5 text-primary" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-foreground">
+                        {member.email}
+                        {member.disabled_at && (
+                          <Badge variant="secondary" className="ml-2">Disabled</Badge>
+                        )}
+                      </p>
+                      <span className="text-xs text-muted-foreground">
+                        {isSelf
+                          ? `${ROLE_LABELS[member.role]} (You)`
+                          : member.last_sign_in_at
+                            ? `Last signed in ${new Date(member.last_sign_in_at).toLocaleDateString()}`
+                            : "Never signed in"}
+                      </span>
+                    </div>
+                  </div>
+                  {!isSelf && (
+                    <div className="flex items-center gap-1">
+                      <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as StaffRole)}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STAFF_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={member.disabled_at ? "Enable account" : "Disable account"}
+                        onClick={() => handleToggleDisabled(member)}
+                      >
+                        {member.disabled_at ? <RotateCcw className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove user"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setMemberToRemove(member)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  {/* Owners work in every branch */}
+                  {member.role !== "owner" && (
+                    <div className="flex w-full flex-wrap items-center gap-1">
+                      <Building2 className="h-4 w-4 text-muted-foreground" />
+                      {centers.map((center) => {
+                        const assigned = (branches.get(member.user_id) || []).includes(center.id);
+                        return (
+                          <Button
+                            key={center.id}
+                            variant={assigned ? "secondary" : "outline"}
+                            size="sm"
+                            className={`h-7 ${assigned ? "" : "text-muted-foreground"}`}
+                            title={assigned ? `Remove from ${center.name}` : `Assign to ${center.name}`}
+                            disabled={isSelf}
+                            onClick={() => handleToggleBranch(member, center.id)}
+                          >
+                            {center.name}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete User</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {memberToRemove?.email}? Their account will be removed and they
+              will no longer be able to sign in. Records they created are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default StaffSettings;
@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CloudOff, CloudUpload, RefreshCw } from "lucide-react";
+import { useOfflineSync } from "@/contexts/OfflineSyncContext";
+import type { DailyWrite } from "@/lib/daily-attendance";
+
+const describeWrite = (write: DailyWrite) =>
+  `${write.childName}: ${write.kind === "checkout" ? `checked out by ${write.pickup.name}` : write.status} (${new Date(write.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })})`;
+
+/**
+ * Header indicator for attendance and payments captured offline
+ */
+const SyncStatus = () => {
+  const { online, syncing, pendingWrites, syncNow, keepWrite, discardWrite } = useOfflineSync();
+  const { toast } = useToast();
+
+  const conflicts = pendingWrites.filter((q) => q.conflict);
+  const waiting = pendingWrites.length - conflicts.length;
+
+  if (online && pendingWrites.length === 0) return null;
+
+  const resolve = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const Icon = conflicts.length > 0 ? AlertTriangle : !online ? CloudOff : syncing ? RefreshCw : CloudUpload;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`gap-1.5 ${conflicts.length > 0 ? "border-destructive text-destructive" : ""}`}
+        >
+          <Icon className={`h-4 w-4 ${syncing ? "animate-spin" : ""}`} />
+          <span className="hidden sm:inline">{online ? "Pending" : "Offline"}</span>
+          {pendingWrites.length > 0 && <span>{pendingWrites.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="font-medium">{online ? "Back online" : "You're offline"}</p>
+          <p className="text-sm text-muted-foreground">
+            {waiting > 0
+              ? `${waiting} change${waiting === 1 ? "" : "s"} saved on this device will sync ${online ? "shortly" : "when the connection returns"}.`
+              : "Attendance and payments are saved on this device until the connection returns."}
+          </p>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-destructive">Needs attention</p>
+            {conflicts.map((queued) => (
+              <div key={queued.id} className="space-y-2 rounded-lg border border-border p-2">
+                <p className="text-sm font-medium">{describeWrite(queued.write)}</p>
+                <p className="text-xs text-muted-foreground">{queued.conflict}</p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => resolve(() => keepWrite(queued.id))}>
+                    Keep mine
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => resolve(() => discardWrite(queued.id))}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {online && waiting > 0 && (
+          <Button size="sm" variant="outline" className="w-full" onClick={syncNow} disabled={syncing}>
+            {syncing ? "Syncing..." : "Sync now"}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatus;
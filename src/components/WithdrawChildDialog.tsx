@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { CHILD_STATUS_LABELS, LEAVING_STATUSES } from "@/lib/child-status";
+import { z } from "zod";
+
+const withdrawSchema = z.object({
+  status: z.enum(["withdrawn", "graduated"]),
+  left_on: z.string().min(1, { message: "Leaving date is required" }),
+  leaving_reason: z.string().trim().max(500, { message: "Reason must be less than 500 characters" }).optional(),
+});
+
+interface WithdrawChildDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  child: { id: string; name: string; admission_date: string };
+  onSuccess: () => void;
+}
+
+const WithdrawChildDialog = ({ open, onOpenChange, child, onSuccess }: WithdrawChildDialogProps) => {
+  const { getToday } = useCenterSettings();
+  const [formData, setFormData] = useState({ status: "withdrawn", left_on: getToday(), leaving_reason: "" });
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setFormData({ status: "withdrawn", left_on: getToday(), leaving_reason: "" });
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      const validated = withdrawSchema.parse({
+        ...formData,
+        leaving_reason: formData.leaving_reason || undefined,
+      });
+
+      if (validated.left_on < child.admission_date) {
+        toast({
+          title: "Validation Error",
+          description: "The last day can't be before the admission date",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setLoading(true);
+
+      const { error } = await supabase
+        .from("children")
+        .update({
+          status: validated.status,
+          left_on: validated.left_on,
+          leaving_reason: validated.leaving_reason || null,
+        })
+        .eq("id", child.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${child.name} marked as ${CHILD_STATUS_LABELS[validated.status].toLowerCase()}`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast({
+          title: "Validation Error",
+          description: error.errors[0].message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Withdraw {child.name}</DialogTitle>
+          <DialogDescription>
+            They'll leave the children list and daily attendance. Their payment history and any balance
+            they owe are kept, and they can be re-admitted later.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="leaving-status">Status</Label>
+            <Select value={formData.status} onValueChange={(value) => setFormData({ ...formData, status: value })}>
+              <SelectTrigger id="leaving-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAVING_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {CHILD_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="left-on">Last day attended</Label>
+            <Input
+              id="left-on"
+              type="date"
+              value={formData.left_on}
+              onChange={(e) => setFormData({ ...formData, left_on: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leaving-reason">Reason (Optional)</Label>
+            <Textarea
+              id="leaving-reason"
+              value={formData.leaving_reason}
+              onChange={(e) => setFormData({ ...formData, leaving_reason: e.target.value })}
+              placeholder="e.g. Family relocated"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading}>
+            {loading ? "Saving..." : "Withdraw"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WithdrawChildDialog;
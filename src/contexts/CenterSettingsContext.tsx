@@ -0,0 +1,130 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { DEFAULT_TIMEZONE, businessDate } from "@/lib/dates";
+
+export type CenterSettings = Tables<"center_settings">;
+export type Center = Tables<"centers">;
+
+// Remembers the branch last worked on in this browser
+const CENTER_STORAGE_KEY = "centerId";
+
+interface CenterSettingsContextType {
+  /** Branches the signed-in staff member can work in, oldest first */
+  centers: Center[];
+  loadingCenters: boolean;
+  /** The branch being worked in; pages show and record data for this branch only */
+  centerId: string | null;
+  setCenterId: (centerId: string) => void;
+  /** Settings of the selected branch */
+  settings: CenterSettings | null;
+  timezone: string;
+  /** Today's date (YYYY-MM-DD) in the center's timezone */
+  getToday: () => string;
+  updateSettings: (changes: TablesUpdate<"center_settings">) => Promise<void>;
+  /** Reload branches and settings, e.g. once a portal account has been linked and can read them */
+  refreshSettings: () => Promise<void>;
+}
+
+const CenterSettingsContext = createContext<CenterSettingsContextType | undefined>(undefined);
+
+export const CenterSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<CenterSettings | null>(null);
+  const [centers, setCenters] = useState<Center[]>([]);
+  const [loadingCenters, setLoadingCenters] = useState(true);
+  const [selectedCenterId, setSelectedCenterId] = useState(() => localStorage.getItem(CENTER_STORAGE_KEY));
+
+  // A remembered branch the current user can't see falls back to their first
+  const centerId = centers.some((center) => center.id === selectedCenterId)
+    ? selectedCenterId
+    : centers[0]?.id ?? null;
+
+  const setCenterId = useCallback((id: string) => {
+    localStorage.setItem(CENTER_STORAGE_KEY, id);
+    setSelectedCenterId(id);
+  }, []);
+
+  const fetchCenters = useCallback(async () => {
+    const { data, error } = await supabase.from("centers").select("*").order("created_at").order("id");
+    setLoadingCenters(false);
+    if (error) {
+      console.error("Error fetching centers:", error);
+      return;
+    }
+    setCenters(data);
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    // Portal guardians see no branches, only the settings of their children's branch
+    const query = supabase.from("center_settings").select("*");
+    const { data, error } = await (centerId ? query.eq("center_id", centerId) : query.order("id").limit(1))
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching center settings:", error);
+      return;
+    }
+    setSettings(data);
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchCenters();
+
+    // Branches and settings are only readable once signed in
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN") {
+        setLoadingCenters(true);
+        fetchCenters();
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [fetchCenters]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const refreshSettings = useCallback(async () => {
+    await Promise.all([fetchCenters(), fetchSettings()]);
+  }, [fetchCenters, fetchSettings]);
+
+  const timezone = settings?.timezone || DEFAULT_TIMEZONE;
+
+  const getToday = useCallback(() => businessDate(timezone), [timezone]);
+
+  const updateSettings = async (changes: TablesUpdate<"center_settings">) => {
+    const { data, error } = await supabase
+      .from("center_settings")
+      .update(changes)
+      .eq("center_id", centerId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    setSettings(data);
+  };
+
+  return (
+    <CenterSettingsContext.Provider
+      value={{
+        centers,
+        loadingCenters,
+        centerId,
+        setCenterId,
+        settings,
+        timezone,
+        getToday,
+        updateSettings,
+        refreshSettings,
+      }}
+    >
+      {children}
+    </CenterSettingsContext.Provider>
+  );
+};
+
+export const useCenterSettings = () => {
+  const context = useContext(CenterSettingsContext);
+  if (!context) throw new Error("useCenterSettings must be used within CenterSettingsProvider");
+  return context;
+};
@@ -0,0 +1,232 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DailyRecord, DailyWrite, SyncConflictError, applyDailyWrite } from "@/lib/daily-attendance";
+import {
+  QueuedWrite,
+  clearCachedResponses,
+  isNetworkError,
+  listQueuedWrites,
+  queueWrite,
+  removeQueuedWrite,
+  saveQueuedWrite,
+} from "@/lib/offline-queue";
+
+/** What a submitted write produced; record and receipt are null when it was queued */
+export interface SubmitResult {
+  queued: boolean;
+  record: DailyRecord | null;
+  receipt: { id: string } | null;
+}
+
+interface OfflineSyncContextType {
+  online: boolean;
+  syncing: boolean;
+  /** Writes waiting to sync, including ones held back by a conflict */
+  pendingWrites: QueuedWrite[];
+  /** Bumped whenever queued writes reach the server, so pages can refetch */
+  syncedAt: number;
+  /** Apply a write now, or queue it if the connection is down */
+  submitWrite: (write: DailyWrite, baseUpdatedAt: string | null) => Promise<SubmitResult>;
+  syncNow: () => Promise<void>;
+  /** Resolve a conflict by applying the queued write over the other device's change */
+  keepWrite: (id: number) => Promise<void>;
+  /** Resolve a conflict by dropping the write and any later ones for the same child and day */
+  discardWrite: (id: number) => Promise<void>;
+}
+
+// While writes are waiting, retry this often even if the browser thinks it's online
+const RETRY_INTERVAL_MS = 30000;
+
+const writeKey = (write: DailyWrite) => `${write.childId}|${write.date}`;
+
+// Only one tab replays the queue at a time
+const withSyncLock = async (run: () => Promise<void>) => {
+  if (navigator.locks) {
+    await navigator.locks.request("daycare-offline-sync", run);
+  } else {
+    await run();
+  }
+};
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+export const OfflineSyncProvider = ({ children }: { children: ReactNode }) => {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingWrites, setPendingWrites] = useState<QueuedWrite[]>([]);
+  const [syncedAt, setSyncedAt] = useState(0);
+  const syncingRef = useRef(false);
+
+  const refreshPending = useCallback(async () => {
+    try {
+      setPendingWrites(await listQueuedWrites());
+    } catch (error) {
+      console.error("Error reading offline queue:", error);
+    }
+  }, []);
+
+  // The next queued write for the same child and day was based on this one,
+  // so it inherits the record this one produced
+  const passBaseOn = async (writes: QueuedWrite[], index: number, record: DailyRecord | null) => {
+    const next = writes.slice(index + 1).find((q) => writeKey(q.write) === writeKey(writes[index].write));
+    if (next?.afterQueued) {
+      next.baseUpdatedAt = record?.updated_at ?? null;
+      next.afterQueued = false;
+      await saveQueuedWrite(next);
+    }
+  };
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let applied = 0;
+    try {
+      await withSyncLock(async () => {
+        const writes = await listQueuedWrites();
+        const held = new Set<string>();
+
+        for (let i = 0; i < writes.length; i++) {
+          const queued = writes[i];
+          const key = writeKey(queued.write);
+
+          // Later writes for a child's day wait behind an unresolved conflict
+          if (queued.conflict || held.has(key)) {
+            held.add(key);
+            continue;
+          }
+
+          try {
+            const { record } = await applyDailyWrite(queued.write, queued.baseUpdatedAt);
+            await passBaseOn(writes, i, record);
+            await removeQueuedWrite(queued.id);
+            applied++;
+          } catch (error) {
+            if (isNetworkError(error)) break;
+
+            // Conflicts and rejected writes (e.g. no permission) need a person to decide
+            queued.conflict = error instanceof SyncConflictError ? error.message : (error as Error).message;
+            await saveQueuedWrite(queued);
+            held.add(key);
+          }
+        }
+      });
+    } catch (error) {
+      console.error("Error syncing offline writes:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      if (applied > 0) setSyncedAt(Date.now());
+      await refreshPending();
+    }
+  }, [refreshPending]);
+
+  const submitWrite = useCallback(
+    async (write: DailyWrite, baseUpdatedAt: string | null): Promise<SubmitResult> => {
+      // Keep a child's day in order behind anything already queued for it
+      const queuedBefore = (await listQueuedWrites()).some((q) => writeKey(q.write) === writeKey(write));
+
+      if (!queuedBefore && navigator.onLine) {
+        try {
+          const result = await applyDailyWrite(write, baseUpdatedAt);
+          return { queued: false, ...result };
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+
+      await queueWrite({
+        write,
+        baseUpdatedAt,
+        afterQueued: queuedBefore,
+        conflict: null,
+        queuedAt: new Date().toISOString(),
+      });
+      await refreshPending();
+      return { queued: true, record: null, receipt: null };
+    },
+    [refreshPending]
+  );
+
+  const keepWrite = useCallback(
+    async (id: number) => {
+      const writes = await listQueuedWrites();
+      const index = writes.findIndex((q) => q.id === id);
+      if (index === -1) return;
+
+      const { record } = await applyDailyWrite(writes[index].write, undefined);
+      await passBaseOn(writes, index, record);
+      await removeQueuedWrite(id);
+      setSyncedAt(Date.now());
+      await refreshPending();
+      syncNow();
+    },
+    [refreshPending, syncNow]
+  );
+
+  const discardWrite = useCallback(
+    async (id: number) => {
+      const writes = await listQueuedWrites();
+      const discarded = writes.find((q) => q.id === id);
+      if (!discarded) return;
+
+      const key = writeKey(discarded.write);
+      for (const queued of writes) {
+        if (queued.id >= id && writeKey(queued.write) === key) {
+          await removeQueuedWrite(queued.id);
+        }
+      }
+      await refreshPending();
+      setSyncedAt(Date.now());
+    },
+    [refreshPending]
+  );
+
+  useEffect(() => {
+    refreshPending().then(syncNow);
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") {
+        clearCachedResponses().catch((error) => console.error("Error clearing cached responses:", error));
+      }
+    });
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      subscription.unsubscribe();
+    };
+  }, [refreshPending, syncNow]);
+
+  // navigator.onLine can't tell a dead connection from a live one, so keep trying
+  const hasRetryableWrites = pendingWrites.some((q) => !q.conflict);
+  useEffect(() => {
+    if (!hasRetryableWrites) return;
+    const interval = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRetryableWrites, syncNow]);
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{ online, syncing, pendingWrites, syncedAt, submitWrite, syncNow, keepWrite, discardWrite }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
+
+export const useOfflineSync = () => {
+  const context = useContext(OfflineSyncContext);
+  if (!context) throw new Error("useOfflineSync must be used within OfflineSyncProvider");
+  return context;
+};
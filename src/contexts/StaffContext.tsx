@@ -0,0 +1,71 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Permission, StaffRole, hasPermission } from "@/lib/permissions";
+
+export type StaffProfile = Tables<"staff_profiles">;
+
+interface StaffContextType {
+  profile: StaffProfile | null;
+  role: StaffRole | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+const StaffContext = createContext<StaffContextType | undefined>(undefined);
+
+export const StaffProvider = ({ children }: { children: ReactNode }) => {
+  const [profile, setProfile] = useState<StaffProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfile = useCallback(async (userId: string | undefined) => {
+    if (!userId) {
+      setProfile(null);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("staff_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching staff profile:", error);
+    }
+    setProfile(data ?? null);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      fetchProfile(session?.user.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT" || event === "USER_UPDATED") {
+        fetchProfile(session?.user.id);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [fetchProfile]);
+
+  // Disabled accounts keep their profile but can't do anything
+  const role = profile && !profile.disabled_at ? (profile.role as StaffRole) : null;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return (
+    <StaffContext.Provider value={{ profile, role, loading, can }}>
+      {children}
+    </StaffContext.Provider>
+  );
+};
+
+export const useStaff = () => {
+  const context = useContext(StaffContext);
+  if (!context) throw new Error("useStaff must be used within StaffProvider");
+  return context;
+};
@@ -1,28 +1,27 @@
 import { useEffect, useCallback, useRef } from "react";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { msUntilNextBusinessDay } from "@/lib/dates";
 
 /**
- * Hook that triggers a callback exactly at midnight (00:00:00)
+ * Hook that triggers a callback exactly at midnight (00:00:00) in the center's timezone
  * Also triggers on visibility change and checks every minute as backup
  */
 export const useMidnightReset = (onReset: () => void) => {
-  const lastDateRef = useRef<string>(new Date().toISOString().split("T")[0]);
+  const { timezone, getToday } = useCenterSettings();
+  const lastDateRef = useRef<string>(getToday());
   const midnightTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const getMillisecondsUntilMidnight = useCallback(() => {
-    const now = new Date();
-    const midnight = new Date(now);
-    midnight.setDate(midnight.getDate() + 1);
-    midnight.setHours(0, 0, 0, 0);
-    return midnight.getTime() - now.getTime();
-  }, []);
+    return msUntilNextBusinessDay(timezone);
+  }, [timezone]);
 
   const checkDateChange = useCallback(() => {
-    const currentDate = new Date().toISOString().split("T")[0];
+    const currentDate = getToday();
     if (lastDateRef.current !== currentDate) {
       lastDateRef.current = currentDate;
       onReset();
     }
-  }, [onReset]);
+  }, [onReset, getToday]);
 
   const scheduleMidnightReset = useCallback(() => {
     // Clear any existing timeout
@@ -42,7 +41,7 @@ export const useMidnightReset = (onReset: () => void) => {
 
   useEffect(() => {
     // Initial setup
-    lastDateRef.current = new Date().toISOString().split("T")[0];
+    lastDateRef.current = getToday();
     
     // Schedule midnight reset
     scheduleMidnightReset();
@@ -66,5 +65,5 @@ export const useMidnightReset = (onReset: () => void) => {
       clearInterval(minuteInterval);
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [scheduleMidnightReset, checkDateChange]);
+  }, [scheduleMidnightReset, checkDateChange, getToday]);
 };
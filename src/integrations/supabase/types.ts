@@ -14,65 +14,1030 @@ export type Database = {
   }
   public: {
     Tables: {
+      attendance_reset_runs: {
+        Row: {
+          attempts: number
+          center_id: string
+          charges_posted: number
+          closure_reason: string | null
+          completed_at: string | null
+          error: string | null
+          marked_absent: number
+          marked_unpaid: number
+          run_date: string
+          started_at: string
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          center_id: string
+          charges_posted?: number
+          closure_reason?: string | null
+          completed_at?: string | null
+          error?: string | null
+          marked_absent?: number
+          marked_unpaid?: number
+          run_date: string
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          center_id?: string
+          charges_posted?: number
+          closure_reason?: string | null
+          completed_at?: string | null
+          error?: string | null
+          marked_absent?: number
+          marked_unpaid?: number
+          run_date?: string
+          started_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_reset_runs_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changed_by_email: string | null
+          child_id: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          child_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          child_id?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      authorized_pickups: {
+        Row: {
+          child_id: string
+          created_at: string
+          id: string
+          id_number: string
+          name: string
+          phone: string | null
+          photo_path: string | null
+          relationship: string | null
+          updated_at: string
+        }
+        Insert: {
+          child_id: string
+          created_at?: string
+          id?: string
+          id_number: string
+          name: string
+          phone?: string | null
+          photo_path?: string | null
+          relationship?: string | null
+          updated_at?: string
+        }
+        Update: {
+          child_id?: string
+          created_at?: string
+          id?: string
+          id_number?: string
+          name?: string
+          phone?: string | null
+          photo_path?: string | null
+          relationship?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "authorized_pickups_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_terms: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      cash_ups: {
+        Row: {
+          business_date: string
+          cash_variance: number | null
+          center_id: string
+          closed_at: string
+          closed_by: string | null
+          closed_by_email: string | null
+          counted_cash: number
+          counted_mobile_money: number
+          expected_cash: number
+          expected_mobile_money: number
+          id: string
+          mobile_money_variance: number | null
+          note: string | null
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          reopened_by_email: string | null
+        }
+        Insert: {
+          business_date: string
+          cash_variance?: number | null
+          center_id: string
+          closed_at?: string
+          closed_by?: string | null
+          closed_by_email?: string | null
+          counted_cash: number
+          counted_mobile_money: number
+          expected_cash?: number
+          expected_mobile_money?: number
+          id?: string
+          mobile_money_variance?: number | null
+          note?: string | null
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          reopened_by_email?: string | null
+        }
+        Update: {
+          business_date?: string
+          cash_variance?: number | null
+          center_id?: string
+          closed_at?: string
+          closed_by?: string | null
+          closed_by_email?: string | null
+          counted_cash?: number
+          counted_mobile_money?: number
+          expected_cash?: number
+          expected_mobile_money?: number
+          id?: string
+          mobile_money_variance?: number | null
+          note?: string | null
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          reopened_by_email?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_ups_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      center_closures: {
+        Row: {
+          center_id: string
+          closure_type: string
+          created_at: string
+          end_date: string | null
+          id: string
+          reason: string
+          start_date: string | null
+          updated_at: string
+          weekday: number | null
+        }
+        Insert: {
+          center_id: string
+          closure_type: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          reason: string
+          start_date?: string | null
+          updated_at?: string
+          weekday?: number | null
+        }
+        Update: {
+          center_id?: string
+          closure_type?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          reason?: string
+          start_date?: string | null
+          updated_at?: string
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "center_closures_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      center_settings: {
+        Row: {
+          address: string | null
+          center_id: string
+          center_name: string | null
+          closing_time: string
+          created_at: string
+          email: string | null
+          id: number
+          late_fee_amount: number
+          late_fee_block_minutes: number
+          late_fee_grace_minutes: number
+          logo_path: string | null
+          phone: string | null
+          sms_quiet_end: string | null
+          sms_quiet_start: string | null
+          sms_reminder_interval_days: number
+          sms_reminder_template: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          center_id: string
+          center_name?: string | null
+          closing_time?: string
+          created_at?: string
+          email?: string | null
+          id?: number
+          late_fee_amount?: number
+          late_fee_block_minutes?: number
+          late_fee_grace_minutes?: number
+          logo_path?: string | null
+          phone?: string | null
+          sms_quiet_end?: string | null
+          sms_quiet_start?: string | null
+          sms_reminder_interval_days?: number
+          sms_reminder_template?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          center_id?: string
+          center_name?: string | null
+          closing_time?: string
+          created_at?: string
+          email?: string | null
+          id?: number
+          late_fee_amount?: number
+          late_fee_block_minutes?: number
+          late_fee_grace_minutes?: number
+          logo_path?: string | null
+          phone?: string | null
+          sms_quiet_end?: string | null
+          sms_quiet_start?: string | null
+          sms_reminder_interval_days?: number
+          sms_reminder_template?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "center_settings_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: true
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      centers: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      child_discounts: {
+        Row: {
+          amount: number | null
+          child_id: string
+          created_at: string
+          discount_rule_id: string
+          excluded: boolean
+        }
+        Insert: {
+          amount?: number | null
+          child_id: string
+          created_at?: string
+          discount_rule_id: string
+          excluded?: boolean
+        }
+        Update: {
+          amount?: number | null
+          child_id?: string
+          created_at?: string
+          discount_rule_id?: string
+          excluded?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "child_discounts_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "child_discounts_discount_rule_id_fkey"
+            columns: ["discount_rule_id"]
+            isOneToOne: false
+            referencedRelation: "discount_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      child_guardians: {
+        Row: {
+          child_id: string
+          created_at: string
+          guardian_id: string
+          is_primary: boolean
+        }
+        Insert: {
+          child_id: string
+          created_at?: string
+          guardian_id: string
+          is_primary?: boolean
+        }
+        Update: {
+          child_id?: string
+          created_at?: string
+          guardian_id?: string
+          is_primary?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "child_guardians_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "child_guardians_guardian_id_fkey"
+            columns: ["guardian_id"]
+            isOneToOne: false
+            referencedRelation: "guardians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       children: {
         Row: {
-          admission_date: string
-          admission_number: string | null
-          age_registered_at: string | null
-          age_unit: string | null
-          age_value: number | null
-          class: string | null
-          contact_number: string
+          admission_date: string
+          admission_number: string | null
+          age_registered_at: string | null
+          age_unit: string | null
+          age_value: number | null
+          center_id: string
+          class_id: string | null
+          contact_number: string
+          created_at: string
+          fee_plan_id: string | null
+          guardian_name: string
+          id: string
+          leaving_reason: string | null
+          left_on: string | null
+          name: string
+          payment_amount: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          admission_date?: string
+          admission_number?: string | null
+          age_registered_at?: string | null
+          age_unit?: string | null
+          age_value?: number | null
+          center_id: string
+          class_id?: string | null
+          contact_number: string
+          created_at?: string
+          fee_plan_id?: string | null
+          guardian_name: string
+          id?: string
+          leaving_reason?: string | null
+          left_on?: string | null
+          name: string
+          payment_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          admission_date?: string
+          admission_number?: string | null
+          age_registered_at?: string | null
+          age_unit?: string | null
+          age_value?: number | null
+          center_id?: string
+          class_id?: string | null
+          contact_number?: string
+          created_at?: string
+          fee_plan_id?: string | null
+          guardian_name?: string
+          id?: string
+          leaving_reason?: string | null
+          left_on?: string | null
+          name?: string
+          payment_amount?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "children_fee_plan_id_fkey"
+            columns: ["fee_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "children_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "children_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          capacity: number
+          center_id: string
+          created_at: string
+          id: string
+          lead_teacher_id: string | null
+          max_age_months: number | null
+          min_age_months: number | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          capacity: number
+          center_id: string
+          created_at?: string
+          id?: string
+          lead_teacher_id?: string | null
+          max_age_months?: number | null
+          min_age_months?: number | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number
+          center_id?: string
+          created_at?: string
+          id?: string
+          lead_teacher_id?: string | null
+          max_age_months?: number | null
+          min_age_months?: number | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classes_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "classes_lead_teacher_id_fkey"
+            columns: ["lead_teacher_id"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      discount_rules: {
+        Row: {
+          active: boolean
+          amount: number
+          applies_to: string
+          center_id: string | null
+          created_at: string
+          discount_type: string
+          ends_on: string | null
+          id: string
+          name: string
+          sibling_position: number | null
+          starts_on: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          applies_to: string
+          center_id?: string | null
+          created_at?: string
+          discount_type: string
+          ends_on?: string | null
+          id?: string
+          name: string
+          sibling_position?: number | null
+          starts_on?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          applies_to?: string
+          center_id?: string | null
+          created_at?: string
+          discount_type?: string
+          ends_on?: string | null
+          id?: string
+          name?: string
+          sibling_position?: number | null
+          starts_on?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_rules_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_plans: {
+        Row: {
+          active: boolean
+          billing_period: string
+          center_id: string | null
+          charge_absences: boolean
+          created_at: string
+          id: string
+          name: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          billing_period: string
+          center_id?: string | null
+          charge_absences?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          billing_period?: string
+          center_id?: string | null
+          charge_absences?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fee_plans_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guardians: {
+        Row: {
+          alternate_phone: string | null
+          attendance_notifications: string | null
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          national_id: string | null
+          phone: string
+          portal_access: boolean
+          relationship: string | null
+          sms_opt_out: boolean
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          alternate_phone?: string | null
+          attendance_notifications?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          national_id?: string | null
+          phone: string
+          portal_access?: boolean
+          relationship?: string | null
+          sms_opt_out?: boolean
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          alternate_phone?: string | null
+          attendance_notifications?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          national_id?: string | null
+          phone?: string
+          portal_access?: boolean
+          relationship?: string | null
+          sms_opt_out?: boolean
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      ledger_entries: {
+        Row: {
+          amount: number
+          category: string | null
+          center_id: string
+          child_id: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          discount_rule_id: string | null
+          discounts_entry_id: string | null
+          entry_date: string
+          entry_type: string
+          fee_plan_id: string | null
+          id: string
+          payment_id: string | null
+          payment_method: string | null
+          payment_reference: string | null
+          period_end: string | null
+          period_start: string | null
+          received_by: string | null
+          received_by_email: string | null
+          reverses_entry_id: string | null
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          center_id?: string
+          child_id: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          discount_rule_id?: string | null
+          discounts_entry_id?: string | null
+          entry_date?: string
+          entry_type: string
+          fee_plan_id?: string | null
+          id?: string
+          payment_id?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          received_by?: string | null
+          received_by_email?: string | null
+          reverses_entry_id?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          center_id?: string
+          child_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          discount_rule_id?: string | null
+          discounts_entry_id?: string | null
+          entry_date?: string
+          entry_type?: string
+          fee_plan_id?: string | null
+          id?: string
+          payment_id?: string | null
+          payment_method?: string | null
+          payment_reference?: string | null
+          period_end?: string | null
+          period_start?: string | null
+          received_by?: string | null
+          received_by_email?: string | null
+          reverses_entry_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_discount_rule_id_fkey"
+            columns: ["discount_rule_id"]
+            isOneToOne: false
+            referencedRelation: "discount_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_discounts_entry_id_fkey"
+            columns: ["discounts_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_fee_plan_id_fkey"
+            columns: ["fee_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fee_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_reverses_entry_id_fkey"
+            columns: ["reverses_entry_id"]
+            isOneToOne: true
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mobile_money_transactions: {
+        Row: {
+          account_reference: string | null
+          amount: number
+          business_short_code: string | null
+          center_id: string | null
+          child_id: string | null
           created_at: string
-          guardian_name: string
           id: string
-          name: string
-          payment_amount: number
+          ledger_entry_id: string | null
+          match_method: string | null
+          match_note: string | null
+          payer_name: string | null
+          phone_number: string | null
+          provider: string
+          raw_payload: Json
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          transacted_at: string | null
+          transaction_id: string
+          transaction_type: string
           updated_at: string
         }
         Insert: {
-          admission_date?: string
-          admission_number?: string | null
-          age_registered_at?: string | null
-          age_unit?: string | null
-          age_value?: number | null
-          class?: string | null
-          contact_number: string
+          account_reference?: string | null
+          amount: number
+          business_short_code?: string | null
+          center_id?: string | null
+          child_id?: string | null
           created_at?: string
-          guardian_name: string
           id?: string
-          name: string
-          payment_amount?: number
+          ledger_entry_id?: string | null
+          match_method?: string | null
+          match_note?: string | null
+          payer_name?: string | null
+          phone_number?: string | null
+          provider?: string
+          raw_payload: Json
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          transacted_at?: string | null
+          transaction_id: string
+          transaction_type: string
           updated_at?: string
         }
         Update: {
-          admission_date?: string
-          admission_number?: string | null
-          age_registered_at?: string | null
-          age_unit?: string | null
-          age_value?: number | null
-          class?: string | null
-          contact_number?: string
+          account_reference?: string | null
+          amount?: number
+          business_short_code?: string | null
+          center_id?: string | null
+          child_id?: string | null
           created_at?: string
-          guardian_name?: string
           id?: string
-          name?: string
-          payment_amount?: number
+          ledger_entry_id?: string | null
+          match_method?: string | null
+          match_note?: string | null
+          payer_name?: string | null
+          phone_number?: string | null
+          provider?: string
+          raw_payload?: Json
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          transacted_at?: string | null
+          transaction_id?: string
+          transaction_type?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "mobile_money_transactions_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_transactions_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mobile_money_transactions_ledger_entry_id_fkey"
+            columns: ["ledger_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          channel: string
+          child_id: string
+          created_at: string
+          event: string
+          guardian_id: string | null
+          id: string
+          last_error: string | null
+          message: string
+          next_attempt_at: string
+          payment_id: string | null
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          sent_at: string | null
+          staff_email: string | null
+          status: string
+          subject: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          child_id: string
+          created_at?: string
+          event: string
+          guardian_id?: string | null
+          id?: string
+          last_error?: string | null
+          message: string
+          next_attempt_at?: string
+          payment_id?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          staff_email?: string | null
+          status?: string
+          subject: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          child_id?: string
+          created_at?: string
+          event?: string
+          guardian_id?: string | null
+          id?: string
+          last_error?: string | null
+          message?: string
+          next_attempt_at?: string
+          payment_id?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          staff_email?: string | null
+          status?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_guardian_id_fkey"
+            columns: ["guardian_id"]
+            isOneToOne: false
+            referencedRelation: "guardians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
           amount: number
           arrival_time: string | null
           attendance_status: string | null
+          center_id: string
           child_id: string
           created_at: string
           debt_amount: number | null
+          departure_time: string | null
           id: string
           note: string | null
           payment_date: string
+          picked_up_by: string | null
+          pickup_authorized: boolean | null
+          pickup_id_number: string | null
           status: string
           updated_at: string
         }
@@ -80,12 +1045,17 @@ export type Database = {
           amount: number
           arrival_time?: string | null
           attendance_status?: string | null
+          center_id?: string
           child_id: string
           created_at?: string
           debt_amount?: number | null
+          departure_time?: string | null
           id?: string
           note?: string | null
           payment_date?: string
+          picked_up_by?: string | null
+          pickup_authorized?: boolean | null
+          pickup_id_number?: string | null
           status: string
           updated_at?: string
         }
@@ -93,12 +1063,17 @@ export type Database = {
           amount?: number
           arrival_time?: string | null
           attendance_status?: string | null
+          center_id?: string
           child_id?: string
           created_at?: string
           debt_amount?: number | null
+          departure_time?: string | null
           id?: string
           note?: string | null
           payment_date?: string
+          picked_up_by?: string | null
+          pickup_authorized?: boolean | null
+          pickup_id_number?: string | null
           status?: string
           updated_at?: string
         }
@@ -110,14 +1085,384 @@ export type Database = {
             referencedRelation: "children"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipt_counters: {
+        Row: {
+          center_id: string
+          last_number: number
+        }
+        Insert: {
+          center_id: string
+          last_number?: number
+        }
+        Update: {
+          center_id?: string
+          last_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_counters_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: true
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      receipts: {
+        Row: {
+          amount: number
+          balance_after: number
+          center_id: string
+          child_id: string
+          id: string
+          issued_at: string
+          issued_by: string | null
+          issued_by_email: string | null
+          ledger_entry_id: string
+          receipt_number: number
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          center_id: string
+          child_id: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          ledger_entry_id: string
+          receipt_number: number
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          center_id?: string
+          child_id?: string
+          id?: string
+          issued_at?: string
+          issued_by?: string | null
+          issued_by_email?: string | null
+          ledger_entry_id?: string
+          receipt_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "receipts_ledger_entry_id_fkey"
+            columns: ["ledger_entry_id"]
+            isOneToOne: true
+            referencedRelation: "ledger_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_messages: {
+        Row: {
+          amount: number | null
+          center_id: string | null
+          child_id: string | null
+          created_at: string
+          detail: string | null
+          guardian_id: string | null
+          id: string
+          kind: string
+          message: string
+          phone: string | null
+          provider: string | null
+          provider_message_id: string | null
+          sent_by: string | null
+          sent_by_email: string | null
+          status: string
+          trigger: string
+        }
+        Insert: {
+          amount?: number | null
+          center_id?: string | null
+          child_id?: string | null
+          created_at?: string
+          detail?: string | null
+          guardian_id?: string | null
+          id?: string
+          kind?: string
+          message: string
+          phone?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          sent_by?: string | null
+          sent_by_email?: string | null
+          status: string
+          trigger: string
+        }
+        Update: {
+          amount?: number | null
+          center_id?: string | null
+          child_id?: string | null
+          created_at?: string
+          detail?: string | null
+          guardian_id?: string | null
+          id?: string
+          kind?: string
+          message?: string
+          phone?: string | null
+          provider?: string | null
+          provider_message_id?: string | null
+          sent_by?: string | null
+          sent_by_email?: string | null
+          status?: string
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_messages_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_messages_guardian_id_fkey"
+            columns: ["guardian_id"]
+            isOneToOne: false
+            referencedRelation: "guardians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_centers: {
+        Row: {
+          center_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          center_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          center_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_centers_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      staff_invitations: {
+        Row: {
+          accepted_at: string | null
+          center_id: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          role: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          center_id?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          center_id?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invitations_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_profiles: {
+        Row: {
+          created_at: string
+          disabled_at: string | null
+          email: string
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          disabled_at?: string | null
+          email: string
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          disabled_at?: string | null
+          email?: string
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      child_balances: {
+        Row: {
+          balance: number | null
+          center_id: string | null
+          child_id: string | null
+          credit: number | null
+          discounts: number | null
+          last_payment_date: string | null
+          late_fees: number | null
+          total_adjusted: number | null
+          total_charged: number | null
+          total_paid: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_child_id_fkey"
+            columns: ["child_id"]
+            isOneToOne: false
+            referencedRelation: "children"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      billed_fee_plan_periods: {
+        Args: { for_center: string; period_starts: string[] }
+        Returns: {
+          child_id: string
+          fee_plan_id: string
+          period_start: string
+        }[]
+      }
+      can_access_guardian: {
+        Args: { target_guardian: string }
+        Returns: boolean
+      }
+      center_closure_reason: {
+        Args: { check_center: string; check_date: string }
+        Returns: string
+      }
+      center_open_days: {
+        Args: { for_center: string; from_date: string; to_date: string }
+        Returns: number
+      }
+      center_today:
+        | { Args: never; Returns: string }
+        | { Args: { for_center: string }; Returns: string }
+      default_center_id: {
+        Args: never
+        Returns: string
+      }
+      has_center_access: {
+        Args: { target_center: string }
+        Returns: boolean
+      }
+      has_staff_role: {
+        Args: { roles: string[] }
+        Returns: boolean
+      }
+      is_day_closed: {
+        Args: { check_center: string; check_date: string }
+        Returns: boolean
+      }
+      is_staff: {
+        Args: never
+        Returns: boolean
+      }
+      ledger_balance_before: {
+        Args: { before_date: string; for_center: string }
+        Returns: number
+      }
+      ledger_monthly_totals: {
+        Args: { for_center: string; from_date: string; to_date: string }
+        Returns: {
+          class_id: string
+          month_start: string
+          movement: number
+          payment_method: string
+          received: number
+          received_count: number
+        }[]
+      }
+      link_guardian_account: {
+        Args: never
+        Returns: number
+      }
+      portal_child_ids: {
+        Args: never
+        Returns: string[]
+      }
+      set_child_guardians: {
+        Args: {
+          guardian_ids: string[]
+          primary_guardian_id: string
+          target_child_id: string
+        }
+        Returns: undefined
+      }
+      sibling_position: {
+        Args: { _child_id: string; _on: string }
+        Returns: number
+      }
+      staff_role: {
+        Args: never
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
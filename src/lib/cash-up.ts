@@ -0,0 +1,10 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CashUp = Tables<"cash_ups">;
+
+/** Whether a cash-up still locks its day, as opposed to having been reopened */
+export const isClosed = (cashUp: Pick<CashUp, "reopened_at">) => !cashUp.reopened_at;
+
+/** Counted less recorded; positive means more money than the ledger shows */
+export const formatVariance = (amount: number) =>
+  amount === 0 ? "Balanced" : `${amount > 0 ? "Over" : "Short"} Ksh ${Math.abs(amount).toFixed(2)}`;
@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+const LOGO_BUCKET = "center-logos";
+
+/**
+ * Upload a new center logo, returning its storage path
+ */
+export async function uploadCenterLogo(file: File): Promise<string> {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "png";
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(LOGO_BUCKET).upload(path, file, {
+    contentType: file.type,
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+export async function removeCenterLogo(path: string) {
+  const { error } = await supabase.storage.from(LOGO_BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+export function centerLogoUrl(path: string): string {
+  return supabase.storage.from(LOGO_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/**
+ * Filter for settings a branch can use (fee plans, discounts): its own and
+ * those shared by every branch, which have no center_id
+ */
+export function branchOrShared(centerId: string): string {
+  return `center_id.is.null,center_id.eq.${centerId}`;
+}
+
+/**
+ * The center's contact details on one line (e.g. "0712345678 · info@example.com")
+ */
+export function centerContactLine(
+  settings: Pick<Tables<"center_settings">, "phone" | "email" | "address"> | null
+): string {
+  return settings ? [settings.address, settings.phone, settings.email].filter(Boolean).join(" · ") : "";
+}
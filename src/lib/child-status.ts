@@ -0,0 +1,16 @@
+export type ChildStatus = "active" | "withdrawn" | "graduated";
+
+export const CHILD_STATUS_LABELS: Record<ChildStatus, string> = {
+  active: "Active",
+  withdrawn: "Withdrawn",
+  graduated: "Graduated",
+};
+
+/**
+ * Reasons a child can leave; re-admitting sets them back to active
+ */
+export const LEAVING_STATUSES: Exclude<ChildStatus, "active">[] = ["withdrawn", "graduated"];
+
+export function isActiveChild(child: { status: string }): boolean {
+  return child.status === "active";
+}
@@ -0,0 +1,47 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+import { isActiveChild } from "@/lib/child-status";
+
+export type ChildClass = Tables<"classes">;
+
+export const classSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Class name is required" }).max(50),
+    min_age_months: z.number().int().min(0, { message: "Ages can't be negative" }).nullable(),
+    max_age_months: z.number().int().min(0, { message: "Ages can't be negative" }).nullable(),
+    capacity: z.number().int().positive({ message: "Capacity must be at least 1" }),
+    lead_teacher_id: z.string().nullable(),
+  })
+  .refine(
+    (value) => value.min_age_months === null || value.max_age_months === null || value.max_age_months >= value.min_age_months,
+    { message: "The oldest age can't be below the youngest" }
+  );
+
+const formatMonths = (months: number) => {
+  if (months >= 12 && months % 12 === 0) return `${months / 12} yr${months === 12 ? "" : "s"}`;
+  return `${months} mo`;
+};
+
+/**
+ * Describe a class's age range (e.g. "18 mo – 3 yrs", "From 3 yrs", "Any age")
+ */
+export function describeAgeRange(value: Pick<ChildClass, "min_age_months" | "max_age_months">): string {
+  const { min_age_months: min, max_age_months: max } = value;
+  if (min !== null && max !== null) return `${formatMonths(min)} – ${formatMonths(max)}`;
+  if (min !== null) return `From ${formatMonths(min)}`;
+  if (max !== null) return `Up to ${formatMonths(max)}`;
+  return "Any age";
+}
+
+/**
+ * Active children in each class, by class id
+ */
+export function countByClass(children: { class_id: string | null; status: string }[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const child of children) {
+    if (child.class_id && isActiveChild(child)) {
+      counts.set(child.class_id, (counts.get(child.class_id) || 0) + 1);
+    }
+  }
+  return counts;
+}
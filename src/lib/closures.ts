@@ -0,0 +1,48 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CenterClosure = Tables<"center_closures">;
+export type ClosureType = "date" | "range" | "weekday";
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Get the reason the branch is closed on a date (YYYY-MM-DD), or null when open.
+ * Mirrors public.center_closure_reason used by the daily reset; pass only the
+ * branch's own closures.
+ */
+export function closureReason(date: string, closures: CenterClosure[]): string | null {
+  // Parse as UTC so the weekday doesn't shift with the browser's timezone
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+  const closure = closures.find((c) => {
+    switch (c.closure_type as ClosureType) {
+      case "date":
+        return c.start_date === date;
+      case "range":
+        return !!c.start_date && !!c.end_date && c.start_date <= date && date <= c.end_date;
+      case "weekday":
+        return c.weekday === weekday;
+      default:
+        return false;
+    }
+  });
+
+  return closure ? closure.reason : null;
+}
+
+/**
+ * Describe when a closure applies (e.g. "Every Sunday" or "Dec 24, 2025 – Jan 2, 2026")
+ */
+export function describeClosure(closure: CenterClosure): string {
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+
+  switch (closure.closure_type as ClosureType) {
+    case "weekday":
+      return `Every ${WEEKDAYS[closure.weekday ?? 0]}`;
+    case "range":
+      return `${formatDate(closure.start_date!)} – ${formatDate(closure.end_date!)}`;
+    default:
+      return formatDate(closure.start_date!);
+  }
+}
@@ -0,0 +1,239 @@
+import { supabase } from "@/integrations/supabase/client";
+import { recordLedgerPayment } from "@/lib/ledger";
+import { fetchReceiptForEntry } from "@/lib/receipts";
+import type { PickupPerson } from "@/lib/pickups";
+
+/**
+ * A tap on one of the Present/Absent/Paid/Unpaid buttons, or a check-out.
+ * Everything needed to apply it later is captured when it's made, so it can be
+ * queued offline.
+ */
+export type DailyWrite =
+  | {
+      kind: "attendance";
+      childId: string;
+      childName: string;
+      date: string;
+      status: "present" | "absent";
+      paymentAmount: number;
+      at: string;
+    }
+  | {
+      kind: "payment";
+      childId: string;
+      childName: string;
+      date: string;
+      status: "paid" | "unpaid";
+      paymentAmount: number;
+      at: string;
+    }
+  | {
+      kind: "checkout";
+      childId: string;
+      childName: string;
+      date: string;
+      status: "checked_out";
+      paymentAmount: number;
+      at: string;
+      pickup: PickupPerson;
+    };
+
+export interface DailyRecord {
+  id: string;
+  status: string;
+  attendance_status: string | null;
+  amount: number;
+  /** What's still owed for the day, after discounts and any credit used */
+  debt_amount: number | null;
+  arrival_time: string | null;
+  departure_time: string | null;
+  picked_up_by: string | null;
+  updated_at: string;
+}
+
+/**
+ * The child's day was changed elsewhere since this write was made
+ */
+export class SyncConflictError extends Error {
+  constructor(message: string, public current: DailyRecord | null) {
+    super(message);
+    this.name = "SyncConflictError";
+  }
+}
+
+const RECORD_COLUMNS =
+  "id, status, attendance_status, amount, debt_amount, arrival_time, departure_time, picked_up_by, updated_at";
+
+async function fetchDailyRecord(childId: string, date: string): Promise<DailyRecord | null> {
+  const { data, error } = await supabase
+    .from("payments")
+    .select(RECORD_COLUMNS)
+    .eq("child_id", childId)
+    .eq("payment_date", date)
+    .not("attendance_status", "is", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Today's date at the branch the record belongs to
+async function fetchBranchToday(recordId: string): Promise<string> {
+  const { data: record, error } = await supabase.from("payments").select("center_id").eq("id", recordId).single();
+  if (error) throw error;
+
+  const { data: today, error: todayError } = await supabase.rpc("center_today", { for_center: record.center_id });
+  if (todayError) throw todayError;
+  return today;
+}
+
+function describeRecord(record: DailyRecord | null): string {
+  if (!record) return "has no attendance recorded";
+  if (record.attendance_status === "absent") return "was marked absent";
+  if (record.departure_time) return `was checked out by ${record.picked_up_by}`;
+  if (record.status === "paid" || record.status === "unpaid") return `was marked present and ${record.status}`;
+  return "was marked present";
+}
+
+/**
+ * Apply a write to the child's record for the day.
+ *
+ * `expectedUpdatedAt` is the record's updated_at the write was based on (null
+ * for no record). If the record has moved on since, a SyncConflictError is
+ * thrown unless it already says the same thing. Pass undefined to overwrite
+ * regardless. Writes that were already applied are safe to replay.
+ */
+export async function applyDailyWrite(
+  write: DailyWrite,
+  expectedUpdatedAt: string | null | undefined
+): Promise<{ record: DailyRecord; receipt: { id: string } | null }> {
+  const current = await fetchDailyRecord(write.childId, write.date);
+  const alreadyApplied =
+    write.kind === "attendance"
+      ? current?.attendance_status === write.status
+      : write.kind === "checkout"
+        ? !!current?.departure_time
+        : current?.status === write.status;
+
+  if (expectedUpdatedAt !== undefined && (current?.updated_at ?? null) !== expectedUpdatedAt && !alreadyApplied) {
+    throw new SyncConflictError(`${write.childName} ${describeRecord(current)} on another device`, current);
+  }
+
+  if (write.kind === "attendance") {
+    if (current && alreadyApplied) return { record: current, receipt: null };
+
+    const amount = write.status === "present" ? write.paymentAmount : 0;
+    const arrivalTime = write.status === "present" ? write.at : null;
+    const note = write.status === "present"
+      ? `Child arrived at ${new Date(write.at).toLocaleTimeString()}`
+      : "Child did not report";
+
+    const { data, error } = current
+      ? await supabase
+          .from("payments")
+          .update({
+            attendance_status: write.status,
+            arrival_time: arrivalTime,
+            note,
+            // Only a child who is present can have been collected
+            ...(write.status === "absent" && {
+              departure_time: null,
+              picked_up_by: null,
+              pickup_id_number: null,
+              pickup_authorized: null,
+            }),
+          })
+          .eq("id", current.id)
+          .select(RECORD_COLUMNS)
+          .single()
+      : await supabase
+          .from("payments")
+          .insert({
+            child_id: write.childId,
+            amount: Math.abs(amount),
+            payment_date: write.date,
+            status: "pending",
+            note,
+            attendance_status: write.status,
+            arrival_time: arrivalTime,
+            debt_amount: Math.abs(amount),
+          })
+          .select(RECORD_COLUMNS)
+          .single();
+
+    if (error) throw error;
+    // Charging the day may have settled it from credit, after the row was returned
+    if (write.status === "present") {
+      return { record: (await fetchDailyRecord(write.childId, write.date)) ?? data, receipt: null };
+    }
+    return { record: data, receipt: null };
+  }
+
+  if (!current || (write.kind === "checkout" && current.attendance_status !== "present")) {
+    throw new SyncConflictError(`${write.childName} ${describeRecord(current)}; mark attendance first`, current);
+  }
+
+  if (write.kind === "checkout") {
+    if (alreadyApplied) return { record: current, receipt: null };
+
+    const { data, error } = await supabase
+      .from("payments")
+      .update({
+        departure_time: write.at,
+        picked_up_by: write.pickup.name,
+        pickup_id_number: write.pickup.idNumber,
+        pickup_authorized: write.pickup.authorized,
+      })
+      .eq("id", current.id)
+      .select(RECORD_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return { record: data, receipt: null };
+  }
+
+  if (alreadyApplied) return { record: current, receipt: null };
+
+  // What's owed for the day; less than the fee when discounts or credit covered some of it
+  const due = Number(current.debt_amount ?? current.amount);
+
+  // The money goes on the ledger before the day is marked paid, so a day marked
+  // paid never needs it posting again (days settled from credit included)
+  let receipt: { id: string } | null = null;
+  if (write.status === "paid" && due > 0) {
+    // A replay may follow an attempt that got as far as the ledger
+    const { data: posted, error: postedError } = await supabase
+      .from("ledger_entries")
+      .select("id")
+      .eq("payment_id", current.id)
+      .eq("entry_type", "payment")
+      .limit(1);
+
+    if (postedError) throw postedError;
+
+    if (!posted?.length) {
+      // Staff can only post money to the branch's today, so a payment queued
+      // offline and replayed after midnight is taken today, noting the day it's for
+      const today = await fetchBranchToday(current.id);
+      const entry = await recordLedgerPayment(write.childId, due, {
+        paymentId: current.id,
+        description: write.date === today ? "Daily fee paid" : `Daily fee for ${write.date} paid`,
+        entryDate: today,
+      });
+      receipt = await fetchReceiptForEntry(entry.id);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("payments")
+    .update({
+      status: write.status,
+      debt_amount: write.status === "paid" ? 0 : current.status === "paid" ? write.paymentAmount : due,
+    })
+    .eq("id", current.id)
+    .select(RECORD_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { record: data, receipt };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { addDays, businessDate, msUntilNextBusinessDay, startOfBusinessDay } from "@/lib/dates";
+import { businessDate as edgeBusinessDate } from "../../supabase/functions/_shared/dates";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("businessDate", () => {
+  // Nairobi is UTC+3 all year, so its day starts at 21:00 UTC the evening before
+  it("keeps the center's date until midnight in its timezone", () => {
+    expect(businessDate("Africa/Nairobi", new Date("2025-12-01T20:59:59.999Z"))).toBe("2025-12-01");
+    expect(businessDate("Africa/Nairobi", new Date("2025-12-01T21:00:00.000Z"))).toBe("2025-12-02");
+  });
+
+  it("is already tomorrow in the center while it's still today in UTC", () => {
+    expect(businessDate("Africa/Nairobi", new Date("2025-12-31T22:30:00Z"))).toBe("2026-01-01");
+    expect(businessDate("UTC", new Date("2025-12-31T22:30:00Z"))).toBe("2025-12-31");
+  });
+
+  it("follows daylight saving in zones that have it", () => {
+    // London is on BST (UTC+1) in summer and GMT in winter
+    expect(businessDate("Europe/London", new Date("2025-07-01T22:59:59Z"))).toBe("2025-07-01");
+    expect(businessDate("Europe/London", new Date("2025-07-01T23:00:00Z"))).toBe("2025-07-02");
+    expect(businessDate("Europe/London", new Date("2025-12-01T23:59:59Z"))).toBe("2025-12-01");
+    expect(businessDate("Europe/London", new Date("2025-12-02T00:00:00Z"))).toBe("2025-12-02");
+  });
+
+  it("matches the edge functions' copy at the boundary hours", () => {
+    for (const at of ["2025-12-01T20:59:59Z", "2025-12-01T21:00:00Z", "2025-07-01T23:00:00Z"]) {
+      for (const timeZone of ["Africa/Nairobi", "Europe/London", "America/New_York"]) {
+        expect(edgeBusinessDate(timeZone, new Date(at))).toBe(businessDate(timeZone, new Date(at)));
+      }
+    }
+  });
+});
+
+describe("startOfBusinessDay", () => {
+  it("is midnight in the center's timezone", () => {
+    expect(startOfBusinessDay("Africa/Nairobi", "2025-12-02").toISOString()).toBe("2025-12-01T21:00:00.000Z");
+    expect(startOfBusinessDay("Europe/London", "2025-07-02").toISOString()).toBe("2025-07-01T23:00:00.000Z");
+  });
+});
+
+describe("msUntilNextBusinessDay", () => {
+  it("counts down to midnight in the center's timezone", () => {
+    expect(msUntilNextBusinessDay("Africa/Nairobi", new Date("2025-12-01T20:00:00Z"))).toBe(HOUR);
+    expect(msUntilNextBusinessDay("Africa/Nairobi", new Date("2025-12-01T21:00:00Z"))).toBe(24 * HOUR);
+    expect(msUntilNextBusinessDay("Africa/Nairobi", new Date("2025-12-01T20:59:59.500Z"))).toBe(500);
+  });
+
+  it("handles the short day when the clocks go forward", () => {
+    // 30 March 2025 in London has 23 hours
+    expect(msUntilNextBusinessDay("Europe/London", new Date("2025-03-30T00:00:00Z"))).toBe(23 * HOUR);
+  });
+
+  it("handles the long day when the clocks go back", () => {
+    // 26 October 2025 in London has 25 hours
+    expect(msUntilNextBusinessDay("Europe/London", new Date("2025-10-25T23:00:00Z"))).toBe(25 * HOUR);
+  });
+
+  it("always lands on the start of the next business day", () => {
+    const at = new Date("2025-11-02T04:30:00Z");
+    const next = new Date(at.getTime() + msUntilNextBusinessDay("America/New_York", at));
+    expect(businessDate("America/New_York", next)).toBe(addDays(businessDate("America/New_York", at), 1));
+    expect(businessDate("America/New_York", new Date(next.getTime() - 1))).toBe(businessDate("America/New_York", at));
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Business-day helpers. The center's day runs midnight to midnight in its own
+ * timezone, not UTC, so "today" must never come from toISOString().
+ * Kept in step with supabase/functions/_shared/dates.ts.
+ */
+
+export const DEFAULT_TIMEZONE = "Africa/Nairobi";
+
+/**
+ * Check a timezone name (e.g. "Africa/Nairobi") is one the browser understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(timeZone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "00";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+  };
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) in the center's timezone at a moment (default now)
+ */
+export function businessDate(timeZone: string, at: Date = new Date()): string {
+  return zonedParts(timeZone, at).date;
+}
+
+/**
+ * Milliseconds from a moment until the next midnight in the center's timezone.
+ * Not always 24h after the last one: days where the clocks change are shorter or longer.
+ */
+export function msUntilNextBusinessDay(timeZone: string, at: Date = new Date()): number {
+  const tomorrow = addDays(businessDate(timeZone, at), 1);
+  return startOfBusinessDay(timeZone, tomorrow).getTime() - at.getTime();
+}
+
+/**
+ * The moment a business day (YYYY-MM-DD) starts, i.e. midnight in the center's timezone
+ */
+export function startOfBusinessDay(timeZone: string, date: string): Date {
+  const midnightUtc = Date.parse(`${date}T00:00:00Z`);
+  let at = midnightUtc;
+  // Second pass settles days where the offset changes (daylight saving)
+  for (let i = 0; i < 2; i++) {
+    const { date: localDate, hour, minute, second } = zonedParts(timeZone, new Date(at));
+    const localAsUtc = Date.parse(`${localDate}T00:00:00Z`) + ((hour * 60 + minute) * 60 + second) * 1000;
+    at -= localAsUtc - midnightUtc;
+  }
+  return new Date(at);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * First and last dates (YYYY-MM-DD) of the month containing a date
+ */
+export function monthBounds(date: string): { start: string; end: string } {
+  const [year, month] = date.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = date.slice(0, 7);
+  return { start: `${prefix}-01`, end: `${prefix}-${lastDay.toString().padStart(2, "0")}` };
+}
@@ -0,0 +1,66 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type DiscountRule = Tables<"discount_rules">;
+export type ChildDiscount = Tables<"child_discounts">;
+export type DiscountType = "percentage" | "fixed";
+export type DiscountScope = "everyone" | "siblings" | "selected";
+
+export const DISCOUNT_SCOPE_LABELS: Record<DiscountScope, string> = {
+  everyone: "Every child",
+  siblings: "Siblings",
+  selected: "Selected children",
+};
+
+export const discountRuleSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Discount name is required" }).max(100),
+    discount_type: z.enum(["percentage", "fixed"]),
+    amount: z.number().positive({ message: "Discount must be greater than 0" }),
+    applies_to: z.enum(["everyone", "siblings", "selected"]),
+    sibling_position: z.number().int().min(2, { message: "Sibling discounts start from the 2nd child" }).nullable(),
+    starts_on: z.string().nullable(),
+    ends_on: z.string().nullable(),
+    active: z.boolean(),
+  })
+  .refine((rule) => rule.discount_type !== "percentage" || rule.amount <= 100, {
+    message: "A percentage discount can't be more than 100%",
+  })
+  .refine((rule) => rule.applies_to !== "siblings" || rule.sibling_position !== null, {
+    message: "Choose which sibling the discount starts from",
+  })
+  .refine((rule) => !rule.starts_on || !rule.ends_on || rule.ends_on >= rule.starts_on, {
+    message: "The discount can't end before it starts",
+  });
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
+};
+
+/**
+ * Describe how much a discount takes off (e.g. "10% off" or "Ksh 500.00 off each charge")
+ */
+export function describeDiscountAmount(rule: Pick<DiscountRule, "discount_type" | "amount">, amount = rule.amount): string {
+  return rule.discount_type === "percentage"
+    ? `${Number(amount)}% off`
+    : `Ksh ${Number(amount).toFixed(2)} off each charge`;
+}
+
+/**
+ * Describe who a discount applies to and when (e.g. "3rd sibling onwards, until 31 Jan 2026")
+ */
+export function describeDiscountScope(
+  rule: Pick<DiscountRule, "applies_to" | "sibling_position" | "starts_on" | "ends_on">
+): string {
+  const who =
+    rule.applies_to === "siblings"
+      ? `${ordinal(rule.sibling_position ?? 2)} sibling onwards`
+      : DISCOUNT_SCOPE_LABELS[rule.applies_to as DiscountScope];
+
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  if (rule.starts_on && rule.ends_on) return `${who}, ${format(rule.starts_on)} – ${format(rule.ends_on)}`;
+  if (rule.starts_on) return `${who}, from ${format(rule.starts_on)}`;
+  if (rule.ends_on) return `${who}, until ${format(rule.ends_on)}`;
+  return who;
+}
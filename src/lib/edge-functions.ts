@@ -0,0 +1,20 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Call an edge function, surfacing the `error` message from its JSON body
+ * instead of supabase-js's generic "non-2xx status code" error
+ */
+export async function invokeEdgeFunction<T>(name: string, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new Error(details.error);
+    }
+    throw error;
+  }
+
+  return data as T;
+}
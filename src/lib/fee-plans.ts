@@ -0,0 +1,57 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type FeePlan = Tables<"fee_plans">;
+export type BillingTerm = Tables<"billing_terms">;
+export type BillingPeriod = "daily" | "weekly" | "monthly" | "term";
+
+export const BILLING_PERIODS: BillingPeriod[] = ["daily", "weekly", "monthly", "term"];
+
+export const BILLING_PERIOD_LABELS: Record<BillingPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  term: "Termly",
+};
+
+const PER_PERIOD: Record<BillingPeriod, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  term: "term",
+};
+
+export const feePlanSchema = z.object({
+  name: z.string().trim().min(1, { message: "Plan name is required" }).max(100),
+  rate: z.number().positive({ message: "Rate must be greater than 0" }),
+  billing_period: z.enum(["daily", "weekly", "monthly", "term"]),
+  charge_absences: z.boolean(),
+  active: z.boolean(),
+});
+
+export const billingTermSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Term name is required" }).max(50),
+    start_date: z.string().min(1, { message: "Start date is required" }),
+    end_date: z.string().min(1, { message: "End date is required" }),
+  })
+  .refine((term) => term.end_date >= term.start_date, {
+    message: "The term can't end before it starts",
+  });
+
+/**
+ * Describe a plan's price (e.g. "Ksh 4000.00 / month")
+ */
+export function describeFeePlanRate(plan: Pick<FeePlan, "rate" | "billing_period">): string {
+  return `Ksh ${Number(plan.rate).toFixed(2)} / ${PER_PERIOD[plan.billing_period as BillingPeriod]}`;
+}
+
+/**
+ * Describe how absences are treated under a plan
+ */
+export function describeAbsencePolicy(plan: Pick<FeePlan, "billing_period" | "charge_absences">): string {
+  if (plan.charge_absences) {
+    return plan.billing_period === "daily" ? "Charged every open day" : "Full rate, charged at the start";
+  }
+  return plan.billing_period === "daily" ? "Charged for days present" : "Pro rata for days attended";
+}
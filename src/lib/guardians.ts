@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+
+export type Guardian = Tables<"guardians">;
+
+export const RELATIONSHIPS = ["Mother", "Father", "Grandparent", "Aunt", "Uncle", "Sibling", "Guardian", "Other"];
+
+export const phoneNumber = (label: string) =>
+  z.string().trim().refine((val) => val.replace(/\D/g, "").length === 10, {
+    message: `${label} must be 10 digits`,
+  });
+
+export const optional = (schema: z.ZodTypeAny) =>
+  z.preprocess((val) => (typeof val === "string" && val.trim() === "" ? undefined : val), schema.optional());
+
+export const guardianSchema = z.object({
+  name: z.string().trim().min(1, { message: "Guardian name is required" }).max(100),
+  relationship: optional(z.string().trim().max(50)),
+  phone: phoneNumber("Guardian phone"),
+  alternate_phone: optional(phoneNumber("Alternate phone")),
+  email: optional(z.string().trim().email({ message: "Invalid guardian email" })),
+  national_id: optional(z.string().trim().max(20, { message: "National ID must be less than 20 characters" })),
+});
+
+/**
+ * A guardian as edited in a form; id is set once it exists in the database
+ */
+export interface GuardianForm {
+  id?: string;
+  name: string;
+  relationship: string;
+  phone: string;
+  alternate_phone: string;
+  email: string;
+  national_id: string;
+}
+
+export const emptyGuardianForm = (): GuardianForm => ({
+  name: "",
+  relationship: "",
+  phone: "",
+  alternate_phone: "",
+  email: "",
+  national_id: "",
+});
+
+export const toGuardianForm = (guardian: Guardian): GuardianForm => ({
+  id: guardian.id,
+  name: guardian.name,
+  relationship: guardian.relationship || "",
+  phone: guardian.phone,
+  alternate_phone: guardian.alternate_phone || "",
+  email: guardian.email || "",
+  national_id: guardian.national_id || "",
+});
+
+/**
+ * Validate and create or update a guardian, returning its id
+ */
+export async function saveGuardian(form: GuardianForm): Promise<string> {
+  const validated = guardianSchema.parse(form);
+  const guardianData = {
+    name: validated.name,
+    relationship: validated.relationship ?? null,
+    phone: validated.phone,
+    alternate_phone: validated.alternate_phone ?? null,
+    email: validated.email ?? null,
+    national_id: validated.national_id ?? null,
+  };
+
+  const { data, error } = form.id
+    ? await supabase.from("guardians").update(guardianData).eq("id", form.id).select("id").single()
+    : await supabase.from("guardians").insert(guardianData).select("id").single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+/**
+ * Replace the guardians linked to a child
+ */
+export async function setChildGuardians(childId: string, guardianIds: string[], primaryGuardianId: string) {
+  const { error } = await supabase.rpc("set_child_guardians", {
+    target_child_id: childId,
+    guardian_ids: guardianIds,
+    primary_guardian_id: primaryGuardianId,
+  });
+
+  if (error) throw error;
+}
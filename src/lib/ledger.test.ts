@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from "vitest";
+import { type LedgerEntry, summarizeLedger, withRunningBalance } from "@/lib/ledger";
+
+// The ledger helpers that write entries import the client, which needs a browser
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+let nextId = 0;
+const entry = (fields: Partial<LedgerEntry>): LedgerEntry =>
+  ({
+    id: `entry-${++nextId}`,
+    child_id: "child",
+    entry_type: "charge",
+    category: null,
+    amount: 0,
+    entry_date: "2025-12-01",
+    created_at: "2025-12-01T08:00:00Z",
+    reverses_entry_id: null,
+    ...fields,
+  }) as LedgerEntry;
+
+describe("summarizeLedger", () => {
+  it("totals charges, payments, discounts and late fees", () => {
+    const fee = entry({ amount: 500 });
+    const summary = summarizeLedger([
+      fee,
+      entry({ entry_type: "adjustment", category: "discount", amount: -50 }),
+      entry({ category: "late_fee", amount: 100 }),
+      entry({ entry_type: "payment", amount: -300 }),
+      entry({ entry_type: "adjustment", amount: 20 }),
+    ]);
+
+    expect(summary).toEqual({
+      totalCharged: 600,
+      totalPaid: 300,
+      totalAdjusted: 20,
+      totalLateFees: 100,
+      totalDiscounts: 50,
+      balance: 270,
+    });
+  });
+
+  it("nets a reversal to zero against the entry it cancels", () => {
+    const fee = entry({ category: "late_fee", amount: 100 });
+    const payment = entry({ entry_type: "payment", amount: -300 });
+    const summary = summarizeLedger([
+      fee,
+      // The database copies the category onto reversals
+      entry({ entry_type: "reversal", category: "late_fee", amount: -100, reverses_entry_id: fee.id }),
+      payment,
+      entry({ entry_type: "reversal", amount: 300, reverses_entry_id: payment.id }),
+    ]);
+
+    expect(summary).toEqual({
+      totalCharged: 0,
+      totalPaid: 0,
+      totalAdjusted: 0,
+      totalLateFees: 0,
+      totalDiscounts: 0,
+      balance: 0,
+    });
+  });
+
+  it("shows credit as a negative balance", () => {
+    const summary = summarizeLedger([entry({ amount: 500 }), entry({ entry_type: "payment", amount: -800 })]);
+    expect(summary.totalPaid).toBe(800);
+    expect(summary.balance).toBe(-300);
+  });
+});
+
+describe("withRunningBalance", () => {
+  it("orders entries by date, then by when they were posted", () => {
+    const later = entry({ entry_date: "2025-12-02", created_at: "2025-12-01T09:00:00Z", amount: 500 });
+    const second = entry({ entry_type: "payment", created_at: "2025-12-01T10:00:00Z", amount: -800 });
+    const first = entry({ created_at: "2025-12-01T08:00:00Z", amount: 500 });
+
+    expect(withRunningBalance([later, second, first]).map((e) => [e.id, e.running_balance])).toEqual([
+      [first.id, 500],
+      [second.id, -300],
+      [later.id, 200],
+    ]);
+  });
+
+  it("returns to the earlier balance after a reversal", () => {
+    const fee = entry({ amount: 500 });
+    const rows = withRunningBalance([
+      fee,
+      entry({ entry_type: "reversal", amount: -500, reverses_entry_id: fee.id, created_at: "2025-12-01T09:00:00Z" }),
+    ]);
+    expect(rows.map((e) => e.running_balance)).toEqual([500, 0]);
+  });
+});
@@ -0,0 +1,167 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PaymentMethod } from "@/lib/payment-methods";
+
+export type LedgerEntry = Tables<"ledger_entries">;
+export type LedgerEntryType = "charge" | "payment" | "adjustment" | "reversal";
+export type LedgerCategory = "late_fee" | "discount" | "refund";
+
+export interface LedgerSummary {
+  totalCharged: number;
+  totalPaid: number;
+  totalAdjusted: number;
+  /** Late pickup fees charged, net of reversals; already included in totalCharged */
+  totalLateFees: number;
+  /** Discounts given against charges, net of reversals; not included in totalAdjusted */
+  totalDiscounts: number;
+  balance: number;
+}
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  charge: "Charge",
+  payment: "Payment",
+  adjustment: "Adjustment",
+  reversal: "Reversal",
+};
+
+export const LEDGER_CATEGORY_LABELS: Record<LedgerCategory, string> = {
+  late_fee: "Late fee",
+  discount: "Discount",
+  refund: "Refund",
+};
+
+type LedgerAmount = Pick<LedgerEntry, "id" | "amount" | "entry_type" | "reverses_entry_id">;
+
+/**
+ * Resolve the type an entry counts towards. Reversals count against the type
+ * of the entry they cancel, so a reversed payment reduces the total paid.
+ */
+export function effectiveEntryType(
+  entry: LedgerAmount & { reversed_entry?: { entry_type: string } | null },
+  entriesById?: Map<string, LedgerAmount>
+): LedgerEntryType {
+  if (entry.entry_type !== "reversal") {
+    return entry.entry_type as LedgerEntryType;
+  }
+  const original = entry.reversed_entry ?? entriesById?.get(entry.reverses_entry_id ?? "");
+  return (original?.entry_type as LedgerEntryType) ?? "reversal";
+}
+
+/**
+ * Derive the totals for a set of ledger entries (usually a single child's)
+ */
+export function summarizeLedger(entries: (LedgerAmount & Pick<LedgerEntry, "category">)[]): LedgerSummary {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+
+  return entries.reduce<LedgerSummary>(
+    (summary, entry) => {
+      const amount = Number(entry.amount);
+      const type = effectiveEntryType(entry, entriesById);
+
+      if (type === "charge") summary.totalCharged += amount;
+      if (type === "payment") summary.totalPaid -= amount;
+      if (type === "adjustment" && entry.category !== "discount") summary.totalAdjusted += amount;
+      if (entry.category === "late_fee") summary.totalLateFees += amount;
+      if (entry.category === "discount") summary.totalDiscounts -= amount;
+      summary.balance += amount;
+      return summary;
+    },
+    { totalCharged: 0, totalPaid: 0, totalAdjusted: 0, totalLateFees: 0, totalDiscounts: 0, balance: 0 }
+  );
+}
+
+/**
+ * Order entries oldest first and attach the balance after each one
+ */
+export function withRunningBalance<T extends LedgerEntry>(entries: T[]): (T & { running_balance: number })[] {
+  let balance = 0;
+  return [...entries]
+    .sort((a, b) =>
+      a.entry_date === b.entry_date
+        ? new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+        : a.entry_date.localeCompare(b.entry_date)
+    )
+    .map((entry) => {
+      balance += Number(entry.amount);
+      return { ...entry, running_balance: balance };
+    });
+}
+
+/**
+ * Record money received from a guardian against a child's account. Only owners
+ * can say someone else received it; otherwise it's the signed-in user.
+ */
+export async function recordLedgerPayment(
+  childId: string,
+  amount: number,
+  options: {
+    paymentId?: string;
+    description?: string;
+    entryDate?: string;
+    method?: PaymentMethod;
+    reference?: string;
+    receivedBy?: string;
+  } = {}
+) {
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .insert({
+      child_id: childId,
+      entry_type: "payment",
+      amount: -Math.abs(amount),
+      payment_id: options.paymentId ?? null,
+      description: options.description ?? "Payment",
+      payment_method: options.method ?? "cash",
+      payment_reference: options.reference || null,
+      ...(options.entryDate ? { entry_date: options.entryDate } : {}),
+      ...(options.receivedBy ? { received_by: options.receivedBy } : {}),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Pay held credit back to a guardian. The database rejects refunds larger than
+ * the child's credit. Cash refunds come off the day's expected cash.
+ */
+export async function recordLedgerRefund(childId: string, amount: number, reason: string, method: PaymentMethod) {
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .insert({
+      child_id: childId,
+      entry_type: "adjustment",
+      category: "refund",
+      amount: Math.abs(amount),
+      description: reason,
+      payment_method: method,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Cancel a ledger entry by posting its mirror image
+ */
+export async function reverseLedgerEntry(entry: LedgerEntry, reason: string) {
+  const { data, error } = await supabase
+    .from("ledger_entries")
+    .insert({
+      child_id: entry.child_id,
+      entry_type: "reversal",
+      // The database mirrors the original amount; this only satisfies the insert type
+      amount: -Number(entry.amount),
+      reverses_entry_id: entry.id,
+      description: reason,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,27 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type OutboxNotification = Tables<"notification_outbox">;
+
+export type NotificationChannel = "sms" | "whatsapp" | "email";
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ["sms", "whatsapp", "email"];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+export const NOTIFICATION_EVENT_LABELS: Record<string, string> = {
+  arrival: "Check-in",
+  departure: "Check-out",
+};
+
+export type NotificationStatus = "pending" | "sending" | "sent" | "failed";
+
+export const NOTIFICATION_STATUS_LABELS: Record<NotificationStatus, string> = {
+  pending: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
@@ -0,0 +1,94 @@
+import type { DailyWrite } from "@/lib/daily-attendance";
+
+/**
+ * A write made while offline, waiting in IndexedDB to be replayed.
+ * Writes are replayed in the order they were queued (by id).
+ */
+export interface QueuedWrite {
+  id: number;
+  write: DailyWrite;
+  // updated_at of the child's record for the day when the write was made,
+  // or null if there was no record yet
+  baseUpdatedAt: string | null;
+  // Made on top of an earlier queued write for the same child and day, so its
+  // base is only known once that one has synced
+  afterQueued: boolean;
+  // Why the write couldn't be applied; it waits for staff to keep or discard it
+  conflict: string | null;
+  queuedAt: string;
+}
+
+const DB_NAME = "daycare-offline";
+const DB_VERSION = 1;
+const STORE = "pending-writes";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Must match the runtime cache name in vite.config.ts
+const API_CACHE_NAME = "supabase-api";
+
+/**
+ * Drop the service worker's cached API responses, so the next person to use
+ * the device can't read the last one's data while offline.
+ */
+export async function clearCachedResponses(): Promise<void> {
+  if ("caches" in window) {
+    await caches.delete(API_CACHE_NAME);
+  }
+}
+
+export async function queueWrite(queued: Omit<QueuedWrite, "id">): Promise<QueuedWrite> {
+  const id = await withStore("readwrite", (store) => store.add(queued));
+  return { ...queued, id: id as number };
+}
+
+export async function listQueuedWrites(): Promise<QueuedWrite[]> {
+  const writes = await withStore<QueuedWrite[]>("readonly", (store) => store.getAll());
+  return writes.sort((a, b) => a.id - b.id);
+}
+
+export async function saveQueuedWrite(queued: QueuedWrite): Promise<void> {
+  await withStore("readwrite", (store) => store.put(queued));
+}
+
+export async function removeQueuedWrite(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Whether a failed request should be retried later rather than reported.
+ * supabase-js turns fetch failures into errors carrying the browser's message.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = (error as Error | null)?.message ?? "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { combineMethodTotals, totalsByMethod } from "@/lib/payment-methods";
+
+const payment = (amount: number, payment_method: string | null = "cash") => ({
+  entry_type: "payment",
+  category: null,
+  amount: -amount,
+  payment_method,
+});
+
+const refund = (amount: number, payment_method = "cash") => ({
+  entry_type: "adjustment",
+  category: "refund",
+  amount,
+  payment_method,
+});
+
+const reversalOf = (entry: { amount: number; payment_method: string | null; category: string | null }) => ({
+  ...entry,
+  entry_type: "reversal",
+  amount: -entry.amount,
+});
+
+describe("totalsByMethod", () => {
+  it("totals and counts payments per method, in a fixed order", () => {
+    expect(totalsByMethod([payment(500, "mobile_money"), payment(300), payment(200), payment(100, null)])).toEqual([
+      { method: "cash", total: 500, count: 2 },
+      { method: "mobile_money", total: 500, count: 1 },
+      { method: null, total: 100, count: 1 },
+    ]);
+  });
+
+  it("nets refunds against the method they were paid out by, without counting them", () => {
+    expect(totalsByMethod([payment(500), payment(400, "mobile_money"), refund(150), refund(100, "mobile_money")])).toEqual([
+      { method: "cash", total: 350, count: 1 },
+      { method: "mobile_money", total: 300, count: 1 },
+    ]);
+  });
+
+  it("takes reversed payments and refunds back out", () => {
+    const paid = payment(500);
+    const refunded = refund(200);
+    expect(totalsByMethod([paid, payment(300), reversalOf(paid), refunded, reversalOf(refunded)])).toEqual([
+      { method: "cash", total: 300, count: 1 },
+    ]);
+  });
+
+  it("leaves out methods that net to nothing", () => {
+    const paid = payment(500, "cheque");
+    expect(totalsByMethod([paid, reversalOf(paid)])).toEqual([]);
+  });
+});
+
+describe("combineMethodTotals", () => {
+  it("adds up the database's rows per method", () => {
+    expect(
+      combineMethodTotals([
+        { payment_method: "cash", received: 500, received_count: 2 },
+        { payment_method: "bank_transfer", received: 1000, received_count: 1 },
+        { payment_method: "cash", received: 250, received_count: 1 },
+      ])
+    ).toEqual([
+      { method: "cash", total: 750, count: 3 },
+      { method: "bank_transfer", total: 1000, count: 1 },
+    ]);
+  });
+
+  it("keeps a month where refunds paid out more than came in", () => {
+    // received is already net of refunds, so it can be negative
+    expect(
+      combineMethodTotals([
+        { payment_method: "cash", received: -200, received_count: 0 },
+        { payment_method: "mobile_money", received: 0, received_count: 0 },
+      ])
+    ).toEqual([{ method: "cash", total: -200, count: 0 }]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { LedgerEntry } from "@/lib/ledger";
+
+export type PaymentMethod = "cash" | "mobile_money" | "bank_transfer" | "cheque";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["cash", "mobile_money", "bank_transfer", "cheque"];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  mobile_money: "Mobile money",
+  bank_transfer: "Bank transfer",
+  cheque: "Cheque",
+};
+
+/** How a payment was received, as entered on a payment form */
+export interface PaymentMethodValue {
+  method: PaymentMethod;
+  reference: string;
+  /** Empty for the signed-in user */
+  receivedBy: string;
+}
+
+export const EMPTY_PAYMENT_METHOD: PaymentMethodValue = { method: "cash", reference: "", receivedBy: "" };
+
+/** Methods that come with a transaction or cheque number worth asking for */
+export const needsReference = (method: PaymentMethod) => method !== "cash";
+
+export interface MethodTotal {
+  /** null for payments recorded before methods were tracked */
+  method: PaymentMethod | null;
+  total: number;
+  count: number;
+}
+
+/**
+ * Money received per method, net of reversed payments and refunds paid out.
+ * Takes payment and refund entries and their reversals, which carry the same
+ * method. Only payments are counted.
+ */
+export function totalsByMethod(
+  entries: Pick<LedgerEntry, "amount" | "entry_type" | "payment_method" | "category">[]
+): MethodTotal[] {
+  const totals = new Map<PaymentMethod | null, MethodTotal>();
+
+  for (const entry of entries) {
+    const method = (entry.payment_method as PaymentMethod) ?? null;
+    const row = totals.get(method) ?? { method, total: 0, count: 0 };
+    row.total -= Number(entry.amount);
+    if (entry.category !== "refund") row.count += entry.entry_type === "payment" ? 1 : -1;
+    totals.set(method, row);
+  }
+
+  return orderedTotals(totals);
+}
+
+/**
+ * Combine per-method totals already summed by the database (e.g. one row per
+ * month and method) into one total per method
+ */
+export function combineMethodTotals(
+  rows: { payment_method: string | null; received: number; received_count: number }[]
+): MethodTotal[] {
+  const totals = new Map<PaymentMethod | null, MethodTotal>();
+
+  for (const row of rows) {
+    const method = (row.payment_method as PaymentMethod) ?? null;
+    const total = totals.get(method) ?? { method, total: 0, count: 0 };
+    total.total += Number(row.received);
+    total.count += Number(row.received_count);
+    totals.set(method, total);
+  }
+
+  return orderedTotals(totals);
+}
+
+function orderedTotals(totals: Map<PaymentMethod | null, MethodTotal>): MethodTotal[] {
+  return [...PAYMENT_METHODS, null]
+    .map((method) => totals.get(method))
+    .filter((row): row is MethodTotal => !!row && (row.total !== 0 || row.count !== 0));
+}
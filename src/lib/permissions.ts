@@ -0,0 +1,55 @@
+export type StaffRole = "owner" | "cashier" | "teacher" | "read_only";
+
+export const STAFF_ROLES: StaffRole[] = ["owner", "cashier", "teacher", "read_only"];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  owner: "Owner",
+  cashier: "Cashier",
+  teacher: "Teacher",
+  read_only: "Read-only",
+};
+
+export type Permission =
+  | "manageChildren"
+  | "deleteChildren"
+  | "markAttendance"
+  | "recordPayments"
+  | "backdateEntries"
+  | "reverseEntries"
+  | "issueRefunds"
+  | "manageMobileMoney"
+  | "closeDay"
+  | "reopenDay"
+  | "sendReminders"
+  | "manageSettings"
+  | "manageBranches"
+  | "viewAllBranches"
+  | "manageStaff"
+  | "viewAuditLog";
+
+/**
+ * Roles allowed to perform each action. The RLS policies in the database are
+ * the real enforcement; this only decides which controls are shown.
+ */
+const PERMISSIONS: Record<Permission, StaffRole[]> = {
+  manageChildren: ["owner", "cashier"],
+  deleteChildren: ["owner"],
+  markAttendance: ["owner", "cashier", "teacher"],
+  recordPayments: ["owner", "cashier"],
+  backdateEntries: ["owner"],
+  reverseEntries: ["owner"],
+  issueRefunds: ["owner"],
+  manageMobileMoney: ["owner", "cashier"],
+  closeDay: ["owner", "cashier"],
+  reopenDay: ["owner"],
+  sendReminders: ["owner", "cashier"],
+  manageSettings: ["owner"],
+  manageBranches: ["owner"],
+  viewAllBranches: ["owner"],
+  manageStaff: ["owner"],
+  viewAuditLog: ["owner"],
+};
+
+export function hasPermission(role: StaffRole | null, permission: Permission): boolean {
+  return !!role && PERMISSIONS[permission].includes(role);
+}
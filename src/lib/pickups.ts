@@ -0,0 +1,61 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { z } from "zod";
+import { RELATIONSHIPS, optional, phoneNumber } from "@/lib/guardians";
+
+export type AuthorizedPickup = Tables<"authorized_pickups">;
+
+export const PICKUP_RELATIONSHIPS = RELATIONSHIPS.filter((relationship) => relationship !== "Guardian").concat("Driver", "Nanny");
+
+const PHOTO_BUCKET = "pickup-photos";
+
+export const pickupSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required" }).max(100),
+  relationship: optional(z.string().trim().max(50)),
+  phone: optional(phoneNumber("Phone")),
+  id_number: z.string().trim().min(1, { message: "ID number is required" }).max(20, {
+    message: "ID number must be less than 20 characters",
+  }),
+});
+
+/**
+ * Who collected a child, as recorded at check-out
+ */
+export interface PickupPerson {
+  name: string;
+  idNumber: string | null;
+  /** Whether they were on the child's guardian or authorized pickup list */
+  authorized: boolean;
+}
+
+/**
+ * Upload a photo for a child's authorized pickup person, returning its storage path
+ */
+export async function uploadPickupPhoto(childId: string, file: File): Promise<string> {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const path = `${childId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, file, {
+    contentType: file.type,
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+export async function removePickupPhoto(path: string) {
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).remove([path]);
+  if (error) throw error;
+}
+
+/**
+ * Short-lived URLs for displaying pickup photos, keyed by storage path
+ */
+export async function fetchPickupPhotoUrls(paths: string[]): Promise<Map<string, string>> {
+  if (paths.length === 0) return new Map();
+
+  const { data, error } = await supabase.storage.from(PHOTO_BUCKET).createSignedUrls(paths, 60 * 60);
+
+  if (error) throw error;
+  return new Map(data.filter((d) => d.signedUrl).map((d) => [d.path, d.signedUrl]));
+}
@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Marks accounts created by the parent portal so they never get a staff profile */
+const PORTAL_USER_METADATA = { portal: true };
+
+/**
+ * Phone numbers as Supabase Auth expects them (E.164), assuming Kenyan
+ * numbers when written locally: 0712 345 678 becomes +254712345678
+ */
+export function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("0")) return `+254${digits.slice(1)}`;
+  return `+${digits}`;
+}
+
+export type PortalContact = { email: string } | { phone: string };
+
+/**
+ * Send a one-time sign-in code (and, for email, a magic link back to the portal)
+ */
+export async function sendPortalCode(contact: PortalContact) {
+  const { error } = await supabase.auth.signInWithOtp(
+    "email" in contact
+      ? {
+          email: contact.email,
+          options: { data: PORTAL_USER_METADATA, emailRedirectTo: `${window.location.origin}/portal` },
+        }
+      : { phone: toE164(contact.phone), options: { data: PORTAL_USER_METADATA } }
+  );
+
+  if (error) throw error;
+}
+
+export async function verifyPortalCode(contact: PortalContact, token: string) {
+  const { error } = await supabase.auth.verifyOtp(
+    "email" in contact
+      ? { email: contact.email, token, type: "email" }
+      : { phone: toE164(contact.phone), token, type: "sms" }
+  );
+
+  if (error) throw error;
+}
+
+/**
+ * Connect the signed-in account to the guardian records with its email or
+ * phone. Returns how many it's linked to; 0 means it isn't a known guardian.
+ */
+export async function linkGuardianAccount(): Promise<number> {
+  const { data, error } = await supabase.rpc("link_guardian_account");
+  if (error) throw error;
+  return data ?? 0;
+}
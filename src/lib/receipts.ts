@@ -0,0 +1,23 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Format a receipt number for display (e.g. "RCT-000042")
+ */
+export function formatReceiptNumber(receiptNumber: number): string {
+  return `RCT-${receiptNumber.toString().padStart(6, "0")}`;
+}
+
+/**
+ * Look up the receipt issued for a payment ledger entry.
+ * Receipts are written by the database in the same transaction as the payment.
+ */
+export async function fetchReceiptForEntry(ledgerEntryId: string) {
+  const { data, error } = await supabase
+    .from("receipts")
+    .select("id, receipt_number")
+    .eq("ledger_entry_id", ledgerEntryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,28 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SmsMessage = Tables<"sms_messages">;
+
+export type SmsStatus = "sent" | "failed" | "skipped";
+
+export const SMS_STATUS_LABELS: Record<SmsStatus, string> = {
+  sent: "Sent",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+/** Placeholders a reminder template can use, filled in by the fee-reminders function */
+export const REMINDER_PLACEHOLDERS = ["{child}", "{amount}", "{guardian}", "{center}"];
+
+/**
+ * Fill in a reminder template the way the fee-reminders function does; unknown
+ * placeholders are left as they are
+ */
+export const renderReminder = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
+/** What the function reports back after a run */
+export interface ReminderRunResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
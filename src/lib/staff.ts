@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { invokeEdgeFunction } from "@/lib/edge-functions";
+import type { StaffRole } from "@/lib/permissions";
+
+export interface StaffMember {
+  user_id: string;
+  email: string;
+  role: StaffRole;
+  disabled_at: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+}
+
+export interface StaffInvitation {
+  id: string;
+  email: string;
+  role: StaffRole;
+  /** Branch the account is assigned to once accepted */
+  center_id: string | null;
+  token: string;
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * Link the invitee opens to set their password
+ */
+export function inviteUrl(token: string): string {
+  return `${window.location.origin}/auth?invite=${token}`;
+}
+
+/**
+ * Staff accounts and open invitations (owners only)
+ */
+export function listStaff() {
+  return invokeEdgeFunction<{ staff: StaffMember[]; invitations: StaffInvitation[] }>("staff-admin", {
+    action: "list",
+  });
+}
+
+export function inviteStaff(email: string, role: StaffRole, centerId: string | null) {
+  return invokeEdgeFunction<{ invitation: StaffInvitation }>("staff-admin", {
+    action: "invite",
+    email,
+    role,
+    centerId,
+  });
+}
+
+export function revokeInvitation(invitationId: string) {
+  return invokeEdgeFunction("staff-admin", { action: "revoke-invite", invitationId });
+}
+
+export function setStaffDisabled(userId: string, disabled: boolean) {
+  return invokeEdgeFunction("staff-admin", { action: disabled ? "disable" : "enable", userId });
+}
+
+export function removeStaff(userId: string) {
+  return invokeEdgeFunction("staff-admin", { action: "remove", userId });
+}
+
+/**
+ * The branches each staff member is assigned to, by user id. Owners work in
+ * every branch and have no assignments.
+ */
+export async function fetchStaffBranches(): Promise<Map<string, string[]>> {
+  const { data, error } = await supabase.from("staff_centers").select("user_id, center_id");
+  if (error) throw error;
+
+  const branches = new Map<string, string[]>();
+  for (const row of data || []) {
+    branches.set(row.user_id, [...(branches.get(row.user_id) || []), row.center_id]);
+  }
+  return branches;
+}
+
+export async function setStaffBranch(userId: string, centerId: string, assigned: boolean) {
+  const { error } = assigned
+    ? await supabase.from("staff_centers").insert({ user_id: userId, center_id: centerId })
+    : await supabase.from("staff_centers").delete().eq("user_id", userId).eq("center_id", centerId);
+
+  if (error) throw error;
+}
+
+/**
+ * Look up the invitation behind an invite link
+ */
+export function lookupInvitation(token: string) {
+  return invokeEdgeFunction<{ email: string; role: StaffRole }>("accept-invite", { token });
+}
+
+/**
+ * Create the invitee's account; they can sign in with the password afterwards
+ */
+export function acceptInvitation(token: string, password: string) {
+  return invokeEdgeFunction<{ email: string }>("accept-invite", { token, password });
+}
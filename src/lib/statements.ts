@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { LedgerEntry } from "@/lib/ledger";
+
+export type StatementLineKind = "fee" | "extra" | "late_fee" | "discount" | "payment" | "refund" | "adjustment";
+
+export const STATEMENT_LINE_LABELS: Record<StatementLineKind, string> = {
+  fee: "Fee",
+  extra: "Extra",
+  late_fee: "Late fee",
+  discount: "Discount",
+  payment: "Payment",
+  refund: "Refund",
+  adjustment: "Adjustment",
+};
+
+export interface StatementLine {
+  id: string;
+  date: string;
+  kind: StatementLineKind;
+  reversal: boolean;
+  description: string;
+  amount: number;
+  balance: number;
+}
+
+export interface Statement {
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  /** Net of reversals, keyed by the kind of entry reversed */
+  totals: Record<StatementLineKind, number>;
+  closingBalance: number;
+}
+
+export interface StatementChild {
+  id: string;
+  name: string;
+  admission_number: string | null;
+  guardian_name: string;
+  contact_number: string;
+}
+
+/**
+ * What a ledger entry is on a statement. Fee charges are the ones posted for
+ * attendance or a fee plan; any other plain charge was added by hand as an extra.
+ */
+function lineKind(entry: LedgerEntry): StatementLineKind {
+  if (entry.category === "late_fee" || entry.category === "discount" || entry.category === "refund") {
+    return entry.category;
+  }
+  if (entry.entry_type === "payment") return "payment";
+  if (entry.entry_type === "adjustment") return "adjustment";
+  return entry.payment_id || entry.fee_plan_id ? "fee" : "extra";
+}
+
+const compareEntries = (a: LedgerEntry, b: LedgerEntry) =>
+  a.entry_date === b.entry_date
+    ? new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    : a.entry_date.localeCompare(b.entry_date);
+
+/**
+ * Build a statement for the period from a child's ledger entries up to its end
+ */
+export function buildStatement(entries: LedgerEntry[], from: string, to: string): Statement {
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const sorted = entries.filter((entry) => entry.entry_date <= to).sort(compareEntries);
+
+  const totals: Record<StatementLineKind, number> = {
+    fee: 0, extra: 0, late_fee: 0, discount: 0, payment: 0, refund: 0, adjustment: 0,
+  };
+  const lines: StatementLine[] = [];
+  let balance = 0;
+  let openingBalance = 0;
+
+  for (const entry of sorted) {
+    const amount = Number(entry.amount);
+    balance += amount;
+
+    if (entry.entry_date < from) {
+      openingBalance = balance;
+      continue;
+    }
+
+    const original = entry.entry_type === "reversal" ? entriesById.get(entry.reverses_entry_id ?? "") : undefined;
+    const kind = lineKind(original ?? entry);
+    totals[kind] += amount;
+    lines.push({
+      id: entry.id,
+      date: entry.entry_date,
+      kind,
+      reversal: entry.entry_type === "reversal",
+      description: entry.description || STATEMENT_LINE_LABELS[kind],
+      amount,
+      balance,
+    });
+  }
+
+  return { from, to, openingBalance, lines, totals, closingBalance: balance };
+}
+
+/**
+ * Load statements for the period: one child's, or every child at the branch who
+ * currently owes a balance
+ */
+export async function fetchStatements(
+  from: string,
+  to: string,
+  scope: { childId?: string; centerId?: string | null }
+): Promise<{ child: StatementChild; statement: Statement }[]> {
+  let childIds: string[];
+  if (scope.childId) {
+    childIds = [scope.childId];
+  } else {
+    const { data: balances, error } = await supabase
+      .from("child_balances")
+      .select("child_id")
+      .eq("center_id", scope.centerId)
+      .gt("balance", 0);
+    if (error) throw error;
+    childIds = (balances || []).map((b) => b.child_id).filter(Boolean);
+  }
+
+  if (childIds.length === 0) return [];
+
+  const { data: children, error: childrenError } = await supabase
+    .from("children")
+    .select("id, name, admission_number, guardian_name, contact_number")
+    .in("id", childIds)
+    .order("name");
+
+  if (childrenError) throw childrenError;
+
+  const statements = [];
+  for (const child of children || []) {
+    const { data: entries, error } = await supabase
+      .from("ledger_entries")
+      .select("*")
+      .eq("child_id", child.id)
+      .lte("entry_date", to);
+
+    if (error) throw error;
+    statements.push({ child, statement: buildStatement(entries || [], from, to) });
+  }
+  return statements;
+}
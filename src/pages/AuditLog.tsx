@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { History } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { addDays, startOfBusinessDay } from "@/lib/dates";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+type AuditEntry = Tables<"audit_log">;
+type Row = Record<string, Json>;
+
+const PAGE_SIZE = 200;
+const ALL = "all";
+const SYSTEM = "system";
+
+const ACTION_LABELS: Record<string, string> = {
+  INSERT: "Created",
+  UPDATE: "Changed",
+  DELETE: "Deleted",
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  children: "Child",
+  payments: "Payment",
+  ledger_entries: "Ledger entry",
+  receipts: "Receipt",
+  cash_ups: "Cash-up",
+};
+
+// Bookkeeping columns that would only clutter the change list
+const HIDDEN_FIELDS = ["id", "child_id", "created_at", "updated_at"];
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const formatField = (field: string) => field.replace(/_/g, " ");
+
+/**
+ * One line per field: what changed for updates, the values for inserts and deletes
+ */
+const describeChanges = (entry: AuditEntry): string[] => {
+  const before = (entry.old_data as Row) || {};
+  const after = (entry.new_data as Row) || {};
+
+  if (entry.action === "UPDATE") {
+    return Object.keys(after)
+      .filter((field) => !HIDDEN_FIELDS.includes(field))
+      .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map((field) => `${formatField(field)}: ${formatValue(before[field])} → ${formatValue(after[field])}`);
+  }
+
+  const row = entry.action === "DELETE" ? before : after;
+  return Object.keys(row)
+    .filter((field) => !HIDDEN_FIELDS.includes(field) && row[field] !== null)
+    .map((field) => `${formatField(field)}: ${formatValue(row[field])}`);
+};
+
+const AuditLog = () => {
+  const [searchParams] = useSearchParams();
+  const { getToday, timezone } = useCenterSettings();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [children, setChildren] = useState<{ id: string; name: string }[]>([]);
+  const [staff, setStaff] = useState<{ user_id: string; email: string }[]>([]);
+  const [childFilter, setChildFilter] = useState(searchParams.get("child") || ALL);
+  const [userFilter, setUserFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState(() => addDays(getToday(), -6));
+  const [toDate, setToDate] = useState(() => getToday());
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [childFilter, userFilter, fromDate, toDate, timezone]);
+
+  const fetchFilterOptions = async () => {
+    const [{ data: childrenData }, { data: staffData }] = await Promise.all([
+      supabase.from("children").select("id, name").order("name"),
+      supabase.from("staff_profiles").select("user_id, email").order("email"),
+    ]);
+    setChildren(childrenData || []);
+    setStaff(staffData || []);
+  };
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (childFilter !== ALL) query = query.eq("child_id", childFilter);
+      if (userFilter === SYSTEM) query = query.is("changed_by", null);
+      else if (userFilter !== ALL) query = query.eq("changed_by", userFilter);
+
+      // Dates are business days in the center's timezone
+      if (fromDate) query = query.gte("created_at", startOfBusinessDay(timezone, fromDate).toISOString());
+      if (toDate) query = query.lt("created_at", startOfBusinessDay(timezone, addDays(toDate, 1)).toISOString());
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Deleted children are no longer in the list, so fall back to the logged row
+  const childName = (entry: AuditEntry) => {
+    const child = children.find((c) => c.id === entry.child_id);
+    if (child) return child.name;
+    const row = (entry.table_name === "children" ? entry.old_data || entry.new_data : null) as Row | null;
+    return row?.name ? String(row.name) : "Removed child";
+  };
+
+  const actionVariant = (action: string) => {
+    if (action === "DELETE") return "destructive" as const;
+    if (action === "INSERT") return "default" as const;
+    return "secondary" as const;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+          <History className="h-8 w-8 text-primary" />
+          Audit Log
+        </h1>
+        <p className="text-muted-foreground mt-1">Every change to children, attendance, the ledger, receipts and cash-ups, and who made it</p>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="audit-child">Child</Label>
+            <Select value={childFilter} onValueChange={setChildFilter}>
+              <SelectTrigger id="audit-child">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All children</SelectItem>
+                {children.map((child) => (
+                  <SelectItem key={child.id} value={child.id}>
+                    {child.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-user">User</Label>
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger id="audit-user">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All users</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.email}
+                  </SelectItem>
+                ))}
+                <SelectItem value={SYSTEM}>System (automatic)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          {entries.length === PAGE_SIZE && (
+            <CardDescription>
+              Showing the latest {PAGE_SIZE} changes. Narrow the filters to see older ones.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No changes found</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Child</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{entry.changed_by ? entry.changed_by_email || "Removed user" : "System"}</TableCell>
+                      <TableCell>
+                        <Badge variant={actionVariant(entry.action)}>
+                          {TABLE_LABELS[entry.table_name] || entry.table_name} {ACTION_LABELS[entry.action].toLowerCase()}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {entry.child_id && children.some((c) => c.id === entry.child_id) ? (
+                          <button
+                            className="text-primary hover:underline"
+                            onClick={() => navigate(`/child/${entry.child_id}`)}
+                          >
+                            {childName(entry)}
+                          </button>
+                        ) : (
+                          childName(entry)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <ul className="space-y-0.5 text-sm text-muted-foreground">
+                          {describeChanges(entry).map((line) => (
+                            <li key={line}>{line}</li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
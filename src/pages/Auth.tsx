@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,20 +7,34 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Baby, Lock, Mail, Download } from "lucide-react";
+import { Baby, Lock, Mail, Download, Ticket } from "lucide-react";
 import { usePwaInstall } from "@/hooks/use-pwa-install";
 import InstallGuideModal from "@/components/InstallGuideModal";
 import { z } from "zod";
+import { acceptInvitation, lookupInvitation } from "@/lib/staff";
+import { ROLE_LABELS, StaffRole } from "@/lib/permissions";
 
 const authSchema = z.object({
   email: z.string().trim().email({ message: "Invalid email address" }),
   password: z.string().min(6, { message: "Password must be at least 6 characters" }),
 });
 
+const inviteSchema = z
+  .object({
+    password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+    confirmPassword: z.string(),
+  })
+  .refine((v) => v.password === v.confirmPassword, { message: "Passwords do not match" });
+
 const Auth = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [searchParams] = useSearchParams();
+  const [inviteToken, setInviteToken] = useState(searchParams.get("invite") || "");
+  const [invitation, setInvitation] = useState<{ email: string; role: StaffRole } | null>(null);
+  const [inviteError, setInviteError] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
   const navigate = useNavigate();
   const { toast } = useToast();
   const { canInstall, install, showManualGuide, setShowManualGuide, isSamsungBrowser } = usePwaInstall();
@@ -43,41 +57,40 @@ const Auth = () => {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
-  const handleAuth = async (type: "login" | "signup") => {
+  useEffect(() => {
+    setInvitation(null);
+    setInviteError("");
+    const token = inviteToken.trim();
+    if (!token) return;
+
+    let cancelled = false;
+    lookupInvitation(token)
+      .then((data) => !cancelled && setInvitation(data))
+      .catch((error) => !cancelled && setInviteError((error as Error).message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inviteToken]);
+
+  const handleAuth = async () => {
     try {
       // Validate input
       const validated = authSchema.parse({ email, password });
       
       setLoading(true);
 
-      if (type === "signup") {
-        const { error } = await supabase.auth.signUp({
-          email: validated.email,
-          password: validated.password,
-          options: {
-            emailRedirectTo: `${window.location.origin}/`,
-          },
-        });
-
-        if (error) throw error;
-
-        toast({
-          title: "Account created!",
-          description: "You can now log in with your credentials.",
-        });
-      } else {
-        const { error } = await supabase.auth.signInWithPassword({
-          email: validated.email,
-          password: validated.password,
-        });
+      const { error } = await supabase.auth.signInWithPassword({
+        email: validated.email,
+        password: validated.password,
+      });
 
-        if (error) throw error;
+      if (error) throw error;
 
-        toast({
-          title: "Welcome back!",
-          description: "Successfully logged in.",
-        });
-      }
+      toast({
+        title: "Welcome back!",
+        description: "Successfully logged in.",
+      });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         toast({
@@ -97,6 +110,38 @@ const Auth = () => {
     }
   };
 
+  const handleAcceptInvite = async () => {
+    if (!invitation) return;
+
+    try {
+      const validated = inviteSchema.parse({ password, confirmPassword });
+      setLoading(true);
+
+      await acceptInvitation(inviteToken.trim(), validated.password);
+
+      // Signing in triggers the redirect into the app
+      const { error } = await supabase.auth.signInWithPassword({
+        email: invitation.email,
+        password: validated.password,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Welcome!",
+        description: `Your ${ROLE_LABELS[invitation.role].toLowerCase()} account is ready.`,
+      });
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Invitation Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/5 via-background to-accent/10 p-4">
       <Card className="w-full max-w-md shadow-lg">
@@ -105,13 +150,13 @@ const Auth = () => {
             <Baby className="h-8 w-8 text-primary" />
           </div>
           <CardTitle className="text-2xl font-bold">Daycare Management</CardTitle>
-          <CardDescription>Admin access only</CardDescription>
+          <CardDescription>Staff access only</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="login" className="space-y-4">
+          <Tabs defaultValue={inviteToken ? "invite" : "login"} className="space-y-4">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              <TabsTrigger value="invite">Accept Invite</TabsTrigger>
             </TabsList>
 
             <TabsContent value="login" className="space-y-4">
@@ -142,12 +187,12 @@ const Auth = () => {
                     onChange={(e) => setPassword(e.target.value)}
                     className="pl-10"
                     disabled={loading}
-                    onKeyDown={(e) => e.key === "Enter" && handleAuth("login")}
+                    onKeyDown={(e) => e.key === "Enter" && handleAuth()}
                   />
                 </div>
               </div>
               <Button
-                onClick={() => handleAuth("login")}
+                onClick={handleAuth}
                 disabled={loading}
                 className="w-full"
               >
@@ -155,44 +200,64 @@ const Auth = () => {
               </Button>
             </TabsContent>
 
-            <TabsContent value="signup" className="space-y-4">
+            <TabsContent value="invite" className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="signup-email">Email</Label>
+                <Label htmlFor="invite-token">Invite code</Label>
                 <div className="relative">
-                  <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Ticket className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    id="signup-email"
-                    type="email"
-                    placeholder="admin@daycare.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
+                    id="invite-token"
+                    placeholder="Paste the code from your invite link"
+                    value={inviteToken}
+                    onChange={(e) => setInviteToken(e.target.value)}
                     className="pl-10"
                     disabled={loading}
                   />
                 </div>
+                {inviteError && <p className="text-sm text-destructive">{inviteError}</p>}
+                {invitation && (
+                  <p className="text-sm text-muted-foreground">
+                    Joining as {ROLE_LABELS[invitation.role].toLowerCase()} with {invitation.email}
+                  </p>
+                )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="signup-password">Password</Label>
+                <Label htmlFor="invite-password">Choose a password</Label>
                 <div className="relative">
                   <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    id="signup-password"
+                    id="invite-password"
                     type="password"
                     placeholder="••••••"
                     value={password}
                     onChange={(e) => setPassword(e.target.value)}
                     className="pl-10"
-                    disabled={loading}
-                    onKeyDown={(e) => e.key === "Enter" && handleAuth("signup")}
+                    disabled={loading || !invitation}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-confirm-password">Confirm password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="invite-confirm-password"
+                    type="password"
+                    placeholder="••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10"
+                    disabled={loading || !invitation}
+                    onKeyDown={(e) => e.key === "Enter" && handleAcceptInvite()}
                   />
                 </div>
               </div>
               <Button
-                onClick={() => handleAuth("signup")}
-                disabled={loading}
+                onClick={handleAcceptInvite}
+                disabled={loading || !invitation}
                 className="w-full"
               >
-                {loading ? "Creating account..." : "Sign Up"}
+                {loading ? "Creating account..." : "Create Account"}
               </Button>
             </TabsContent>
           </Tabs>
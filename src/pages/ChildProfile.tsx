@@ -5,9 +5,24 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { ArrowLeft, Banknote, FileText, History, Pencil, ReceiptText, Trash2, Undo2, UserMinus, UserPlus } from "lucide-react";
 import ChildDialog from "@/components/ChildDialog";
+import WithdrawChildDialog from "@/components/WithdrawChildDialog";
+import AuthorizedPickups from "@/components/AuthorizedPickups";
+import ChildDiscounts from "@/components/ChildDiscounts";
+import NotificationHistory from "@/components/NotificationHistory";
+import PaymentMethodFields from "@/components/PaymentMethodFields";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,43 +41,76 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { calculateCurrentAge, formatAge } from "@/lib/age-utils";
+import {
+  LEDGER_CATEGORY_LABELS,
+  LEDGER_ENTRY_LABELS,
+  LedgerCategory,
+  LedgerEntry,
+  LedgerEntryType,
+  recordLedgerPayment,
+  recordLedgerRefund,
+  reverseLedgerEntry,
+  summarizeLedger,
+  withRunningBalance,
+} from "@/lib/ledger";
+import { fetchReceiptForEntry, formatReceiptNumber } from "@/lib/receipts";
+import { CHILD_STATUS_LABELS, ChildStatus, isActiveChild } from "@/lib/child-status";
+import type { Guardian } from "@/lib/guardians";
+import { FeePlan, describeFeePlanRate } from "@/lib/fee-plans";
+import { EMPTY_PAYMENT_METHOD, PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payment-methods";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
 
 interface Child {
   id: string;
   name: string;
-  class: string | null;
+  center_id: string;
+  class_id: string | null;
+  classes: { name: string } | null;
   admission_number: string | null;
   guardian_name: string;
   contact_number: string;
   admission_date: string;
   payment_amount: number;
+  fee_plans: Pick<FeePlan, "name" | "rate" | "billing_period"> | null;
   age_value: number | null;
   age_unit: string | null;
   age_registered_at: string | null;
-}
-
-interface Payment {
-  id: string;
-  amount: number;
-  payment_date: string;
   status: string;
-  note: string | null;
-  debt_amount: number;
-  attendance_status: string | null;
+  left_on: string | null;
+  leaving_reason: string | null;
 }
 
 const ChildProfile = () => {
   const { childId } = useParams();
   const navigate = useNavigate();
   const [child, setChild] = useState<Child | null>(null);
-  const [payments, setPayments] = useState<Payment[]>([]);
+  const [guardians, setGuardians] = useState<(Guardian & { is_primary: boolean })[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [attendanceCount, setAttendanceCount] = useState(0);
+  const [receiptsByEntry, setReceiptsByEntry] = useState<Map<string, { id: string; receipt_number: number }>>(new Map());
   const [loading, setLoading] = useState(true);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [withdrawDialogOpen, setWithdrawDialogOpen] = useState(false);
+  const [readmitDialogOpen, setReadmitDialogOpen] = useState(false);
+  const [entryToReverse, setEntryToReverse] = useState<LedgerEntry | null>(null);
   const [partialPaymentAmount, setPartialPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState(EMPTY_PAYMENT_METHOD);
   const [setDebtAmount, setSetDebtAmount] = useState("");
+  const [refundDialogOpen, setRefundDialogOpen] = useState(false);
+  const [refund, setRefund] = useState({ amount: "", reason: "", method: "cash" as PaymentMethod });
   const { toast } = useToast();
+  const { getToday } = useCenterSettings();
+  const { can } = useStaff();
 
   useEffect(() => {
     if (childId) {
@@ -75,22 +123,51 @@ const ChildProfile = () => {
       // Fetch child details
       const { data: childData, error: childError } = await supabase
         .from("children")
-        .select("*")
+        .select("*, fee_plans(name, rate, billing_period), classes(name)")
         .eq("id", childId)
         .single();
 
       if (childError) throw childError;
       setChild(childData);
 
-      // Fetch payment history
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from("payments")
+      const { data: guardianLinks, error: guardiansError } = await supabase
+        .from("child_guardians")
+        .select("is_primary, guardians(*)")
+        .eq("child_id", childId)
+        .order("is_primary", { ascending: false });
+
+      if (guardiansError) throw guardiansError;
+      setGuardians(
+        (guardianLinks || [])
+          .filter((link) => link.guardians)
+          .map((link) => ({ ...link.guardians, is_primary: link.is_primary }))
+      );
+
+      // Fetch the child's ledger; balances are derived from it
+      const { data: ledgerData, error: ledgerError } = await supabase
+        .from("ledger_entries")
         .select("*")
         .eq("child_id", childId)
-        .order("payment_date", { ascending: false });
+        .order("entry_date", { ascending: false });
+
+      if (ledgerError) throw ledgerError;
+      setLedgerEntries(ledgerData || []);
+
+      const { data: receiptsData, error: receiptsError } = await supabase
+        .from("receipts")
+        .select("id, receipt_number, ledger_entry_id")
+        .eq("child_id", childId);
+
+      if (receiptsError) throw receiptsError;
+      setReceiptsByEntry(new Map(receiptsData?.map((r) => [r.ledger_entry_id, r])));
+
+      const { count: attendanceRows, error: attendanceError } = await supabase
+        .from("payments")
+        .select("id", { count: "exact", head: true })
+        .eq("child_id", childId);
 
-      if (paymentsError) throw paymentsError;
-      setPayments(paymentsData || []);
+      if (attendanceError) throw attendanceError;
+      setAttendanceCount(attendanceRows || 0);
 
       toast({
         title: "Success",
@@ -111,14 +188,21 @@ const ChildProfile = () => {
     return `Ksh ${Math.abs(amount).toFixed(2)}`;
   };
 
-  // Calculate total paid as (amount charged - remaining debt) for each record
-  // This correctly accounts for partial payments
-  const totalPaid = payments.reduce((sum, p) => {
-    const amountPaid = Number(p.amount) - Number(p.debt_amount || 0);
-    return sum + Math.max(0, amountPaid);
-  }, 0);
+  const { totalCharged, totalPaid, totalLateFees, totalDiscounts, balance } = summarizeLedger(ledgerEntries);
+  const totalDebt = Math.max(0, balance);
+  // Overpayments and advance payments are held as credit against later charges
+  const credit = Math.max(0, -balance);
+
+  // Newest first for display, with the balance after each entry
+  const ledgerRows = withRunningBalance(ledgerEntries).reverse();
+  const reversedEntryIds = new Set(ledgerEntries.map((entry) => entry.reverses_entry_id).filter(Boolean));
 
-  const totalDebt = payments.reduce((sum, p) => sum + Number(p.debt_amount || 0), 0);
+  const receiptAction = (receipt: { id: string } | null) =>
+    receipt ? (
+      <ToastAction altText="View receipt" onClick={() => navigate(`/receipt/${receipt.id}`)}>
+        Receipt
+      </ToastAction>
+    ) : undefined;
 
   const handlePartialPayment = async () => {
     const amount = parseFloat(partialPaymentAmount);
@@ -132,50 +216,27 @@ const ChildProfile = () => {
       return;
     }
 
-    if (amount > totalDebt) {
-      toast({
-        title: "Amount exceeds remaining debt.",
-        description: `Maximum payable amount is ${formatCurrency(totalDebt)}`,
-        variant: "destructive",
-      });
-      return;
-    }
-
     try {
-      // Get payments with debt, sorted by date (oldest first)
-      const paymentsWithDebt = payments
-        .filter(p => Number(p.debt_amount) > 0)
-        .sort((a, b) => new Date(a.payment_date).getTime() - new Date(b.payment_date).getTime());
-
-      let remainingAmount = amount;
-
-      // Pay off debts starting from oldest
-      for (const payment of paymentsWithDebt) {
-        if (remainingAmount <= 0) break;
-
-        const currentDebt = Number(payment.debt_amount);
-        const paymentAmount = Math.min(remainingAmount, currentDebt);
-        const newDebt = currentDebt - paymentAmount;
-
-        const { error } = await supabase
-          .from("payments")
-          .update({ 
-            debt_amount: newDebt,
-            status: newDebt === 0 ? "paid" : payment.status
-          })
-          .eq("id", payment.id);
-
-        if (error) throw error;
-
-        remainingAmount -= paymentAmount;
-      }
+      const entry = await recordLedgerPayment(childId, amount, {
+        description: amount > totalDebt ? "Advance payment" : "Partial payment",
+        method: paymentMethod.method,
+        reference: paymentMethod.reference.trim(),
+        receivedBy: paymentMethod.receivedBy,
+      });
+      const receipt = await fetchReceiptForEntry(entry.id);
+      const creditAfter = credit + amount - totalDebt;
 
       toast({
         title: "Success",
-        description: `Payment of ${formatCurrency(amount)} recorded successfully.`,
+        description:
+          creditAfter > 0
+            ? `Payment of ${formatCurrency(amount)} recorded. ${formatCurrency(creditAfter)} is held as credit.`
+            : `Payment of ${formatCurrency(amount)} recorded successfully.`,
+        action: receiptAction(receipt),
       });
 
       setPartialPaymentAmount("");
+      setPaymentMethod(EMPTY_PAYMENT_METHOD);
       fetchChildData();
     } catch (error: any) {
       toast({
@@ -199,7 +260,7 @@ const ChildProfile = () => {
     }
 
     // If entered amount is less than or equal to current debt, show warning
-    if (enteredAmount <= totalDebt) {
+    if (enteredAmount <= balance) {
       toast({
         title: "No Extra Charge",
         description: `Entered amount (${formatCurrency(enteredAmount)}) is not greater than current debt (${formatCurrency(totalDebt)}). No changes made.`,
@@ -208,21 +269,19 @@ const ChildProfile = () => {
       return;
     }
 
-    // Calculate only the extra amount to add
-    const extraAmount = enteredAmount - totalDebt;
+    // Calculate only the extra amount to add; any credit held is used up first
+    const extraAmount = enteredAmount - balance;
 
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = getToday();
       const { error } = await supabase
-        .from("payments")
+        .from("ledger_entries")
         .insert({
           child_id: childId,
+          entry_type: "charge",
           amount: extraAmount,
-          payment_date: today,
-          status: "pending",
-          debt_amount: extraAmount,
-          attendance_status: null,
-          note: "Extra"
+          entry_date: today,
+          description: "Extra"
         });
 
       if (error) throw error;
@@ -245,9 +304,7 @@ const ChildProfile = () => {
 
   const handleClearFullBalance = async () => {
     try {
-      const paymentsWithDebt = payments.filter(p => Number(p.debt_amount) > 0);
-      
-      if (paymentsWithDebt.length === 0) {
+      if (totalDebt === 0) {
         toast({
           title: "No Debt",
           description: "There is no outstanding debt to clear",
@@ -255,19 +312,22 @@ const ChildProfile = () => {
         return;
       }
 
-      const { error } = await supabase
-        .from("payments")
-        .update({ debt_amount: 0, status: "paid" })
-        .eq("child_id", childId)
-        .gt("debt_amount", 0);
-
-      if (error) throw error;
+      const entry = await recordLedgerPayment(childId, totalDebt, {
+        description: "Full balance cleared",
+        method: paymentMethod.method,
+        reference: paymentMethod.reference.trim(),
+        receivedBy: paymentMethod.receivedBy,
+      });
+      const receipt = await fetchReceiptForEntry(entry.id);
 
       toast({
         title: "Success",
         description: "Outstanding balance cleared.",
+        action: receiptAction(receipt),
       });
 
+      setPaymentMethod(EMPTY_PAYMENT_METHOD);
+
       fetchChildData();
     } catch (error: any) {
       toast({
@@ -278,17 +338,96 @@ const ChildProfile = () => {
     }
   };
 
-  const handleDelete = async () => {
+  const handleRefund = async () => {
+    const amount = parseFloat(refund.amount);
+
+    if (!amount || amount <= 0 || amount > credit) {
+      toast({
+        title: "Invalid Amount",
+        description: `Refunds can be up to the ${formatCurrency(credit)} credit held`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!refund.reason.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Give a reason for the refund",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
-      // Delete all payment records first
-      const { error: paymentsError } = await supabase
-        .from("payments")
-        .delete()
-        .eq("child_id", childId);
+      await recordLedgerRefund(childId, amount, refund.reason.trim(), refund.method);
+
+      toast({
+        title: "Success",
+        description: `Refund of ${formatCurrency(amount)} recorded.`,
+      });
+
+      setRefundDialogOpen(false);
+      fetchChildData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReverse = async () => {
+    if (!entryToReverse) return;
+
+    try {
+      const label = LEDGER_ENTRY_LABELS[entryToReverse.entry_type as LedgerEntryType].toLowerCase();
+      await reverseLedgerEntry(entryToReverse, `Reversed ${label} of ${formatCurrency(entryToReverse.amount)}`);
+
+      toast({
+        title: "Success",
+        description: "Ledger entry reversed.",
+      });
 
-      if (paymentsError) throw paymentsError;
+      fetchChildData();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setEntryToReverse(null);
+    }
+  };
 
-      // Delete the child record
+  const handleReadmit = async () => {
+    try {
+      const { error } = await supabase
+        .from("children")
+        .update({ status: "active", left_on: null, leaving_reason: null })
+        .eq("id", childId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${child?.name} has been re-admitted`,
+      });
+      fetchChildData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setReadmitDialogOpen(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
       const { error: childError } = await supabase
         .from("children")
         .delete()
@@ -298,7 +437,7 @@ const ChildProfile = () => {
 
       toast({
         title: "Success",
-        description: "Child and all records deleted successfully",
+        description: "Child record deleted successfully",
       });
 
       // Navigate back to children list
@@ -331,24 +470,71 @@ const ChildProfile = () => {
 
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle>Child Information</CardTitle>
-          <div className="flex gap-2">
+          <CardTitle className="flex items-center gap-2">
+            Child Information
+            {!isActiveChild(child) && (
+              <Badge variant="secondary">{CHILD_STATUS_LABELS[child.status as ChildStatus]}</Badge>
+            )}
+          </CardTitle>
+          <div className="flex flex-wrap justify-end gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setEditDialogOpen(true)}
-            >
-              <Pencil className="h-4 w-4 mr-2" />
-              Edit
-            </Button>
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={() => setDeleteDialogOpen(true)}
+              onClick={() => navigate(`/statements?child=${child.id}`)}
             >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete
+              <FileText className="h-4 w-4 mr-2" />
+              Statement
             </Button>
+            {can("viewAuditLog") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/audit?child=${child.id}`)}
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            )}
+            {can("manageChildren") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditDialogOpen(true)}
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            )}
+            {can("manageChildren") && (isActiveChild(child) ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setWithdrawDialogOpen(true)}
+              >
+                <UserMinus className="h-4 w-4 mr-2" />
+                Withdraw
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setReadmitDialogOpen(true)}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Re-admit
+              </Button>
+            ))}
+            {/* Children with any history are withdrawn instead, so nothing owed is lost */}
+            {can("deleteChildren") && ledgerEntries.length === 0 && attendanceCount === 0 && (
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setDeleteDialogOpen(true)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -362,12 +548,33 @@ const ChildProfile = () => {
               <p className="font-semibold">{child.admission_number || "N/A"}</p>
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Guardian Name</p>
-              <p className="font-semibold">{child.guardian_name}</p>
+              <p className="text-sm text-muted-foreground">Guardians</p>
+              {guardians.length === 0 ? (
+                <p className="font-semibold">{child.guardian_name} · {child.contact_number}</p>
+              ) : (
+                guardians.map((guardian) => (
+                  <p key={guardian.id} className="font-semibold">
+                    <button
+                      className="text-primary hover:underline"
+                      onClick={() => navigate(`/guardian/${guardian.id}`)}
+                    >
+                      {guardian.name}
+                    </button>
+                    {guardian.relationship && (
+                      <span className="font-normal text-muted-foreground"> ({guardian.relationship})</span>
+                    )}
+                    {" · "}
+                    {guardian.phone}
+                    {guardian.is_primary && guardians.length > 1 && (
+                      <Badge variant="outline" className="ml-2">Primary</Badge>
+                    )}
+                  </p>
+                ))
+              )}
             </div>
             <div>
-              <p className="text-sm text-muted-foreground">Contact</p>
-              <p className="font-semibold">{child.contact_number}</p>
+              <p className="text-sm text-muted-foreground">Class</p>
+              <p className="font-semibold">{child.classes?.name || "No class"}</p>
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Admission Date</p>
@@ -387,10 +594,21 @@ const ChildProfile = () => {
                 </p>
               </div>
             )}
+            {child.left_on && (
+              <div>
+                <p className="text-sm text-muted-foreground">Left</p>
+                <p className="font-semibold">
+                  {new Date(child.left_on).toLocaleDateString()}
+                  {child.leaving_reason && ` – ${child.leaving_reason}`}
+                </p>
+              </div>
+            )}
             <div>
-              <p className="text-sm text-muted-foreground">Daily Payment Amount</p>
+              <p className="text-sm text-muted-foreground">Fee Plan</p>
               <p className="font-semibold text-primary">
-                {formatCurrency(child.payment_amount)}
+                {child.fee_plans
+                  ? `${child.fee_plans.name} – ${describeFeePlanRate(child.fee_plans)}`
+                  : `${formatCurrency(child.payment_amount)} / day`}
               </p>
             </div>
           </div>
@@ -404,80 +622,123 @@ const ChildProfile = () => {
                 </p>
               </CardContent>
             </Card>
-            <Card className="bg-destructive/10">
+            <Card className={credit > 0 ? "bg-success/10" : "bg-destructive/10"}>
               <CardContent className="pt-6">
-                <p className="text-sm text-muted-foreground">Total Debt</p>
-                <p className="text-2xl font-bold text-destructive">
-                  {formatCurrency(totalDebt)}
-                </p>
+                {credit > 0 ? (
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Credit</p>
+                      <p className="text-2xl font-bold text-success">{formatCurrency(credit)}</p>
+                    </div>
+                    {can("issueRefunds") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setRefund({ amount: credit.toFixed(2), reason: "", method: "cash" });
+                          setRefundDialogOpen(true);
+                        }}
+                      >
+                        <Banknote className="h-4 w-4 mr-2" />
+                        Refund
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">Total Debt</p>
+                    <p className="text-2xl font-bold text-destructive">
+                      {formatCurrency(totalDebt)}
+                    </p>
+                  </>
+                )}
+                {totalLateFees > 0 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Late pickup fees charged: {formatCurrency(totalLateFees)}
+                  </p>
+                )}
+                {totalDiscounts > 0 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Fees charged {formatCurrency(totalCharged)}, less discounts of {formatCurrency(totalDiscounts)}
+                  </p>
+                )}
               </CardContent>
             </Card>
-            <Card className="bg-muted/30">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-base">Payment Actions</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="flex gap-2 items-center">
+            {can("recordPayments") && (
+              <Card className="bg-muted/30">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Payment Actions</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex gap-2 items-center">
+                    <Button 
+                      onClick={handlePartialPayment}
+                      disabled={!partialPaymentAmount}
+                      className="shrink-0 min-w-[100px]"
+                      size="sm"
+                    >
+                      Pay
+                    </Button>
+                    <Input
+                      type="number"
+                      placeholder="Amount"
+                      value={partialPaymentAmount}
+                      onChange={(e) => setPartialPaymentAmount(e.target.value)}
+                      className="bg-background flex-1"
+                      min="0"
+                    />
+                  </div>
+
+                  <PaymentMethodFields value={paymentMethod} onChange={setPaymentMethod} idPrefix="profile-payment" />
+                  
+                  <div className="flex gap-2 items-center">
+                    <Button 
+                      onClick={handleExtraCharge}
+                      disabled={!setDebtAmount}
+                      className="shrink-0 min-w-[100px]"
+                      size="sm"
+                    >
+                      Extra
+                    </Button>
+                    <Input
+                      type="number"
+                      placeholder="Amount"
+                      value={setDebtAmount}
+                      onChange={(e) => setSetDebtAmount(e.target.value)}
+                      className="bg-background flex-1"
+                      min="0"
+                    />
+                  </div>
+                  
                   <Button 
-                    onClick={handlePartialPayment}
-                    disabled={totalDebt === 0 || !partialPaymentAmount}
-                    className="shrink-0 min-w-[100px]"
-                    size="sm"
-                  >
-                    Pay
-                  </Button>
-                  <Input
-                    type="number"
-                    placeholder="Amount"
-                    value={partialPaymentAmount}
-                    onChange={(e) => setPartialPaymentAmount(e.target.value)}
+                    onClick={handleClearFullBalance}
                     disabled={totalDebt === 0}
-                    className="bg-background flex-1"
-                    min="0"
-                  />
-                </div>
-                
-                <div className="flex gap-2 items-center">
-                  <Button 
-                    onClick={handleExtraCharge}
-                    disabled={!setDebtAmount}
-                    className="shrink-0 min-w-[100px]"
+                    className="w-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
                     size="sm"
                   >
-                    Extra
+                    Clear Full Balance
                   </Button>
-                  <Input
-                    type="number"
-                    placeholder="Amount"
-                    value={setDebtAmount}
-                    onChange={(e) => setSetDebtAmount(e.target.value)}
-                    className="bg-background flex-1"
-                    min="0"
-                  />
-                </div>
-                
-                <Button 
-                  onClick={handleClearFullBalance}
-                  disabled={totalDebt === 0}
-                  className="w-full bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  size="sm"
-                >
-                  Clear Full Balance
-                </Button>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      <AuthorizedPickups childId={child.id} childName={child.name} />
+
+      <ChildDiscounts childId={child.id} childName={child.name} centerId={child.center_id} />
+
+      <NotificationHistory childId={child.id} />
+
       <Card>
         <CardHeader>
-          <CardTitle>Payment History</CardTitle>
+          <CardTitle>Account Ledger</CardTitle>
         </CardHeader>
         <CardContent>
-          {payments.length === 0 ? (
+          {ledgerRows.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
-              No payment history available
+              No ledger entries available
             </div>
           ) : (
             <div className="overflow-x-auto">
@@ -485,50 +746,83 @@ const ChildProfile = () => {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
                     <TableHead>Amount</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Note</TableHead>
-                    <TableHead>Debt</TableHead>
+                    <TableHead>Balance</TableHead>
+                    <TableHead className="w-24"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {payments.map((payment) => (
-                    <TableRow key={payment.id}>
-                      <TableCell>
-                        {new Date(payment.payment_date).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell
-                        className={
-                          payment.status === "paid"
-                            ? "text-success font-semibold"
-                            : "text-destructive font-semibold"
-                        }
-                      >
-                        {payment.status === "paid" ? "" : "-"}
-                        {formatCurrency(payment.amount)}
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant={payment.status === "paid" ? "default" : "secondary"}
+                  {ledgerRows.map((entry) => {
+                    const isReversed = reversedEntryIds.has(entry.id);
+                    const receipt = receiptsByEntry.get(entry.id);
+                    return (
+                      <TableRow key={entry.id} className={isReversed ? "opacity-60" : ""}>
+                        <TableCell>
+                          {new Date(entry.entry_date).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          {entry.category && entry.entry_type !== "reversal" ? (
+                            <Badge variant={entry.category === "late_fee" ? "destructive" : "outline"}>
+                              {LEDGER_CATEGORY_LABELS[entry.category as LedgerCategory]}
+                            </Badge>
+                          ) : (
+                            <Badge variant={entry.entry_type === "payment" ? "default" : "secondary"}>
+                              {LEDGER_ENTRY_LABELS[entry.entry_type as LedgerEntryType]}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {entry.description || "-"}
+                          {isReversed && " (reversed)"}
+                          {entry.payment_method && (entry.entry_type === "payment" || entry.category === "refund") && (
+                            <span className="block text-xs">
+                              {PAYMENT_METHOD_LABELS[entry.payment_method as PaymentMethod]}
+                              {entry.payment_reference && ` · ${entry.payment_reference}`}
+                              {entry.received_by_email && ` · received by ${entry.received_by_email}`}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell
                           className={
-                            payment.status === "paid"
-                              ? "bg-success text-success-foreground"
-                              : "bg-destructive text-destructive-foreground"
+                            entry.amount < 0
+                              ? "text-success font-semibold"
+                              : "text-destructive font-semibold"
                           }
                         >
-                          {payment.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="text-muted-foreground">
-                        {payment.note || "-"}
-                      </TableCell>
-                      <TableCell className="text-destructive font-semibold">
-                        {payment.debt_amount > 0
-                          ? formatCurrency(payment.debt_amount)
-                          : "-"}
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                          {entry.amount < 0 ? "-" : "+"}
+                          {formatCurrency(entry.amount)}
+                        </TableCell>
+                        <TableCell className={entry.running_balance > 0 ? "text-destructive font-semibold" : "font-semibold"}>
+                          {entry.running_balance < 0 && "CR "}
+                          {formatCurrency(entry.running_balance)}
+                        </TableCell>
+                        <TableCell className="flex gap-1">
+                          {receipt && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={formatReceiptNumber(receipt.receipt_number)}
+                              onClick={() => navigate(`/receipt/${receipt.id}`)}
+                            >
+                              <ReceiptText className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can("reverseEntries") && entry.entry_type !== "reversal" && !isReversed && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Reverse entry"
+                              onClick={() => setEntryToReverse(entry)}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -548,8 +842,7 @@ const ChildProfile = () => {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {child?.name} and all their payment records.
-              This action cannot be undone.
+              This will permanently delete {child?.name}. This action cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -560,6 +853,106 @@ const ChildProfile = () => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <WithdrawChildDialog
+        open={withdrawDialogOpen}
+        onOpenChange={setWithdrawDialogOpen}
+        child={child}
+        onSuccess={fetchChildData}
+      />
+
+      <AlertDialog open={readmitDialogOpen} onOpenChange={setReadmitDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-admit {child.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They'll be back on the children list and in daily attendance. Their previous history and
+              balance carry over.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReadmit}>
+              Re-admit
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={refundDialogOpen} onOpenChange={setRefundDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Refund Credit</DialogTitle>
+            <DialogDescription>
+              Pays money held for {child.name} back to their guardian. Up to {formatCurrency(credit)} can be refunded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (KSH)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={refund.amount}
+                onChange={(e) => setRefund({ ...refund, amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Input
+                id="refund-reason"
+                value={refund.reason}
+                onChange={(e) => setRefund({ ...refund, reason: e.target.value })}
+                placeholder="e.g. Child left, balance returned in cash"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-method">Paid by</Label>
+              <Select
+                value={refund.method}
+                onValueChange={(method) => setRefund({ ...refund, method: method as PaymentMethod })}
+              >
+                <SelectTrigger id="refund-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRefund}>Refund</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!entryToReverse} onOpenChange={(open) => !open && setEntryToReverse(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reverse this entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A reversal of {entryToReverse && formatCurrency(entryToReverse.amount)} will be added to the ledger.
+              The original entry stays on record.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReverse}>
+              Reverse
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -2,13 +2,30 @@ import { useEffect, useState, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Search } from "lucide-react";
+import { CloudUpload, LogOut, Plus, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToastAction } from "@/components/ui/toast";
 import ChildDialog from "@/components/ChildDialog";
+import CheckOutDialog from "@/components/CheckOutDialog";
 import { useNavigate } from "react-router-dom";
 import { useMidnightReset } from "@/hooks/use-midnight-reset";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+import { useOfflineSync } from "@/contexts/OfflineSyncContext";
+import type { DailyRecord, DailyWrite } from "@/lib/daily-attendance";
+import type { PickupPerson } from "@/lib/pickups";
+import { CHILD_STATUS_LABELS, ChildStatus, isActiveChild } from "@/lib/child-status";
+import { FeePlan, describeFeePlanRate } from "@/lib/fee-plans";
+import { ChildClass } from "@/lib/classes";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,12 +44,15 @@ interface Child {
   guardian_name: string;
   contact_number: string;
   admission_date: string;
-  class: string | null;
+  class_id: string | null;
   admission_number: string | null;
   payment_amount: number;
+  fee_plans: Pick<FeePlan, "name" | "rate" | "billing_period"> | null;
   age_value: number | null;
   age_unit: string | null;
   age_registered_at: string | null;
+  status: string;
+  left_on: string | null;
 }
 
 interface TodayAttendance {
@@ -41,9 +61,34 @@ interface TodayAttendance {
     absent: boolean;
     paid: boolean;
     unpaid: boolean;
+    arrivalTime?: string | null;
+    departureTime?: string | null;
+    pickedUpBy?: string | null;
+    // updated_at of today's record as last seen, to spot edits from other devices
+    updatedAt?: string | null;
+    // Changed on this device but not synced yet
+    queued?: boolean;
   };
 }
 
+const attendanceFromRecord = (record: Omit<DailyRecord, "id" | "amount">) => ({
+  present: record.attendance_status === "present",
+  absent: record.attendance_status === "absent",
+  paid: record.status === "paid",
+  unpaid: record.status === "unpaid",
+  arrivalTime: record.arrival_time,
+  departureTime: record.departure_time,
+  pickedUpBy: record.picked_up_by,
+  updatedAt: record.attendance_status !== null ? record.updated_at : null,
+});
+
+type ClassWithTeacher = ChildClass & { staff_profiles: { email: string } | null };
+
+const ALL_CLASSES = "all";
+const NO_CLASS = "none";
+
+const formatTime = (time: string) => new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
 const Children = () => {
   const [children, setChildren] = useState<Child[]>([]);
   const [loading, setLoading] = useState(true);
@@ -51,35 +96,69 @@ const Children = () => {
   const [selectedChild, setSelectedChild] = useState<Child | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [childToDelete, setChildToDelete] = useState<string | null>(null);
-  const [attendance, setAttendance] = useState<TodayAttendance>({});
+  const [savedAttendance, setSavedAttendance] = useState<TodayAttendance>({});
+  // Money held for children who've paid ahead, by child
+  const [credits, setCredits] = useState<Map<string, number>>(new Map());
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterStatus, setFilterStatus] = useState<"all" | "paid" | "unpaid">("all");
+  const [filterStatus, setFilterStatus] = useState<"all" | "paid" | "unpaid" | "onsite">("all");
+  const [checkOutChild, setCheckOutChild] = useState<Child | null>(null);
+  const [showFormer, setShowFormer] = useState(false);
+  const [classes, setClasses] = useState<ClassWithTeacher[]>([]);
+  const [classFilter, setClassFilter] = useState(ALL_CLASSES);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { centerId, getToday } = useCenterSettings();
+  const { can } = useStaff();
+  const { pendingWrites, syncedAt, submitWrite } = useOfflineSync();
 
   const handleMidnightReset = useCallback(() => {
     console.log("Midnight reset triggered - refreshing attendance data");
-    setAttendance({});
+    setSavedAttendance({});
     fetchTodaysAttendance();
-  }, []);
+  }, [getToday]);
 
   // Use the midnight reset hook for precise reset at 00:00
   useMidnightReset(handleMidnightReset);
 
   useEffect(() => {
     fetchChildren();
+  }, [centerId]);
+
+  const fetchClasses = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("classes")
+      .select("*, staff_profiles(email)")
+      .eq("center_id", centerId)
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching classes:", error);
+      return;
+    }
+    setClasses(data || []);
+    setClassFilter(ALL_CLASSES);
+  }, [centerId]);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [fetchClasses]);
+
+  // Refetch once the center's timezone is known, in case it moves the date
+  useEffect(() => {
     fetchTodaysAttendance();
-  }, []);
+  }, [getToday, centerId, syncedAt]);
 
   const fetchChildren = async () => {
     try {
       const { data, error } = await supabase
         .from("children")
-        .select("*")
+        .select("*, fee_plans(name, rate, billing_period)")
+        .eq("center_id", centerId)
         .order("admission_date", { ascending: false });
 
       if (error) throw error;
       setChildren(data || []);
+      fetchCredits();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -91,13 +170,28 @@ const Children = () => {
     }
   };
 
+  const fetchCredits = async () => {
+    const { data, error } = await supabase
+      .from("child_balances")
+      .select("child_id, credit")
+      .eq("center_id", centerId)
+      .gt("credit", 0);
+
+    if (error) {
+      console.error("Error fetching credit balances:", error);
+      return;
+    }
+    setCredits(new Map(data?.map((b) => [b.child_id, Number(b.credit)])));
+  };
+
   const fetchTodaysAttendance = async () => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getToday();
     
     try {
       const { data, error } = await supabase
         .from("payments")
         .select("*")
+        .eq("center_id", centerId)
         .eq("payment_date", today);
 
       if (error) throw error;
@@ -113,16 +207,11 @@ const Children = () => {
         
         // Only update if this is an attendance record or if no record exists yet
         if (payment.attendance_status !== null || !attendanceMap[payment.child_id]) {
-          attendanceMap[payment.child_id] = {
-            present: payment.attendance_status === "present",
-            absent: payment.attendance_status === "absent",
-            paid: payment.status === "paid",
-            unpaid: payment.status === "unpaid",
-          };
+          attendanceMap[payment.child_id] = attendanceFromRecord(payment);
         }
       });
 
-      setAttendance(attendanceMap);
+      setSavedAttendance(attendanceMap);
     } catch (error: any) {
       console.error("Error fetching today's attendance:", error);
     }
@@ -161,156 +250,187 @@ const Children = () => {
     }
   };
 
-  const handleAttendance = async (childId: string, childName: string, status: "present" | "absent", paymentAmount: number) => {
-    const today = new Date().toISOString().split("T")[0];
-    const time = new Date().toLocaleTimeString();
-    
+  // Show writes still waiting to sync on top of what the server last returned
+  const attendance: TodayAttendance = { ...savedAttendance };
+  pendingWrites.forEach(({ write, conflict }) => {
+    if (conflict || write.date !== getToday()) return;
+    const entry = attendance[write.childId] || { present: false, absent: false, paid: false, unpaid: false };
+    if (write.kind === "attendance") {
+      attendance[write.childId] = {
+        ...entry,
+        present: write.status === "present",
+        absent: write.status === "absent",
+        arrivalTime: write.status === "present" ? write.at : null,
+        queued: true,
+      };
+    } else if (write.kind === "checkout") {
+      attendance[write.childId] = { ...entry, departureTime: write.at, pickedUpBy: write.pickup.name, queued: true };
+    } else {
+      attendance[write.childId] = { ...entry, paid: write.status === "paid", unpaid: write.status === "unpaid", queued: true };
+    }
+  });
+
+  // Saves straight away when online; otherwise the write is kept on this device
+  // and synced later. Returns null if it failed.
+  const saveDailyWrite = async (write: DailyWrite) => {
     try {
-      // Check if a record already exists for today
-      const { data: existingRecord } = await supabase
-        .from("payments")
-        .select("*")
-        .eq("child_id", childId)
-        .eq("payment_date", today)
-        .maybeSingle();
-
-      const amount = status === "present" ? paymentAmount : 0;
-      const note = status === "present" 
-        ? `Child arrived at ${time}` 
-        : "Child did not report";
-
-      if (existingRecord) {
-        // Update existing record
-        const { error } = await supabase
-          .from("payments")
-          .update({
-            attendance_status: status,
-            arrival_time: status === "present" ? new Date().toISOString() : null,
-            note,
-          })
-          .eq("id", existingRecord.id);
-
-        if (error) throw error;
-      } else {
-        // Create new record with pending status
-        const { error } = await supabase
-          .from("payments")
-          .insert({
-            child_id: childId,
-            amount: Math.abs(amount),
-            payment_date: today,
-            status: "pending",
-            note,
-            attendance_status: status,
-            arrival_time: status === "present" ? new Date().toISOString() : null,
-            debt_amount: Math.abs(amount),
-          });
-
-        if (error) throw error;
+      const result = await submitWrite(write, savedAttendance[write.childId]?.updatedAt ?? null);
+
+      const { record } = result;
+      if (record) {
+        setSavedAttendance(prev => ({
+          ...prev,
+          [write.childId]: attendanceFromRecord(record),
+        }));
       }
-
-      setAttendance(prev => ({
-        ...prev,
-        [childId]: {
-          present: status === "present",
-          absent: status === "absent",
-          paid: existingRecord?.status === "paid" || false,
-          unpaid: existingRecord?.status === "unpaid" || false,
-        }
-      }));
-
-      toast({
-        title: status === "present" ? "✅ Child marked present" : "⚠️ Child marked absent",
-        description: status === "present" 
-          ? `${childName} — Ksh ${paymentAmount.toFixed(2)} pending` 
-          : `${childName} did not report`,
-      });
-    } catch (error: any) {
+      return result;
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: (error as Error).message,
         variant: "destructive",
       });
+      // Most likely changed on another device, so show what the server has now
+      fetchTodaysAttendance();
+      return null;
     }
   };
 
-  const handlePayment = async (childId: string, childName: string, status: "paid" | "unpaid", paymentAmount: number) => {
-    const today = new Date().toISOString().split("T")[0];
-    
-    try {
-      // Find today's payment record
-      const { data: existingPayment } = await supabase
-        .from("payments")
-        .select("*")
-        .eq("child_id", childId)
-        .eq("payment_date", today)
-        .single();
-
-      if (!existingPayment) {
-        toast({
-          title: "Error",
-          description: "Please mark attendance first",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      const { error } = await supabase
-        .from("payments")
-        .update({
-          status,
-          debt_amount: status === "paid" ? 0 : paymentAmount,
-        })
-        .eq("id", existingPayment.id);
-
-      if (error) throw error;
-
-      setAttendance(prev => ({
-        ...prev,
-        [childId]: {
-          ...prev[childId],
-          paid: status === "paid",
-          unpaid: status === "unpaid",
-        }
-      }));
+  const handleAttendance = async (childId: string, childName: string, status: "present" | "absent", paymentAmount: number) => {
+    const result = await saveDailyWrite({
+      kind: "attendance",
+      childId,
+      childName,
+      date: getToday(),
+      status,
+      paymentAmount,
+      at: new Date().toISOString(),
+    });
+    if (!result) return;
+
+    const paidFromCredit = status === "present" && result.record?.status === "paid";
+    if (status === "present") fetchCredits();
+
+    toast({
+      title: status === "present" ? "✅ Child marked present" : "⚠️ Child marked absent",
+      description: (status === "present"
+        ? `${childName} — Ksh ${paymentAmount.toFixed(2)} ${paidFromCredit ? "paid from credit" : "pending"}`
+        : `${childName} did not report`) + (result.queued ? " (saved offline)" : ""),
+    });
+  };
 
-      toast({
-        title: status === "paid" ? "💰 Payment recorded" : "🚨 Payment not received",
-        description: status === "paid"
-          ? `${childName} — Ksh ${paymentAmount.toFixed(2)}`
-          : `${childName} — debt recorded`,
-      });
-    } catch (error: any) {
+  const handlePayment = async (childId: string, childName: string, status: "paid" | "unpaid", paymentAmount: number) => {
+    if (!attendance[childId]?.present) {
       toast({
         title: "Error",
-        description: error.message,
+        description: "Please mark attendance first",
         variant: "destructive",
       });
+      return;
     }
+
+    const result = await saveDailyWrite({
+      kind: "payment",
+      childId,
+      childName,
+      date: getToday(),
+      status,
+      paymentAmount,
+      at: new Date().toISOString(),
+    });
+    if (!result) return;
+
+    const { receipt } = result;
+    toast({
+      title: status === "paid" ? "💰 Payment recorded" : "🚨 Payment not received",
+      description: (status === "paid"
+        ? `${childName} — Ksh ${paymentAmount.toFixed(2)}`
+        : `${childName} — debt recorded`) + (result.queued ? " (saved offline)" : ""),
+      action: receipt ? (
+        <ToastAction altText="View receipt" onClick={() => navigate(`/receipt/${receipt.id}`)}>
+          Receipt
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const handleCheckOut = async (pickup: PickupPerson) => {
+    if (!checkOutChild) return;
+
+    const result = await saveDailyWrite({
+      kind: "checkout",
+      childId: checkOutChild.id,
+      childName: checkOutChild.name,
+      date: getToday(),
+      status: "checked_out",
+      paymentAmount: checkOutChild.payment_amount,
+      at: new Date().toISOString(),
+      pickup,
+    });
+    if (!result) return;
+
+    toast({
+      title: pickup.authorized ? "👋 Child checked out" : "⚠️ Released to unlisted person",
+      description: `${checkOutChild.name} collected by ${pickup.name}` + (result.queued ? " (saved offline)" : ""),
+      variant: pickup.authorized ? "default" : "destructive",
+    });
   };
 
-  const isChildDayComplete = (childId: string) => {
-    const childAttendance = attendance[childId] || { present: false, absent: false, paid: false, unpaid: false };
+  const isOnSite = (childId: string) => attendance[childId]?.present && !attendance[childId]?.departureTime;
+
+  // Weekly, monthly and termly plans are billed by the nightly run, so there's no payment to take at the door
+  const paysDaily = (child: Child) => !child.fee_plans || child.fee_plans.billing_period === "daily";
+
+  const isChildDayComplete = (child: Child) => {
+    const childAttendance = attendance[child.id] || { present: false, absent: false, paid: false, unpaid: false };
     // Day is complete if: absent was marked OR (present was marked AND payment status was determined)
-    return childAttendance.absent || (childAttendance.present && (childAttendance.paid || childAttendance.unpaid));
+    return childAttendance.absent || (childAttendance.present && (!paysDaily(child) || childAttendance.paid || childAttendance.unpaid));
   };
 
-  const isAbsentButtonDisabled = (childId: string) => {
-    const childAttendance = attendance[childId] || { present: false, absent: false, paid: false, unpaid: false };
+  const isAbsentButtonDisabled = (child: Child) => {
+    const childAttendance = attendance[child.id] || { present: false, absent: false, paid: false, unpaid: false };
     // Disable Absent if Present is already marked or day is complete
-    return childAttendance.present || isChildDayComplete(childId);
+    return childAttendance.present || isChildDayComplete(child);
   };
 
+  // Withdrawn and graduated children are kept for their history but listed separately
+  const formerCount = children.filter((child) => !isActiveChild(child)).length;
+  const onSiteCount = children.filter((child) => isActiveChild(child) && isOnSite(child.id)).length;
+
   const filteredChildren = children.filter((child) => {
+    if (isActiveChild(child) === showFormer) return false;
+    if (showFormer) {
+      return child.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+             child.guardian_name.toLowerCase().includes(searchQuery.toLowerCase());
+    }
     const childAttendance = attendance[child.id] || { present: false, absent: false, paid: false, unpaid: false };
     const matchesSearch = child.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          child.guardian_name.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesClass = classFilter === ALL_CLASSES || (child.class_id || NO_CLASS) === classFilter;
     const matchesFilter = filterStatus === "all" ||
                          (filterStatus === "paid" && childAttendance.paid) ||
-                         (filterStatus === "unpaid" && childAttendance.unpaid);
-    return matchesSearch && matchesFilter;
+                         (filterStatus === "unpaid" && childAttendance.unpaid) ||
+                         (filterStatus === "onsite" && isOnSite(child.id));
+    return matchesSearch && matchesClass && matchesFilter;
   });
 
+  const classSize = (classId: string) =>
+    children.filter((child) => isActiveChild(child) && child.class_id === classId).length;
+
+  // Children are listed under their class, with any not in one at the end
+  const classGroups = [
+    ...classes.map((childClass) => ({
+      key: childClass.id,
+      childClass,
+      children: filteredChildren.filter((child) => child.class_id === childClass.id),
+    })),
+    {
+      key: NO_CLASS,
+      childClass: null,
+      children: filteredChildren.filter((child) => !classes.some((c) => c.id === child.class_id)),
+    },
+  ].filter((group) => group.children.length > 0);
+
   return (
     <div className="space-y-6 p-6">
       <div className="flex items-center justify-between">
@@ -318,13 +438,15 @@ const Children = () => {
           <h2 className="text-3xl font-bold">Children</h2>
           <p className="text-muted-foreground">Manage registered children</p>
         </div>
-        <Button 
-          onClick={() => { setSelectedChild(null); setDialogOpen(true); }}
-          className="rounded-full"
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Add Child
-        </Button>
+        {can("manageChildren") && (
+          <Button 
+            onClick={() => { setSelectedChild(null); setDialogOpen(true); }}
+            className="rounded-full"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Child
+          </Button>
+        )}
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
@@ -337,28 +459,64 @@ const Children = () => {
             className="pl-10"
           />
         </div>
-        <div className="flex gap-2">
-          <Button
-            variant={filterStatus === "all" ? "default" : "outline"}
-            onClick={() => setFilterStatus("all")}
-            size="sm"
-          >
-            All
-          </Button>
-          <Button
-            variant={filterStatus === "paid" ? "default" : "outline"}
-            onClick={() => setFilterStatus("paid")}
-            size="sm"
-          >
-            Paid
-          </Button>
-          <Button
-            variant={filterStatus === "unpaid" ? "default" : "outline"}
-            onClick={() => setFilterStatus("unpaid")}
-            size="sm"
-          >
-            Unpaid
-          </Button>
+        {classes.length > 0 && (
+          <Select value={classFilter} onValueChange={setClassFilter}>
+            <SelectTrigger className="w-full sm:w-[200px]" aria-label="Class">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CLASSES}>All classes</SelectItem>
+              {classes.map((childClass) => (
+                <SelectItem key={childClass.id} value={childClass.id}>
+                  {childClass.name}
+                </SelectItem>
+              ))}
+              <SelectItem value={NO_CLASS}>No class</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {!showFormer && (
+            <>
+              <Button
+                variant={filterStatus === "all" ? "default" : "outline"}
+                onClick={() => setFilterStatus("all")}
+                size="sm"
+              >
+                All
+              </Button>
+              <Button
+                variant={filterStatus === "paid" ? "default" : "outline"}
+                onClick={() => setFilterStatus("paid")}
+                size="sm"
+              >
+                Paid
+              </Button>
+              <Button
+                variant={filterStatus === "unpaid" ? "default" : "outline"}
+                onClick={() => setFilterStatus("unpaid")}
+                size="sm"
+              >
+                Unpaid
+              </Button>
+              <Button
+                variant={filterStatus === "onsite" ? "default" : "outline"}
+                onClick={() => setFilterStatus("onsite")}
+                size="sm"
+              >
+                On site ({onSiteCount})
+              </Button>
+            </>
+          )}
+          {formerCount > 0 && (
+            <Button
+              variant={showFormer ? "default" : "outline"}
+              onClick={() => setShowFormer(!showFormer)}
+              size="sm"
+            >
+              Former ({formerCount})
+            </Button>
+          )}
         </div>
       </div>
 
@@ -369,86 +527,152 @@ const Children = () => {
           No children found
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {filteredChildren.map((child) => {
-            const childAttendance = attendance[child.id] || { present: false, absent: false, paid: false, unpaid: false };
-            
-            return (
-              <Card 
-                key={child.id} 
-                className="bg-card hover:shadow-lg transition-all duration-300 cursor-pointer"
-                onClick={() => navigate(`/child/${child.id}`)}
-              >
-                <CardContent className="p-6">
-                  <div className="flex items-start justify-between mb-4">
-                    <h3 className="text-2xl font-bold">{child.name}</h3>
-                    <Badge 
-                      variant={childAttendance.paid ? "default" : "secondary"}
-                      className={childAttendance.paid ? "bg-primary" : "bg-muted"}
-                    >
-                      {childAttendance.paid ? "Paid" : "Unpaid"}
-                    </Badge>
-                  </div>
-
-                  <div className="mb-6">
-                    <p className="text-sm text-muted-foreground mb-1">Payment Amount</p>
-                    <p className="text-xl font-semibold">
-                      <span className={childAttendance.paid ? "text-primary" : "text-foreground"}>
-                        Ksh {child.payment_amount.toFixed(2)}
+        <div className="space-y-8">
+          {classGroups.map((group) => (
+            <section key={group.key} className="space-y-4">
+              {classes.length > 0 && (
+                <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                  <h3 className="text-xl font-semibold">{group.childClass?.name ?? "No class"}</h3>
+                  {group.childClass && (
+                    <p className="text-sm text-muted-foreground">
+                      <span className={classSize(group.childClass.id) > group.childClass.capacity ? "text-destructive" : ""}>
+                        {classSize(group.childClass.id)} of {group.childClass.capacity} places
                       </span>
+                      {group.childClass.staff_profiles && ` · Led by ${group.childClass.staff_profiles.email}`}
                     </p>
-                  </div>
-
-                  <div className="grid grid-cols-2 gap-3" onClick={(e) => e.stopPropagation()}>
-                    <Button
-                      size="sm"
-                      variant={childAttendance.present ? "default" : "outline"}
-                      className={`transition-all duration-300 ${
-                        childAttendance.present ? "bg-btn-present hover:bg-btn-present/90 text-btn-present-foreground scale-105" : "hover:scale-105"
-                      } ${isChildDayComplete(child.id) ? "opacity-50 cursor-not-allowed" : ""}`}
-                      onClick={() => handleAttendance(child.id, child.name, "present", child.payment_amount)}
-                      disabled={isChildDayComplete(child.id)}
-                    >
-                      Present
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant={childAttendance.absent ? "default" : "outline"}
-                      className={`transition-all duration-300 ${
-                        childAttendance.absent ? "bg-btn-absent hover:bg-btn-absent/90 text-btn-absent-foreground scale-105" : "hover:scale-105"
-                      } ${isAbsentButtonDisabled(child.id) ? "opacity-50 cursor-not-allowed" : ""}`}
-                      onClick={() => handleAttendance(child.id, child.name, "absent", child.payment_amount)}
-                      disabled={isAbsentButtonDisabled(child.id)}
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {group.children.map((child) => {
+                  const childAttendance = attendance[child.id] || { present: false, absent: false, paid: false, unpaid: false };
+                  
+                  return (
+                    <Card 
+                      key={child.id} 
+                      className="bg-card hover:shadow-lg transition-all duration-300 cursor-pointer"
+                      onClick={() => navigate(`/child/${child.id}`)}
                     >
-                      Absent
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant={childAttendance.paid ? "default" : "outline"}
-                      className={`transition-all duration-300 ${
-                        childAttendance.paid ? "bg-btn-paid hover:bg-btn-paid/90 text-btn-paid-foreground scale-105" : "hover:scale-105"
-                      } ${!childAttendance.present || isChildDayComplete(child.id) ? "opacity-50 cursor-not-allowed" : ""}`}
-                      onClick={() => handlePayment(child.id, child.name, "paid", child.payment_amount)}
-                      disabled={!childAttendance.present || isChildDayComplete(child.id)}
-                    >
-                      Paid
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant={childAttendance.unpaid ? "default" : "outline"}
-                      className={`transition-all duration-300 ${
-                        childAttendance.unpaid ? "bg-btn-unpaid hover:bg-btn-unpaid/90 text-btn-unpaid-foreground scale-105" : "hover:scale-105"
-                      } ${!childAttendance.present || isChildDayComplete(child.id) ? "opacity-50 cursor-not-allowed" : ""}`}
-                      onClick={() => handlePayment(child.id, child.name, "unpaid", child.payment_amount)}
-                      disabled={!childAttendance.present || isChildDayComplete(child.id)}
-                    >
-                      Unpaid
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            );
-          })}
+                      <CardContent className="p-6">
+                        <div className="flex items-start justify-between mb-4">
+                          <h3 className="text-2xl font-bold">{child.name}</h3>
+                          {showFormer ? (
+                            <Badge variant="secondary">
+                              {CHILD_STATUS_LABELS[child.status as ChildStatus]}
+                              {child.left_on && ` · ${new Date(child.left_on).toLocaleDateString()}`}
+                            </Badge>
+                          ) : paysDaily(child) && (
+                            <Badge 
+                              variant={childAttendance.paid ? "default" : "secondary"}
+                              className={childAttendance.paid ? "bg-primary" : "bg-muted"}
+                            >
+                              {childAttendance.paid ? "Paid" : "Unpaid"}
+                              {childAttendance.queued && <CloudUpload className="ml-1 h-3 w-3" aria-label="Not synced yet" />}
+                            </Badge>
+                          )}
+                        </div>
+
+                        <div className="mb-6">
+                          {paysDaily(child) ? (
+                            <>
+                              <p className="text-sm text-muted-foreground mb-1">Payment Amount</p>
+                              <p className="text-xl font-semibold">
+                                <span className={childAttendance.paid ? "text-primary" : "text-foreground"}>
+                                  Ksh {child.payment_amount.toFixed(2)}
+                                </span>
+                              </p>
+                            </>
+                          ) : (
+                            <>
+                              <p className="text-sm text-muted-foreground mb-1">{child.fee_plans.name}</p>
+                              <p className="text-xl font-semibold">{describeFeePlanRate(child.fee_plans)}</p>
+                            </>
+                          )}
+                          {credits.has(child.id) && (
+                            <p className="text-sm font-medium text-success mt-1">
+                              Credit Ksh {credits.get(child.id).toFixed(2)}
+                            </p>
+                          )}
+                          {!showFormer && childAttendance.present && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                              {childAttendance.arrivalTime && `Arrived ${formatTime(childAttendance.arrivalTime)}`}
+                              {childAttendance.departureTime
+                                ? ` · Collected ${formatTime(childAttendance.departureTime)} by ${childAttendance.pickedUpBy}`
+                                : " · On site"}
+                            </p>
+                          )}
+                        </div>
+
+                        {can("markAttendance") && !showFormer && (
+                          <div className="grid grid-cols-2 gap-3" onClick={(e) => e.stopPropagation()}>
+                            <Button
+                              size="sm"
+                              variant={childAttendance.present ? "default" : "outline"}
+                              className={`transition-all duration-300 ${
+                                childAttendance.present ? "bg-btn-present hover:bg-btn-present/90 text-btn-present-foreground scale-105" : "hover:scale-105"
+                              } ${isChildDayComplete(child) ? "opacity-50 cursor-not-allowed" : ""}`}
+                              onClick={() => handleAttendance(child.id, child.name, "present", child.payment_amount)}
+                              disabled={isChildDayComplete(child)}
+                            >
+                              Present
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant={childAttendance.absent ? "default" : "outline"}
+                              className={`transition-all duration-300 ${
+                                childAttendance.absent ? "bg-btn-absent hover:bg-btn-absent/90 text-btn-absent-foreground scale-105" : "hover:scale-105"
+                              } ${isAbsentButtonDisabled(child) ? "opacity-50 cursor-not-allowed" : ""}`}
+                              onClick={() => handleAttendance(child.id, child.name, "absent", child.payment_amount)}
+                              disabled={isAbsentButtonDisabled(child)}
+                            >
+                              Absent
+                            </Button>
+                            {can("recordPayments") && paysDaily(child) && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant={childAttendance.paid ? "default" : "outline"}
+                                  className={`transition-all duration-300 ${
+                                    childAttendance.paid ? "bg-btn-paid hover:bg-btn-paid/90 text-btn-paid-foreground scale-105" : "hover:scale-105"
+                                  } ${!childAttendance.present || isChildDayComplete(child) ? "opacity-50 cursor-not-allowed" : ""}`}
+                                  onClick={() => handlePayment(child.id, child.name, "paid", child.payment_amount)}
+                                  disabled={!childAttendance.present || isChildDayComplete(child)}
+                                >
+                                  Paid
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant={childAttendance.unpaid ? "default" : "outline"}
+                                  className={`transition-all duration-300 ${
+                                    childAttendance.unpaid ? "bg-btn-unpaid hover:bg-btn-unpaid/90 text-btn-unpaid-foreground scale-105" : "hover:scale-105"
+                                  } ${!childAttendance.present || isChildDayComplete(child) ? "opacity-50 cursor-not-allowed" : ""}`}
+                                  onClick={() => handlePayment(child.id, child.name, "unpaid", child.payment_amount)}
+                                  disabled={!childAttendance.present || isChildDayComplete(child)}
+                                >
+                                  Unpaid
+                                </Button>
+                              </>
+                            )}
+                            {childAttendance.present && !childAttendance.departureTime && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="col-span-2 transition-all duration-300 hover:scale-105"
+                                onClick={() => setCheckOutChild(child)}
+                              >
+                                <LogOut className="mr-2 h-4 w-4" />
+                                Check Out
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
         </div>
       )}
 
@@ -459,6 +683,13 @@ const Children = () => {
         onSuccess={fetchChildren}
       />
 
+      <CheckOutDialog
+        open={!!checkOutChild}
+        onOpenChange={(open) => !open && setCheckOutChild(null)}
+        child={checkOutChild}
+        onConfirm={handleCheckOut}
+      />
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
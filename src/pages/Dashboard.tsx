@@ -4,6 +4,11 @@ import { BarChart3, Users, FileText, ChevronRight, DollarSign, AlertCircle, Tren
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { useMidnightReset } from "@/hooks/use-midnight-reset";
+import { effectiveEntryType } from "@/lib/ledger";
+import { monthBounds } from "@/lib/dates";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+import BranchOverview from "@/components/BranchOverview";
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -13,29 +18,32 @@ const Dashboard = () => {
   const [totalPaidOverall, setTotalPaidOverall] = useState(0);
   const [monthlyCollection, setMonthlyCollection] = useState(0);
   const [loading, setLoading] = useState(true);
+  const { centers, centerId, getToday } = useCenterSettings();
+  const { can } = useStaff();
 
   const handleMidnightReset = useCallback(() => {
     console.log("Midnight reset triggered - refreshing dashboard data");
     fetchDashboardData();
-  }, []);
+  }, [getToday, centerId]);
 
   // Use the midnight reset hook for precise reset at 00:00
   useMidnightReset(handleMidnightReset);
 
   useEffect(() => {
     fetchDashboardData();
-  }, []);
+  }, [getToday, centerId]);
 
   const fetchDashboardData = async () => {
     try {
-      const today = new Date().toISOString().split("T")[0];
-      const firstDayOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split("T")[0];
-      const lastDayOfMonth = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).toISOString().split("T")[0];
+      const today = getToday();
+      const { start: firstDayOfMonth, end: lastDayOfMonth } = monthBounds(today);
 
-      // Get total children count
+      // Get total children count, leaving out those who have left
       const { count, error: countError } = await supabase
         .from("children")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .eq("center_id", centerId)
+        .eq("status", "active");
 
       if (countError) throw countError;
       setTotalChildren(count || 0);
@@ -44,6 +52,7 @@ const Dashboard = () => {
       const { data: todayPayments, error: todayError } = await supabase
         .from("payments")
         .select("amount, children(payment_amount)")
+        .eq("center_id", centerId)
         .eq("payment_date", today)
         .eq("attendance_status", "present");
 
@@ -55,38 +64,35 @@ const Dashboard = () => {
       }, 0) || 0;
       setTodayCollection(todayTotal);
 
-      // Get total outstanding debt
-      const { data: debtData, error: debtError } = await supabase
-        .from("payments")
-        .select("debt_amount");
+      // Balances are derived from the ledger per child
+      const { data: balances, error: balancesError } = await supabase
+        .from("child_balances")
+        .select("balance, total_paid")
+        .eq("center_id", centerId);
 
-      if (debtError) throw debtError;
-      
-      const totalDebtAmount = debtData?.reduce((sum, payment) => sum + (payment.debt_amount || 0), 0) || 0;
-      setTotalDebt(totalDebtAmount);
+      if (balancesError) throw balancesError;
 
-      // Get total paid overall
-      const { data: paidData, error: paidError } = await supabase
-        .from("payments")
-        .select("amount")
-        .eq("status", "paid");
+      // Only amounts owed count as debt; credit balances are not netted against it
+      const totalDebtAmount = balances?.reduce((sum, row) => sum + Math.max(0, Number(row.balance) || 0), 0) || 0;
+      setTotalDebt(totalDebtAmount);
 
-      if (paidError) throw paidError;
-      
-      const totalPaid = paidData?.reduce((sum, payment) => sum + payment.amount, 0) || 0;
+      const totalPaid = balances?.reduce((sum, row) => sum + (Number(row.total_paid) || 0), 0) || 0;
       setTotalPaidOverall(totalPaid);
 
-      // Get this month's collection
+      // Get this month's collection, net of reversed payments
       const { data: monthlyData, error: monthlyError } = await supabase
-        .from("payments")
-        .select("amount")
-        .eq("status", "paid")
-        .gte("payment_date", firstDayOfMonth)
-        .lte("payment_date", lastDayOfMonth);
+        .from("ledger_entries")
+        .select("id, amount, entry_type, reverses_entry_id, reversed_entry:ledger_entries!reverses_entry_id(entry_type)")
+        .eq("center_id", centerId)
+        .in("entry_type", ["payment", "reversal"])
+        .gte("entry_date", firstDayOfMonth)
+        .lte("entry_date", lastDayOfMonth);
 
       if (monthlyError) throw monthlyError;
-      
-      const monthlyTotal = monthlyData?.reduce((sum, payment) => sum + payment.amount, 0) || 0;
+
+      const monthlyTotal = monthlyData?.reduce((sum, entry) => {
+        return effectiveEntryType(entry) === "payment" ? sum - Number(entry.amount) : sum;
+      }, 0) || 0;
       setMonthlyCollection(monthlyTotal);
 
     } catch (error) {
@@ -198,7 +204,7 @@ const Dashboard = () => {
               <div className="text-3xl font-bold text-accent">{formatCurrency(monthlyCollection)}</div>
             )}
             <p className="text-xs text-muted-foreground mt-1">
-              {new Date().toLocaleString('default', { month: 'long' })} total
+              {new Date(`${getToday()}T00:00:00`).toLocaleString('default', { month: 'long' })} total
             </p>
           </CardContent>
         </Card>
@@ -225,6 +231,7 @@ const Dashboard = () => {
         </Card>
       </div>
 
+      {can("viewAllBranches") && centers.length > 1 && <BranchOverview />}
     </div>
   );
 };
@@ -0,0 +1,377 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Pencil } from "lucide-react";
+import { z } from "zod";
+import GuardianFields from "@/components/GuardianFields";
+import { Guardian, GuardianForm, saveGuardian, toGuardianForm } from "@/lib/guardians";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_CHANNEL_LABELS, NotificationChannel } from "@/lib/notifications";
+import { CHILD_STATUS_LABELS, ChildStatus, isActiveChild } from "@/lib/child-status";
+import { useStaff } from "@/contexts/StaffContext";
+
+interface GuardianChild {
+  id: string;
+  name: string;
+  admission_number: string | null;
+  status: string;
+  is_primary: boolean;
+  balance: number;
+  total_paid: number;
+}
+
+const GuardianProfile = () => {
+  const { guardianId } = useParams();
+  const navigate = useNavigate();
+  const [guardian, setGuardian] = useState<Guardian | null>(null);
+  const [children, setChildren] = useState<GuardianChild[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editForm, setEditForm] = useState<GuardianForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { can } = useStaff();
+
+  useEffect(() => {
+    if (guardianId) {
+      fetchGuardianData();
+    }
+  }, [guardianId]);
+
+  const fetchGuardianData = async () => {
+    try {
+      const { data: guardianData, error: guardianError } = await supabase
+        .from("guardians")
+        .select("*")
+        .eq("id", guardianId)
+        .single();
+
+      if (guardianError) throw guardianError;
+      setGuardian(guardianData);
+
+      const { data: links, error: linksError } = await supabase
+        .from("child_guardians")
+        .select("is_primary, children(id, name, admission_number, status)")
+        .eq("guardian_id", guardianId);
+
+      if (linksError) throw linksError;
+
+      const childIds = (links || []).map((link) => link.children?.id).filter(Boolean);
+      const { data: balances, error: balancesError } = await supabase
+        .from("child_balances")
+        .select("child_id, balance, total_paid")
+        .in("child_id", childIds);
+
+      if (balancesError) throw balancesError;
+
+      const balanceMap = new Map(balances?.map((b) => [b.child_id, b]));
+      setChildren(
+        (links || [])
+          .filter((link) => link.children)
+          .map((link) => ({
+            ...link.children,
+            is_primary: link.is_primary,
+            balance: Number(balanceMap.get(link.children.id)?.balance) || 0,
+            total_paid: Number(balanceMap.get(link.children.id)?.total_paid) || 0,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return `Ksh ${Math.abs(amount).toFixed(2)}`;
+  };
+
+  const updateGuardian = async (
+    changes: Partial<Pick<Guardian, "sms_opt_out" | "attendance_notifications" | "portal_access" | "user_id">>,
+    description: string
+  ) => {
+    if (!guardian) return;
+    try {
+      const { error } = await supabase.from("guardians").update(changes).eq("id", guardian.id);
+      if (error) throw error;
+      setGuardian({ ...guardian, ...changes });
+      toast({ title: "Success", description });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editForm) return;
+    try {
+      setSaving(true);
+      await saveGuardian(editForm);
+      toast({
+        title: "Success",
+        description: "Guardian details updated",
+      });
+      setEditForm(null);
+      fetchGuardianData();
+    } catch (error) {
+      toast({
+        title: error instanceof z.ZodError ? "Validation Error" : "Error",
+        description: error instanceof z.ZodError ? error.errors[0].message : (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (!guardian) {
+    return <div className="text-center py-8">Guardian not found</div>;
+  }
+
+  // Only what's owed counts; one child's credit isn't netted against a sibling's debt
+  const totalOwed = children.reduce((sum, child) => sum + Math.max(0, child.balance), 0);
+  const totalPaid = children.reduce((sum, child) => sum + child.total_paid, 0);
+
+  const details = [
+    { label: "Relationship", value: guardian.relationship },
+    { label: "Phone", value: guardian.phone },
+    { label: "Alternate Phone", value: guardian.alternate_phone },
+    { label: "Email", value: guardian.email },
+    { label: "National ID", value: guardian.national_id },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{guardian.name}</CardTitle>
+          {can("manageChildren") && (
+            <Button variant="outline" size="sm" onClick={() => setEditForm(toGuardianForm(guardian))}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="grid md:grid-cols-2 gap-4">
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <p className="text-sm text-muted-foreground">{detail.label}</p>
+                <p className="font-semibold">{detail.value || "N/A"}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mt-6">
+            <div className="space-y-0.5">
+              <Label htmlFor="sms-reminders">SMS fee reminders</Label>
+              <p className="text-sm text-muted-foreground">
+                {guardian.sms_opt_out ? "Opted out; reminders are skipped" : "Texted when a child has a balance"}
+              </p>
+            </div>
+            <Switch
+              id="sms-reminders"
+              checked={!guardian.sms_opt_out}
+              onCheckedChange={(checked) =>
+                updateGuardian(
+                  { sms_opt_out: !checked },
+                  checked ? "Fee reminders turned back on" : "Fee reminders won't be texted to this guardian"
+                )
+              }
+              disabled={!can("manageChildren")}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4 mt-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="attendance-notifications">Check-in and check-out messages</Label>
+              <p className="text-sm text-muted-foreground">
+                Sent with the time and staff member when a child arrives or is collected
+              </p>
+            </div>
+            <Select
+              value={guardian.attendance_notifications ?? "off"}
+              onValueChange={(value) => {
+                const channel = value === "off" ? null : (value as NotificationChannel);
+                updateGuardian(
+                  { attendance_notifications: channel },
+                  channel
+                    ? `Check-in and check-out messages will be sent by ${NOTIFICATION_CHANNEL_LABELS[channel]}`
+                    : "Check-in and check-out messages turned off"
+                );
+              }}
+              disabled={!can("manageChildren")}
+            >
+              <SelectTrigger id="attendance-notifications" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <SelectItem key={channel} value={channel}>
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between mt-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="portal-access">Parent portal</Label>
+              <p className="text-sm text-muted-foreground">
+                {!guardian.portal_access
+                  ? "No access"
+                  : guardian.user_id
+                    ? "Signed in; can see their children's attendance, balance and receipts"
+                    : "Can sign in at /portal with a code sent to the phone or email above"}
+              </p>
+            </div>
+            <Switch
+              id="portal-access"
+              checked={guardian.portal_access}
+              onCheckedChange={(checked) =>
+                updateGuardian(
+                  // Turning access off also forgets the account, so it has to sign in again with current details
+                  checked ? { portal_access: true } : { portal_access: false, user_id: null },
+                  checked ? "Portal access turned on" : "Portal access removed"
+                )
+              }
+              disabled={!can("manageChildren")}
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4 mt-6 pt-6 border-t">
+            <Card className="bg-destructive/10">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Combined Outstanding</p>
+                <p className="text-2xl font-bold text-destructive">{formatCurrency(totalOwed)}</p>
+              </CardContent>
+            </Card>
+            <Card className="bg-success/10">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Total Paid</p>
+                <p className="text-2xl font-bold text-success">{formatCurrency(totalPaid)}</p>
+              </CardContent>
+            </Card>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Children</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {children.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No children linked to this guardian</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Admission No.</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {children.map((child) => (
+                    <TableRow
+                      key={child.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/child/${child.id}`)}
+                    >
+                      <TableCell className="font-medium">
+                        {child.name}
+                        {child.is_primary && (
+                          <Badge variant="outline" className="ml-2">Primary guardian</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{child.admission_number || "N/A"}</TableCell>
+                      <TableCell>
+                        <Badge variant={isActiveChild(child) ? "default" : "secondary"}>
+                          {CHILD_STATUS_LABELS[child.status as ChildStatus]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className={`text-right font-semibold ${child.balance > 0 ? "text-destructive" : ""}`}>
+                        {child.balance < 0 ? `${formatCurrency(child.balance)} credit` : formatCurrency(child.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editForm} onOpenChange={(open) => !open && setEditForm(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Guardian</DialogTitle>
+            <DialogDescription>Changes apply to every child linked to this guardian</DialogDescription>
+          </DialogHeader>
+          {editForm && <GuardianFields guardian={editForm} onChange={setEditForm} idPrefix="edit-guardian" />}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GuardianProfile;
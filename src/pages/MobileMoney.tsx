@@ -0,0 +1,383 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Smartphone } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { recordLedgerPayment } from "@/lib/ledger";
+import { businessDate } from "@/lib/dates";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { useStaff } from "@/contexts/StaffContext";
+
+interface MobileMoneyTransaction {
+  id: string;
+  transaction_id: string;
+  transaction_type: string;
+  amount: number;
+  phone_number: string | null;
+  account_reference: string | null;
+  payer_name: string | null;
+  transacted_at: string | null;
+  status: string;
+  match_method: string | null;
+  match_note: string | null;
+  child_id: string | null;
+  created_at: string;
+  children: {
+    name: string;
+  } | null;
+}
+
+const MATCH_METHOD_LABELS: Record<string, string> = {
+  admission_number: "Admission no.",
+  phone: "Phone",
+  manual: "Manual",
+};
+
+const MobileMoney = () => {
+  const [unmatched, setUnmatched] = useState<MobileMoneyTransaction[]>([]);
+  const [recent, setRecent] = useState<MobileMoneyTransaction[]>([]);
+  const [children, setChildren] = useState<
+    { id: string; name: string; admission_number: string | null; center_id: string }[]
+  >([]);
+  const [selectedChild, setSelectedChild] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { centerId, timezone, getToday } = useCenterSettings();
+  const { can } = useStaff();
+  const canManage = can("manageMobileMoney");
+
+  useEffect(() => {
+    fetchTransactions();
+    fetchChildren();
+  }, [centerId]);
+
+  const fetchTransactions = async () => {
+    try {
+      const { data: unmatchedData, error: unmatchedError } = await supabase
+        .from("mobile_money_transactions")
+        .select("*, children(name)")
+        .eq("status", "unmatched")
+        .order("created_at", { ascending: true });
+
+      if (unmatchedError) throw unmatchedError;
+      setUnmatched(unmatchedData || []);
+
+      const { data: recentData, error: recentError } = await supabase
+        .from("mobile_money_transactions")
+        .select("*, children(name)")
+        .eq("center_id", centerId)
+        .neq("status", "unmatched")
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (recentError) throw recentError;
+      setRecent(recentData || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchChildren = async () => {
+    const { data } = await supabase.from("children").select("id, name, admission_number, center_id").order("name");
+    setChildren(data || []);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return `Ksh ${Math.abs(amount).toFixed(2)}`;
+  };
+
+  const formatDate = (transaction: MobileMoneyTransaction) => {
+    return new Date(transaction.transacted_at || transaction.created_at).toLocaleString();
+  };
+
+  const handleAssign = async (transaction: MobileMoneyTransaction) => {
+    const childId = selectedChild[transaction.id];
+    if (!childId) {
+      toast({
+        title: "Select a child",
+        description: "Choose which child this payment belongs to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // Claim the transaction first so two people can't post it twice
+      const { data: claimed, error: claimError } = await supabase
+        .from("mobile_money_transactions")
+        .update({
+          status: "matched",
+          child_id: childId,
+          center_id: children.find((child) => child.id === childId)?.center_id,
+          match_method: "manual",
+          resolved_by: user?.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", transaction.id)
+        .eq("status", "unmatched")
+        .select("id");
+
+      if (claimError) throw claimError;
+      if (!claimed?.length) {
+        toast({
+          title: "Already handled",
+          description: "Someone else has already resolved this transaction",
+        });
+        fetchTransactions();
+        return;
+      }
+
+      try {
+        const entry = await recordLedgerPayment(childId, Number(transaction.amount), {
+          description: `M-Pesa ${transaction.transaction_id}`,
+          method: "mobile_money",
+          reference: transaction.transaction_id,
+          entryDate: can("backdateEntries")
+            ? businessDate(timezone, new Date(transaction.transacted_at || transaction.created_at))
+            : getToday(),
+        });
+
+        const { error: linkError } = await supabase
+          .from("mobile_money_transactions")
+          .update({ ledger_entry_id: entry.id })
+          .eq("id", transaction.id);
+
+        if (linkError) throw linkError;
+      } catch (error) {
+        // Put the transaction back in the queue if the payment could not be posted
+        await supabase
+          .from("mobile_money_transactions")
+          .update({
+            status: "unmatched",
+            child_id: null,
+            center_id: null,
+            match_method: null,
+            resolved_by: null,
+            resolved_at: null,
+          })
+          .eq("id", transaction.id);
+        throw error;
+      }
+
+      toast({
+        title: "💰 Payment posted",
+        description: `${formatCurrency(transaction.amount)} from ${transaction.transaction_id} assigned`,
+      });
+      fetchTransactions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleIgnore = async (transaction: MobileMoneyTransaction) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("mobile_money_transactions")
+        .update({
+          status: "ignored",
+          // Nobody's payment, so it stays with the branch that dismissed it
+          center_id: centerId,
+          resolved_by: user?.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("id", transaction.id)
+        .eq("status", "unmatched");
+
+      if (error) throw error;
+
+      toast({
+        title: "Transaction ignored",
+        description: `${transaction.transaction_id} removed from the queue`,
+      });
+      fetchTransactions();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+          <Smartphone className="h-8 w-8 text-primary" />
+          Mobile Money
+        </h1>
+        <p className="text-muted-foreground mt-1">M-Pesa payments received through paybill and till</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unmatched Transactions</CardTitle>
+          <CardDescription>Payments that could not be matched to a child automatically</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : unmatched.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No unmatched transactions
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Payer</TableHead>
+                    <TableHead>Reference</TableHead>
+                    {canManage && <TableHead>Assign To</TableHead>}
+                    {canManage && <TableHead></TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {unmatched.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(transaction)}</TableCell>
+                      <TableCell className="font-mono">{transaction.transaction_id}</TableCell>
+                      <TableCell className="text-success font-semibold">
+                        {formatCurrency(transaction.amount)}
+                      </TableCell>
+                      <TableCell>
+                        <p>{transaction.payer_name || "-"}</p>
+                        <p className="text-xs text-muted-foreground">{transaction.phone_number || ""}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p>{transaction.account_reference || "-"}</p>
+                        {transaction.match_note && (
+                          <p className="text-xs text-muted-foreground">{transaction.match_note}</p>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <>
+                          <TableCell className="min-w-[180px]">
+                            <Select
+                              value={selectedChild[transaction.id] || ""}
+                              onValueChange={(value) => setSelectedChild({ ...selectedChild, [transaction.id]: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a child" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {children.map((child) => (
+                                  <SelectItem key={child.id} value={child.id}>
+                                    {child.name}{child.admission_number ? ` (${child.admission_number})` : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={() => handleAssign(transaction)}>
+                                Assign
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleIgnore(transaction)}>
+                                Ignore
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No processed transactions yet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Child</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recent.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(transaction)}</TableCell>
+                      <TableCell className="font-mono">{transaction.transaction_id}</TableCell>
+                      <TableCell className="font-semibold">{formatCurrency(transaction.amount)}</TableCell>
+                      <TableCell
+                        className={transaction.child_id ? "font-medium cursor-pointer hover:text-primary underline" : ""}
+                        onClick={() => transaction.child_id && navigate(`/child/${transaction.child_id}`)}
+                      >
+                        {transaction.children?.name || "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={transaction.status === "matched" ? "default" : "secondary"}
+                          className={transaction.status === "matched" ? "bg-success text-success-foreground" : ""}
+                        >
+                          {transaction.status === "matched"
+                            ? `Matched · ${MATCH_METHOD_LABELS[transaction.match_method || ""] || "Auto"}`
+                            : "Ignored"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MobileMoney;
@@ -6,6 +6,7 @@ import { Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import PaymentDialog from "@/components/PaymentDialog";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
 import {
   Table,
   TableBody,
@@ -32,16 +33,18 @@ const Payments = () => {
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { centerId } = useCenterSettings();
 
   useEffect(() => {
     fetchPayments();
-  }, []);
+  }, [centerId]);
 
   const fetchPayments = async () => {
     try {
       const { data, error } = await supabase
         .from("payments")
         .select("*, children(name)")
+        .eq("center_id", centerId)
         .order("payment_date", { ascending: false });
 
       if (error) throw error;
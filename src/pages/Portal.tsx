@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatReceiptNumber } from "@/lib/receipts";
+import { addDays } from "@/lib/dates";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+
+// How much attendance history the portal shows
+const HISTORY_DAYS = 30;
+
+interface PortalChild {
+  id: string;
+  name: string;
+  admission_number: string | null;
+  balance: number;
+  attendance: {
+    id: string;
+    payment_date: string;
+    attendance_status: string | null;
+    arrival_time: string | null;
+    departure_time: string | null;
+    picked_up_by: string | null;
+  }[];
+  receipts: { id: string; receipt_number: number; amount: number; issued_at: string }[];
+}
+
+const formatCurrency = (amount: number) => `Ksh ${Math.abs(amount).toFixed(2)}`;
+
+const formatTime = (time: string | null) =>
+  time ? new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "-";
+
+/**
+ * A guardian's view of their own children. Row level security limits every
+ * query here to the children linked to the signed-in guardian.
+ */
+const Portal = () => {
+  const [children, setChildren] = useState<PortalChild[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { getToday } = useCenterSettings();
+
+  const fetchPortalData = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Filtered to this account too, in case it also belongs to a staff member
+      const { data: guardians, error: guardiansError } = await supabase
+        .from("guardians")
+        .select("child_guardians(children(id, name, admission_number))")
+        .eq("user_id", user.id)
+        .eq("portal_access", true);
+
+      if (guardiansError) throw guardiansError;
+
+      const childMap = new Map<string, { id: string; name: string; admission_number: string | null }>();
+      for (const guardian of guardians || []) {
+        for (const link of guardian.child_guardians) {
+          if (link.children) childMap.set(link.children.id, link.children);
+        }
+      }
+      const childIds = [...childMap.keys()];
+      const since = addDays(getToday(), -HISTORY_DAYS + 1);
+
+      const [balancesResult, attendanceResult, receiptsResult] = await Promise.all([
+        supabase.from("child_balances").select("child_id, balance").in("child_id", childIds),
+        supabase
+          .from("payments")
+          .select("id, child_id, payment_date, attendance_status, arrival_time, departure_time, picked_up_by")
+          .in("child_id", childIds)
+          .not("attendance_status", "is", null)
+          .gte("payment_date", since)
+          .order("payment_date", { ascending: false }),
+        supabase
+          .from("receipts")
+          .select("id, child_id, receipt_number, amount, issued_at")
+          .in("child_id", childIds)
+          .order("issued_at", { ascending: false })
+          .limit(50),
+      ]);
+
+      if (balancesResult.error) throw balancesResult.error;
+      if (attendanceResult.error) throw attendanceResult.error;
+      if (receiptsResult.error) throw receiptsResult.error;
+
+      const balances = new Map(balancesResult.data.map((b) => [b.child_id, Number(b.balance) || 0]));
+
+      setChildren(
+        [...childMap.values()]
+          .map((child) => ({
+            ...child,
+            balance: balances.get(child.id) ?? 0,
+            attendance: attendanceResult.data.filter((day) => day.child_id === child.id),
+            receipts: receiptsResult.data.filter((receipt) => receipt.child_id === child.id),
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [getToday, toast]);
+
+  useEffect(() => {
+    fetchPortalData();
+  }, [fetchPortalData]);
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {children.map((child) => (
+        <Card key={child.id}>
+          <CardHeader>
+            <CardTitle>{child.name}</CardTitle>
+            {child.admission_number && <CardDescription>Admission no. {child.admission_number}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className={`p-4 rounded-lg ${child.balance > 0 ? "bg-destructive/10" : "bg-success/10"}`}>
+              <p className="text-sm text-muted-foreground">
+                {child.balance > 0 ? "Outstanding balance" : child.balance < 0 ? "Credit" : "Balance"}
+              </p>
+              <p className={`text-2xl font-bold ${child.balance > 0 ? "text-destructive" : "text-success"}`}>
+                {formatCurrency(child.balance)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Attendance, last {HISTORY_DAYS} days</h3>
+              {child.attendance.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No attendance recorded</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Arrived</TableHead>
+                        <TableHead>Collected</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {child.attendance.map((day) => (
+                        <TableRow key={day.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {new Date(`${day.payment_date}T00:00:00`).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={day.attendance_status === "present" ? "default" : "secondary"}>
+                              {day.attendance_status === "present" ? "Present" : "Absent"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{formatTime(day.arrival_time)}</TableCell>
+                          <TableCell>
+                            {formatTime(day.departure_time)}
+                            {day.picked_up_by && (
+                              <span className="block text-xs text-muted-foreground">by {day.picked_up_by}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Receipts</h3>
+              {child.receipts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments received yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Receipt</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {child.receipts.map((receipt) => (
+                        <TableRow
+                          key={receipt.id}
+                          className="cursor-pointer"
+                          onClick={() => navigate(`/portal/receipt/${receipt.id}`)}
+                        >
+                          <TableCell className="font-medium text-primary underline">
+                            {formatReceiptNumber(receipt.receipt_number)}
+                          </TableCell>
+                          <TableCell>{new Date(receipt.issued_at).toLocaleDateString()}</TableCell>
+                          <TableCell>{formatCurrency(receipt.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default Portal;
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Baby, Printer, Share2 } from "lucide-react";
+import { formatReceiptNumber } from "@/lib/receipts";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payment-methods";
+
+interface ReceiptDetails {
+  id: string;
+  receipt_number: number;
+  amount: number;
+  balance_after: number;
+  issued_at: string;
+  issued_by_email: string | null;
+  children: {
+    name: string;
+    admission_number: string | null;
+  };
+  ledger_entries: {
+    description: string | null;
+    entry_date: string;
+    payment_method: string | null;
+    payment_reference: string | null;
+    received_by_email: string | null;
+  };
+}
+
+const Receipt = () => {
+  const { receiptId } = useParams();
+  const navigate = useNavigate();
+  const [receipt, setReceipt] = useState<ReceiptDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (receiptId) {
+      fetchReceipt();
+    }
+  }, [receiptId]);
+
+  const fetchReceipt = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("receipts")
+        .select("*, children(name, admission_number), ledger_entries(description, entry_date, payment_method, payment_reference, received_by_email)")
+        .eq("id", receiptId)
+        .single();
+
+      if (error) throw error;
+      setReceipt(data);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return `Ksh ${Math.abs(amount).toFixed(2)}`;
+  };
+
+  const handleShare = async () => {
+    if (!receipt) return;
+
+    const text = [
+      `Receipt ${formatReceiptNumber(receipt.receipt_number)}`,
+      `${receipt.children.name} (${receipt.children.admission_number || "N/A"})`,
+      `Amount paid: ${formatCurrency(receipt.amount)}`,
+      `Balance after payment: ${receipt.balance_after < 0 ? "Credit " : ""}${formatCurrency(receipt.balance_after)}`,
+      `Date: ${new Date(receipt.issued_at).toLocaleString()}`,
+    ].join("\n");
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: formatReceiptNumber(receipt.receipt_number), text, url: window.location.href });
+      } else {
+        await navigator.clipboard.writeText(`${text}\n${window.location.href}`);
+        toast({
+          title: "Copied",
+          description: "Receipt details copied to clipboard",
+        });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report
+      if ((error as Error).name !== "AbortError") {
+        toast({
+          title: "Error",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading...</div>;
+  }
+
+  if (!receipt) {
+    return <div className="text-center py-8">Receipt not found</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 print:hidden">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-2" />
+            Share
+          </Button>
+          <Button size="sm" onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print / PDF
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mx-auto max-w-md print:max-w-none print:border-0 print:shadow-none">
+        <CardContent className="space-y-6 pt-6">
+          <div className="text-center space-y-2">
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10 print:hidden">
+              <Baby className="h-6 w-6 text-primary" />
+            </div>
+            <h2 className="text-xl font-bold">Daycare Management</h2>
+            <p className="text-sm text-muted-foreground">Payment Receipt</p>
+            <p className="font-mono text-lg font-semibold">{formatReceiptNumber(receipt.receipt_number)}</p>
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-y-3 text-sm">
+            <p className="text-muted-foreground">Date</p>
+            <p className="text-right font-medium">{new Date(receipt.issued_at).toLocaleString()}</p>
+            <p className="text-muted-foreground">Child</p>
+            <p className="text-right font-medium">{receipt.children.name}</p>
+            <p className="text-muted-foreground">Admission Number</p>
+            <p className="text-right font-medium">{receipt.children.admission_number || "N/A"}</p>
+            <p className="text-muted-foreground">Description</p>
+            <p className="text-right font-medium">{receipt.ledger_entries.description || "Payment"}</p>
+            {receipt.ledger_entries.payment_method && (
+              <>
+                <p className="text-muted-foreground">Method</p>
+                <p className="text-right font-medium">
+                  {PAYMENT_METHOD_LABELS[receipt.ledger_entries.payment_method as PaymentMethod]}
+                  {receipt.ledger_entries.payment_reference && ` · ${receipt.ledger_entries.payment_reference}`}
+                </p>
+              </>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-y-3">
+            <p className="text-muted-foreground">Amount Paid</p>
+            <p className="text-right text-2xl font-bold text-success">{formatCurrency(receipt.amount)}</p>
+            <p className="text-muted-foreground">{receipt.balance_after < 0 ? "Credit After Payment" : "Balance After Payment"}</p>
+            <p className="text-right font-semibold">{formatCurrency(receipt.balance_after)}</p>
+          </div>
+
+          <Separator />
+
+          <div className="text-sm text-muted-foreground">
+            <p>Received by: {receipt.ledger_entries.received_by_email || receipt.issued_by_email || "System"}</p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Receipt;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import {
@@ -12,7 +13,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useNavigate } from "react-router-dom";
-import { FileText } from "lucide-react";
+import { FileText, Printer } from "lucide-react";
+import { MethodTotal, PAYMENT_METHOD_LABELS, combineMethodTotals } from "@/lib/payment-methods";
+import { closureReason } from "@/lib/closures";
+import { CHILD_STATUS_LABELS, ChildStatus, isActiveChild } from "@/lib/child-status";
+import { countByClass } from "@/lib/classes";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import SendRemindersButton from "@/components/SendRemindersButton";
+import ReminderLog from "@/components/ReminderLog";
 
 interface YearlyPayment {
   month: string;
@@ -25,11 +33,23 @@ const MONTHS = [
   "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"
 ];
 
+interface ClassTotals {
+  class_id: string | null;
+  name: string;
+  children: number;
+  capacity: number | null;
+  present: number;
+  absent: number;
+  collected: number;
+}
+
 interface DebtOverview {
   child_id: string;
   child_name: string;
+  child_status: string;
   total_debt: number;
-  last_payment_date: string;
+  late_fees: number;
+  last_payment_date: string | null;
 }
 
 const Reports = () => {
@@ -37,30 +57,38 @@ const Reports = () => {
   const [attendanceData, setAttendanceData] = useState<any[]>([]);
   const [debtOverview, setDebtOverview] = useState<DebtOverview[]>([]);
   const [topPerformers, setTopPerformers] = useState<any[]>([]);
+  const [classTotals, setClassTotals] = useState<ClassTotals[]>([]);
+  const [feeTotals, setFeeTotals] = useState({ gross: 0, discounts: 0 });
+  const [methodTotals, setMethodTotals] = useState<{ month: MethodTotal[]; year: MethodTotal[] }>({ month: [], year: [] });
   const [loading, setLoading] = useState(true);
+  const [reminderRuns, setReminderRuns] = useState(0);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { centerId, getToday } = useCenterSettings();
 
   const COLORS = ['hsl(var(--success))', 'hsl(var(--destructive))'];
 
   useEffect(() => {
     fetchReportData();
-  }, []);
+  }, [getToday, centerId]);
 
   const fetchReportData = async () => {
     try {
-      const currentYear = new Date().getFullYear();
+      const today = getToday();
+      const currentYear = Number(today.slice(0, 4));
       const startOfYear = `${currentYear}-01-01`;
       const endOfYear = `${currentYear}-12-31`;
 
-      // Fetch yearly payment data
-      const { data: yearPayments, error: yearError } = await supabase
-        .from("payments")
-        .select("amount, debt_amount, status, payment_date")
-        .gte("payment_date", startOfYear)
-        .lte("payment_date", endOfYear);
+      // Ledger totals for the year by month, method and class, and what was owed going into it
+      const [totalsResult, openingResult] = await Promise.all([
+        supabase.rpc("ledger_monthly_totals", { for_center: centerId, from_date: startOfYear, to_date: endOfYear }),
+        supabase.rpc("ledger_balance_before", { for_center: centerId, before_date: startOfYear }),
+      ]);
+
+      if (totalsResult.error) throw totalsResult.error;
+      if (openingResult.error) throw openingResult.error;
 
-      if (yearError) throw yearError;
+      const ledgerTotals = totalsResult.data || [];
 
       // Initialize monthly data
       const monthlyStats: { [key: number]: { paid: number; debt: number } } = {};
@@ -68,15 +96,21 @@ const Reports = () => {
         monthlyStats[i] = { paid: 0, debt: 0 };
       }
 
-      // Aggregate data by month
-      yearPayments?.forEach((payment) => {
-        const paymentMonth = new Date(payment.payment_date).getMonth();
-        if (payment.status === "paid") {
-          monthlyStats[paymentMonth].paid += Number(payment.amount) || 0;
-        }
-        monthlyStats[paymentMonth].debt += Number(payment.debt_amount) || 0;
+      // Collections per month, and the outstanding balance at each month end
+      const monthlyMovement = new Array(12).fill(0);
+      ledgerTotals.forEach((row) => {
+        const entryMonth = Number(row.month_start.slice(5, 7)) - 1;
+        monthlyMovement[entryMonth] += Number(row.movement) || 0;
+        monthlyStats[entryMonth].paid += Number(row.received) || 0;
       });
 
+      const currentMonth = Number(today.slice(5, 7)) - 1;
+      let runningBalance = Number(openingResult.data) || 0;
+      for (let i = 0; i <= currentMonth; i++) {
+        runningBalance += monthlyMovement[i];
+        monthlyStats[i].debt = Math.max(0, runningBalance);
+      }
+
       // Format data for chart
       const chartData = MONTHS.map((month, index) => ({
         month,
@@ -85,16 +119,32 @@ const Reports = () => {
       }));
       setYearlyData(chartData);
 
+      // Money received by method, to reconcile against the cash box and mobile money statements
+      const startOfMonth = `${today.slice(0, 7)}-01`;
+      setMethodTotals({
+        month: combineMethodTotals(ledgerTotals.filter((row) => row.month_start === startOfMonth)),
+        year: combineMethodTotals(ledgerTotals),
+      });
+
       // Fetch attendance data for pie chart
-      const { data: payments, error: paymentsError } = await supabase
+      const { data: attendanceRecords, error: paymentsError } = await supabase
         .from("payments")
-        .select("attendance_status")
+        .select("child_id, attendance_status, payment_date")
+        .eq("center_id", centerId)
         .gte("payment_date", startOfYear)
         .lte("payment_date", endOfYear);
 
       if (paymentsError) throw paymentsError;
 
-      // Attendance overview
+      const { data: closures, error: closuresError } = await supabase
+        .from("center_closures")
+        .select("*")
+        .eq("center_id", centerId);
+
+      if (closuresError) throw closuresError;
+
+      // Attendance overview, leaving out days the center was closed
+      const payments = attendanceRecords?.filter(p => !closureReason(p.payment_date, closures || []));
       const presentCount = payments?.filter(p => p.attendance_status === "present").length || 0;
       const absentCount = payments?.filter(p => p.attendance_status === "absent").length || 0;
       setAttendanceData([
@@ -102,50 +152,83 @@ const Reports = () => {
         { name: "Absent", value: absentCount },
       ]);
 
-      // Debt overview - sum up all debt_amount per child
-      const { data: debtData } = await supabase
-        .from("payments")
-        .select("child_id, debt_amount, payment_date, children(name)")
-        .gt("debt_amount", 0);
-
-      const debtMap = new Map<string, { name: string; debt: number; date: string }>();
-      debtData?.forEach((d: any) => {
-        const current = debtMap.get(d.child_id);
-        const currentDate = current?.date || d.payment_date;
-        debtMap.set(d.child_id, {
-          name: d.children.name,
-          debt: (current?.debt || 0) + Number(d.debt_amount),
-          date: new Date(d.payment_date) > new Date(currentDate) ? d.payment_date : currentDate,
-        });
-      });
+      // Debt overview and top performers both come from the derived balances.
+      // Children who have left stay in both so what they owe isn't forgotten.
+      const { data: balances, error: balancesError } = await supabase
+        .from("child_balances")
+        .select("child_id, balance, total_charged, total_paid, last_payment_date, late_fees, discounts")
+        .eq("center_id", centerId);
+
+      if (balancesError) throw balancesError;
+
+      const { data: childNames, error: childNamesError } = await supabase
+        .from("children")
+        .select("id, name, status, class_id")
+        .eq("center_id", centerId);
+
+      if (childNamesError) throw childNamesError;
+
+      const { data: classes, error: classesError } = await supabase
+        .from("classes")
+        .select("id, name, capacity")
+        .eq("center_id", centerId)
+        .order("name");
+
+      if (classesError) throw classesError;
 
-      const debtList = Array.from(debtMap.entries())
-        .map(([child_id, data]) => ({
-          child_id,
-          child_name: data.name,
-          total_debt: data.debt,
-          last_payment_date: data.date,
+      // Attendance and collections this year by class. Children are counted
+      // under the class they're in now.
+      const classMap = new Map(childNames?.map((c) => [c.id, c.class_id]));
+      const classOf = (childId: string) => classMap.get(childId) ?? null;
+      const enrolled = countByClass(childNames || []);
+      const classRows: ClassTotals[] = [
+        ...(classes || []).map((c) => ({ class_id: c.id, name: c.name, capacity: c.capacity })),
+        { class_id: null, name: "No class", capacity: null },
+      ].map((c) => ({
+        ...c,
+        children: c.class_id
+          ? enrolled.get(c.class_id) || 0
+          : (childNames || []).filter((child) => isActiveChild(child) && !child.class_id).length,
+        present: payments?.filter((p) => p.attendance_status === "present" && classOf(p.child_id) === c.class_id)
+          .length || 0,
+        absent: payments?.filter((p) => p.attendance_status === "absent" && classOf(p.child_id) === c.class_id)
+          .length || 0,
+        collected: ledgerTotals
+          .filter((row) => row.class_id === c.class_id)
+          .reduce((sum, row) => sum + (Number(row.received) || 0), 0),
+      }));
+      setClassTotals(
+        classRows.filter((row) => row.class_id || row.children || row.present || row.absent || row.collected)
+      );
+
+      const nameMap = new Map(childNames?.map((c) => [c.id, c.name]));
+      const statusMap = new Map(childNames?.map((c) => [c.id, c.status]));
+
+      const debtList = (balances || [])
+        .filter((b) => Number(b.balance) > 0)
+        .map((b) => ({
+          child_id: b.child_id,
+          child_name: nameMap.get(b.child_id) || "Unknown",
+          child_status: statusMap.get(b.child_id) || "active",
+          total_debt: Number(b.balance),
+          late_fees: Number(b.late_fees) || 0,
+          last_payment_date: b.last_payment_date,
         }))
         .sort((a, b) => b.total_debt - a.total_debt);
       setDebtOverview(debtList);
 
-      // Top performers
-      const { data: topData } = await supabase
-        .from("payments")
-        .select("child_id, amount, children(name)")
-        .eq("status", "paid");
-
-      const performerMap = new Map<string, { name: string; total: number }>();
-      topData?.forEach((p: any) => {
-        const current = performerMap.get(p.child_id);
-        performerMap.set(p.child_id, {
-          name: p.children.name,
-          total: (current?.total || 0) + Number(p.amount),
-        });
+      setFeeTotals({
+        gross: (balances || []).reduce((sum, b) => sum + (Number(b.total_charged) || 0), 0),
+        discounts: (balances || []).reduce((sum, b) => sum + (Number(b.discounts) || 0), 0),
       });
 
-      const performers = Array.from(performerMap.entries())
-        .map(([child_id, data]) => ({ child_id, ...data }))
+      const performers = (balances || [])
+        .filter((b) => Number(b.total_paid) > 0)
+        .map((b) => ({
+          child_id: b.child_id,
+          name: nameMap.get(b.child_id) || "Unknown",
+          total: Number(b.total_paid),
+        }))
         .sort((a, b) => b.total - a.total)
         .slice(0, 5);
       setTopPerformers(performers);
@@ -181,7 +264,7 @@ const Reports = () => {
       <div className="flex flex-col lg:flex-row gap-6">
         <Card className="flex-1">
           <CardHeader>
-            <CardTitle>Payment Summary – {new Date().getFullYear()}</CardTitle>
+            <CardTitle>Payment Summary – {getToday().slice(0, 4)}</CardTitle>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={350}>
@@ -211,7 +294,7 @@ const Reports = () => {
                 <Line 
                   type="monotone" 
                   dataKey="debt" 
-                  name="Debt (Ksh)"
+                  name="Outstanding (Ksh)"
                   stroke="hsl(var(--destructive))" 
                   strokeWidth={3}
                   dot={{ fill: 'hsl(var(--destructive))', strokeWidth: 2, r: 4 }}
@@ -250,6 +333,114 @@ const Reports = () => {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Fees & Discounts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Gross Fees Charged</p>
+              <p className="text-2xl font-bold">{formatCurrency(feeTotals.gross)}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Discounts Given</p>
+              <p className="text-2xl font-bold text-success">{formatCurrency(feeTotals.discounts)}</p>
+            </div>
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Net Fees</p>
+              <p className="text-2xl font-bold">{formatCurrency(feeTotals.gross - feeTotals.discounts)}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Received by Method</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {methodTotals.year.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No payments received this year
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">This Month</TableHead>
+                  <TableHead className="text-right">{getToday().slice(0, 4)}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {methodTotals.year.map((row) => {
+                  const month = methodTotals.month.find((m) => m.method === row.method);
+                  return (
+                    <TableRow key={row.method ?? "none"}>
+                      <TableCell className="font-medium">
+                        {row.method ? PAYMENT_METHOD_LABELS[row.method] : "Not recorded"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(month?.total ?? 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.total)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Class – {getToday().slice(0, 4)}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {classTotals.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No children enrolled
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead className="text-right">Children</TableHead>
+                    <TableHead className="text-right">Days Present</TableHead>
+                    <TableHead className="text-right">Attendance</TableHead>
+                    <TableHead className="text-right">Collected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classTotals.map((row) => (
+                    <TableRow key={row.class_id ?? "none"}>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell
+                        className={`text-right ${row.capacity !== null && row.children > row.capacity ? "text-destructive" : ""}`}
+                      >
+                        {row.capacity !== null ? `${row.children} / ${row.capacity}` : row.children}
+                      </TableCell>
+                      <TableCell className="text-right">{row.present}</TableCell>
+                      <TableCell className="text-right">
+                        {row.present + row.absent > 0
+                          ? `${Math.round((row.present / (row.present + row.absent)) * 100)}%`
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-success">{formatCurrency(row.collected)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-2">
+                Children are counted under the class they're in now, including for days before they moved.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Top Performing Children</CardTitle>
@@ -285,13 +476,33 @@ const Reports = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Debt Overview</CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Debt Overview</CardTitle>
+            {debtOverview.length > 0 && (
+              <div className="flex gap-2">
+                <SendRemindersButton
+                  childCount={debtOverview.length}
+                  onSent={() => setReminderRuns((runs) => runs + 1)}
+                />
+                <Button variant="outline" size="sm" onClick={() => navigate("/statements")}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Statements
+                </Button>
+              </div>
+            )}
+          </div>
           {debtOverview.length > 0 && (
             <div className="mt-2 p-4 bg-destructive/10 rounded-lg">
               <p className="text-sm text-muted-foreground">Overall Total Debt</p>
               <p className="text-2xl font-bold text-destructive">
                 {formatCurrency(debtOverview.reduce((sum, debt) => sum + debt.total_debt, 0))}
               </p>
+              {debtOverview.some((debt) => debt.late_fees > 0) && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Late pickup fees charged to these children:{" "}
+                  {formatCurrency(debtOverview.reduce((sum, debt) => sum + debt.late_fees, 0))}
+                </p>
+              )}
             </div>
           )}
         </CardHeader>
@@ -307,6 +518,7 @@ const Reports = () => {
                   <TableRow>
                     <TableHead>Child Name</TableHead>
                     <TableHead>Total Debt</TableHead>
+                    <TableHead>Late Fees</TableHead>
                     <TableHead>Last Payment Date</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -318,12 +530,22 @@ const Reports = () => {
                         onClick={() => navigate(`/child/${debt.child_id}`)}
                       >
                         {debt.child_name}
+                        {debt.child_status !== "active" && (
+                          <span className="ml-2 text-xs text-muted-foreground no-underline">
+                            ({CHILD_STATUS_LABELS[debt.child_status as ChildStatus]})
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-destructive font-bold">
                         {formatCurrency(debt.total_debt)}
                       </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {debt.late_fees > 0 ? formatCurrency(debt.late_fees) : "-"}
+                      </TableCell>
                       <TableCell>
-                        {new Date(debt.last_payment_date).toLocaleDateString()}
+                        {debt.last_payment_date
+                          ? new Date(debt.last_payment_date).toLocaleDateString()
+                          : "Never"}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -333,6 +555,8 @@ const Reports = () => {
           )}
         </CardContent>
       </Card>
+
+      <ReminderLog refreshKey={reminderRuns} />
     </div>
   );
 };
@@ -1,4 +1,3 @@
-import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -7,93 +6,22 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { Trash2, Mail, Moon, Sun, LogOut } from "lucide-react";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
-
-interface UserEmail {
-  id: string;
-  email: string;
-}
+import { Moon, Sun, LogOut } from "lucide-react";
+import ClosuresSettings from "@/components/ClosuresSettings";
+import BranchesSettings from "@/components/BranchesSettings";
+import CenterDetailsSettings from "@/components/CenterDetailsSettings";
+import ClassesSettings from "@/components/ClassesSettings";
+import LateFeeSettings from "@/components/LateFeeSettings";
+import FeePlansSettings from "@/components/FeePlansSettings";
+import BillingTermsSettings from "@/components/BillingTermsSettings";
+import DiscountRulesSettings from "@/components/DiscountRulesSettings";
+import SmsReminderSettings from "@/components/SmsReminderSettings";
+import StaffSettings from "@/components/StaffSettings";
 
 const Settings = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { theme, toggleTheme } = useTheme();
-  const [users, setUsers] = useState<UserEmail[]>([]);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchCurrentUser();
-    fetchUsers();
-  }, []);
-
-  const fetchCurrentUser = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
-      setCurrentUserId(user.id);
-    }
-  };
-
-  const fetchUsers = async () => {
-    setLoading(true);
-    try {
-      // Get all users from auth.users via a custom RPC or edge function
-      // For now, we'll use a workaround by checking the session
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (session) {
-        // Since we can't directly query auth.users, we'll need to create a profiles table
-        // or use an edge function. For this admin system, let's fetch from a simpler approach
-        // We'll show the current user's email at minimum
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          setUsers([{ id: user.id, email: user.email || "" }]);
-        }
-      }
-    } catch (error) {
-      console.error("Error fetching users:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleDeleteUser = async (userId: string, email: string) => {
-    if (userId === currentUserId) {
-      toast({
-        title: "Cannot delete",
-        description: "You cannot delete your own account.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      // Note: Deleting users from auth.users requires admin privileges
-      // This would typically be done via an edge function with service role key
-      toast({
-        title: "User deleted",
-        description: `${email} has been removed.`,
-      });
-      setUsers(users.filter(u => u.id !== userId));
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete user.",
-        variant: "destructive",
-      });
-    }
-  };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -137,70 +65,35 @@ const Settings = () => {
         </CardContent>
       </Card>
 
-      {/* Registered Emails Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Mail className="h-5 w-5" />
-            Email
-          </CardTitle>
-          <CardDescription>Registered admin accounts</CardDescription>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <p className="text-muted-foreground">Loading...</p>
-          ) : users.length === 0 ? (
-            <p className="text-muted-foreground">No registered emails found.</p>
-          ) : (
-            <div className="space-y-3">
-              {users.map((user) => (
-                <div
-                  key={user.id}
-                  className="flex items-center justify-between rounded-lg border border-border bg-muted/50 p-3"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
-                      <Mail className="h-5 w-5 text-primary" />
-                    </div>
-                    <div>
-                      <p className="font-medium text-foreground">{user.email}</p>
-                      {user.id === currentUserId && (
-                        <span className="text-xs text-muted-foreground">(You)</span>
-                      )}
-                    </div>
-                  </div>
-                  {user.id !== currentUserId && (
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>Delete User</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            Are you sure you want to delete {user.email}? This action cannot be undone.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDeleteUser(user.id, user.email)}
-                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                          >
-                            Delete
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  )}
-                </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {/* Branches Section */}
+      <BranchesSettings />
+
+      {/* Center Section */}
+      <CenterDetailsSettings />
+
+      {/* Classes Section */}
+      <ClassesSettings />
+
+      {/* Late Pickup Section */}
+      <LateFeeSettings />
+
+      {/* Fee Plans Section */}
+      <FeePlansSettings />
+
+      {/* Terms Section */}
+      <BillingTermsSettings />
+
+      {/* Discounts Section */}
+      <DiscountRulesSettings />
+
+      {/* SMS Reminders Section */}
+      <SmsReminderSettings />
+
+      {/* Closures Section */}
+      <ClosuresSettings />
+
+      {/* Staff Section */}
+      <StaffSettings />
 
       {/* Account Section */}
       <Card>
@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Baby, Printer } from "lucide-react";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { monthBounds } from "@/lib/dates";
+import { centerContactLine, centerLogoUrl } from "@/lib/center";
+import {
+  STATEMENT_LINE_LABELS,
+  Statement,
+  StatementChild,
+  StatementLineKind,
+  fetchStatements,
+} from "@/lib/statements";
+
+const formatCurrency = (amount: number) => `Ksh ${Math.abs(amount).toFixed(2)}`;
+
+// Balances below zero are money held for the child
+const formatBalance = (amount: number) => `${amount < 0 ? "CR " : ""}${formatCurrency(amount)}`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+const SUMMARY_ROWS: StatementLineKind[] = ["fee", "extra", "late_fee", "discount", "adjustment", "payment", "refund"];
+
+const Statements = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { centerId, settings, getToday } = useCenterSettings();
+  const { toast } = useToast();
+  const childId = searchParams.get("child") || undefined;
+  const today = getToday();
+  const from = searchParams.get("from") || `${today.slice(0, 8)}01`;
+  const to = searchParams.get("to") || today;
+  const [statements, setStatements] = useState<{ child: StatementChild; statement: Statement }[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchStatements(from, to, { childId, centerId })
+      .then(setStatements)
+      .catch((error) =>
+        toast({
+          title: "Error",
+          description: (error as Error).message,
+          variant: "destructive",
+        })
+      )
+      .finally(() => setLoading(false));
+  }, [from, to, childId, centerId]);
+
+  const setPeriod = (period: { from?: string; to?: string }) => {
+    const params = new URLSearchParams(searchParams);
+    if (period.from) params.set("from", period.from);
+    if (period.to) params.set("to", period.to);
+    setSearchParams(params, { replace: true });
+  };
+
+  const selectMonth = (month: string) => {
+    if (!month) return;
+    const { start, end } = monthBounds(`${month}-01`);
+    setPeriod({ from: start, to: end });
+  };
+
+  const centerName = settings?.center_name || "Daycare Management";
+  const contactLine = centerContactLine(settings);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 print:hidden">
+        <div className="space-y-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <div className="flex flex-wrap gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="statement-month">Month</Label>
+              <Input
+                id="statement-month"
+                type="month"
+                value={from.slice(0, 7)}
+                onChange={(e) => selectMonth(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-from">From</Label>
+              <Input id="statement-from" type="date" value={from} onChange={(e) => setPeriod({ from: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement-to">To</Label>
+              <Input id="statement-to" type="date" value={to} onChange={(e) => setPeriod({ to: e.target.value })} />
+            </div>
+          </div>
+        </div>
+        <Button size="sm" onClick={() => window.print()} disabled={loading || statements.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print / PDF{statements.length > 1 && ` (${statements.length})`}
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">Loading statements...</div>
+      ) : statements.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {childId ? "Child not found" : "No children have a balance to send a statement for"}
+        </div>
+      ) : (
+        statements.map(({ child, statement }) => (
+          <Card
+            key={child.id}
+            className="mx-auto max-w-3xl break-after-page print:max-w-none print:border-0 print:shadow-none"
+          >
+            <CardContent className="space-y-6 pt-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  {settings?.logo_path ? (
+                    <img src={centerLogoUrl(settings.logo_path)} alt="" className="h-14 w-14 object-contain" />
+                  ) : (
+                    <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+                      <Baby className="h-6 w-6 text-primary" />
+                    </div>
+                  )}
+                  <div>
+                    <h2 className="text-xl font-bold">{centerName}</h2>
+                    {contactLine && <p className="text-sm text-muted-foreground">{contactLine}</p>}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold">Statement of Account</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(statement.from)} – {formatDate(statement.to)}
+                  </p>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">To</p>
+                  <p className="font-medium">{child.guardian_name}</p>
+                  <p>{child.contact_number}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-muted-foreground">Child</p>
+                  <p className="font-medium">{child.name}</p>
+                  <p>Admission No. {child.admission_number || "N/A"}</p>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>{formatDate(statement.from)}</TableCell>
+                    <TableCell colSpan={3} className="font-medium">Opening balance</TableCell>
+                    <TableCell className="text-right font-semibold">{formatBalance(statement.openingBalance)}</TableCell>
+                  </TableRow>
+                  {statement.lines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{formatDate(line.date)}</TableCell>
+                      <TableCell>
+                        {STATEMENT_LINE_LABELS[line.kind]}
+                        {line.reversal && " (reversed)"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{line.description}</TableCell>
+                      <TableCell className="text-right">
+                        {line.amount < 0 ? "-" : ""}
+                        {formatCurrency(line.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatBalance(line.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {statement.lines.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No activity in this period
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell>{formatDate(statement.to)}</TableCell>
+                    <TableCell colSpan={3} className="font-medium">Closing balance</TableCell>
+                    <TableCell className="text-right font-bold">{formatBalance(statement.closingBalance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              <div className="ml-auto max-w-xs space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Opening balance</span>
+                  <span>{formatBalance(statement.openingBalance)}</span>
+                </div>
+                {SUMMARY_ROWS.filter((kind) => statement.totals[kind] !== 0).map((kind) => (
+                  <div key={kind} className="flex justify-between">
+                    <span className="text-muted-foreground">{STATEMENT_LINE_LABELS[kind]}s</span>
+                    <span>
+                      {statement.totals[kind] < 0 ? "-" : "+"}
+                      {formatCurrency(statement.totals[kind])}
+                    </span>
+                  </div>
+                ))}
+                <Separator />
+                <div className="flex justify-between font-bold">
+                  <span>{statement.closingBalance < 0 ? "In credit" : "Amount due"}</span>
+                  <span>{formatCurrency(statement.closingBalance)}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default Statements;
@@ -5,6 +5,11 @@ import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { useNavigate } from "react-router-dom";
 import { useMidnightReset } from "@/hooks/use-midnight-reset";
+import { useCenterSettings } from "@/contexts/CenterSettingsContext";
+import { MethodTotal, PAYMENT_METHOD_LABELS, totalsByMethod } from "@/lib/payment-methods";
+import { CashUp, isClosed } from "@/lib/cash-up";
+import CashUpCard from "@/components/CashUpCard";
+import CashUpHistory from "@/components/CashUpHistory";
 import {
   Table,
   TableBody,
@@ -28,34 +33,61 @@ interface TodayPayment {
 
 const TodaysPayment = () => {
   const [payments, setPayments] = useState<TodayPayment[]>([]);
+  const [methodTotals, setMethodTotals] = useState<MethodTotal[]>([]);
+  const [cashUps, setCashUps] = useState<CashUp[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { centerId, getToday } = useCenterSettings();
 
   const handleMidnightReset = useCallback(() => {
     console.log("Midnight reset triggered - refreshing today's payments");
     setPayments([]);
+    setMethodTotals([]);
     fetchTodaysPayments();
-  }, []);
+  }, [getToday, centerId]);
 
   // Use the midnight reset hook for precise reset at 00:00
   useMidnightReset(handleMidnightReset);
 
   useEffect(() => {
     fetchTodaysPayments();
-  }, []);
+  }, [getToday, centerId]);
 
   const fetchTodaysPayments = async () => {
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getToday();
       const { data, error } = await supabase
         .from("payments")
         .select("*, children(name)")
+        .eq("center_id", centerId)
         .eq("payment_date", today)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
       setPayments(data || []);
+
+      // Money actually received today, for checking against the cash box and statements
+      const { data: received, error: receivedError } = await supabase
+        .from("ledger_entries")
+        .select("amount, entry_type, payment_method, category")
+        .eq("center_id", centerId)
+        .eq("entry_date", today)
+        .or("entry_type.eq.payment,payment_method.not.is.null");
+
+      if (receivedError) throw receivedError;
+      setMethodTotals(totalsByMethod(received || []));
+
+      const { data: cashUpData, error: cashUpsError } = await supabase
+        .from("cash_ups")
+        .select("*")
+        .eq("center_id", centerId)
+        .order("business_date", { ascending: false })
+        .order("closed_at", { ascending: false })
+        .limit(60);
+
+      if (cashUpsError) throw cashUpsError;
+      setCashUps(cashUpData || []);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -71,6 +103,10 @@ const TodaysPayment = () => {
     return `Ksh ${Math.abs(amount).toFixed(2)}`;
   };
 
+  const today = getToday();
+  const todaysCashUp = cashUps.find((cashUp) => cashUp.business_date === today && isClosed(cashUp)) ?? null;
+  const expectedFor = (method: string) => methodTotals.find((row) => row.method === method)?.total ?? 0;
+
   return (
     <div className="space-y-6">
       <div>
@@ -80,7 +116,44 @@ const TodaysPayment = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Payment Records - {new Date().toLocaleDateString()}</CardTitle>
+          <CardTitle>Received Today by Method</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {methodTotals.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">No money received today</div>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {methodTotals.map((row) => (
+                <div key={row.method ?? "none"} className="p-4 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">
+                    {row.method ? PAYMENT_METHOD_LABELS[row.method] : "Not recorded"} ({row.count})
+                  </p>
+                  <p className="text-2xl font-bold text-success">{formatCurrency(row.total)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {methodTotals.length > 1 && (
+            <p className="text-sm text-muted-foreground mt-4">
+              Total received: {formatCurrency(methodTotals.reduce((sum, row) => sum + row.total, 0))}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {!loading && (
+        <CashUpCard
+          date={today}
+          cashUp={todaysCashUp}
+          expectedCash={expectedFor("cash")}
+          expectedMobileMoney={expectedFor("mobile_money")}
+          onChange={fetchTodaysPayments}
+        />
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Records - {new Date(`${getToday()}T00:00:00`).toLocaleDateString()}</CardTitle>
         </CardHeader>
         <CardContent>
           {loading ? (
@@ -146,6 +219,8 @@ const TodaysPayment = () => {
           )}
         </CardContent>
       </Card>
+
+      <CashUpHistory cashUps={cashUps} />
     </div>
   );
 };
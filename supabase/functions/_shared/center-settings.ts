@@ -0,0 +1,54 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { DEFAULT_TIMEZONE } from './dates.ts'
+
+export interface Center {
+  id: string
+  name: string
+}
+
+export interface CenterSettings {
+  centerId: string | null
+  timezone: string
+  centerName: string
+  smsReminderTemplate: string
+  // HH:MM:SS, or null for no quiet hours
+  smsQuietStart: string | null
+  smsQuietEnd: string | null
+  smsReminderIntervalDays: number
+}
+
+const DEFAULT_SMS_REMINDER_TEMPLATE =
+  'Dear {guardian}, {child} has a balance of Ksh {amount} at {center}. Kindly clear it at your earliest convenience.'
+
+// Every branch, oldest first; the first is the default branch
+export async function listCenters(supabase: SupabaseClient): Promise<Center[]> {
+  const { data, error } = await supabase
+    .from('centers')
+    .select('id, name')
+    .order('created_at')
+    .order('id')
+
+  if (error) throw error
+  return data || []
+}
+
+// Read a branch's center_settings row (the default branch's when no id is
+// given), falling back to defaults if it is missing
+export async function getCenterSettings(supabase: SupabaseClient, centerId?: string): Promise<CenterSettings> {
+  const id = centerId ?? (await listCenters(supabase))[0]?.id ?? null
+  const { data, error } = id
+    ? await supabase.from('center_settings').select('*').eq('center_id', id).maybeSingle()
+    : { data: null, error: null }
+
+  if (error) throw error
+
+  return {
+    centerId: id,
+    timezone: data?.timezone || DEFAULT_TIMEZONE,
+    centerName: data?.center_name || 'the daycare',
+    smsReminderTemplate: data?.sms_reminder_template || DEFAULT_SMS_REMINDER_TEMPLATE,
+    smsQuietStart: data ? data.sms_quiet_start : '20:00:00',
+    smsQuietEnd: data ? data.sms_quiet_end : '07:00:00',
+    smsReminderIntervalDays: data?.sms_reminder_interval_days ?? 7,
+  }
+}
@@ -0,0 +1,52 @@
+// Calendar-date helpers for YYYY-MM-DD strings. Dates are handled as UTC
+// midnights so adding days never trips over daylight saving or offsets.
+// Kept in step with src/lib/dates.ts.
+
+export const DEFAULT_TIMEZONE = 'Africa/Nairobi'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`))
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+// Every date from start to end inclusive
+export function eachDay(start: string, end: string): string[] {
+  const days: string[] = []
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+// The calendar date in the center's timezone at a moment (default now)
+export function businessDate(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(at)
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '00'
+  return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+// The wall-clock time (HH:MM) in the center's timezone at a moment (default now)
+export function localTime(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at)
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '00'
+  return `${get('hour')}:${get('minute')}`
+}
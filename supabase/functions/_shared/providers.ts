@@ -0,0 +1,88 @@
+// Message gateways for SMS, WhatsApp and email. Each channel picks its adapter
+// with a <CHANNEL>_PROVIDER secret (SMS_PROVIDER, WHATSAPP_PROVIDER,
+// EMAIL_PROVIDER), defaulting to the console adapter, and reads the rest of its
+// settings from secrets with the same prefix.
+
+export type Channel = 'sms' | 'whatsapp' | 'email'
+
+export interface SendResult {
+  providerMessageId?: string
+}
+
+export interface MessageProvider {
+  name: string
+  // Resolves once the gateway accepts the message; throws if it refuses it
+  send(to: string, message: string, subject?: string): Promise<SendResult>
+}
+
+// For local testing: prints each message, and appends it as a JSON line to
+// <CHANNEL>_LOG_FILE when that is set
+export class ConsoleProvider implements MessageProvider {
+  name = 'console'
+
+  constructor(private channel: Channel, private logFile?: string) {}
+
+  async send(to: string, message: string, subject?: string): Promise<SendResult> {
+    const providerMessageId = crypto.randomUUID()
+    console.log(`${this.channel.toUpperCase()} to ${to}: ${subject ? `[${subject}] ` : ''}${message}`)
+
+    if (this.logFile) {
+      const line = JSON.stringify({
+        id: providerMessageId,
+        channel: this.channel,
+        to,
+        subject,
+        message,
+        at: new Date().toISOString(),
+      })
+      await Deno.writeTextFile(this.logFile, `${line}\n`, { append: true })
+    }
+
+    return { providerMessageId }
+  }
+}
+
+// Posts { channel, to, subject, message } as JSON to <CHANNEL>_WEBHOOK_URL, with
+// <CHANNEL>_WEBHOOK_TOKEN as a bearer token if set. Fits WhatsApp Business
+// relays, email APIs behind a small proxy, or an SMS aggregator's HTTP API.
+// An `id` in the JSON reply is kept as the provider's message id.
+export class WebhookProvider implements MessageProvider {
+  name = 'webhook'
+
+  constructor(private channel: Channel, private url: string, private token?: string) {}
+
+  async send(to: string, message: string, subject?: string): Promise<SendResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: JSON.stringify({ channel: this.channel, to, subject, message }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Gateway returned ${response.status}: ${(await response.text()).slice(0, 200)}`)
+    }
+
+    const reply = await response.json().catch(() => null)
+    return { providerMessageId: reply?.id ? String(reply.id) : undefined }
+  }
+}
+
+export function getProvider(channel: Channel): MessageProvider {
+  const prefix = channel.toUpperCase()
+  const name = Deno.env.get(`${prefix}_PROVIDER`) || 'console'
+
+  switch (name) {
+    case 'console':
+      return new ConsoleProvider(channel, Deno.env.get(`${prefix}_LOG_FILE`) || undefined)
+    case 'webhook': {
+      const url = Deno.env.get(`${prefix}_WEBHOOK_URL`)
+      if (!url) throw new Error(`${prefix}_WEBHOOK_URL is not set`)
+      return new WebhookProvider(channel, url, Deno.env.get(`${prefix}_WEBHOOK_TOKEN`) || undefined)
+    }
+    default:
+      throw new Error(`Unknown ${channel} provider: ${name}`)
+  }
+}
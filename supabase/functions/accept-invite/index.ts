@@ -0,0 +1,117 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+
+// Public endpoint used by the invite link on /auth. Called before the invitee
+// has an account, so it is deployed without JWT verification.
+//   { "token": "..." }                          look up the invitation
+//   { "token": "...", "password": "..." }       create the account and accept it
+
+const MIN_PASSWORD_LENGTH = 6
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+async function findInvitation(supabase: SupabaseClient, token: unknown) {
+  if (typeof token !== 'string' || !/^[0-9a-f-]{36}$/i.test(token)) return null
+
+  const { data, error } = await supabase
+    .from('staff_invitations')
+    .select('id, email, role, center_id, expires_at, accepted_at')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const body = await req.json().catch(() => ({}))
+    const invitation = await findInvitation(supabase, body.token)
+
+    if (!invitation || invitation.accepted_at) {
+      return jsonResponse({ error: 'This invitation is not valid or has already been used' }, 404)
+    }
+    if (new Date(invitation.expires_at).getTime() < Date.now()) {
+      return jsonResponse({ error: 'This invitation has expired. Ask the center owner for a new one.' }, 410)
+    }
+
+    if (body.password === undefined) {
+      return jsonResponse({ email: invitation.email, role: invitation.role })
+    }
+
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      return jsonResponse({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, 400)
+    }
+
+    // Claim the invitation first so the same link can't create two accounts
+    const { data: claimed, error: claimError } = await supabase
+      .from('staff_invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitation.id)
+      .is('accepted_at', null)
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed?.length) {
+      return jsonResponse({ error: 'This invitation is not valid or has already been used' }, 404)
+    }
+
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email: invitation.email,
+      password: body.password,
+      email_confirm: true,
+    })
+
+    // Hand the invitation back so the link can be tried again
+    const releaseInvitation = () =>
+      supabase.from('staff_invitations').update({ accepted_at: null }).eq('id', invitation.id)
+
+    if (createError) {
+      await releaseInvitation()
+      return jsonResponse({ error: createError.message }, 400)
+    }
+
+    // Without a profile the account can't sign in to anything, so undo it
+    // rather than leave the invitee locked out with a used link
+    const { error: profileError } = await supabase
+      .from('staff_profiles')
+      .upsert({ user_id: created.user.id, email: invitation.email, role: invitation.role })
+
+    let setupError = profileError
+    if (!setupError && invitation.center_id) {
+      const { error: branchError } = await supabase
+        .from('staff_centers')
+        .upsert({ user_id: created.user.id, center_id: invitation.center_id })
+
+      setupError = branchError
+    }
+
+    if (setupError) {
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(created.user.id)
+      if (deleteError) {
+        console.error(`Error removing the account for ${invitation.email}:`, deleteError)
+      } else {
+        await releaseInvitation()
+      }
+      throw setupError
+    }
+
+    console.log(`${invitation.email} accepted their invitation as ${invitation.role}`)
+    return jsonResponse({ success: true, email: invitation.email })
+  } catch (error) {
+    console.error('Error in accept-invite:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
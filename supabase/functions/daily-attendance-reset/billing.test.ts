@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { billingPeriod, type BillingPeriod, type FeePlan } from './billing.ts'
+
+const plan = (billing_period: BillingPeriod): FeePlan => ({
+  id: 'plan',
+  name: 'Plan',
+  rate: 1000,
+  billing_period,
+  charge_absences: false,
+})
+
+const terms = [
+  { name: 'Term 1', start_date: '2026-01-05', end_date: '2026-04-02' },
+  { name: 'Term 2', start_date: '2026-04-27', end_date: '2026-07-31' },
+]
+
+describe('billingPeriod', () => {
+  it('bills daily plans for the day itself', () => {
+    expect(billingPeriod(plan('daily'), '2026-01-31', terms)).toEqual({
+      start: '2026-01-31',
+      end: '2026-01-31',
+      label: 'Daily fee',
+    })
+  })
+
+  it('runs weeks from Monday to Sunday', () => {
+    const week = { start: '2025-12-29', end: '2026-01-04', label: 'Weekly fee (2025-12-29 to 2026-01-04)' }
+    // Monday, a Thursday on New Year's Day, and Sunday
+    expect(billingPeriod(plan('weekly'), '2025-12-29', terms)).toEqual(week)
+    expect(billingPeriod(plan('weekly'), '2026-01-01', terms)).toEqual(week)
+    expect(billingPeriod(plan('weekly'), '2026-01-04', terms)).toEqual(week)
+    expect(billingPeriod(plan('weekly'), '2026-01-05', terms)?.start).toBe('2026-01-05')
+  })
+
+  it('runs months from the first to the last day', () => {
+    expect(billingPeriod(plan('monthly'), '2026-01-31', terms)).toEqual({
+      start: '2026-01-01',
+      end: '2026-01-31',
+      label: 'Monthly fee (January 2026)',
+    })
+    expect(billingPeriod(plan('monthly'), '2026-02-01', terms)?.end).toBe('2026-02-28')
+    expect(billingPeriod(plan('monthly'), '2028-02-15', terms)?.end).toBe('2028-02-29')
+    expect(billingPeriod(plan('monthly'), '2025-12-31', terms)?.end).toBe('2025-12-31')
+  })
+
+  it('uses the term containing the date, first and last days included', () => {
+    const term = { start: '2026-01-05', end: '2026-04-02', label: 'Term fee (Term 1)' }
+    expect(billingPeriod(plan('term'), '2026-01-05', terms)).toEqual(term)
+    expect(billingPeriod(plan('term'), '2026-04-02', terms)).toEqual(term)
+  })
+
+  it('has no term period between terms', () => {
+    expect(billingPeriod(plan('term'), '2026-04-03', terms)).toBeNull()
+    expect(billingPeriod(plan('term'), '2026-04-26', terms)).toBeNull()
+    expect(billingPeriod(plan('term'), '2026-01-05', [])).toBeNull()
+  })
+})
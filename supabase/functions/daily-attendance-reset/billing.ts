@@ -0,0 +1,180 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { addDays } from '../_shared/dates.ts'
+
+// Billing run for fee plans. Daily plans are charged for present days by the
+// database as attendance is marked; this covers everything else:
+//   - daily plans that charge absences: each absent open day
+//   - other plans that charge absences: the full rate, on the first day of each period
+//   - other plans that don't: pro rata for the days attended, on the last day of
+//     each period (or the child's last day, if they leave part way through)
+
+export type BillingPeriod = 'daily' | 'weekly' | 'monthly' | 'term'
+
+export interface FeePlan {
+  id: string
+  name: string
+  rate: number
+  billing_period: BillingPeriod
+  charge_absences: boolean
+}
+
+interface Term {
+  name: string
+  start_date: string
+  end_date: string
+}
+
+interface Period {
+  start: string
+  end: string
+  label: string
+}
+
+interface PlanCharge {
+  child_id: string
+  fee_plan_id: string
+  amount: number
+  period_start: string
+  period_end: string
+  description: string
+}
+
+const monthName = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+
+// The plan's billing period containing a date; null for a term plan outside every term
+export function billingPeriod(plan: FeePlan, date: string, terms: Term[]): Period | null {
+  switch (plan.billing_period) {
+    case 'daily':
+      return { start: date, end: date, label: 'Daily fee' }
+    case 'weekly': {
+      // Weeks run Monday to Sunday
+      const start = addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7))
+      const end = addDays(start, 6)
+      return { start, end, label: `Weekly fee (${start} to ${end})` }
+    }
+    case 'monthly': {
+      const start = `${date.slice(0, 8)}01`
+      const end = addDays(`${addDays(start, 31).slice(0, 8)}01`, -1)
+      return { start, end, label: `Monthly fee (${monthName(date)})` }
+    }
+    case 'term': {
+      const term = terms.find((t) => t.start_date <= date && date <= t.end_date)
+      return term ? { start: term.start_date, end: term.end_date, label: `Term fee (${term.name})` } : null
+    }
+  }
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+// Work out the plan charges due on a day for a branch's children, and post
+// them unless it's a dry run. Returns how many were (or would be) posted.
+export async function billDay(
+  supabase: SupabaseClient,
+  date: string,
+  options: { centerId: string; closed: boolean; absentChildIds: Set<string>; dryRun: boolean }
+): Promise<number> {
+  const { data: children, error: childrenError } = await supabase
+    .from('children')
+    .select('id, left_on, fee_plans(id, name, rate, billing_period, charge_absences)')
+    .eq('center_id', options.centerId)
+    .not('fee_plan_id', 'is', null)
+    .lte('admission_date', date)
+    .or(`status.eq.active,left_on.gte.${date}`)
+
+  if (childrenError) throw childrenError
+
+  const { data: terms, error: termsError } = await supabase
+    .from('billing_terms')
+    .select('name, start_date, end_date')
+    .lte('start_date', date)
+    .gte('end_date', date)
+
+  if (termsError) throw termsError
+
+  const due: { childId: string; leftOn: string | null; plan: FeePlan; period: Period }[] = []
+  for (const child of children || []) {
+    const plan = child.fee_plans as unknown as FeePlan | null
+    if (!plan) continue
+    const period = billingPeriod(plan, date, terms || [])
+    if (period) due.push({ childId: child.id, leftOn: child.left_on, plan, period })
+  }
+
+  // Periods already billed, so re-runs and overlapping runs skip them. A
+  // reversed charge doesn't count, so running the day again re-bills it.
+  const periodStarts = [...new Set(due.map((d) => d.period.start))]
+  const { data: existing, error: existingError } = periodStarts.length
+    ? await supabase.rpc('billed_fee_plan_periods', { for_center: options.centerId, period_starts: periodStarts })
+    : { data: [], error: null }
+
+  if (existingError) throw existingError
+
+  const billed = new Set((existing || []).map((e) => `${e.child_id}|${e.fee_plan_id}|${e.period_start}`))
+  const openDaysCache = new Map<string, number>()
+  const charges: PlanCharge[] = []
+
+  for (const { childId, leftOn, plan, period } of due) {
+    if (billed.has(`${childId}|${plan.id}|${period.start}`)) continue
+
+    const charge = { child_id: childId, fee_plan_id: plan.id, period_start: period.start, period_end: period.end }
+
+    if (plan.billing_period === 'daily') {
+      if (plan.charge_absences && !options.closed && options.absentChildIds.has(childId)) {
+        charges.push({ ...charge, amount: plan.rate, description: `${period.label} (absent)` })
+      }
+      continue
+    }
+
+    if (plan.charge_absences) {
+      charges.push({ ...charge, amount: plan.rate, description: period.label })
+      continue
+    }
+
+    // Pro rata plans are billed once the period (or the child's time here) is over
+    if (date !== period.end && date !== leftOn) continue
+
+    const cacheKey = `${period.start}|${period.end}`
+    if (!openDaysCache.has(cacheKey)) {
+      const { data: openDays, error: openDaysError } = await supabase
+        .rpc('center_open_days', { from_date: period.start, to_date: period.end, for_center: options.centerId })
+      if (openDaysError) throw openDaysError
+      openDaysCache.set(cacheKey, openDays)
+    }
+    const openDays = openDaysCache.get(cacheKey)!
+
+    const { count: presentDays, error: presentError } = await supabase
+      .from('payments')
+      .select('id', { count: 'exact', head: true })
+      .eq('child_id', childId)
+      .eq('attendance_status', 'present')
+      .gte('payment_date', period.start)
+      .lte('payment_date', date)
+
+    if (presentError) throw presentError
+    if (!presentDays || !openDays) continue
+
+    charges.push({
+      ...charge,
+      amount: roundAmount((plan.rate * Math.min(presentDays, openDays)) / openDays),
+      description: `${period.label}: ${presentDays} of ${openDays} days attended`,
+    })
+  }
+
+  if (options.dryRun) return charges.length
+
+  let posted = 0
+  for (const charge of charges) {
+    const { error: insertError } = await supabase
+      .from('ledger_entries')
+      .insert({ ...charge, entry_type: 'charge', entry_date: date })
+
+    if (!insertError) {
+      posted++
+    } else if (insertError.code !== '23505') {
+      throw insertError
+    }
+  }
+
+  console.log(`Posted ${posted} fee plan charges for ${date}`)
+  return posted
+}
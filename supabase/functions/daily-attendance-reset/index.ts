@@ -1,8 +1,306 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { addDays, businessDate, eachDay, isDateString } from '../_shared/dates.ts'
+import { getCenterSettings, listCenters, type Center } from '../_shared/center-settings.ts'
+import { billDay } from './billing.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Request body (all optional):
+//   { "date": "2025-12-01" }                       process a single day
+//   { "from": "2025-12-01", "to": "2025-12-05" }   process a range of days
+//   { "centerId": "<uuid>" }                       process one branch instead of all of them
+//   { "dryRun": true }                             report what would change without writing
+// Each branch runs on its own timezone and its own run history. With no dates,
+// yesterday is processed along with any days missed since the branch's last completed run.
+// Callers must use the service role key (the schedule) or be signed in as an owner.
+
+// How far back an automatic catch-up reaches
+const MAX_BACKFILL_DAYS = 31
+
+// A run still marked running after this long is assumed to have crashed
+const STALE_RUN_MINUTES = 10
+
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+interface DayResult {
+  centerId: string
+  date: string
+  closed: string | null
+  markedAbsent: number
+  markedUnpaid: number
+  chargesPosted: number
+  absentChildIds: string[]
+  unpaidPaymentIds: string[]
+  skipped?: string
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+async function authorizeCaller(supabase: SupabaseClient, req: Request, serviceKey: string) {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!jwt) throw new RequestError('Not signed in', 401)
+  if (jwt === serviceKey) return
+
+  const { data: { user }, error } = await supabase.auth.getUser(jwt)
+  if (error || !user) throw new RequestError('Not signed in', 401)
+
+  const { data: profile } = await supabase
+    .from('staff_profiles')
+    .select('role, disabled_at')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (profile?.role !== 'owner' || profile.disabled_at) {
+    throw new RequestError('Only owners can run the daily reset', 403)
+  }
+}
+
+async function resolveDays(
+  supabase: SupabaseClient,
+  centerId: string,
+  body: Record<string, unknown>,
+  yesterdayStr: string
+) {
+  if (body.date !== undefined) {
+    if (!isDateString(body.date)) throw new RequestError('date must be YYYY-MM-DD')
+    return [body.date]
+  }
+
+  if (body.from !== undefined || body.to !== undefined) {
+    if (!isDateString(body.from) || !isDateString(body.to)) {
+      throw new RequestError('from and to must both be YYYY-MM-DD')
+    }
+    if (body.from > body.to) throw new RequestError('from must not be after to')
+    return eachDay(body.from, body.to)
+  }
+
+  // Default: every day after the last completed run, up to yesterday
+  const { data: lastRun, error } = await supabase
+    .from('attendance_reset_runs')
+    .select('run_date')
+    .eq('center_id', centerId)
+    .eq('status', 'completed')
+    .order('run_date', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+
+  if (!lastRun) return [yesterdayStr]
+
+  const earliest = addDays(yesterdayStr, -(MAX_BACKFILL_DAYS - 1))
+  let start = addDays(lastRun.run_date, 1)
+  if (start < earliest) {
+    console.warn(`Last completed run was ${lastRun.run_date}; only backfilling from ${earliest}`)
+    start = earliest
+  }
+
+  // Yesterday is always included so a repeat call still reports on it
+  return start <= yesterdayStr ? eachDay(start, yesterdayStr) : [yesterdayStr]
+}
+
+// Mark the branch's day as running. Returns false when another invocation is already on it.
+async function claimDay(supabase: SupabaseClient, centerId: string, date: string) {
+  const { error: insertError } = await supabase
+    .from('attendance_reset_runs')
+    .insert({ center_id: centerId, run_date: date, status: 'running' })
+
+  if (!insertError) return true
+  if (insertError.code !== '23505') throw insertError
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('attendance_reset_runs')
+    .select('status, started_at, attempts')
+    .eq('center_id', centerId)
+    .eq('run_date', date)
+    .single()
+
+  if (fetchError) throw fetchError
+
+  const staleBefore = Date.now() - STALE_RUN_MINUTES * 60 * 1000
+  if (existing.status === 'running' && new Date(existing.started_at).getTime() > staleBefore) {
+    return false
+  }
+
+  const { error: updateError } = await supabase
+    .from('attendance_reset_runs')
+    .update({
+      status: 'running',
+      error: null,
+      attempts: existing.attempts + 1,
+      started_at: new Date().toISOString(),
+      completed_at: null,
+    })
+    .eq('center_id', centerId)
+    .eq('run_date', date)
+
+  if (updateError) throw updateError
+  return true
+}
+
+async function processDay(
+  supabase: SupabaseClient,
+  centerId: string,
+  date: string,
+  dryRun: boolean
+): Promise<DayResult> {
+  console.log(`Running daily reset for center ${centerId}, date: ${date}${dryRun ? ' (dry run)' : ''}`)
+
+  // Nobody is marked absent on a day the center was closed
+  const { data: closureReason, error: closureError } = await supabase
+    .rpc('center_closure_reason', { check_date: date, check_center: centerId })
+
+  if (closureError) {
+    throw closureError
+  }
+
+  if (closureReason) {
+    console.log(`Center closed on ${date} (${closureReason}) - not marking absences`)
+  }
+
+  // Get the children enrolled that day with their payment amounts; anyone
+  // admitted after it, or withdrawn or graduated before it, is left alone
+  const { data: children, error: childrenError } = await supabase
+    .from('children')
+    .select('id, payment_amount')
+    .eq('center_id', centerId)
+    .lte('admission_date', date)
+    .or(`status.eq.active,left_on.gte.${date}`)
+
+  if (childrenError) {
+    throw childrenError
+  }
+
+  // Attendance already recorded for the day, fetched in one go
+  const { data: records, error: recordsError } = await supabase
+    .from('payments')
+    .select('id, child_id, attendance_status, status, debt_amount')
+    .eq('center_id', centerId)
+    .eq('payment_date', date)
+    .not('attendance_status', 'is', null)
+
+  if (recordsError) {
+    throw recordsError
+  }
+
+  const recordsByChild = new Map((records || []).map((record) => [record.child_id, record]))
+
+  const absentChildren = []
+  const unpaidChildren = []
+
+  for (const child of children || []) {
+    const payment = recordsByChild.get(child.id)
+
+    // Case 1: No record exists on an open day - mark as absent (debt = 0 for absent children)
+    if (!payment && !closureReason) {
+      absentChildren.push({
+        child_id: child.id,
+        payment_date: date,
+        attendance_status: 'absent',
+        status: 'unpaid',
+        amount: 0,
+        debt_amount: 0,
+        arrival_time: null,
+        note: 'Marked absent - no attendance recorded',
+      })
+    }
+    // Case 2: Present but no payment status set (status is 'pending') - mark as unpaid,
+    // owing whatever discounts and credit didn't already cover
+    else if (payment?.attendance_status === 'present' && payment.status === 'pending') {
+      unpaidChildren.push({
+        id: payment.id,
+        child_id: child.id,
+        debt_amount: payment.debt_amount ?? child.payment_amount,
+      })
+    }
+  }
+
+  const result: DayResult = {
+    centerId,
+    date,
+    closed: closureReason ?? null,
+    markedAbsent: 0,
+    markedUnpaid: 0,
+    chargesPosted: 0,
+    absentChildIds: absentChildren.map((record) => record.child_id),
+    unpaidPaymentIds: unpaidChildren.map((record) => record.id),
+  }
+
+  // Everyone absent once the day is closed off, for plans that charge absences
+  const absentChildIds = new Set(
+    (records || []).filter((record) => record.attendance_status === 'absent').map((record) => record.child_id)
+  )
+
+  if (dryRun) {
+    result.markedAbsent = absentChildren.length
+    result.markedUnpaid = unpaidChildren.length
+    result.absentChildIds.forEach((childId) => absentChildIds.add(childId))
+    result.chargesPosted = await billDay(supabase, date, {
+      centerId,
+      closed: !!closureReason,
+      absentChildIds,
+      dryRun: true,
+    })
+    return result
+  }
+
+  // Insert absent records one at a time: the unique attendance index rejects a
+  // child that was marked by an overlapping run or by staff in the meantime
+  for (const record of absentChildren) {
+    const { error: insertError } = await supabase
+      .from('payments')
+      .insert(record)
+
+    if (!insertError) {
+      result.markedAbsent++
+      absentChildIds.add(record.child_id)
+    } else if (insertError.code !== '23505') {
+      throw insertError
+    }
+  }
+
+  console.log(`Marked ${result.markedAbsent} children as absent for ${date}`)
+
+  // Update pending records to unpaid; the status filter stops a re-run touching them twice
+  for (const record of unpaidChildren) {
+    const { data: updated, error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status: 'unpaid',
+        debt_amount: record.debt_amount,
+        note: 'Automatically marked unpaid - no payment status recorded',
+      })
+      .eq('id', record.id)
+      .eq('status', 'pending')
+      .select('id')
+
+    if (updateError) {
+      console.error(`Error updating payment ${record.id} to unpaid:`, updateError)
+    } else if (updated?.length) {
+      result.markedUnpaid++
+    }
+  }
+
+  if (result.markedUnpaid > 0) {
+    console.log(`Marked ${result.markedUnpaid} present children as unpaid for ${date}`)
+  }
+
+  // Fee plan charges for the day, now attendance is final
+  result.chargesPosted = await billDay(supabase, date, {
+    centerId,
+    closed: !!closureReason,
+    absentChildIds,
+    dryRun: false,
+  })
+
+  return result
 }
 
 Deno.serve(async (req) => {
@@ -15,112 +313,103 @@ Deno.serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseKey)
 
-    // Get yesterday's date (since this runs at midnight/just after 23:59)
-    const yesterday = new Date()
-    yesterday.setDate(yesterday.getDate() - 1)
-    const yesterdayStr = yesterday.toISOString().split('T')[0]
-
-    console.log(`Running daily reset for date: ${yesterdayStr}`)
+    await authorizeCaller(supabase, req, supabaseKey)
 
-    // Get all children with their payment amounts
-    const { data: children, error: childrenError } = await supabase
-      .from('children')
-      .select('id, payment_amount')
+    const body = req.method === 'POST'
+      ? await req.json().catch(() => ({}))
+      : {}
+    const dryRun = body.dryRun === true
 
-    if (childrenError) {
-      throw childrenError
+    const centers = (await listCenters(supabase)).filter((center) => !body.centerId || center.id === body.centerId)
+    if (body.centerId && centers.length === 0) {
+      throw new RequestError('Unknown centerId')
     }
 
-    console.log(`Found ${children?.length || 0} children`)
-
-    const absentChildren = []
-    const unpaidChildren = []
-    
-    for (const child of children || []) {
-      const { data: payment, error: paymentError } = await supabase
-        .from('payments')
-        .select('*')
-        .eq('child_id', child.id)
-        .eq('payment_date', yesterdayStr)
-        .maybeSingle()
-
-      if (paymentError) {
-        console.error(`Error checking payment for child ${child.id}:`, paymentError)
-        continue
-      }
+    // Work out every branch's days first, so a bad request is rejected before anything is written
+    const plans: { center: Center; days: string[] }[] = []
+    for (const center of centers) {
+      // Yesterday in the branch's timezone (this runs just after the branch's midnight)
+      const { timezone } = await getCenterSettings(supabase, center.id)
+      const yesterdayStr = addDays(businessDate(timezone), -1)
+      const days = await resolveDays(supabase, center.id, body, yesterdayStr)
 
-      // Case 1: No record exists - mark as absent (debt = 0 for absent children)
-      if (!payment) {
-        absentChildren.push({
-          child_id: child.id,
-          payment_date: yesterdayStr,
-          attendance_status: 'absent',
-          status: 'unpaid',
-          amount: 0,
-          debt_amount: 0,
-          arrival_time: null,
-          note: 'Marked absent - no attendance recorded',
-        })
-      }
-      // Case 2: Present but no payment status set (status is 'pending') - mark as unpaid
-      else if (payment.attendance_status === 'present' && payment.status === 'pending') {
-        unpaidChildren.push({
-          id: payment.id,
-          child_id: child.id,
-          debt_amount: child.payment_amount,
-        })
+      // A day can only be closed off once it is over
+      if (days.some((day) => day > yesterdayStr)) {
+        throw new RequestError(`Only days up to ${yesterdayStr} can be processed at ${center.name}`)
       }
+      plans.push({ center, days })
     }
 
-    // Insert absent records
-    if (absentChildren.length > 0) {
-      const { error: insertError } = await supabase
-        .from('payments')
-        .insert(absentChildren)
+    const results: DayResult[] = []
 
-      if (insertError) {
-        throw insertError
-      }
+    for (const { center, days } of plans) {
+      for (const day of days) {
+        if (dryRun) {
+          results.push(await processDay(supabase, center.id, day, true))
+          continue
+        }
 
-      console.log(`Marked ${absentChildren.length} children as absent for ${yesterdayStr}`)
-    } else {
-      console.log('No children to mark as absent')
-    }
+        if (!(await claimDay(supabase, center.id, day))) {
+          console.log(`Reset for ${center.name} on ${day} is already running elsewhere - skipping`)
+          results.push({
+            centerId: center.id,
+            date: day,
+            closed: null,
+            markedAbsent: 0,
+            markedUnpaid: 0,
+            chargesPosted: 0,
+            absentChildIds: [],
+            unpaidPaymentIds: [],
+            skipped: 'already running',
+          })
+          continue
+        }
 
-    // Update pending records to unpaid
-    for (const record of unpaidChildren) {
-      const { error: updateError } = await supabase
-        .from('payments')
-        .update({
-          status: 'unpaid',
-          debt_amount: record.debt_amount,
-          note: 'Automatically marked unpaid - no payment status recorded',
-        })
-        .eq('id', record.id)
-
-      if (updateError) {
-        console.error(`Error updating payment ${record.id} to unpaid:`, updateError)
-      }
-    }
+        try {
+          const result = await processDay(supabase, center.id, day, false)
+          const { error: completeError } = await supabase
+            .from('attendance_reset_runs')
+            .update({
+              status: 'completed',
+              marked_absent: result.markedAbsent,
+              marked_unpaid: result.markedUnpaid,
+              charges_posted: result.chargesPosted,
+              closure_reason: result.closed,
+              completed_at: new Date().toISOString(),
+            })
+            .eq('center_id', center.id)
+            .eq('run_date', day)
 
-    if (unpaidChildren.length > 0) {
-      console.log(`Marked ${unpaidChildren.length} present children as unpaid for ${yesterdayStr}`)
+          if (completeError) throw completeError
+          results.push(result)
+        } catch (error) {
+          await supabase
+            .from('attendance_reset_runs')
+            .update({
+              status: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+              completed_at: new Date().toISOString(),
+            })
+            .eq('center_id', center.id)
+            .eq('run_date', day)
+          throw error
+        }
+      }
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        date: yesterdayStr,
-        markedAbsent: absentChildren.length,
-        markedUnpaid: unpaidChildren.length,
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return jsonResponse({
+      success: true,
+      dryRun,
+      days: results,
+      markedAbsent: results.reduce((sum, day) => sum + day.markedAbsent, 0),
+      markedUnpaid: results.reduce((sum, day) => sum + day.markedUnpaid, 0),
+      chargesPosted: results.reduce((sum, day) => sum + day.chargesPosted, 0),
+    })
   } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
     console.error('Error in daily-attendance-reset:', error)
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
-    )
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
   }
 })
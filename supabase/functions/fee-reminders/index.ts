@@ -0,0 +1,260 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { localTime } from '../_shared/dates.ts'
+import { getCenterSettings, listCenters, type CenterSettings } from '../_shared/center-settings.ts'
+import { getProvider } from '../_shared/providers.ts'
+
+// Texts the primary guardian of every child with a balance. Request body (all optional):
+//   { "centerId": "<uuid>" }  only remind about children at this branch
+//   { "childIds": ["..."] }   only remind about these children
+//   { "dryRun": true }        report who would be texted without sending or logging anything
+// Each branch uses its own template and quiet hours. Scheduled calls use the service
+// role key and skip children reminded within the reminder interval (Settings → SMS
+// Reminders). Staff calls need an owner, or a cashier assigned to the branch.
+
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+interface Caller {
+  trigger: 'schedule' | 'manual'
+  userId: string | null
+  email: string | null
+  // Branches the caller may remind for; null for all of them
+  centerIds: string[] | null
+}
+
+interface Reminder {
+  childId: string
+  centerId: string
+  guardianId: string | null
+  guardianName: string
+  phone: string | null
+  amount: number
+  optedOut: boolean
+  message: string
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+async function identifyCaller(supabase: SupabaseClient, req: Request, serviceKey: string): Promise<Caller> {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!jwt) throw new RequestError('Not signed in', 401)
+  if (jwt === serviceKey) return { trigger: 'schedule', userId: null, email: null, centerIds: null }
+
+  const { data: { user }, error } = await supabase.auth.getUser(jwt)
+  if (error || !user) throw new RequestError('Not signed in', 401)
+
+  const { data: profile } = await supabase
+    .from('staff_profiles')
+    .select('role, disabled_at')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (!['owner', 'cashier'].includes(profile?.role) || profile?.disabled_at) {
+    throw new RequestError('Only owners and cashiers can send reminders', 403)
+  }
+
+  let centerIds: string[] | null = null
+  if (profile.role !== 'owner') {
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('staff_centers')
+      .select('center_id')
+      .eq('user_id', user.id)
+
+    if (assignmentsError) throw assignmentsError
+    centerIds = (assignments || []).map((a) => a.center_id)
+  }
+
+  return { trigger: 'manual', userId: user.id, email: user.email ?? null, centerIds }
+}
+
+// Quiet hours may run past midnight, e.g. 20:00 to 07:00
+function inQuietHours(settings: CenterSettings, now: string) {
+  const start = settings.smsQuietStart?.slice(0, 5)
+  const end = settings.smsQuietEnd?.slice(0, 5)
+  if (!start || !end || start === end) return false
+
+  return start < end ? now >= start && now < end : now >= start || now < end
+}
+
+function renderTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+}
+
+async function buildReminders(
+  supabase: SupabaseClient,
+  settings: CenterSettings,
+  caller: Caller,
+  childIds: string[] | null
+): Promise<Reminder[]> {
+  let balancesQuery = supabase.from('child_balances').select('child_id, balance').gt('balance', 0)
+  if (childIds) balancesQuery = balancesQuery.in('child_id', childIds)
+
+  const { data: balances, error: balancesError } = await balancesQuery
+  if (balancesError) throw balancesError
+  if (!balances?.length) return []
+
+  let owing = balances.map((b) => b.child_id as string)
+
+  // Scheduled runs leave recently reminded children alone
+  if (caller.trigger === 'schedule') {
+    const since = new Date(Date.now() - settings.smsReminderIntervalDays * 24 * 60 * 60 * 1000)
+    const { data: recent, error } = await supabase
+      .from('sms_messages')
+      .select('child_id')
+      .eq('kind', 'fee_reminder')
+      .eq('status', 'sent')
+      .in('child_id', owing)
+      .gte('created_at', since.toISOString())
+
+    if (error) throw error
+    const reminded = new Set((recent || []).map((m) => m.child_id))
+    owing = owing.filter((id) => !reminded.has(id))
+    if (!owing.length) return []
+  }
+
+  const { data: children, error: childrenError } = await supabase
+    .from('children')
+    .select('id, name, guardian_name, contact_number, child_guardians(is_primary, guardians(id, name, phone, sms_opt_out))')
+    .eq('center_id', settings.centerId)
+    .in('id', owing)
+
+  if (childrenError) throw childrenError
+
+  const amounts = new Map(balances.map((b) => [b.child_id, Number(b.balance)]))
+
+  return (children || []).map((child) => {
+    const primary = child.child_guardians?.find((link: { is_primary: boolean }) => link.is_primary)?.guardians
+    const guardianName = primary?.name || child.guardian_name
+    const amount = amounts.get(child.id) ?? 0
+
+    return {
+      childId: child.id,
+      centerId: settings.centerId,
+      guardianId: primary?.id ?? null,
+      guardianName,
+      // Children added before guardians were linked only have the contact number
+      phone: primary?.phone || child.contact_number || null,
+      amount,
+      optedOut: primary?.sms_opt_out ?? false,
+      message: renderTemplate(settings.smsReminderTemplate, {
+        child: child.name,
+        amount: amount.toFixed(2),
+        guardian: guardianName,
+        center: settings.centerName,
+      }),
+    }
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const caller = await identifyCaller(supabase, req, supabaseKey)
+    const body = await req.json().catch(() => ({}))
+
+    const childIds = body.childIds
+    if (childIds !== undefined && (!Array.isArray(childIds) || childIds.some((id) => typeof id !== 'string'))) {
+      throw new RequestError('childIds must be a list of child ids')
+    }
+
+    if (body.centerId !== undefined && typeof body.centerId !== 'string') {
+      throw new RequestError('centerId must be a center id')
+    }
+
+    const centers = (await listCenters(supabase)).filter(
+      (center) =>
+        (!body.centerId || center.id === body.centerId) && (!caller.centerIds || caller.centerIds.includes(center.id))
+    )
+    if (body.centerId && centers.length === 0) {
+      throw new RequestError("You don't have access to that branch", 403)
+    }
+
+    const reminders: Reminder[] = []
+    let quietHours = false
+
+    for (const center of centers) {
+      const settings = await getCenterSettings(supabase, center.id)
+      const now = localTime(settings.timezone)
+
+      if (inQuietHours(settings, now)) {
+        const quiet = `${settings.smsQuietStart!.slice(0, 5)} to ${settings.smsQuietEnd!.slice(0, 5)}`
+        if (caller.trigger === 'schedule') {
+          console.log(`Quiet hours at ${center.name} (${quiet}), no reminders sent`)
+          quietHours = true
+          continue
+        }
+        throw new RequestError(`Reminders aren't sent during quiet hours at ${center.name} (${quiet})`, 409)
+      }
+
+      reminders.push(...(await buildReminders(supabase, settings, caller, childIds ?? null)))
+    }
+
+    if (body.dryRun) {
+      return jsonResponse({ dryRun: true, reminders })
+    }
+
+    const provider = getProvider('sms')
+    const results = { sent: 0, failed: 0, skipped: 0 }
+
+    for (const reminder of reminders) {
+      const log = {
+        kind: 'fee_reminder',
+        child_id: reminder.childId,
+        center_id: reminder.centerId,
+        guardian_id: reminder.guardianId,
+        phone: reminder.phone,
+        message: reminder.message,
+        amount: reminder.amount,
+        provider: provider.name,
+        trigger: caller.trigger,
+        sent_by: caller.userId,
+        sent_by_email: caller.email,
+      }
+
+      let entry
+      if (reminder.optedOut) {
+        entry = { ...log, status: 'skipped', detail: 'Guardian opted out of SMS reminders', provider: null }
+      } else if (!reminder.phone) {
+        entry = { ...log, status: 'skipped', detail: 'No phone number', provider: null }
+      } else {
+        try {
+          const { providerMessageId } = await provider.send(reminder.phone, reminder.message)
+          entry = { ...log, status: 'sent', provider_message_id: providerMessageId ?? null }
+        } catch (error) {
+          entry = { ...log, status: 'failed', detail: error instanceof Error ? error.message : String(error) }
+        }
+      }
+
+      results[entry.status as keyof typeof results]++
+
+      const { error } = await supabase.from('sms_messages').insert(entry)
+      if (error) console.error(`Error logging SMS for child ${reminder.childId}:`, error)
+    }
+
+    console.log(
+      `Fee reminders (${caller.trigger}): ${results.sent} sent, ${results.failed} failed, ${results.skipped} skipped`
+    )
+    return jsonResponse(quietHours ? { ...results, quietHours } : results)
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+    console.error('Error in fee-reminders:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
@@ -0,0 +1,226 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { addDays, businessDate } from '../_shared/dates.ts'
+import { getCenterSettings } from '../_shared/center-settings.ts'
+import { parseCallback, phoneKey, type MobileMoneyPayment } from './payload.ts'
+
+// Safaricom only needs to know the callback was received; anything other than
+// ResultCode 0 makes it retry the same transaction.
+const accepted = (desc = 'Accepted') =>
+  new Response(JSON.stringify({ ResultCode: 0, ResultDesc: desc }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+interface ChildMatch {
+  childId: string | null
+  method: 'admission_number' | 'phone' | null
+  note: string | null
+}
+
+function matchChild(
+  payment: MobileMoneyPayment,
+  children: { id: string; admission_number: string | null; phones: string[] }[]
+): ChildMatch {
+  // 1. Account reference typed by the guardian, checked against admission numbers
+  const reference = payment.accountReference?.trim().toLowerCase()
+  if (reference) {
+    const byAdmission = children.filter((c) => c.admission_number?.trim().toLowerCase() === reference)
+    if (byAdmission.length === 1) {
+      return { childId: byAdmission[0].id, method: 'admission_number', note: null }
+    }
+  }
+
+  // 2. The paying phone number, checked against every guardian's phone numbers
+  const payerPhone = phoneKey(payment.phoneNumber)
+  if (payerPhone) {
+    const byPhone = children.filter((c) => c.phones.some((phone) => phoneKey(phone) === payerPhone))
+    if (byPhone.length === 1) {
+      return { childId: byPhone[0].id, method: 'phone', note: null }
+    }
+    if (byPhone.length > 1) {
+      return { childId: null, method: null, note: `Phone number matches ${byPhone.length} children` }
+    }
+  }
+
+  return { childId: null, method: null, note: 'No child matches the account reference or phone number' }
+}
+
+// Cashed-up days are closed, and the service role isn't held back by the
+// lock, so a payment for one is posted on the first open day from today
+async function openEntryDate(
+  supabase: SupabaseClient,
+  centerId: string,
+  paidOn: string,
+  today: string
+): Promise<string> {
+  const isClosed = async (date: string) => {
+    const { data, error } = await supabase.rpc('is_day_closed', { check_date: date, check_center: centerId })
+    if (error) throw error
+    return data === true
+  }
+
+  if (!(await isClosed(paidOn))) return paidOn
+
+  let date = today > paidOn ? today : addDays(paidOn, 1)
+  while (await isClosed(date)) {
+    date = addDays(date, 1)
+  }
+  return date
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  // The callback URL registered with the gateway carries a shared token, since
+  // Safaricom cannot send a Supabase JWT. Without one configured nothing is accepted.
+  const expectedToken = Deno.env.get('MPESA_CALLBACK_TOKEN')
+  if (!expectedToken) {
+    console.error('MPESA_CALLBACK_TOKEN is not set; rejecting callback')
+    return new Response(JSON.stringify({ error: 'Callback token is not configured' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+  if (new URL(req.url).searchParams.get('token') !== expectedToken) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 401,
+    })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const body = await req.json()
+    const parsed = parseCallback(body)
+
+    if (parsed.kind === 'failed') {
+      console.log(`STK push did not complete: ${parsed.reason}`)
+      return accepted()
+    }
+
+    if (parsed.kind === 'invalid') {
+      console.error(`Rejected mobile money callback: ${parsed.reason}`)
+      return new Response(JSON.stringify({ ResultCode: 1, ResultDesc: parsed.reason }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      })
+    }
+
+    const payment = parsed.payment
+    console.log(`Received ${payment.transactionType} payment ${payment.transactionId} of ${payment.amount}`)
+
+    const { data: children, error: childrenError } = await supabase
+      .from('children')
+      .select('id, center_id, admission_number, contact_number, child_guardians(guardians(phone, alternate_phone))')
+      // Children who have left are never matched automatically
+      .eq('status', 'active')
+
+    if (childrenError) {
+      throw childrenError
+    }
+
+    const match = matchChild(
+      payment,
+      (children || []).map((c) => ({
+        id: c.id,
+        admission_number: c.admission_number,
+        phones: [
+          c.contact_number,
+          ...c.child_guardians.flatMap((cg) => [cg.guardians?.phone, cg.guardians?.alternate_phone]),
+        ].filter((phone): phone is string => !!phone),
+      }))
+    )
+
+    // Record the transaction first; the unique transaction id makes gateway retries no-ops
+    const { data: transaction, error: insertError } = await supabase
+      .from('mobile_money_transactions')
+      .insert({
+        provider: 'mpesa',
+        transaction_id: payment.transactionId,
+        transaction_type: payment.transactionType,
+        amount: payment.amount,
+        phone_number: payment.phoneNumber,
+        account_reference: payment.accountReference,
+        payer_name: payment.payerName,
+        business_short_code: payment.businessShortCode,
+        transacted_at: payment.transactedAt,
+        status: 'unmatched',
+        match_note: match.note,
+        raw_payload: body,
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        console.log(`Transaction ${payment.transactionId} already recorded`)
+        return accepted('Duplicate transaction ignored')
+      }
+      throw insertError
+    }
+
+    if (!match.childId) {
+      console.log(`Transaction ${payment.transactionId} queued as unmatched: ${match.note}`)
+      return accepted()
+    }
+
+    // The payment belongs to the business day at the child's branch
+    const centerId = children!.find((c) => c.id === match.childId)!.center_id
+    const { timezone } = await getCenterSettings(supabase, centerId)
+    const entryDate = await openEntryDate(
+      supabase,
+      centerId,
+      businessDate(timezone, payment.transactedAt ? new Date(payment.transactedAt) : new Date()),
+      businessDate(timezone)
+    )
+
+    const { data: entry, error: ledgerError } = await supabase
+      .from('ledger_entries')
+      .insert({
+        child_id: match.childId,
+        entry_type: 'payment',
+        amount: -payment.amount,
+        entry_date: entryDate,
+        description: `M-Pesa ${payment.transactionId}`,
+        payment_method: 'mobile_money',
+        payment_reference: payment.transactionId,
+      })
+      .select('id')
+      .single()
+
+    if (ledgerError) {
+      // Leave the transaction in the unmatched queue for staff to assign by hand
+      console.error(`Error posting ${payment.transactionId} to the ledger:`, ledgerError)
+      return accepted()
+    }
+
+    const { error: updateError } = await supabase
+      .from('mobile_money_transactions')
+      .update({
+        status: 'matched',
+        child_id: match.childId,
+        center_id: centerId,
+        ledger_entry_id: entry.id,
+        match_method: match.method,
+      })
+      .eq('id', transaction.id)
+
+    if (updateError) {
+      console.error(`Error linking ${payment.transactionId} to its ledger entry:`, updateError)
+    }
+
+    console.log(`Posted ${payment.transactionId} to child ${match.childId} by ${match.method}`)
+    return accepted()
+  } catch (error) {
+    console.error('Error in mpesa-callback:', error)
+    return new Response(
+      JSON.stringify({ ResultCode: 1, ResultDesc: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { parseCallback, parseDarajaTimestamp, phoneKey } from './payload.ts'
+
+const c2b = {
+  TransactionType: 'Pay Bill',
+  TransID: 'RKTQDM7W6S',
+  TransTime: '20251201083015',
+  TransAmount: '1500.00',
+  BusinessShortCode: '600638',
+  BillRefNumber: ' ADM-042 ',
+  MSISDN: 254712345678,
+  FirstName: 'Jane',
+  MiddleName: '',
+  LastName: 'Wanjiku',
+}
+
+const stk = (resultCode: number, items: { Name: string; Value?: string | number }[] = []) => ({
+  Body: {
+    stkCallback: {
+      MerchantRequestID: '29115-34620561-1',
+      CheckoutRequestID: 'ws_CO_191220191020363925',
+      ResultCode: resultCode,
+      ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Request cancelled by user',
+      CallbackMetadata: { Item: items },
+    },
+  },
+})
+
+const stkItems = [
+  { Name: 'Amount', Value: 1500 },
+  { Name: 'MpesaReceiptNumber', Value: 'NLJ7RT61SV' },
+  { Name: 'TransactionDate', Value: 20251201083015 },
+  { Name: 'PhoneNumber', Value: 254712345678 },
+]
+
+describe('parseCallback', () => {
+  it('reads a C2B confirmation', () => {
+    expect(parseCallback(c2b)).toEqual({
+      kind: 'payment',
+      payment: {
+        transactionId: 'RKTQDM7W6S',
+        transactionType: 'c2b',
+        amount: 1500,
+        phoneNumber: '254712345678',
+        accountReference: 'ADM-042',
+        payerName: 'Jane Wanjiku',
+        businessShortCode: '600638',
+        transactedAt: '2025-12-01T05:30:15.000Z',
+      },
+    })
+  })
+
+  it('reads a completed STK push', () => {
+    expect(parseCallback(stk(0, stkItems))).toEqual({
+      kind: 'payment',
+      payment: {
+        transactionId: 'NLJ7RT61SV',
+        transactionType: 'stk',
+        amount: 1500,
+        phoneNumber: '254712345678',
+        accountReference: null,
+        payerName: null,
+        businessShortCode: null,
+        transactedAt: '2025-12-01T05:30:15.000Z',
+      },
+    })
+  })
+
+  it('posts nothing for an STK push that did not complete', () => {
+    expect(parseCallback(stk(1032))).toEqual({ kind: 'failed', reason: 'Request cancelled by user' })
+
+    const withoutDesc = stk(1)
+    delete (withoutDesc.Body.stkCallback as { ResultDesc?: string }).ResultDesc
+    expect(parseCallback(withoutDesc)).toEqual({ kind: 'failed', reason: 'ResultCode 1' })
+  })
+
+  it('rejects a C2B confirmation without a transaction id or amount', () => {
+    expect(parseCallback({ ...c2b, TransID: '' }).kind).toBe('invalid')
+    expect(parseCallback({ ...c2b, TransAmount: '' }).kind).toBe('invalid')
+    expect(parseCallback({ ...c2b, TransAmount: '0' }).kind).toBe('invalid')
+    expect(parseCallback({ ...c2b, TransAmount: '-50' }).kind).toBe('invalid')
+  })
+
+  it('rejects a completed STK push without a receipt number or amount', () => {
+    const without = (name: string) => stk(0, stkItems.filter((item) => item.Name !== name))
+    expect(parseCallback(without('MpesaReceiptNumber')).kind).toBe('invalid')
+    expect(parseCallback(without('Amount')).kind).toBe('invalid')
+  })
+
+  it('rejects anything else', () => {
+    expect(parseCallback(null).kind).toBe('invalid')
+    expect(parseCallback('TransID').kind).toBe('invalid')
+    expect(parseCallback({ Body: {} }).kind).toBe('invalid')
+  })
+})
+
+describe('parseDarajaTimestamp', () => {
+  it('reads the timestamp as East Africa Time', () => {
+    expect(parseDarajaTimestamp('20251201083015')).toBe('2025-12-01T05:30:15.000Z')
+    expect(parseDarajaTimestamp(20260101013000)).toBe('2025-12-31T22:30:00.000Z')
+  })
+
+  it('ignores anything that is not YYYYMMDDHHmmss', () => {
+    expect(parseDarajaTimestamp(undefined)).toBeNull()
+    expect(parseDarajaTimestamp('')).toBeNull()
+    expect(parseDarajaTimestamp('2025-12-01 08:30:15')).toBeNull()
+    expect(parseDarajaTimestamp('202512010830')).toBeNull()
+  })
+})
+
+describe('phoneKey', () => {
+  it('gives the local, international and plus forms the same key', () => {
+    expect(phoneKey('0712345678')).toBe('712345678')
+    expect(phoneKey('254712345678')).toBe('712345678')
+    expect(phoneKey('+254712345678')).toBe('712345678')
+    expect(phoneKey('+254 712 345 678')).toBe('712345678')
+  })
+
+  it('has no key for numbers too short to compare', () => {
+    expect(phoneKey('12345678')).toBeNull()
+    expect(phoneKey('')).toBeNull()
+    expect(phoneKey(null)).toBeNull()
+    expect(phoneKey(undefined)).toBeNull()
+  })
+})
@@ -0,0 +1,129 @@
+// Normalizes the two callback shapes Safaricom sends into one record:
+//  - C2B confirmation (paybill / till): flat JSON with TransID, TransAmount, BillRefNumber, MSISDN...
+//  - STK push result: { Body: { stkCallback: { ResultCode, CallbackMetadata: { Item: [...] } } } }
+
+export interface MobileMoneyPayment {
+  transactionId: string
+  transactionType: 'c2b' | 'stk'
+  amount: number
+  phoneNumber: string | null
+  accountReference: string | null
+  payerName: string | null
+  businessShortCode: string | null
+  transactedAt: string | null
+}
+
+export type ParsedCallback =
+  | { kind: 'payment'; payment: MobileMoneyPayment }
+  | { kind: 'failed'; reason: string }
+  | { kind: 'invalid'; reason: string }
+
+interface C2BConfirmation {
+  TransactionType?: string
+  TransID: string
+  TransTime?: string
+  TransAmount: string | number
+  BusinessShortCode?: string
+  BillRefNumber?: string
+  MSISDN?: string | number
+  FirstName?: string
+  MiddleName?: string
+  LastName?: string
+}
+
+interface StkCallback {
+  MerchantRequestID?: string
+  CheckoutRequestID?: string
+  ResultCode: number
+  ResultDesc?: string
+  CallbackMetadata?: {
+    Item: { Name: string; Value?: string | number }[]
+  }
+}
+
+// Daraja timestamps are YYYYMMDDHHmmss in East Africa Time
+export function parseDarajaTimestamp(value: string | number | undefined): string | null {
+  const match = String(value ?? '').match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+03:00`).toISOString()
+}
+
+function emptyToNull(value: string | number | undefined | null): string | null {
+  const text = String(value ?? '').trim()
+  return text === '' ? null : text
+}
+
+function parseC2B(body: C2BConfirmation): ParsedCallback {
+  const amount = Number(body.TransAmount)
+  if (!body.TransID || !(amount > 0)) {
+    return { kind: 'invalid', reason: 'Missing TransID or TransAmount' }
+  }
+
+  const payerName = [body.FirstName, body.MiddleName, body.LastName].filter(Boolean).join(' ')
+
+  return {
+    kind: 'payment',
+    payment: {
+      transactionId: body.TransID,
+      transactionType: 'c2b',
+      amount,
+      phoneNumber: emptyToNull(body.MSISDN),
+      accountReference: emptyToNull(body.BillRefNumber),
+      payerName: emptyToNull(payerName),
+      businessShortCode: emptyToNull(body.BusinessShortCode),
+      transactedAt: parseDarajaTimestamp(body.TransTime),
+    },
+  }
+}
+
+function parseStk(callback: StkCallback): ParsedCallback {
+  if (callback.ResultCode !== 0) {
+    return { kind: 'failed', reason: callback.ResultDesc || `ResultCode ${callback.ResultCode}` }
+  }
+
+  const items = new Map((callback.CallbackMetadata?.Item || []).map((item) => [item.Name, item.Value]))
+  const transactionId = emptyToNull(items.get('MpesaReceiptNumber'))
+  const amount = Number(items.get('Amount'))
+
+  if (!transactionId || !(amount > 0)) {
+    return { kind: 'invalid', reason: 'Missing MpesaReceiptNumber or Amount' }
+  }
+
+  return {
+    kind: 'payment',
+    payment: {
+      transactionId,
+      transactionType: 'stk',
+      amount,
+      phoneNumber: emptyToNull(items.get('PhoneNumber')),
+      accountReference: emptyToNull(items.get('AccountReference')),
+      payerName: null,
+      businessShortCode: null,
+      transactedAt: parseDarajaTimestamp(items.get('TransactionDate')),
+    },
+  }
+}
+
+export function parseCallback(body: unknown): ParsedCallback {
+  if (!body || typeof body !== 'object') {
+    return { kind: 'invalid', reason: 'Body is not a JSON object' }
+  }
+
+  const stkCallback = (body as { Body?: { stkCallback?: StkCallback } }).Body?.stkCallback
+  if (stkCallback) {
+    return parseStk(stkCallback)
+  }
+
+  if ('TransID' in body) {
+    return parseC2B(body as C2BConfirmation)
+  }
+
+  return { kind: 'invalid', reason: 'Unrecognised callback payload' }
+}
+
+// Compare phone numbers on their last nine digits so 0712..., 254712... and +254712... all match
+export function phoneKey(phone: string | null | undefined): string | null {
+  const digits = String(phone ?? '').replace(/\D/g, '')
+  return digits.length >= 9 ? digits.slice(-9) : null
+}
@@ -0,0 +1,85 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getProvider, type Channel, type MessageProvider } from '../_shared/providers.ts'
+
+// Sends queued arrival/departure notifications from notification_outbox.
+// Scheduled every minute with the service role key; takes no body.
+// A failed send is retried with a growing delay, and given up on after MAX_ATTEMPTS.
+
+const BATCH_SIZE = 50
+
+const MAX_ATTEMPTS = 5
+
+// Minutes to wait before each retry
+const RETRY_DELAYS = [1, 5, 15, 60]
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    if (req.headers.get('Authorization')?.replace('Bearer ', '') !== supabaseKey) {
+      return jsonResponse({ error: 'Not authorized' }, 401)
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { data: messages, error } = await supabase.rpc('claim_notifications', { batch_size: BATCH_SIZE })
+    if (error) throw error
+
+    const providers = new Map<Channel, MessageProvider>()
+    const results = { sent: 0, retrying: 0, failed: 0 }
+
+    for (const message of messages || []) {
+      const attempts = message.attempts + 1
+      let update
+
+      try {
+        if (!providers.has(message.channel)) providers.set(message.channel, getProvider(message.channel))
+        const provider = providers.get(message.channel)!
+
+        const { providerMessageId } = await provider.send(message.recipient, message.message, message.subject)
+        update = {
+          status: 'sent',
+          attempts,
+          provider: provider.name,
+          provider_message_id: providerMessageId ?? null,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+        }
+        results.sent++
+      } catch (sendError) {
+        const giveUp = attempts >= MAX_ATTEMPTS
+        const delay = RETRY_DELAYS[Math.min(attempts, RETRY_DELAYS.length) - 1]
+        update = {
+          status: giveUp ? 'failed' : 'pending',
+          attempts,
+          last_error: sendError instanceof Error ? sendError.message : String(sendError),
+          next_attempt_at: new Date(Date.now() + delay * 60 * 1000).toISOString(),
+        }
+        results[giveUp ? 'failed' : 'retrying']++
+      }
+
+      const { error: updateError } = await supabase.from('notification_outbox').update(update).eq('id', message.id)
+      if (updateError) console.error(`Error updating notification ${message.id}:`, updateError)
+    }
+
+    if (messages?.length) {
+      console.log(`Notifications: ${results.sent} sent, ${results.retrying} to retry, ${results.failed} failed`)
+    }
+    return jsonResponse(results)
+  } catch (error) {
+    console.error('Error in notification-dispatch:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
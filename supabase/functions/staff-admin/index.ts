@@ -0,0 +1,219 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0'
+import { corsHeaders } from '../_shared/cors.ts'
+
+// Staff management for owners. Every request must carry the caller's JWT.
+//   { "action": "list" }
+//   { "action": "invite", "email": "...", "role": "cashier", "centerId": "..." }   centerId optional
+//   { "action": "revoke-invite", "invitationId": "..." }
+//   { "action": "disable" | "enable" | "remove", "userId": "..." }
+
+const ROLES = ['owner', 'cashier', 'teacher', 'read_only']
+
+// Long enough to count as permanent; lifted again by "enable"
+const DISABLED_BAN_DURATION = '876000h'
+
+class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+async function requireOwner(supabase: SupabaseClient, req: Request) {
+  const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!jwt) throw new RequestError('Not signed in', 401)
+
+  const { data: { user }, error } = await supabase.auth.getUser(jwt)
+  if (error || !user) throw new RequestError('Not signed in', 401)
+
+  const { data: profile } = await supabase
+    .from('staff_profiles')
+    .select('role, disabled_at')
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (profile?.role !== 'owner' || profile.disabled_at) {
+    throw new RequestError('Only owners can manage staff', 403)
+  }
+
+  return user
+}
+
+// Refuse changes that would leave nobody able to sign in as owner
+async function assertOtherActiveOwner(supabase: SupabaseClient, userId: string) {
+  const { data: target } = await supabase
+    .from('staff_profiles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (target?.role !== 'owner') return
+
+  const { count } = await supabase
+    .from('staff_profiles')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('role', 'owner')
+    .is('disabled_at', null)
+    .neq('user_id', userId)
+
+  if (!count) throw new RequestError('The center must have at least one active owner')
+}
+
+async function listStaff(supabase: SupabaseClient) {
+  const { data: profiles, error: profilesError } = await supabase
+    .from('staff_profiles')
+    .select('user_id, email, role, disabled_at, created_at')
+    .order('email')
+
+  if (profilesError) throw profilesError
+
+  // Sign-in history lives on the auth user
+  const { data: { users }, error: usersError } = await supabase.auth.admin.listUsers({ perPage: 1000 })
+  if (usersError) throw usersError
+  const lastSignIn = new Map(users.map((u) => [u.id, u.last_sign_in_at ?? null]))
+
+  const { data: invitations, error: invitationsError } = await supabase
+    .from('staff_invitations')
+    .select('id, email, role, center_id, token, expires_at, created_at')
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (invitationsError) throw invitationsError
+
+  return {
+    staff: (profiles || []).map((p) => ({ ...p, last_sign_in_at: lastSignIn.get(p.user_id) ?? null })),
+    invitations: invitations || [],
+  }
+}
+
+async function invite(supabase: SupabaseClient, body: Record<string, unknown>, invitedBy: string) {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const role = body.role
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new RequestError('Enter a valid email address')
+  if (typeof role !== 'string' || !ROLES.includes(role)) throw new RequestError('Choose a valid role')
+  // The branch the new account is assigned to once accepted; owners see every branch anyway
+  const centerId = role !== 'owner' && typeof body.centerId === 'string' ? body.centerId : null
+
+  const { data: existing } = await supabase
+    .from('staff_profiles')
+    .select('user_id')
+    .ilike('email', email)
+    .maybeSingle()
+
+  if (existing) throw new RequestError(`${email} already has a staff account`)
+
+  // Re-inviting replaces any earlier open invitation for the address
+  await supabase
+    .from('staff_invitations')
+    .delete()
+    .ilike('email', email)
+    .is('accepted_at', null)
+
+  const { data: invitation, error } = await supabase
+    .from('staff_invitations')
+    .insert({ email, role, center_id: centerId, invited_by: invitedBy })
+    .select('id, email, role, center_id, token, expires_at, created_at')
+    .single()
+
+  if (error) throw error
+
+  console.log(`Invited ${email} as ${role}`)
+  return { invitation }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const caller = await requireOwner(supabase, req)
+    const body = await req.json().catch(() => ({}))
+    const userId = typeof body.userId === 'string' ? body.userId : ''
+
+    if (['disable', 'enable', 'remove'].includes(body.action)) {
+      if (!userId) throw new RequestError('userId is required')
+      if (userId === caller.id) throw new RequestError('You cannot change your own account here')
+    }
+
+    switch (body.action) {
+      case 'list':
+        return jsonResponse(await listStaff(supabase))
+
+      case 'invite':
+        return jsonResponse(await invite(supabase, body, caller.id))
+
+      case 'revoke-invite': {
+        const { error } = await supabase
+          .from('staff_invitations')
+          .delete()
+          .eq('id', body.invitationId)
+          .is('accepted_at', null)
+
+        if (error) throw error
+        return jsonResponse({ success: true })
+      }
+
+      case 'disable': {
+        await assertOtherActiveOwner(supabase, userId)
+
+        const { error: banError } = await supabase.auth.admin.updateUserById(userId, {
+          ban_duration: DISABLED_BAN_DURATION,
+        })
+        if (banError) throw banError
+
+        const { error } = await supabase
+          .from('staff_profiles')
+          .update({ disabled_at: new Date().toISOString() })
+          .eq('user_id', userId)
+
+        if (error) throw error
+        console.log(`Disabled staff account ${userId}`)
+        return jsonResponse({ success: true })
+      }
+
+      case 'enable': {
+        const { error: banError } = await supabase.auth.admin.updateUserById(userId, { ban_duration: 'none' })
+        if (banError) throw banError
+
+        const { error } = await supabase
+          .from('staff_profiles')
+          .update({ disabled_at: null })
+          .eq('user_id', userId)
+
+        if (error) throw error
+        console.log(`Re-enabled staff account ${userId}`)
+        return jsonResponse({ success: true })
+      }
+
+      case 'remove': {
+        await assertOtherActiveOwner(supabase, userId)
+
+        // The staff profile is removed with the auth user
+        const { error } = await supabase.auth.admin.deleteUser(userId)
+        if (error) throw error
+        console.log(`Removed staff account ${userId}`)
+        return jsonResponse({ success: true })
+      }
+
+      default:
+        throw new RequestError('Unknown action')
+    }
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+    console.error('Error in staff-admin:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500)
+  }
+})
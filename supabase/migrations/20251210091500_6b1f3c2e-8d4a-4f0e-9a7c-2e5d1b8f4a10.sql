@@ -0,0 +1,132 @@
+-- Append-only ledger of every charge, payment, adjustment and reversal per child.
+-- Amounts are signed: positive values increase what the child owes, negative values reduce it.
+CREATE TABLE public.ledger_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('charge', 'payment', 'adjustment', 'reversal')),
+  amount NUMERIC(10, 2) NOT NULL,
+  entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Daily attendance record the entry belongs to. Kept as a plain reference so the
+  -- ledger history survives if that record is ever removed.
+  payment_id UUID,
+  reverses_entry_id UUID UNIQUE REFERENCES public.ledger_entries(id),
+  description TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT ledger_entries_amount_sign CHECK (
+    (entry_type = 'charge' AND amount > 0) OR
+    (entry_type = 'payment' AND amount < 0) OR
+    (entry_type = 'adjustment' AND amount <> 0) OR
+    (entry_type = 'reversal' AND reverses_entry_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_ledger_entries_child_id ON public.ledger_entries(child_id);
+CREATE INDEX idx_ledger_entries_entry_date ON public.ledger_entries(entry_date DESC);
+CREATE INDEX idx_ledger_entries_payment_id ON public.ledger_entries(payment_id);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- No update or delete policies: entries are corrected by posting a reversal
+CREATE POLICY "Authenticated users can view ledger entries"
+ON public.ledger_entries
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can insert ledger entries"
+ON public.ledger_entries
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+-- Reversals always mirror the entry they cancel
+CREATE OR REPLACE FUNCTION public.prepare_ledger_reversal()
+RETURNS TRIGGER AS $$
+DECLARE
+  original public.ledger_entries%ROWTYPE;
+BEGIN
+  IF NEW.entry_type = 'reversal' THEN
+    SELECT * INTO original FROM public.ledger_entries WHERE id = NEW.reverses_entry_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ledger entry % does not exist', NEW.reverses_entry_id;
+    END IF;
+
+    IF original.entry_type = 'reversal' THEN
+      RAISE EXCEPTION 'A reversal cannot itself be reversed';
+    END IF;
+
+    NEW.child_id = original.child_id;
+    NEW.amount = -original.amount;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prepare_ledger_entries_reversal
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_ledger_reversal();
+
+CREATE OR REPLACE FUNCTION public.prevent_ledger_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger entries are append-only; post a reversal instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_ledger_entries_update
+BEFORE UPDATE ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_ledger_update();
+
+-- Carry existing balances over: every charged day becomes a charge and whatever
+-- was already paid off that day becomes a payment
+INSERT INTO public.ledger_entries (child_id, entry_type, amount, entry_date, payment_id, description, created_at)
+SELECT child_id, 'charge', GREATEST(amount, COALESCE(debt_amount, 0)), payment_date, id,
+  COALESCE(note, 'Daily fee'), created_at
+FROM public.payments
+WHERE GREATEST(amount, COALESCE(debt_amount, 0)) > 0;
+
+INSERT INTO public.ledger_entries (child_id, entry_type, amount, entry_date, payment_id, description, created_at)
+SELECT child_id, 'payment', -(GREATEST(amount, COALESCE(debt_amount, 0)) - COALESCE(debt_amount, 0)), payment_date, id,
+  'Payment carried over from daily record', updated_at
+FROM public.payments
+WHERE GREATEST(amount, COALESCE(debt_amount, 0)) - COALESCE(debt_amount, 0) > 0;
+
+-- Charge the daily fee as soon as a child is marked present
+CREATE OR REPLACE FUNCTION public.post_attendance_charge()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.attendance_status = 'present'
+     AND NEW.amount > 0
+     AND (TG_OP = 'INSERT' OR OLD.attendance_status IS DISTINCT FROM 'present')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.ledger_entries
+       WHERE payment_id = NEW.id AND entry_type = 'charge'
+     ) THEN
+    INSERT INTO public.ledger_entries (child_id, entry_type, amount, entry_date, payment_id, description)
+    VALUES (NEW.child_id, 'charge', NEW.amount, NEW.payment_date, NEW.id, 'Daily fee');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_payments_attendance_charge
+AFTER INSERT OR UPDATE OF attendance_status ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.post_attendance_charge();
+
+-- Balances are always derived from the ledger, never stored
+CREATE VIEW public.child_balances
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS child_id,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'charge'), 0) AS total_charged,
+  COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0) AS total_paid,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'adjustment'), 0) AS total_adjusted,
+  COALESCE(SUM(l.amount), 0) AS balance,
+  MAX(l.entry_date) FILTER (WHERE l.entry_type = 'payment') AS last_payment_date
+FROM public.children c
+LEFT JOIN public.ledger_entries l ON l.child_id = c.id
+LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+GROUP BY c.id;
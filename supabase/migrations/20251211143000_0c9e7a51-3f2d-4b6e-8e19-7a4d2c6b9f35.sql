@@ -0,0 +1,68 @@
+-- Gap-free receipt numbering for the center.
+-- The counter row is locked by the UPDATE that takes a number, so concurrent
+-- payments queue behind each other and a rolled-back payment releases its number.
+CREATE TABLE public.receipt_counters (
+  id SMALLINT NOT NULL DEFAULT 1 PRIMARY KEY CHECK (id = 1),
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.receipt_counters DEFAULT VALUES;
+
+ALTER TABLE public.receipt_counters ENABLE ROW LEVEL SECURITY;
+
+-- One receipt per payment posted to the ledger
+CREATE TABLE public.receipts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  receipt_number INTEGER NOT NULL UNIQUE,
+  ledger_entry_id UUID NOT NULL UNIQUE REFERENCES public.ledger_entries(id) ON DELETE CASCADE,
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  balance_after NUMERIC(10, 2) NOT NULL,
+  issued_by UUID,
+  issued_by_email TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_receipts_child_id ON public.receipts(child_id);
+
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are only ever written by the trigger below
+CREATE POLICY "Authenticated users can view receipts"
+ON public.receipts
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE OR REPLACE FUNCTION public.issue_payment_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF NEW.entry_type <> 'payment' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.receipt_counters
+  SET last_number = last_number + 1
+  WHERE id = 1
+  RETURNING last_number INTO next_number;
+
+  INSERT INTO public.receipts (receipt_number, ledger_entry_id, child_id, amount, balance_after, issued_by, issued_by_email)
+  VALUES (
+    next_number,
+    NEW.id,
+    NEW.child_id,
+    -NEW.amount,
+    (SELECT COALESCE(SUM(amount), 0) FROM public.ledger_entries WHERE child_id = NEW.child_id),
+    NEW.created_by,
+    (SELECT email FROM auth.users WHERE id = NEW.created_by)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER issue_ledger_entries_receipt
+AFTER INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.issue_payment_receipt();
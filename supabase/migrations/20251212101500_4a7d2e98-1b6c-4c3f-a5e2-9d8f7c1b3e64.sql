@@ -0,0 +1,45 @@
+-- Mobile money (M-Pesa) transactions received through the mpesa-callback function.
+-- Matched transactions are posted to the ledger automatically; the rest wait in
+-- the unmatched queue until staff assign them to a child or ignore them.
+CREATE TABLE public.mobile_money_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'mpesa',
+  transaction_id TEXT NOT NULL UNIQUE,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('c2b', 'stk')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  phone_number TEXT,
+  account_reference TEXT,
+  payer_name TEXT,
+  business_short_code TEXT,
+  transacted_at TIMESTAMP WITH TIME ZONE,
+  status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  match_method TEXT CHECK (match_method IN ('admission_number', 'phone', 'manual')),
+  match_note TEXT,
+  child_id UUID REFERENCES public.children(id) ON DELETE SET NULL,
+  ledger_entry_id UUID REFERENCES public.ledger_entries(id),
+  raw_payload JSONB NOT NULL,
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mobile_money_transactions_status ON public.mobile_money_transactions(status);
+
+ALTER TABLE public.mobile_money_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Transactions are inserted by the callback function with the service role only
+CREATE POLICY "Authenticated users can view mobile money transactions"
+ON public.mobile_money_transactions
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update mobile money transactions"
+ON public.mobile_money_transactions
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_mobile_money_transactions_updated_at
+BEFORE UPDATE ON public.mobile_money_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Days the center is closed: one-off dates (public holidays), date ranges
+-- (school breaks) and recurring weekdays (weekends)
+CREATE TABLE public.center_closures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  closure_type TEXT NOT NULL CHECK (closure_type IN ('date', 'range', 'weekday')),
+  start_date DATE,
+  end_date DATE,
+  -- 0 = Sunday ... 6 = Saturday, matching EXTRACT(DOW) and Date.getDay()
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT center_closures_shape CHECK (
+    (closure_type = 'date' AND start_date IS NOT NULL AND end_date IS NULL AND weekday IS NULL) OR
+    (closure_type = 'range' AND start_date IS NOT NULL AND end_date >= start_date AND weekday IS NULL) OR
+    (closure_type = 'weekday' AND weekday IS NOT NULL AND start_date IS NULL AND end_date IS NULL)
+  )
+);
+
+ALTER TABLE public.center_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view closures"
+ON public.center_closures
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can insert closures"
+ON public.center_closures
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update closures"
+ON public.center_closures
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can delete closures"
+ON public.center_closures
+FOR DELETE
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_center_closures_updated_at
+BEFORE UPDATE ON public.center_closures
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reason the center is closed on a given day, or NULL when it is open
+CREATE OR REPLACE FUNCTION public.center_closure_reason(check_date DATE)
+RETURNS TEXT AS $$
+  SELECT reason
+  FROM public.center_closures
+  WHERE (closure_type = 'date' AND start_date = check_date)
+     OR (closure_type = 'range' AND check_date BETWEEN start_date AND end_date)
+     OR (closure_type = 'weekday' AND weekday = EXTRACT(DOW FROM check_date))
+  ORDER BY closure_type
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
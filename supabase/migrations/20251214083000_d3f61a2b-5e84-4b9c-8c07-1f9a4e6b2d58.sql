@@ -0,0 +1,39 @@
+-- One row per day processed by the daily-attendance-reset function, so missed
+-- days can be found and backfilled and re-runs can be traced
+CREATE TABLE public.attendance_reset_runs (
+  run_date DATE NOT NULL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  marked_absent INTEGER NOT NULL DEFAULT 0,
+  marked_unpaid INTEGER NOT NULL DEFAULT 0,
+  closure_reason TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.attendance_reset_runs ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role only
+CREATE POLICY "Authenticated users can view reset runs"
+ON public.attendance_reset_runs
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- A child has at most one attendance record per day. Extra charges used to be
+-- stored as payments rows without an attendance status, so those are left out.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.payments
+        WHERE attendance_status IS NOT NULL
+        GROUP BY child_id, payment_date
+        HAVING COUNT(*) > 1
+    ) THEN
+        RAISE NOTICE 'Duplicate attendance records exist; payments_child_day_attendance_key not created';
+    ELSIF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'payments_child_day_attendance_key') THEN
+        CREATE UNIQUE INDEX payments_child_day_attendance_key
+        ON public.payments(child_id, payment_date)
+        WHERE attendance_status IS NOT NULL;
+    END IF;
+END $$;
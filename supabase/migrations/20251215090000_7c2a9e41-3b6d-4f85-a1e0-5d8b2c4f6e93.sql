@@ -0,0 +1,56 @@
+-- Center-wide settings. Single row (id = 1) read by the app and edge functions.
+CREATE TABLE public.center_settings (
+  id INTEGER NOT NULL DEFAULT 1 PRIMARY KEY CHECK (id = 1),
+  -- IANA name; business days run midnight to midnight in this timezone
+  timezone TEXT NOT NULL DEFAULT 'Africa/Nairobi',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.center_settings (id) VALUES (1);
+
+ALTER TABLE public.center_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view center settings"
+ON public.center_settings
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can update center settings"
+ON public.center_settings
+FOR UPDATE
+USING (auth.role() = 'authenticated');
+
+CREATE TRIGGER update_center_settings_updated_at
+BEFORE UPDATE ON public.center_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reject timezone names Postgres doesn't know, so center_today() can't fail
+CREATE OR REPLACE FUNCTION public.validate_center_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_center_settings_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.center_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_center_timezone();
+
+-- Today's date in the center's timezone (CURRENT_DATE is the server's, i.e. UTC)
+CREATE OR REPLACE FUNCTION public.center_today()
+RETURNS DATE AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT timezone FROM public.center_settings WHERE id = 1),
+    'Africa/Nairobi'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.payments ALTER COLUMN payment_date SET DEFAULT public.center_today();
+ALTER TABLE public.children ALTER COLUMN admission_date SET DEFAULT public.center_today();
+ALTER TABLE public.ledger_entries ALTER COLUMN entry_date SET DEFAULT public.center_today();
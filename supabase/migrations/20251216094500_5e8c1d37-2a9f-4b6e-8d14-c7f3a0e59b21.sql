@@ -0,0 +1,265 @@
+-- Staff accounts and their roles:
+--   owner     - everything, including deleting children, reversals and settings
+--   cashier   - children, attendance, payments and mobile money
+--   teacher   - attendance only; cannot change fees or record payments
+--   read_only - can view but not change anything
+CREATE TABLE public.staff_profiles (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'read_only' CHECK (role IN ('owner', 'cashier', 'teacher', 'read_only')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_staff_profiles_updated_at
+BEFORE UPDATE ON public.staff_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Everyone who could sign in so far was an administrator
+INSERT INTO public.staff_profiles (user_id, email, role)
+SELECT id, COALESCE(email, ''), 'owner'
+FROM auth.users
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Role of the signed-in user, or NULL for anyone who isn't staff
+CREATE OR REPLACE FUNCTION public.staff_role()
+RETURNS TEXT AS $$
+  SELECT role FROM public.staff_profiles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_staff_role(VARIADIC roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.staff_role() = ANY(roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS BOOLEAN AS $$
+  SELECT public.staff_role() IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New accounts start read-only; the very first account becomes the owner
+CREATE OR REPLACE FUNCTION public.create_staff_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.staff_profiles (user_id, email, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.email, ''),
+    CASE WHEN EXISTS (SELECT 1 FROM public.staff_profiles WHERE role = 'owner') THEN 'read_only' ELSE 'owner' END
+  )
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_staff_profile
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_staff_profile();
+
+-- The center must always keep at least one owner
+CREATE OR REPLACE FUNCTION public.protect_last_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.staff_profiles WHERE role = 'owner' AND user_id <> OLD.user_id
+     ) THEN
+    RAISE EXCEPTION 'The center must have at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_staff_profiles_last_owner
+BEFORE UPDATE OF role OR DELETE ON public.staff_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_last_owner();
+
+CREATE POLICY "Staff can view their own profile"
+ON public.staff_profiles
+FOR SELECT
+USING (user_id = auth.uid() OR public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update staff profiles"
+ON public.staff_profiles
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+-- Teachers record attendance only: fees come from the child's record and the
+-- payment status can't be changed
+CREATE OR REPLACE FUNCTION public.restrict_teacher_payment_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  daily_fee NUMERIC;
+BEGIN
+  IF public.staff_role() IS DISTINCT FROM 'teacher' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Teachers cannot record payments';
+    END IF;
+    SELECT payment_amount INTO daily_fee FROM public.children WHERE id = NEW.child_id;
+    NEW.amount := CASE WHEN NEW.attendance_status = 'present' THEN COALESCE(daily_fee, 0) ELSE 0 END;
+    NEW.debt_amount := NEW.amount;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.amount IS DISTINCT FROM OLD.amount
+     OR NEW.debt_amount IS DISTINCT FROM OLD.debt_amount THEN
+    RAISE EXCEPTION 'Teachers cannot change payment details';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER restrict_payments_teacher_changes
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.restrict_teacher_payment_changes();
+
+-- Replace the blanket "any authenticated user" policies with role checks
+
+-- children
+DROP POLICY IF EXISTS "Authenticated users can view all children" ON public.children;
+DROP POLICY IF EXISTS "Authenticated users can insert children" ON public.children;
+DROP POLICY IF EXISTS "Authenticated users can update children" ON public.children;
+DROP POLICY IF EXISTS "Authenticated users can delete children" ON public.children;
+
+CREATE POLICY "Staff can view children"
+ON public.children
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can insert children"
+ON public.children
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can update children"
+ON public.children
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners can delete children"
+ON public.children
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- payments (attendance records)
+DROP POLICY IF EXISTS "Authenticated users can view all payments" ON public.payments;
+DROP POLICY IF EXISTS "Authenticated users can insert payments" ON public.payments;
+DROP POLICY IF EXISTS "Authenticated users can update payments" ON public.payments;
+DROP POLICY IF EXISTS "Authenticated users can delete payments" ON public.payments;
+
+CREATE POLICY "Staff can view payments"
+ON public.payments
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Attendance staff can insert payments"
+ON public.payments
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier', 'teacher'));
+
+CREATE POLICY "Attendance staff can update payments"
+ON public.payments
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier', 'teacher'));
+
+CREATE POLICY "Owners can delete payments"
+ON public.payments
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- ledger_entries: only owners may post reversals
+DROP POLICY IF EXISTS "Authenticated users can view ledger entries" ON public.ledger_entries;
+DROP POLICY IF EXISTS "Authenticated users can insert ledger entries" ON public.ledger_entries;
+
+CREATE POLICY "Staff can view ledger entries"
+ON public.ledger_entries
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can insert ledger entries"
+ON public.ledger_entries
+FOR INSERT
+WITH CHECK (
+  public.has_staff_role('owner')
+  OR (public.has_staff_role('cashier') AND entry_type <> 'reversal')
+);
+
+-- receipts
+DROP POLICY IF EXISTS "Authenticated users can view receipts" ON public.receipts;
+
+CREATE POLICY "Staff can view receipts"
+ON public.receipts
+FOR SELECT
+USING (public.is_staff());
+
+-- mobile_money_transactions
+DROP POLICY IF EXISTS "Authenticated users can view mobile money transactions" ON public.mobile_money_transactions;
+DROP POLICY IF EXISTS "Authenticated users can update mobile money transactions" ON public.mobile_money_transactions;
+
+CREATE POLICY "Staff can view mobile money transactions"
+ON public.mobile_money_transactions
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can update mobile money transactions"
+ON public.mobile_money_transactions
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier'));
+
+-- center_closures
+DROP POLICY IF EXISTS "Authenticated users can view closures" ON public.center_closures;
+DROP POLICY IF EXISTS "Authenticated users can insert closures" ON public.center_closures;
+DROP POLICY IF EXISTS "Authenticated users can update closures" ON public.center_closures;
+DROP POLICY IF EXISTS "Authenticated users can delete closures" ON public.center_closures;
+
+CREATE POLICY "Staff can view closures"
+ON public.center_closures
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert closures"
+ON public.center_closures
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update closures"
+ON public.center_closures
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete closures"
+ON public.center_closures
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- attendance_reset_runs
+DROP POLICY IF EXISTS "Authenticated users can view reset runs" ON public.attendance_reset_runs;
+
+CREATE POLICY "Staff can view reset runs"
+ON public.attendance_reset_runs
+FOR SELECT
+USING (public.is_staff());
+
+-- center_settings
+DROP POLICY IF EXISTS "Authenticated users can view center settings" ON public.center_settings;
+DROP POLICY IF EXISTS "Authenticated users can update center settings" ON public.center_settings;
+
+CREATE POLICY "Staff can view center settings"
+ON public.center_settings
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can update center settings"
+ON public.center_settings
+FOR UPDATE
+USING (public.has_staff_role('owner'));
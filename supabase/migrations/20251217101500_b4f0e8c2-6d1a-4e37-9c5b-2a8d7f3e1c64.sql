@@ -0,0 +1,48 @@
+-- Staff join by invitation only. Invitations are created and accepted through
+-- the staff-admin and accept-invite edge functions.
+CREATE TABLE public.staff_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'cashier', 'teacher', 'read_only')),
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one open invitation per address
+CREATE UNIQUE INDEX staff_invitations_pending_email_key
+ON public.staff_invitations (lower(email))
+WHERE accepted_at IS NULL;
+
+ALTER TABLE public.staff_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view staff invitations"
+ON public.staff_invitations
+FOR SELECT
+USING (public.has_staff_role('owner'));
+
+-- Disabled staff keep their profile but lose all access
+ALTER TABLE public.staff_profiles
+ADD COLUMN disabled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.staff_role()
+RETURNS TEXT AS $$
+  SELECT role FROM public.staff_profiles WHERE user_id = auth.uid() AND disabled_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Accounts no longer get a profile just by signing up. Only the very first
+-- account (a fresh install) becomes the owner; everyone else needs an invitation.
+CREATE OR REPLACE FUNCTION public.create_staff_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.staff_profiles WHERE role = 'owner') THEN
+    INSERT INTO public.staff_profiles (user_id, email, role)
+    VALUES (NEW.id, COALESCE(NEW.email, ''), 'owner')
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
@@ -0,0 +1,66 @@
+-- Append-only history of every change to children and payments, written by
+-- triggers so it can't be skipped from the app. changed_by is NULL for
+-- changes made by edge functions and scheduled jobs.
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  child_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_by UUID,
+  changed_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No foreign keys: entries must outlive the child, payment and staff account
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_child_id ON public.audit_log(child_id, created_at DESC);
+CREATE INDEX idx_audit_log_changed_by ON public.audit_log(changed_by, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Only owners can read it and nobody can write it directly
+CREATE POLICY "Owners can view the audit log"
+ON public.audit_log
+FOR SELECT
+USING (public.has_staff_role('owner'));
+
+CREATE OR REPLACE FUNCTION public.write_audit_log()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+BEGIN
+  -- Saves that change nothing but the timestamp aren't worth recording
+  IF TG_OP = 'UPDATE' AND old_row - 'updated_at' = new_row - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, child_id, action, old_data, new_data, changed_by, changed_by_email)
+  VALUES (
+    TG_TABLE_NAME,
+    (row_data->>'id')::UUID,
+    CASE WHEN TG_TABLE_NAME = 'children' THEN row_data->>'id' ELSE row_data->>'child_id' END::UUID,
+    TG_OP,
+    old_row,
+    new_row,
+    auth.uid(),
+    (SELECT email FROM public.staff_profiles WHERE user_id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_children_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.write_audit_log();
+
+CREATE TRIGGER audit_payments_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.write_audit_log();
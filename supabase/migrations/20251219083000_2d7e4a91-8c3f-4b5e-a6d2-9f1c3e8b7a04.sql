@@ -0,0 +1,36 @@
+-- Children who leave are withdrawn or graduated instead of deleted, so their
+-- payment history and any debt they still owe stay on record.
+-- left_on is the last day the child attended.
+ALTER TABLE public.children
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'withdrawn', 'graduated')),
+  ADD COLUMN left_on DATE,
+  ADD COLUMN leaving_reason TEXT,
+  ADD CONSTRAINT children_left_on_matches_status CHECK ((status = 'active') = (left_on IS NULL));
+
+CREATE INDEX idx_children_status ON public.children(status);
+
+-- Attendance can't be recorded after a child has left. Payments towards what
+-- they still owe carry no attendance status and are still accepted.
+CREATE OR REPLACE FUNCTION public.reject_attendance_after_leaving()
+RETURNS TRIGGER AS $$
+DECLARE
+  child_left_on DATE;
+BEGIN
+  IF NEW.attendance_status IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT left_on INTO child_left_on FROM public.children WHERE id = NEW.child_id;
+
+  IF child_left_on IS NOT NULL AND NEW.payment_date > child_left_on THEN
+    RAISE EXCEPTION 'This child left on % and can no longer be marked present or absent', child_left_on;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_payments_attendance_after_leaving
+BEFORE INSERT ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_attendance_after_leaving();
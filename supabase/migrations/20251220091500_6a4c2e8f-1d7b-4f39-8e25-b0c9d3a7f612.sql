@@ -0,0 +1,163 @@
+-- Parents and other guardians, shared between siblings
+CREATE TABLE public.guardians (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  relationship TEXT,
+  phone TEXT NOT NULL,
+  alternate_phone TEXT,
+  email TEXT,
+  national_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX guardians_national_id_key ON public.guardians(national_id) WHERE national_id IS NOT NULL;
+CREATE INDEX idx_guardians_phone ON public.guardians(phone);
+
+CREATE TRIGGER update_guardians_updated_at
+BEFORE UPDATE ON public.guardians
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which guardians each child has. The primary guardian is the one billing
+-- conversations go to and whose details show on the child's record.
+CREATE TABLE public.child_guardians (
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  guardian_id UUID NOT NULL REFERENCES public.guardians(id) ON DELETE CASCADE,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (child_id, guardian_id)
+);
+
+CREATE INDEX idx_child_guardians_guardian_id ON public.child_guardians(guardian_id);
+CREATE UNIQUE INDEX child_guardians_one_primary ON public.child_guardians(child_id) WHERE is_primary;
+
+-- Carry over the guardian stored on each child. Siblings registered with the
+-- same guardian name and phone number end up sharing one guardian.
+CREATE TEMPORARY TABLE guardian_backfill ON COMMIT DROP AS
+SELECT
+  c.id AS child_id,
+  lower(trim(c.guardian_name)) || '|' || regexp_replace(c.contact_number, '\D', '', 'g') AS guardian_key,
+  c.guardian_name,
+  c.contact_number,
+  c.created_at
+FROM public.children c;
+
+CREATE TEMPORARY TABLE guardian_keys ON COMMIT DROP AS
+SELECT DISTINCT ON (guardian_key)
+  guardian_key,
+  gen_random_uuid() AS guardian_id,
+  trim(guardian_name) AS name,
+  trim(contact_number) AS phone
+FROM guardian_backfill
+ORDER BY guardian_key, created_at;
+
+INSERT INTO public.guardians (id, name, phone)
+SELECT guardian_id, name, phone FROM guardian_keys;
+
+INSERT INTO public.child_guardians (child_id, guardian_id, is_primary)
+SELECT b.child_id, k.guardian_id, true
+FROM guardian_backfill b
+JOIN guardian_keys k ON k.guardian_key = b.guardian_key;
+
+-- children.guardian_name and contact_number stay as a copy of the primary
+-- guardian for search and M-Pesa phone matching
+CREATE OR REPLACE FUNCTION public.sync_primary_guardian()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'child_guardians' THEN
+    IF NEW.is_primary THEN
+      UPDATE public.children c
+      SET guardian_name = g.name, contact_number = g.phone
+      FROM public.guardians g
+      WHERE c.id = NEW.child_id AND g.id = NEW.guardian_id;
+    END IF;
+  ELSE
+    UPDATE public.children c
+    SET guardian_name = NEW.name, contact_number = NEW.phone
+    FROM public.child_guardians cg
+    WHERE cg.guardian_id = NEW.id AND cg.is_primary AND c.id = cg.child_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_child_guardians_primary
+AFTER INSERT OR UPDATE OF is_primary ON public.child_guardians
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_primary_guardian();
+
+CREATE TRIGGER sync_guardians_primary
+AFTER UPDATE OF name, phone ON public.guardians
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_primary_guardian();
+
+-- Replace a child's guardians in one go, so there is never a moment with two
+-- primaries or none
+CREATE OR REPLACE FUNCTION public.set_child_guardians(
+  target_child_id UUID,
+  guardian_ids UUID[],
+  primary_guardian_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT primary_guardian_id = ANY(guardian_ids) THEN
+    RAISE EXCEPTION 'The primary guardian must be one of the child''s guardians';
+  END IF;
+
+  DELETE FROM public.child_guardians
+  WHERE child_id = target_child_id AND NOT guardian_id = ANY(guardian_ids);
+
+  UPDATE public.child_guardians
+  SET is_primary = false
+  WHERE child_id = target_child_id AND is_primary AND guardian_id <> primary_guardian_id;
+
+  INSERT INTO public.child_guardians (child_id, guardian_id, is_primary)
+  SELECT target_child_id, id, id = primary_guardian_id
+  FROM unnest(guardian_ids) AS id
+  ON CONFLICT (child_id, guardian_id) DO UPDATE SET is_primary = EXCLUDED.is_primary;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+ALTER TABLE public.guardians ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.child_guardians ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view guardians"
+ON public.guardians
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can insert guardians"
+ON public.guardians
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can update guardians"
+ON public.guardians
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners can delete guardians"
+ON public.guardians
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Staff can view child guardians"
+ON public.child_guardians
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can insert child guardians"
+ON public.child_guardians
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can update child guardians"
+ON public.child_guardians
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can delete child guardians"
+ON public.child_guardians
+FOR DELETE
+USING (public.has_staff_role('owner', 'cashier'));
@@ -0,0 +1,73 @@
+-- People allowed to collect each child, besides the child's guardians
+CREATE TABLE public.authorized_pickups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  relationship TEXT,
+  phone TEXT,
+  id_number TEXT NOT NULL,
+  photo_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_authorized_pickups_child_id ON public.authorized_pickups(child_id);
+
+CREATE TRIGGER update_authorized_pickups_updated_at
+BEFORE UPDATE ON public.authorized_pickups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.authorized_pickups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view authorized pickups"
+ON public.authorized_pickups
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can insert authorized pickups"
+ON public.authorized_pickups
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can update authorized pickups"
+ON public.authorized_pickups
+FOR UPDATE
+USING (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can delete authorized pickups"
+ON public.authorized_pickups
+FOR DELETE
+USING (public.has_staff_role('owner', 'cashier'));
+
+-- Photos of authorized pickup people, kept private to staff
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('pickup-photos', 'pickup-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Staff can view pickup photos"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'pickup-photos' AND public.is_staff());
+
+CREATE POLICY "Owners and cashiers can upload pickup photos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'pickup-photos' AND public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners and cashiers can delete pickup photos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'pickup-photos' AND public.has_staff_role('owner', 'cashier'));
+
+-- Check-out on the day's attendance record. Who collected the child is copied
+-- rather than linked, so it still reads correctly after the list changes.
+ALTER TABLE public.payments
+ADD COLUMN departure_time TIMESTAMP WITH TIME ZONE,
+ADD COLUMN picked_up_by TEXT,
+ADD COLUMN pickup_id_number TEXT,
+ADD COLUMN pickup_authorized BOOLEAN;
+
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_departure_when_present
+CHECK (departure_time IS NULL OR (attendance_status = 'present' AND picked_up_by IS NOT NULL));
@@ -0,0 +1,105 @@
+-- Closing time and the late pickup fee. The fee is charged per started block
+-- of minutes after the grace period; a block of 1 minute charges per minute.
+ALTER TABLE public.center_settings
+ADD COLUMN closing_time TIME NOT NULL DEFAULT '18:00',
+ADD COLUMN late_fee_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_grace_minutes >= 0),
+ADD COLUMN late_fee_block_minutes INTEGER NOT NULL DEFAULT 15 CHECK (late_fee_block_minutes > 0),
+ADD COLUMN late_fee_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0);
+
+-- What a ledger line is for, where it's more specific than its entry type
+ALTER TABLE public.ledger_entries
+ADD COLUMN category TEXT,
+ADD CONSTRAINT ledger_entries_category_check CHECK (category IN ('late_fee'));
+
+-- Reversals take the category of the entry they cancel, so totals per category net out
+CREATE OR REPLACE FUNCTION public.prepare_ledger_reversal()
+RETURNS TRIGGER AS $$
+DECLARE
+  original public.ledger_entries%ROWTYPE;
+BEGIN
+  IF NEW.entry_type = 'reversal' THEN
+    SELECT * INTO original FROM public.ledger_entries WHERE id = NEW.reverses_entry_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ledger entry % does not exist', NEW.reverses_entry_id;
+    END IF;
+
+    IF original.entry_type = 'reversal' THEN
+      RAISE EXCEPTION 'A reversal cannot itself be reversed';
+    END IF;
+
+    NEW.child_id = original.child_id;
+    NEW.amount = -original.amount;
+    NEW.category = original.category;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Charge the late pickup fee when a child is checked out after closing
+CREATE OR REPLACE FUNCTION public.post_late_pickup_fee()
+RETURNS TRIGGER AS $$
+DECLARE
+  settings public.center_settings%ROWTYPE;
+  closing_at TIMESTAMP WITH TIME ZONE;
+  minutes_late INTEGER;
+  billable_minutes INTEGER;
+  fee NUMERIC(10, 2);
+BEGIN
+  IF NEW.departure_time IS NULL OR OLD.departure_time IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO settings FROM public.center_settings WHERE id = 1;
+  IF NOT FOUND OR settings.late_fee_amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  closing_at := (NEW.payment_date + settings.closing_time) AT TIME ZONE settings.timezone;
+  minutes_late := CEIL(EXTRACT(EPOCH FROM NEW.departure_time - closing_at) / 60);
+  billable_minutes := minutes_late - settings.late_fee_grace_minutes;
+
+  IF billable_minutes <= 0 OR EXISTS (
+    SELECT 1 FROM public.ledger_entries
+    WHERE payment_id = NEW.id AND category = 'late_fee'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  fee := CEIL(billable_minutes::NUMERIC / settings.late_fee_block_minutes) * settings.late_fee_amount;
+
+  INSERT INTO public.ledger_entries (child_id, entry_type, category, amount, entry_date, payment_id, description)
+  VALUES (
+    NEW.child_id,
+    'charge',
+    'late_fee',
+    fee,
+    NEW.payment_date,
+    NEW.id,
+    format('Late pickup: collected %s min after closing (%s)', minutes_late, to_char(settings.closing_time, 'HH24:MI'))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_payments_late_pickup_fee
+AFTER UPDATE OF departure_time ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.post_late_pickup_fee();
+
+-- Late fees are part of the balance, and also totalled on their own
+CREATE OR REPLACE VIEW public.child_balances
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS child_id,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'charge'), 0) AS total_charged,
+  COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0) AS total_paid,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'adjustment'), 0) AS total_adjusted,
+  COALESCE(SUM(l.amount), 0) AS balance,
+  MAX(l.entry_date) FILTER (WHERE l.entry_type = 'payment') AS last_payment_date,
+  COALESCE(SUM(l.amount) FILTER (WHERE l.category = 'late_fee'), 0) AS late_fees
+FROM public.children c
+LEFT JOIN public.ledger_entries l ON l.child_id = c.id
+LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+GROUP BY c.id;
@@ -0,0 +1,202 @@
+-- Fee plans. Daily plans charge per day; weekly, monthly and term plans charge
+-- per period. Plans that charge absences bill the full rate at the start of
+-- each period (every open day, for daily plans). Plans that don't are billed
+-- for the days attended: daily plans as each present day is marked, the others
+-- pro rata at the end of the period.
+CREATE TABLE public.fee_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate > 0),
+  billing_period TEXT NOT NULL CHECK (billing_period IN ('daily', 'weekly', 'monthly', 'term')),
+  charge_absences BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_fee_plans_updated_at
+BEFORE UPDATE ON public.fee_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- School terms, for plans billed per term
+CREATE TABLE public.billing_terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT billing_terms_dates CHECK (end_date >= start_date)
+);
+
+CREATE OR REPLACE FUNCTION public.reject_overlapping_terms()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.billing_terms
+    WHERE id <> NEW.id AND start_date <= NEW.end_date AND end_date >= NEW.start_date
+  ) THEN
+    RAISE EXCEPTION 'Terms cannot overlap';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_billing_terms_overlap
+BEFORE INSERT OR UPDATE ON public.billing_terms
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_overlapping_terms();
+
+ALTER TABLE public.fee_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.billing_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view fee plans"
+ON public.fee_plans
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert fee plans"
+ON public.fee_plans
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update fee plans"
+ON public.fee_plans
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete fee plans"
+ON public.fee_plans
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Staff can view billing terms"
+ON public.billing_terms
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert billing terms"
+ON public.billing_terms
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update billing terms"
+ON public.billing_terms
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete billing terms"
+ON public.billing_terms
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- Each child's plan. Plans in use can't be deleted, only retired.
+ALTER TABLE public.children
+ADD COLUMN fee_plan_id UUID REFERENCES public.fee_plans(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_children_fee_plan_id ON public.children(fee_plan_id);
+
+-- Existing per-child daily amounts become daily plans, one per amount
+INSERT INTO public.fee_plans (name, rate, billing_period)
+SELECT DISTINCT 'Daily – Ksh ' || trim(to_char(payment_amount, 'FM999999990.00')), payment_amount, 'daily'
+FROM public.children
+WHERE payment_amount > 0;
+
+UPDATE public.children c
+SET fee_plan_id = p.id
+FROM public.fee_plans p
+WHERE p.billing_period = 'daily' AND p.rate = c.payment_amount;
+
+-- payment_amount stays as the amount due per day attended, which the daily
+-- attendance and payment buttons use. It follows the plan: the daily rate, or
+-- nothing for plans billed per period.
+CREATE OR REPLACE FUNCTION public.set_child_payment_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.fee_plan_id IS NOT NULL THEN
+    SELECT CASE WHEN billing_period = 'daily' THEN rate ELSE 0 END
+    INTO NEW.payment_amount
+    FROM public.fee_plans
+    WHERE id = NEW.fee_plan_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_children_payment_amount
+BEFORE INSERT OR UPDATE OF fee_plan_id, payment_amount ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.set_child_payment_amount();
+
+CREATE OR REPLACE FUNCTION public.sync_fee_plan_payment_amounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.children
+  SET payment_amount = CASE WHEN NEW.billing_period = 'daily' THEN NEW.rate ELSE 0 END
+  WHERE fee_plan_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_fee_plans_payment_amounts
+AFTER UPDATE OF rate, billing_period ON public.fee_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_fee_plan_payment_amounts();
+
+-- Which plan and period a charge bills, so no period is ever billed twice
+ALTER TABLE public.ledger_entries
+ADD COLUMN fee_plan_id UUID REFERENCES public.fee_plans(id),
+ADD COLUMN period_start DATE,
+ADD COLUMN period_end DATE;
+
+CREATE UNIQUE INDEX ledger_entries_fee_plan_period
+ON public.ledger_entries(child_id, fee_plan_id, period_start)
+WHERE entry_type = 'charge' AND fee_plan_id IS NOT NULL;
+
+-- Charge daily plans as soon as a child is marked present. Other plans are
+-- billed per period by the nightly billing run.
+CREATE OR REPLACE FUNCTION public.post_attendance_charge()
+RETURNS TRIGGER AS $$
+DECLARE
+  plan public.fee_plans%ROWTYPE;
+BEGIN
+  IF NEW.attendance_status = 'present'
+     AND NEW.amount > 0
+     AND (TG_OP = 'INSERT' OR OLD.attendance_status IS DISTINCT FROM 'present')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.ledger_entries
+       WHERE payment_id = NEW.id AND entry_type = 'charge' AND category IS NULL
+     ) THEN
+    SELECT p.* INTO plan
+    FROM public.fee_plans p
+    JOIN public.children c ON c.fee_plan_id = p.id
+    WHERE c.id = NEW.child_id;
+
+    IF plan.id IS NOT NULL AND plan.billing_period <> 'daily' THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.ledger_entries (
+      child_id, entry_type, amount, entry_date, payment_id, description, fee_plan_id, period_start, period_end
+    )
+    VALUES (
+      NEW.child_id, 'charge', NEW.amount, NEW.payment_date, NEW.id, 'Daily fee',
+      plan.id, NEW.payment_date, NEW.payment_date
+    )
+    ON CONFLICT (child_id, fee_plan_id, period_start) WHERE entry_type = 'charge' AND fee_plan_id IS NOT NULL
+    DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Days the center is open between two dates, inclusive
+CREATE OR REPLACE FUNCTION public.center_open_days(from_date DATE, to_date DATE)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(from_date, to_date, INTERVAL '1 day') AS day
+  WHERE public.center_closure_reason(day::DATE) IS NULL;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+ALTER TABLE public.attendance_reset_runs
+ADD COLUMN charges_posted INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,224 @@
+-- Discount rules, applied to fee charges as they're posted. Each rule that
+-- applies adds its own discount line against the charge, so statements and
+-- reports show the gross fee and the discounts given separately.
+--   everyone  every child, e.g. a date-bounded promotion
+--   siblings  children from sibling_position onwards in a family, oldest admission first
+--   selected  only children the rule is assigned to, e.g. staff children
+CREATE TABLE public.discount_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  applies_to TEXT NOT NULL CHECK (applies_to IN ('everyone', 'siblings', 'selected')),
+  sibling_position INTEGER CHECK (sibling_position >= 2),
+  starts_on DATE,
+  ends_on DATE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT discount_rules_percentage CHECK (discount_type <> 'percentage' OR amount <= 100),
+  CONSTRAINT discount_rules_sibling_position CHECK ((applies_to = 'siblings') = (sibling_position IS NOT NULL)),
+  CONSTRAINT discount_rules_dates CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE TRIGGER update_discount_rules_updated_at
+BEFORE UPDATE ON public.discount_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Per-child overrides: assign a 'selected' rule, give a child a different
+-- amount, or exclude them from a rule that would otherwise apply
+CREATE TABLE public.child_discounts (
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  discount_rule_id UUID NOT NULL REFERENCES public.discount_rules(id) ON DELETE CASCADE,
+  excluded BOOLEAN NOT NULL DEFAULT false,
+  amount NUMERIC(10, 2) CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (child_id, discount_rule_id)
+);
+
+CREATE INDEX idx_child_discounts_discount_rule_id ON public.child_discounts(discount_rule_id);
+
+ALTER TABLE public.discount_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.child_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view discount rules"
+ON public.discount_rules
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert discount rules"
+ON public.discount_rules
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update discount rules"
+ON public.discount_rules
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete discount rules"
+ON public.discount_rules
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Staff can view child discounts"
+ON public.child_discounts
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert child discounts"
+ON public.child_discounts
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update child discounts"
+ON public.child_discounts
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete child discounts"
+ON public.child_discounts
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- Discount lines are negative adjustments that point at the charge they discount
+ALTER TABLE public.ledger_entries
+DROP CONSTRAINT ledger_entries_category_check,
+ADD CONSTRAINT ledger_entries_category_check CHECK (category IN ('late_fee', 'discount')),
+ADD COLUMN discount_rule_id UUID REFERENCES public.discount_rules(id) ON DELETE SET NULL,
+ADD COLUMN discounts_entry_id UUID REFERENCES public.ledger_entries(id);
+
+CREATE INDEX idx_ledger_entries_discounts_entry_id ON public.ledger_entries(discounts_entry_id);
+
+-- Where a child comes in their family: 1 for the earliest admitted of the
+-- children enrolled on the day, 2 for the next, and so on
+CREATE OR REPLACE FUNCTION public.sibling_position(_child_id UUID, _on DATE)
+RETURNS INTEGER AS $$
+  SELECT 1 + COUNT(DISTINCT sibling.id)::INTEGER
+  FROM public.children child
+  JOIN public.child_guardians own ON own.child_id = child.id
+  JOIN public.child_guardians shared ON shared.guardian_id = own.guardian_id AND shared.child_id <> child.id
+  JOIN public.children sibling ON sibling.id = shared.child_id
+  WHERE child.id = _child_id
+    AND sibling.admission_date <= _on
+    AND (sibling.status = 'active' OR sibling.left_on >= _on)
+    AND (sibling.admission_date, sibling.created_at) < (child.admission_date, child.created_at)
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Post a discount line for each rule that applies to a new fee charge.
+-- Late fees are never discounted, and discounts never take a charge below zero.
+CREATE OR REPLACE FUNCTION public.post_charge_discounts()
+RETURNS TRIGGER AS $$
+DECLARE
+  discount_rule RECORD;
+  remaining NUMERIC(10, 2) := NEW.amount;
+  child_position INTEGER;
+  discount NUMERIC(10, 2);
+BEGIN
+  IF NEW.entry_type <> 'charge' OR NEW.category IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR discount_rule IN
+    SELECT r.*, COALESCE(cd.amount, r.amount) AS child_amount
+    FROM public.discount_rules r
+    LEFT JOIN public.child_discounts cd ON cd.discount_rule_id = r.id AND cd.child_id = NEW.child_id
+    WHERE r.active
+      AND (r.starts_on IS NULL OR r.starts_on <= NEW.entry_date)
+      AND (r.ends_on IS NULL OR r.ends_on >= NEW.entry_date)
+      AND NOT COALESCE(cd.excluded, false)
+      AND (r.applies_to <> 'selected' OR cd.child_id IS NOT NULL)
+    ORDER BY r.created_at
+  LOOP
+    EXIT WHEN remaining <= 0;
+
+    IF discount_rule.applies_to = 'siblings' THEN
+      child_position := COALESCE(child_position, public.sibling_position(NEW.child_id, NEW.entry_date));
+      CONTINUE WHEN child_position < discount_rule.sibling_position;
+    END IF;
+
+    discount := LEAST(
+      remaining,
+      CASE discount_rule.discount_type
+        WHEN 'percentage' THEN ROUND(NEW.amount * discount_rule.child_amount / 100, 2)
+        ELSE discount_rule.child_amount
+      END
+    );
+    CONTINUE WHEN discount <= 0;
+
+    INSERT INTO public.ledger_entries (
+      child_id, entry_type, category, amount, entry_date, payment_id,
+      discount_rule_id, discounts_entry_id, description
+    )
+    VALUES (
+      NEW.child_id,
+      'adjustment',
+      'discount',
+      -discount,
+      NEW.entry_date,
+      NEW.payment_id,
+      discount_rule.id,
+      NEW.id,
+      format(
+        '%s: %s off %s',
+        discount_rule.name,
+        CASE discount_rule.discount_type WHEN 'percentage' THEN discount_rule.child_amount::TEXT || '%' ELSE 'Ksh ' || discount_rule.child_amount END,
+        COALESCE(NEW.description, 'charge')
+      )
+    );
+
+    remaining := remaining - discount;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_ledger_entries_charge_discounts
+AFTER INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.post_charge_discounts();
+
+-- Reversing a charge reverses the discounts given against it
+CREATE OR REPLACE FUNCTION public.reverse_charge_discounts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.entry_type <> 'reversal' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.ledger_entries (child_id, entry_type, amount, entry_date, reverses_entry_id, description)
+  SELECT d.child_id, 'reversal', -d.amount, NEW.entry_date, d.id, 'Discount reversed with its charge'
+  FROM public.ledger_entries d
+  WHERE d.discounts_entry_id = NEW.reverses_entry_id
+    AND NOT EXISTS (SELECT 1 FROM public.ledger_entries r WHERE r.reverses_entry_id = d.id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reverse_ledger_entries_charge_discounts
+AFTER INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.reverse_charge_discounts();
+
+-- Discounts are totalled on their own rather than as adjustments, so
+-- total_charged stays the gross fee
+CREATE OR REPLACE VIEW public.child_balances
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS child_id,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'charge'), 0) AS total_charged,
+  COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0) AS total_paid,
+  COALESCE(SUM(l.amount) FILTER (
+    WHERE COALESCE(o.entry_type, l.entry_type) = 'adjustment' AND l.category IS DISTINCT FROM 'discount'
+  ), 0) AS total_adjusted,
+  COALESCE(SUM(l.amount), 0) AS balance,
+  MAX(l.entry_date) FILTER (WHERE l.entry_type = 'payment') AS last_payment_date,
+  COALESCE(SUM(l.amount) FILTER (WHERE l.category = 'late_fee'), 0) AS late_fees,
+  COALESCE(-SUM(l.amount) FILTER (WHERE l.category = 'discount'), 0) AS discounts
+FROM public.children c
+LEFT JOIN public.ledger_entries l ON l.child_id = c.id
+LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+GROUP BY c.id;
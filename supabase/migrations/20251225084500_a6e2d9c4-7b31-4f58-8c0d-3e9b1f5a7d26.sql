@@ -0,0 +1,22 @@
+-- Center details printed on statements
+ALTER TABLE public.center_settings
+ADD COLUMN center_name TEXT,
+ADD COLUMN phone TEXT,
+ADD COLUMN email TEXT,
+ADD COLUMN address TEXT,
+ADD COLUMN logo_path TEXT;
+
+-- The center logo. Public, so printed statements can load it without a signed URL.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('center-logos', 'center-logos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Owners can upload center logos"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'center-logos' AND public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete center logos"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'center-logos' AND public.has_staff_role('owner'));
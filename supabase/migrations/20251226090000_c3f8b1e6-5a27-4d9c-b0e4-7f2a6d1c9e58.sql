@@ -0,0 +1,139 @@
+-- Account credit. A balance below zero is money held for the child (an advance
+-- payment or an overpayment); later charges use it up as they're posted.
+
+-- Refunds pay held credit back out, as a positive adjustment
+ALTER TABLE public.ledger_entries
+DROP CONSTRAINT ledger_entries_category_check,
+ADD CONSTRAINT ledger_entries_category_check CHECK (category IN ('late_fee', 'discount', 'refund'));
+
+CREATE OR REPLACE FUNCTION public.check_refund_within_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  credit NUMERIC(10, 2);
+BEGIN
+  IF NEW.category IS DISTINCT FROM 'refund' OR NEW.entry_type <> 'adjustment' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'A refund must be a positive amount';
+  END IF;
+
+  SELECT -COALESCE(SUM(amount), 0) INTO credit FROM public.ledger_entries WHERE child_id = NEW.child_id;
+
+  IF NEW.amount > credit THEN
+    RAISE EXCEPTION 'Refund of % is more than the % credit held', NEW.amount, GREATEST(credit, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_ledger_entries_refund
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.check_refund_within_credit();
+
+-- Only owners give money back
+DROP POLICY "Owners and cashiers can insert ledger entries" ON public.ledger_entries;
+
+CREATE POLICY "Owners and cashiers can insert ledger entries"
+ON public.ledger_entries
+FOR INSERT
+WITH CHECK (
+  public.has_staff_role('owner')
+  OR (
+    public.has_staff_role('cashier')
+    AND entry_type <> 'reversal'
+    AND category IS DISTINCT FROM 'refund'
+  )
+);
+
+-- What's left to pay for a day once its charge is posted: the fee less any
+-- discounts, paid from credit where the child has some. A day covered in full
+-- is marked paid. Runs after the discount trigger, so its lines are counted.
+CREATE OR REPLACE FUNCTION public.settle_daily_charge()
+RETURNS TRIGGER AS $$
+DECLARE
+  net_charge NUMERIC(10, 2);
+  balance_after NUMERIC(10, 2);
+  due NUMERIC(10, 2);
+BEGIN
+  IF NEW.entry_type <> 'charge' OR NEW.category IS NOT NULL OR NEW.payment_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT NEW.amount + COALESCE(SUM(amount), 0) INTO net_charge
+  FROM public.ledger_entries
+  WHERE discounts_entry_id = NEW.id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO balance_after
+  FROM public.ledger_entries
+  WHERE child_id = NEW.child_id;
+
+  due := GREATEST(0, LEAST(net_charge, balance_after));
+
+  UPDATE public.payments
+  SET debt_amount = due,
+      status = CASE WHEN due = 0 THEN 'paid' ELSE status END,
+      note = CASE WHEN due = 0 AND balance_after < net_charge THEN 'Paid from account credit' ELSE note END
+  WHERE id = NEW.payment_id
+    AND status = 'pending'
+    AND COALESCE(debt_amount, amount) > due;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER settle_ledger_entries_daily_charge
+AFTER INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_daily_charge();
+
+-- Teachers still can't change payment details themselves, but the database
+-- may settle a day they marked present (pg_trigger_depth > 1 inside a trigger)
+CREATE OR REPLACE FUNCTION public.restrict_teacher_payment_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  daily_fee NUMERIC;
+BEGIN
+  IF public.staff_role() IS DISTINCT FROM 'teacher' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'Teachers cannot record payments';
+    END IF;
+    SELECT payment_amount INTO daily_fee FROM public.children WHERE id = NEW.child_id;
+    NEW.amount := CASE WHEN NEW.attendance_status = 'present' THEN COALESCE(daily_fee, 0) ELSE 0 END;
+    NEW.debt_amount := NEW.amount;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.amount IS DISTINCT FROM OLD.amount
+     OR NEW.debt_amount IS DISTINCT FROM OLD.debt_amount THEN
+    RAISE EXCEPTION 'Teachers cannot change payment details';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Credit is what's held for the child; balance stays the signed total
+CREATE OR REPLACE VIEW public.child_balances
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS child_id,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'charge'), 0) AS total_charged,
+  COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0) AS total_paid,
+  COALESCE(SUM(l.amount) FILTER (
+    WHERE COALESCE(o.entry_type, l.entry_type) = 'adjustment' AND l.category IS DISTINCT FROM 'discount'
+  ), 0) AS total_adjusted,
+  COALESCE(SUM(l.amount), 0) AS balance,
+  MAX(l.entry_date) FILTER (WHERE l.entry_type = 'payment') AS last_payment_date,
+  COALESCE(SUM(l.amount) FILTER (WHERE l.category = 'late_fee'), 0) AS late_fees,
+  COALESCE(-SUM(l.amount) FILTER (WHERE l.category = 'discount'), 0) AS discounts,
+  GREATEST(-COALESCE(SUM(l.amount), 0), 0) AS credit
+FROM public.children c
+LEFT JOIN public.ledger_entries l ON l.child_id = c.id
+LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+GROUP BY c.id;
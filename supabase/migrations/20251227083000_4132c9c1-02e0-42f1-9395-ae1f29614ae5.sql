@@ -0,0 +1,59 @@
+-- How money was received, so the cash box and mobile money statements can be
+-- reconciled against the ledger. Entries from before this stay unrecorded.
+ALTER TABLE public.ledger_entries
+ADD COLUMN payment_method TEXT CHECK (payment_method IN ('cash', 'mobile_money', 'bank_transfer', 'cheque')),
+ADD COLUMN payment_reference TEXT,
+ADD COLUMN received_by UUID DEFAULT auth.uid(),
+ADD COLUMN received_by_email TEXT,
+ADD CONSTRAINT ledger_entries_payment_method_check
+  CHECK (payment_method IS NULL OR entry_type IN ('payment', 'reversal'));
+
+CREATE INDEX idx_ledger_entries_payment_method ON public.ledger_entries(entry_date, payment_method)
+WHERE payment_method IS NOT NULL;
+
+-- Owners may record money another staff member took; everyone else receives
+-- it themselves. Only payments have a receiver.
+CREATE OR REPLACE FUNCTION public.set_ledger_payment_receiver()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.entry_type <> 'payment' THEN
+    NEW.received_by := NULL;
+  ELSIF auth.uid() IS NOT NULL AND NOT public.has_staff_role('owner') THEN
+    NEW.received_by := auth.uid();
+  END IF;
+
+  NEW.received_by_email := (SELECT email FROM auth.users WHERE id = NEW.received_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_ledger_entries_payment_receiver
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_ledger_payment_receiver();
+
+-- Reversals keep the method, so a reversed payment comes off its method's total
+CREATE OR REPLACE FUNCTION public.prepare_ledger_reversal()
+RETURNS TRIGGER AS $$
+DECLARE
+  original public.ledger_entries%ROWTYPE;
+BEGIN
+  IF NEW.entry_type = 'reversal' THEN
+    SELECT * INTO original FROM public.ledger_entries WHERE id = NEW.reverses_entry_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ledger entry % does not exist', NEW.reverses_entry_id;
+    END IF;
+
+    IF original.entry_type = 'reversal' THEN
+      RAISE EXCEPTION 'A reversal cannot itself be reversed';
+    END IF;
+
+    NEW.child_id = original.child_id;
+    NEW.amount = -original.amount;
+    NEW.category = original.category;
+    NEW.payment_method = original.payment_method;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
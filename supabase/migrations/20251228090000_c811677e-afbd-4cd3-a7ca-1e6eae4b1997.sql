@@ -0,0 +1,139 @@
+-- End-of-day cash-up. The cashier counts the cash box and checks the mobile
+-- money statement; the database works out what the ledger says was received
+-- and locks the day. Reopening keeps the record, so every count stays in the
+-- variance history.
+CREATE TABLE public.cash_ups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_date DATE NOT NULL,
+  expected_cash NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  counted_cash NUMERIC(10, 2) NOT NULL CHECK (counted_cash >= 0),
+  cash_variance NUMERIC(10, 2) GENERATED ALWAYS AS (counted_cash - expected_cash) STORED,
+  expected_mobile_money NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  counted_mobile_money NUMERIC(10, 2) NOT NULL CHECK (counted_mobile_money >= 0),
+  mobile_money_variance NUMERIC(10, 2) GENERATED ALWAYS AS (counted_mobile_money - expected_mobile_money) STORED,
+  note TEXT,
+  closed_by UUID DEFAULT auth.uid(),
+  closed_by_email TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reopened_by UUID,
+  reopened_by_email TEXT,
+  reopened_at TIMESTAMP WITH TIME ZONE,
+  reopen_reason TEXT
+);
+
+-- A day can only be closed once at a time
+CREATE UNIQUE INDEX idx_cash_ups_closed_date ON public.cash_ups(business_date) WHERE reopened_at IS NULL;
+CREATE INDEX idx_cash_ups_business_date ON public.cash_ups(business_date DESC, closed_at DESC);
+
+ALTER TABLE public.cash_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view cash-ups"
+ON public.cash_ups
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners and cashiers can close days"
+ON public.cash_ups
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner', 'cashier'));
+
+CREATE POLICY "Owners can reopen days"
+ON public.cash_ups
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+-- Expected totals come from the ledger, never from the app, and a variance
+-- has to be explained
+CREATE OR REPLACE FUNCTION public.prepare_cash_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  reason TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT
+      COALESCE(-SUM(amount) FILTER (WHERE payment_method = 'cash'), 0),
+      COALESCE(-SUM(amount) FILTER (WHERE payment_method = 'mobile_money'), 0)
+    INTO NEW.expected_cash, NEW.expected_mobile_money
+    FROM public.ledger_entries
+    WHERE entry_date = NEW.business_date;
+
+    IF (NEW.counted_cash <> NEW.expected_cash OR NEW.counted_mobile_money <> NEW.expected_mobile_money)
+       AND NULLIF(TRIM(NEW.note), '') IS NULL THEN
+      RAISE EXCEPTION 'Explain the difference between the counted and recorded totals';
+    END IF;
+
+    NEW.closed_by := auth.uid();
+    NEW.closed_by_email := (SELECT email FROM auth.users WHERE id = auth.uid());
+    NEW.closed_at := now();
+    NEW.reopened_by := NULL;
+    NEW.reopened_by_email := NULL;
+    NEW.reopened_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Reopening is the only change allowed, and only once
+  IF OLD.reopened_at IS NOT NULL OR NEW.reopened_at IS NULL THEN
+    RAISE EXCEPTION 'A cash-up can only be reopened';
+  END IF;
+
+  IF NULLIF(TRIM(NEW.reopen_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for reopening the day';
+  END IF;
+
+  reason := NEW.reopen_reason;
+  NEW := OLD;
+  NEW.reopen_reason := reason;
+  NEW.reopened_at := now();
+  NEW.reopened_by := auth.uid();
+  NEW.reopened_by_email := (SELECT email FROM auth.users WHERE id = auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prepare_cash_ups_changes
+BEFORE INSERT OR UPDATE ON public.cash_ups
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_cash_up();
+
+CREATE OR REPLACE FUNCTION public.is_day_closed(check_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.cash_ups WHERE business_date = check_date AND reopened_at IS NULL);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Once a day is cashed up only owners can change its records. The daily reset
+-- and M-Pesa callback run without a user and still go through.
+CREATE OR REPLACE FUNCTION public.reject_closed_day_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed_date DATE;
+BEGIN
+  IF auth.uid() IS NULL OR public.has_staff_role('owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_entries' THEN
+    changed_date := NEW.entry_date;
+  ELSIF TG_OP = 'DELETE' THEN
+    changed_date := OLD.payment_date;
+  ELSE
+    changed_date := NEW.payment_date;
+  END IF;
+
+  IF public.is_day_closed(changed_date)
+     OR (TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'payments' AND public.is_day_closed(OLD.payment_date)) THEN
+    RAISE EXCEPTION '% has been cashed up; ask an owner to make this change', changed_date;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_ledger_entries_closed_day
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_closed_day_changes();
+
+CREATE TRIGGER reject_payments_closed_day
+BEFORE INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_closed_day_changes();
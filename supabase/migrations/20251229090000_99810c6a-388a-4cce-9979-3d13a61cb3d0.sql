@@ -0,0 +1,44 @@
+-- SMS fee reminders. The fee-reminders edge function texts the guardians of
+-- children with a balance and logs every message it sends, fails or skips.
+ALTER TABLE public.guardians
+ADD COLUMN sms_opt_out BOOLEAN NOT NULL DEFAULT false;
+
+-- Placeholders: {child}, {amount}, {guardian}, {center}. Quiet hours are in
+-- the center's timezone; leave either end empty to send at any time.
+ALTER TABLE public.center_settings
+ADD COLUMN sms_reminder_template TEXT NOT NULL
+  DEFAULT 'Dear {guardian}, {child} has a balance of Ksh {amount} at {center}. Kindly clear it at your earliest convenience.'
+  CHECK (LENGTH(TRIM(sms_reminder_template)) > 0),
+ADD COLUMN sms_quiet_start TIME DEFAULT '20:00',
+ADD COLUMN sms_quiet_end TIME DEFAULT '07:00',
+ADD COLUMN sms_reminder_interval_days INTEGER NOT NULL DEFAULT 7 CHECK (sms_reminder_interval_days > 0);
+
+CREATE TABLE public.sms_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'fee_reminder' CHECK (kind IN ('fee_reminder')),
+  child_id UUID REFERENCES public.children(id) ON DELETE CASCADE,
+  guardian_id UUID REFERENCES public.guardians(id) ON DELETE SET NULL,
+  phone TEXT,
+  message TEXT NOT NULL,
+  amount NUMERIC(10, 2),
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  -- Why a message failed or was skipped
+  detail TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  sent_by UUID,
+  sent_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sms_messages_created_at ON public.sms_messages(created_at DESC);
+CREATE INDEX idx_sms_messages_child_id ON public.sms_messages(child_id, created_at DESC);
+
+-- Written only by the edge function with the service role
+ALTER TABLE public.sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view SMS messages"
+ON public.sms_messages
+FOR SELECT
+USING (public.is_staff());
@@ -0,0 +1,120 @@
+-- Arrival and departure notifications. Checking a child in or out queues a
+-- message for each guardian who asked for them; the notification-dispatch
+-- edge function sends the outbox and retries failures.
+ALTER TABLE public.guardians
+ADD COLUMN attendance_notifications TEXT CHECK (attendance_notifications IN ('sms', 'whatsapp', 'email'));
+
+CREATE TABLE public.notification_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  child_id UUID NOT NULL REFERENCES public.children(id) ON DELETE CASCADE,
+  guardian_id UUID REFERENCES public.guardians(id) ON DELETE SET NULL,
+  payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN ('arrival', 'departure')),
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'whatsapp', 'email')),
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  staff_email TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_error TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_notification_outbox_due ON public.notification_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX idx_notification_outbox_child_id ON public.notification_outbox(child_id, created_at DESC);
+
+-- Written by the trigger below and the edge function
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view notifications"
+ON public.notification_outbox
+FOR SELECT
+USING (public.is_staff());
+
+-- Queue a message per opted-in guardian when a child arrives or is collected.
+-- Times are shown in the center's timezone, along with who checked them in or out.
+CREATE OR REPLACE FUNCTION public.queue_attendance_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  settings public.center_settings%ROWTYPE;
+  child_name TEXT;
+  center TEXT;
+  staff TEXT;
+  event_kind TEXT;
+  event_at TIMESTAMP WITH TIME ZONE;
+  body TEXT;
+BEGIN
+  IF NEW.attendance_status = 'present' AND NEW.arrival_time IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.arrival_time IS DISTINCT FROM NEW.arrival_time) THEN
+    event_kind := 'arrival';
+    event_at := NEW.arrival_time;
+  ELSIF TG_OP = 'UPDATE' AND NEW.departure_time IS NOT NULL AND OLD.departure_time IS NULL THEN
+    event_kind := 'departure';
+    event_at := NEW.departure_time;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO settings FROM public.center_settings WHERE id = 1;
+  center := COALESCE(NULLIF(TRIM(settings.center_name), ''), 'Daycare');
+  SELECT name INTO child_name FROM public.children WHERE id = NEW.child_id;
+  staff := COALESCE((SELECT email FROM auth.users WHERE id = auth.uid()), 'staff');
+
+  IF event_kind = 'arrival' THEN
+    body := format('%s: %s arrived at %s, checked in by %s.',
+      center, child_name, to_char(event_at AT TIME ZONE COALESCE(settings.timezone, 'Africa/Nairobi'), 'HH24:MI'), staff);
+  ELSE
+    body := format('%s: %s was collected by %s at %s, checked out by %s.',
+      center, child_name, NEW.picked_up_by,
+      to_char(event_at AT TIME ZONE COALESCE(settings.timezone, 'Africa/Nairobi'), 'HH24:MI'), staff);
+  END IF;
+
+  INSERT INTO public.notification_outbox
+    (child_id, guardian_id, payment_id, event, channel, recipient, subject, message, staff_email)
+  SELECT
+    NEW.child_id,
+    g.id,
+    NEW.id,
+    event_kind,
+    g.attendance_notifications,
+    CASE WHEN g.attendance_notifications = 'email' THEN g.email ELSE g.phone END,
+    format('%s %s', child_name, CASE WHEN event_kind = 'arrival' THEN 'has arrived' ELSE 'has been collected' END),
+    body,
+    NULLIF(staff, 'staff')
+  FROM public.child_guardians cg
+  JOIN public.guardians g ON g.id = cg.guardian_id
+  WHERE cg.child_id = NEW.child_id
+    AND g.attendance_notifications IS NOT NULL
+    AND NULLIF(TRIM(CASE WHEN g.attendance_notifications = 'email' THEN g.email ELSE g.phone END), '') IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_payments_attendance_notifications
+AFTER INSERT OR UPDATE OF arrival_time, departure_time ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_attendance_notifications();
+
+-- Hand the dispatcher a batch of due messages. Rows stuck in 'sending' for
+-- over five minutes are from a run that died and are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_notifications(batch_size INTEGER)
+RETURNS SETOF public.notification_outbox AS $$
+  UPDATE public.notification_outbox
+  SET status = 'sending', next_attempt_at = now() + INTERVAL '5 minutes'
+  WHERE id IN (
+    SELECT id FROM public.notification_outbox
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
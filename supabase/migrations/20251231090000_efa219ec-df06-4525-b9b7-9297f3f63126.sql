@@ -0,0 +1,103 @@
+-- Parent portal. Guardians sign in with a one-time code sent to the email or
+-- phone on their guardian record and can read their own children's
+-- attendance, ledger and receipts, nothing more. They never get a staff
+-- profile, so every staff policy still turns them away.
+ALTER TABLE public.guardians
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN portal_access BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX idx_guardians_user_id ON public.guardians(user_id);
+
+-- Portal sign-ups must never become the first owner of a fresh install
+CREATE OR REPLACE FUNCTION public.create_staff_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->>'portal' = 'true' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.staff_profiles WHERE role = 'owner') THEN
+    INSERT INTO public.staff_profiles (user_id, email, role)
+    VALUES (NEW.id, COALESCE(NEW.email, ''), 'owner')
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Link the signed-in account to the guardian records carrying its confirmed
+-- email or phone (phones compared on their last nine digits). Returns how many
+-- guardian records the account can see children through.
+CREATE OR REPLACE FUNCTION public.link_guardian_account()
+RETURNS INTEGER AS $$
+DECLARE
+  account auth.users%ROWTYPE;
+  account_phone TEXT;
+  linked INTEGER;
+BEGIN
+  SELECT * INTO account FROM auth.users WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  account_phone := RIGHT(regexp_replace(COALESCE(account.phone, ''), '\D', '', 'g'), 9);
+
+  UPDATE public.guardians
+  SET user_id = account.id
+  WHERE user_id IS NULL
+    AND portal_access
+    AND (
+      (account.email_confirmed_at IS NOT NULL AND LOWER(TRIM(email)) = LOWER(account.email))
+      OR (account.phone_confirmed_at IS NOT NULL AND LENGTH(account_phone) = 9
+          AND RIGHT(regexp_replace(phone, '\D', '', 'g'), 9) = account_phone)
+    );
+
+  SELECT COUNT(*) INTO linked FROM public.guardians WHERE user_id = account.id AND portal_access;
+  RETURN linked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The children the signed-in guardian may see
+CREATE OR REPLACE FUNCTION public.portal_child_ids()
+RETURNS SETOF UUID AS $$
+  SELECT cg.child_id
+  FROM public.child_guardians cg
+  JOIN public.guardians g ON g.id = cg.guardian_id
+  WHERE g.user_id = auth.uid() AND g.portal_access;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Guardians can view their own record"
+ON public.guardians
+FOR SELECT
+USING (user_id = auth.uid() AND portal_access);
+
+CREATE POLICY "Guardians can view their own child links"
+ON public.child_guardians
+FOR SELECT
+USING (guardian_id IN (SELECT id FROM public.guardians WHERE user_id = auth.uid() AND portal_access));
+
+CREATE POLICY "Guardians can view their children"
+ON public.children
+FOR SELECT
+USING (id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Guardians can view their children's attendance"
+ON public.payments
+FOR SELECT
+USING (child_id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Guardians can view their children's ledger"
+ON public.ledger_entries
+FOR SELECT
+USING (child_id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Guardians can view their children's receipts"
+ON public.receipts
+FOR SELECT
+USING (child_id IN (SELECT public.portal_child_ids()));
+
+-- For the center's name and contact details in the portal header
+CREATE POLICY "Guardians can view center details"
+ON public.center_settings
+FOR SELECT
+USING (EXISTS (SELECT public.portal_child_ids()));
@@ -0,0 +1,449 @@
+-- Branches. One project can run several centers: children, their attendance
+-- and ledger, settings, cash-ups and reset runs belong to a center. Owners see
+-- every branch; other staff only the branches they're assigned to. Fee plans,
+-- terms, discounts, closures and guardians are shared by all branches.
+CREATE TABLE public.centers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The existing center becomes the first branch
+INSERT INTO public.centers (name)
+SELECT COALESCE(NULLIF(TRIM(center_name), ''), 'Main Center') FROM public.center_settings WHERE id = 1;
+
+INSERT INTO public.centers (name)
+SELECT 'Main Center' WHERE NOT EXISTS (SELECT 1 FROM public.centers);
+
+-- The branch everything recorded before branches existed belongs to, and
+-- whose timezone column defaults use
+CREATE OR REPLACE FUNCTION public.default_center_id()
+RETURNS UUID AS $$
+  SELECT id FROM public.centers ORDER BY created_at, id LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE public.staff_centers (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  center_id UUID NOT NULL REFERENCES public.centers(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, center_id)
+);
+
+-- Current staff keep working where they are
+INSERT INTO public.staff_centers (user_id, center_id)
+SELECT user_id, public.default_center_id() FROM public.staff_profiles WHERE role <> 'owner';
+
+CREATE OR REPLACE FUNCTION public.has_center_access(target_center UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.has_staff_role('owner')
+    OR (public.is_staff() AND EXISTS (
+      SELECT 1 FROM public.staff_centers WHERE user_id = auth.uid() AND center_id = target_center
+    ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.centers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_centers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their branches"
+ON public.centers
+FOR SELECT
+USING (public.has_center_access(id));
+
+CREATE POLICY "Owners can add branches"
+ON public.centers
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can rename branches"
+ON public.centers
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Staff can view branch assignments"
+ON public.staff_centers
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can assign staff to branches"
+ON public.staff_centers
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can unassign staff from branches"
+ON public.staff_centers
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+-- Settings: one row per branch, created with it
+ALTER TABLE public.center_settings DROP CONSTRAINT center_settings_id_check;
+CREATE SEQUENCE public.center_settings_id_seq OWNED BY public.center_settings.id START 2;
+ALTER TABLE public.center_settings ALTER COLUMN id SET DEFAULT nextval('public.center_settings_id_seq');
+
+ALTER TABLE public.center_settings ADD COLUMN center_id UUID UNIQUE REFERENCES public.centers(id) ON DELETE CASCADE;
+UPDATE public.center_settings SET center_id = public.default_center_id();
+ALTER TABLE public.center_settings ALTER COLUMN center_id SET NOT NULL;
+
+-- A new branch starts with the first branch's settings under its own name
+CREATE OR REPLACE FUNCTION public.create_center_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.center_settings (
+    center_id, center_name, timezone, closing_time, late_fee_grace_minutes, late_fee_block_minutes,
+    late_fee_amount, sms_reminder_template, sms_quiet_start, sms_quiet_end, sms_reminder_interval_days
+  )
+  SELECT
+    NEW.id, NEW.name, timezone, closing_time, late_fee_grace_minutes, late_fee_block_minutes,
+    late_fee_amount, sms_reminder_template, sms_quiet_start, sms_quiet_end, sms_reminder_interval_days
+  FROM public.center_settings
+  WHERE center_id = public.default_center_id();
+
+  IF NOT FOUND THEN
+    INSERT INTO public.center_settings (center_id, center_name) VALUES (NEW.id, NEW.name);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_centers_settings
+AFTER INSERT ON public.centers
+FOR EACH ROW
+EXECUTE FUNCTION public.create_center_settings();
+
+-- Children are enrolled at a branch; their records follow them
+ALTER TABLE public.children ADD COLUMN center_id UUID REFERENCES public.centers(id);
+UPDATE public.children SET center_id = public.default_center_id();
+ALTER TABLE public.children ALTER COLUMN center_id SET NOT NULL;
+CREATE INDEX idx_children_center_id ON public.children(center_id);
+
+ALTER TABLE public.payments ADD COLUMN center_id UUID REFERENCES public.centers(id);
+UPDATE public.payments p SET center_id = c.center_id FROM public.children c WHERE c.id = p.child_id;
+UPDATE public.payments SET center_id = public.default_center_id() WHERE center_id IS NULL;
+ALTER TABLE public.payments ALTER COLUMN center_id SET NOT NULL;
+CREATE INDEX idx_payments_center_date ON public.payments(center_id, payment_date);
+
+ALTER TABLE public.ledger_entries ADD COLUMN center_id UUID REFERENCES public.centers(id);
+UPDATE public.ledger_entries l SET center_id = c.center_id FROM public.children c WHERE c.id = l.child_id;
+UPDATE public.ledger_entries SET center_id = public.default_center_id() WHERE center_id IS NULL;
+ALTER TABLE public.ledger_entries ALTER COLUMN center_id SET NOT NULL;
+CREATE INDEX idx_ledger_entries_center_date ON public.ledger_entries(center_id, entry_date);
+
+-- Attendance and ledger lines are filed under the child's branch at the time.
+-- Named to run before the other BEFORE triggers, which rely on it.
+CREATE OR REPLACE FUNCTION public.assign_child_center()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT center_id INTO NEW.center_id FROM public.children WHERE id = NEW.child_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_payments_center
+BEFORE INSERT ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_child_center();
+
+CREATE TRIGGER assign_ledger_entries_center
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_child_center();
+
+-- Cash-ups and reset runs are per branch and day
+ALTER TABLE public.cash_ups ADD COLUMN center_id UUID REFERENCES public.centers(id);
+UPDATE public.cash_ups SET center_id = public.default_center_id();
+ALTER TABLE public.cash_ups ALTER COLUMN center_id SET NOT NULL;
+DROP INDEX public.idx_cash_ups_closed_date;
+DROP INDEX public.idx_cash_ups_business_date;
+CREATE UNIQUE INDEX idx_cash_ups_closed_date ON public.cash_ups(center_id, business_date) WHERE reopened_at IS NULL;
+CREATE INDEX idx_cash_ups_business_date ON public.cash_ups(center_id, business_date DESC, closed_at DESC);
+
+ALTER TABLE public.attendance_reset_runs ADD COLUMN center_id UUID REFERENCES public.centers(id) ON DELETE CASCADE;
+UPDATE public.attendance_reset_runs SET center_id = public.default_center_id();
+ALTER TABLE public.attendance_reset_runs ALTER COLUMN center_id SET NOT NULL;
+ALTER TABLE public.attendance_reset_runs DROP CONSTRAINT attendance_reset_runs_pkey;
+ALTER TABLE public.attendance_reset_runs ADD PRIMARY KEY (center_id, run_date);
+
+-- Column defaults can't see the row, so they use the first branch's timezone;
+-- the app always passes each branch's own date
+CREATE OR REPLACE FUNCTION public.center_today()
+RETURNS DATE AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT timezone FROM public.center_settings WHERE center_id = public.default_center_id()),
+    'Africa/Nairobi'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.prepare_cash_up()
+RETURNS TRIGGER AS $$
+DECLARE
+  reason TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT
+      COALESCE(-SUM(amount) FILTER (WHERE payment_method = 'cash'), 0),
+      COALESCE(-SUM(amount) FILTER (WHERE payment_method = 'mobile_money'), 0)
+    INTO NEW.expected_cash, NEW.expected_mobile_money
+    FROM public.ledger_entries
+    WHERE entry_date = NEW.business_date AND center_id = NEW.center_id;
+
+    IF (NEW.counted_cash <> NEW.expected_cash OR NEW.counted_mobile_money <> NEW.expected_mobile_money)
+       AND NULLIF(TRIM(NEW.note), '') IS NULL THEN
+      RAISE EXCEPTION 'Explain the difference between the counted and recorded totals';
+    END IF;
+
+    NEW.closed_by := auth.uid();
+    NEW.closed_by_email := (SELECT email FROM auth.users WHERE id = auth.uid());
+    NEW.closed_at := now();
+    NEW.reopened_by := NULL;
+    NEW.reopened_by_email := NULL;
+    NEW.reopened_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Reopening is the only change allowed, and only once
+  IF OLD.reopened_at IS NOT NULL OR NEW.reopened_at IS NULL THEN
+    RAISE EXCEPTION 'A cash-up can only be reopened';
+  END IF;
+
+  IF NULLIF(TRIM(NEW.reopen_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for reopening the day';
+  END IF;
+
+  reason := NEW.reopen_reason;
+  NEW := OLD;
+  NEW.reopen_reason := reason;
+  NEW.reopened_at := now();
+  NEW.reopened_by := auth.uid();
+  NEW.reopened_by_email := (SELECT email FROM auth.users WHERE id = auth.uid());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION public.is_day_closed(DATE);
+
+CREATE OR REPLACE FUNCTION public.is_day_closed(check_date DATE, check_center UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.cash_ups
+    WHERE business_date = check_date AND center_id = check_center AND reopened_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_closed_day_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed_date DATE;
+  changed_center UUID;
+BEGIN
+  IF auth.uid() IS NULL OR public.has_staff_role('owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'ledger_entries' THEN
+    changed_date := NEW.entry_date;
+    changed_center := NEW.center_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    changed_date := OLD.payment_date;
+    changed_center := OLD.center_id;
+  ELSE
+    changed_date := NEW.payment_date;
+    changed_center := NEW.center_id;
+  END IF;
+
+  IF public.is_day_closed(changed_date, changed_center)
+     OR (TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'payments' AND public.is_day_closed(OLD.payment_date, OLD.center_id)) THEN
+    RAISE EXCEPTION '% has been cashed up; ask an owner to make this change', changed_date;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Late fees and check-in messages use the child's branch settings
+CREATE OR REPLACE FUNCTION public.post_late_pickup_fee()
+RETURNS TRIGGER AS $$
+DECLARE
+  settings public.center_settings%ROWTYPE;
+  closing_at TIMESTAMP WITH TIME ZONE;
+  minutes_late INTEGER;
+  billable_minutes INTEGER;
+  fee NUMERIC(10, 2);
+BEGIN
+  IF NEW.departure_time IS NULL OR OLD.departure_time IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO settings FROM public.center_settings WHERE center_id = NEW.center_id;
+  IF NOT FOUND OR settings.late_fee_amount = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  closing_at := (NEW.payment_date + settings.closing_time) AT TIME ZONE settings.timezone;
+  minutes_late := CEIL(EXTRACT(EPOCH FROM NEW.departure_time - closing_at) / 60);
+  billable_minutes := minutes_late - settings.late_fee_grace_minutes;
+
+  IF billable_minutes <= 0 OR EXISTS (
+    SELECT 1 FROM public.ledger_entries
+    WHERE payment_id = NEW.id AND category = 'late_fee'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  fee := CEIL(billable_minutes::NUMERIC / settings.late_fee_block_minutes) * settings.late_fee_amount;
+
+  INSERT INTO public.ledger_entries (child_id, entry_type, category, amount, entry_date, payment_id, description)
+  VALUES (
+    NEW.child_id,
+    'charge',
+    'late_fee',
+    fee,
+    NEW.payment_date,
+    NEW.id,
+    format('Late pickup: collected %s min after closing (%s)', minutes_late, to_char(settings.closing_time, 'HH24:MI'))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.queue_attendance_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  settings public.center_settings%ROWTYPE;
+  child_name TEXT;
+  center TEXT;
+  staff TEXT;
+  event_kind TEXT;
+  event_at TIMESTAMP WITH TIME ZONE;
+  body TEXT;
+BEGIN
+  IF NEW.attendance_status = 'present' AND NEW.arrival_time IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.arrival_time IS DISTINCT FROM NEW.arrival_time) THEN
+    event_kind := 'arrival';
+    event_at := NEW.arrival_time;
+  ELSIF TG_OP = 'UPDATE' AND NEW.departure_time IS NOT NULL AND OLD.departure_time IS NULL THEN
+    event_kind := 'departure';
+    event_at := NEW.departure_time;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO settings FROM public.center_settings WHERE center_id = NEW.center_id;
+  center := COALESCE(NULLIF(TRIM(settings.center_name), ''), 'Daycare');
+  SELECT name INTO child_name FROM public.children WHERE id = NEW.child_id;
+  staff := COALESCE((SELECT email FROM auth.users WHERE id = auth.uid()), 'staff');
+
+  IF event_kind = 'arrival' THEN
+    body := format('%s: %s arrived at %s, checked in by %s.',
+      center, child_name, to_char(event_at AT TIME ZONE COALESCE(settings.timezone, 'Africa/Nairobi'), 'HH24:MI'), staff);
+  ELSE
+    body := format('%s: %s was collected by %s at %s, checked out by %s.',
+      center, child_name, NEW.picked_up_by,
+      to_char(event_at AT TIME ZONE COALESCE(settings.timezone, 'Africa/Nairobi'), 'HH24:MI'), staff);
+  END IF;
+
+  INSERT INTO public.notification_outbox
+    (child_id, guardian_id, payment_id, event, channel, recipient, subject, message, staff_email)
+  SELECT
+    NEW.child_id,
+    g.id,
+    NEW.id,
+    event_kind,
+    g.attendance_notifications,
+    CASE WHEN g.attendance_notifications = 'email' THEN g.email ELSE g.phone END,
+    format('%s %s', child_name, CASE WHEN event_kind = 'arrival' THEN 'has arrived' ELSE 'has been collected' END),
+    body,
+    NULLIF(staff, 'staff')
+  FROM public.child_guardians cg
+  JOIN public.guardians g ON g.id = cg.guardian_id
+  WHERE cg.child_id = NEW.child_id
+    AND g.attendance_notifications IS NOT NULL
+    AND NULLIF(TRIM(CASE WHEN g.attendance_notifications = 'email' THEN g.email ELSE g.phone END), '') IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Branch scoping on top of the existing role policies. Restrictive policies
+-- are ANDed with them, so staff keep their role rules but only within their
+-- branches, and portal guardians still see their own children.
+CREATE POLICY "Only assigned branches"
+ON public.children
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id) OR id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Only assigned branches"
+ON public.payments
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id) OR child_id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Only assigned branches"
+ON public.ledger_entries
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id) OR child_id IN (SELECT public.portal_child_ids()));
+
+CREATE POLICY "Only assigned branches"
+ON public.cash_ups
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id));
+
+CREATE POLICY "Only assigned branches"
+ON public.attendance_reset_runs
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id));
+
+CREATE POLICY "Only assigned branches"
+ON public.center_settings
+AS RESTRICTIVE
+FOR ALL
+USING (
+  public.has_center_access(center_id)
+  OR center_id IN (SELECT center_id FROM public.children WHERE id IN (SELECT public.portal_child_ids()))
+);
+
+-- Per-child records follow the child's visibility
+CREATE POLICY "Only assigned branches"
+ON public.receipts
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IN (SELECT id FROM public.children));
+
+CREATE POLICY "Only assigned branches"
+ON public.sms_messages
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IS NULL OR child_id IN (SELECT id FROM public.children));
+
+CREATE POLICY "Only assigned branches"
+ON public.notification_outbox
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IN (SELECT id FROM public.children));
+
+-- Balances by branch, for per-branch and consolidated totals
+CREATE OR REPLACE VIEW public.child_balances
+WITH (security_invoker = true) AS
+SELECT
+  c.id AS child_id,
+  COALESCE(SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'charge'), 0) AS total_charged,
+  COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0) AS total_paid,
+  COALESCE(SUM(l.amount) FILTER (
+    WHERE COALESCE(o.entry_type, l.entry_type) = 'adjustment' AND l.category IS DISTINCT FROM 'discount'
+  ), 0) AS total_adjusted,
+  COALESCE(SUM(l.amount), 0) AS balance,
+  MAX(l.entry_date) FILTER (WHERE l.entry_type = 'payment') AS last_payment_date,
+  COALESCE(SUM(l.amount) FILTER (WHERE l.category = 'late_fee'), 0) AS late_fees,
+  COALESCE(-SUM(l.amount) FILTER (WHERE l.category = 'discount'), 0) AS discounts,
+  GREATEST(-COALESCE(SUM(l.amount), 0), 0) AS credit,
+  c.center_id
+FROM public.children c
+LEFT JOIN public.ledger_entries l ON l.child_id = c.id
+LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+GROUP BY c.id;
+
+-- Invitations can carry the branch the new account starts in
+ALTER TABLE public.staff_invitations ADD COLUMN center_id UUID REFERENCES public.centers(id) ON DELETE SET NULL;
@@ -0,0 +1,106 @@
+-- Classes. Each branch has its own classes (rooms) with an age range, a
+-- capacity and a lead teacher; children are placed in one of them instead of
+-- the free-text class, where "Baby Class", "baby class" and "Babyclass" were
+-- all different. Capacity isn't enforced here: enrolling beyond it only warns.
+CREATE TABLE public.classes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  center_id UUID NOT NULL REFERENCES public.centers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+  min_age_months INTEGER CHECK (min_age_months >= 0),
+  max_age_months INTEGER CHECK (max_age_months >= 0),
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  lead_teacher_id UUID REFERENCES public.staff_profiles(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT classes_age_range CHECK (max_age_months >= min_age_months)
+);
+
+-- Names differing only in case or spacing are the same class
+CREATE UNIQUE INDEX idx_classes_center_name
+ON public.classes (center_id, LOWER(REGEXP_REPLACE(name, '\s+', '', 'g')));
+
+CREATE TRIGGER update_classes_updated_at
+BEFORE UPDATE ON public.classes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.children ADD COLUMN class_id UUID REFERENCES public.classes(id) ON DELETE SET NULL;
+CREATE INDEX idx_children_class_id ON public.children(class_id);
+
+-- One class per spelling group in each branch, named after its most common
+-- spelling and sized to fit the active children already in it
+INSERT INTO public.classes (center_id, name, capacity)
+SELECT DISTINCT ON (center_id, class_key)
+  center_id, name, GREATEST(active_in_class, 1)
+FROM (
+  SELECT
+    center_id,
+    TRIM(class) AS name,
+    LOWER(REGEXP_REPLACE(class, '\s+', '', 'g')) AS class_key,
+    COUNT(*) OVER (PARTITION BY center_id, TRIM(class)) AS spelling_count,
+    COUNT(*) FILTER (WHERE status = 'active')
+      OVER (PARTITION BY center_id, LOWER(REGEXP_REPLACE(class, '\s+', '', 'g'))) AS active_in_class
+  FROM public.children
+  WHERE LENGTH(TRIM(COALESCE(class, ''))) > 0
+) spellings
+ORDER BY center_id, class_key, spelling_count DESC, name;
+
+UPDATE public.children c
+SET class_id = cl.id
+FROM public.classes cl
+WHERE cl.center_id = c.center_id
+  AND LOWER(REGEXP_REPLACE(cl.name, '\s+', '', 'g')) = LOWER(REGEXP_REPLACE(c.class, '\s+', '', 'g'));
+
+ALTER TABLE public.children DROP COLUMN class;
+
+-- A child's class must be at their own branch
+CREATE OR REPLACE FUNCTION public.check_child_class_center()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.class_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.classes WHERE id = NEW.class_id AND center_id = NEW.center_id
+  ) THEN
+    RAISE EXCEPTION 'The class belongs to another branch';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_children_class_center
+BEFORE INSERT OR UPDATE OF class_id, center_id ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.check_child_class_center();
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view classes"
+ON public.classes
+FOR SELECT
+USING (public.is_staff());
+
+CREATE POLICY "Owners can insert classes"
+ON public.classes
+FOR INSERT
+WITH CHECK (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can update classes"
+ON public.classes
+FOR UPDATE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Owners can delete classes"
+ON public.classes
+FOR DELETE
+USING (public.has_staff_role('owner'));
+
+CREATE POLICY "Only assigned branches"
+ON public.classes
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id));
+
+-- Staff can see who leads each class, not just their own profile
+CREATE POLICY "Staff can view class teachers"
+ON public.staff_profiles
+FOR SELECT
+USING (public.is_staff() AND user_id IN (SELECT lead_teacher_id FROM public.classes));
@@ -0,0 +1,67 @@
+-- The ledger is append-only, so deleting a child must not take its entries,
+-- or their receipts, with it
+ALTER TABLE public.ledger_entries
+DROP CONSTRAINT ledger_entries_child_id_fkey,
+ADD CONSTRAINT ledger_entries_child_id_fkey
+  FOREIGN KEY (child_id) REFERENCES public.children(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.receipts
+DROP CONSTRAINT receipts_child_id_fkey,
+ADD CONSTRAINT receipts_child_id_fkey
+  FOREIGN KEY (child_id) REFERENCES public.children(id) ON DELETE RESTRICT,
+DROP CONSTRAINT receipts_ledger_entry_id_fkey,
+ADD CONSTRAINT receipts_ledger_entry_id_fkey
+  FOREIGN KEY (ledger_entry_id) REFERENCES public.ledger_entries(id) ON DELETE RESTRICT;
+
+-- Entries are always recorded against whoever posted them; receipts copy this
+-- as the cashier, so it can't be left to the client. Service-role callers
+-- (the M-Pesa callback and nightly billing) have no user and keep what they set.
+CREATE OR REPLACE FUNCTION public.set_ledger_created_by()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.created_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_ledger_entries_created_by
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_ledger_created_by();
+
+-- Reports summarise the ledger here rather than fetching every entry, which
+-- the API would cut off at its row limit. Reversals count against the type of
+-- the entry they cancel; children are grouped by the class they're in now.
+CREATE OR REPLACE FUNCTION public.ledger_monthly_totals(for_center UUID, from_date DATE, to_date DATE)
+RETURNS TABLE (
+  month_start DATE,
+  class_id UUID,
+  payment_method TEXT,
+  movement NUMERIC,
+  received NUMERIC,
+  received_count BIGINT
+) AS $$
+  SELECT
+    DATE_TRUNC('month', l.entry_date)::DATE,
+    c.class_id,
+    l.payment_method,
+    SUM(l.amount),
+    COALESCE(-SUM(l.amount) FILTER (WHERE COALESCE(o.entry_type, l.entry_type) = 'payment'), 0),
+    COUNT(*) FILTER (WHERE l.entry_type = 'payment')
+      - COUNT(*) FILTER (WHERE l.entry_type = 'reversal' AND o.entry_type = 'payment')
+  FROM public.ledger_entries l
+  JOIN public.children c ON c.id = l.child_id
+  LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+  WHERE l.center_id = for_center AND l.entry_date BETWEEN from_date AND to_date
+  GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- What the branch's children owed between them before a date
+CREATE OR REPLACE FUNCTION public.ledger_balance_before(for_center UUID, before_date DATE)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.ledger_entries
+  WHERE center_id = for_center AND entry_date < before_date;
+$$ LANGUAGE sql STABLE SET search_path = public;
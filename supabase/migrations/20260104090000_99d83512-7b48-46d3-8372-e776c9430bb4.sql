@@ -0,0 +1,17 @@
+-- Every money movement is a ledger entry, so those (and the receipts and
+-- cash-ups that go with them) belong in the audit log alongside children and
+-- payments. Cash-ups aren't tied to a child, so they're logged without one.
+CREATE TRIGGER audit_ledger_entries_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.write_audit_log();
+
+CREATE TRIGGER audit_receipts_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.receipts
+FOR EACH ROW
+EXECUTE FUNCTION public.write_audit_log();
+
+CREATE TRIGGER audit_cash_ups_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.cash_ups
+FOR EACH ROW
+EXECUTE FUNCTION public.write_audit_log();
@@ -0,0 +1,17 @@
+-- Only a child added by mistake can be deleted. Once they have attendance or
+-- anything on the ledger they're withdrawn instead, whoever is asking.
+CREATE OR REPLACE FUNCTION public.reject_child_delete_with_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.ledger_entries WHERE child_id = OLD.id)
+    OR EXISTS (SELECT 1 FROM public.payments WHERE child_id = OLD.id) THEN
+    RAISE EXCEPTION '% has attendance or payment history and can''t be deleted. Withdraw them instead.', OLD.name;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_children_delete_with_history
+BEFORE DELETE ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_child_delete_with_history();
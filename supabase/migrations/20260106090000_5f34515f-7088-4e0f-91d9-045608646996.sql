@@ -0,0 +1,26 @@
+-- A missing primary guardian compared as NULL and slipped past the check,
+-- leaving the child with no primary at all
+CREATE OR REPLACE FUNCTION public.set_child_guardians(
+  target_child_id UUID,
+  guardian_ids UUID[],
+  primary_guardian_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  IF (primary_guardian_id = ANY(guardian_ids)) IS NOT TRUE THEN
+    RAISE EXCEPTION 'The primary guardian must be one of the child''s guardians';
+  END IF;
+
+  DELETE FROM public.child_guardians
+  WHERE child_id = target_child_id AND NOT guardian_id = ANY(guardian_ids);
+
+  UPDATE public.child_guardians
+  SET is_primary = false
+  WHERE child_id = target_child_id AND is_primary AND guardian_id <> primary_guardian_id;
+
+  INSERT INTO public.child_guardians (child_id, guardian_id, is_primary)
+  SELECT target_child_id, id, id = primary_guardian_id
+  FROM unnest(guardian_ids) AS id
+  ON CONFLICT (child_id, guardian_id) DO UPDATE SET is_primary = EXCLUDED.is_primary;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,44 @@
+-- Closures belong to a branch: closing one branch for a day must not take
+-- that day out of every other branch's attendance and pro rata billing.
+-- Closures set while they were shared are kept for every branch.
+ALTER TABLE public.center_closures ADD COLUMN center_id UUID REFERENCES public.centers(id) ON DELETE CASCADE;
+
+INSERT INTO public.center_closures (center_id, closure_type, start_date, end_date, weekday, reason)
+SELECT c.id, cl.closure_type, cl.start_date, cl.end_date, cl.weekday, cl.reason
+FROM public.center_closures cl
+CROSS JOIN public.centers c
+WHERE cl.center_id IS NULL AND c.id <> public.default_center_id();
+
+UPDATE public.center_closures SET center_id = public.default_center_id() WHERE center_id IS NULL;
+ALTER TABLE public.center_closures ALTER COLUMN center_id SET NOT NULL;
+CREATE INDEX idx_center_closures_center_id ON public.center_closures(center_id);
+
+CREATE POLICY "Only assigned branches"
+ON public.center_closures
+AS RESTRICTIVE
+FOR ALL
+USING (public.has_center_access(center_id));
+
+DROP FUNCTION public.center_open_days(DATE, DATE);
+DROP FUNCTION public.center_closure_reason(DATE);
+
+-- Reason a branch is closed on a given day, or NULL when it is open
+CREATE OR REPLACE FUNCTION public.center_closure_reason(check_date DATE, check_center UUID)
+RETURNS TEXT AS $$
+  SELECT reason
+  FROM public.center_closures
+  WHERE center_id = check_center
+    AND ((closure_type = 'date' AND start_date = check_date)
+      OR (closure_type = 'range' AND check_date BETWEEN start_date AND end_date)
+      OR (closure_type = 'weekday' AND weekday = EXTRACT(DOW FROM check_date)))
+  ORDER BY closure_type
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Days a branch is open between two dates, inclusive
+CREATE OR REPLACE FUNCTION public.center_open_days(from_date DATE, to_date DATE, for_center UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(from_date, to_date, INTERVAL '1 day') AS day
+  WHERE public.center_closure_reason(day::DATE, for_center) IS NULL;
+$$ LANGUAGE sql STABLE SET search_path = public;
@@ -0,0 +1,71 @@
+-- Only fee charges are discounted: daily fees posted from attendance and plan
+-- charges from the billing run. Extras added by hand (trips, uniforms) and
+-- late fees are charged in full.
+CREATE OR REPLACE FUNCTION public.post_charge_discounts()
+RETURNS TRIGGER AS $$
+DECLARE
+  discount_rule RECORD;
+  remaining NUMERIC(10, 2) := NEW.amount;
+  child_position INTEGER;
+  discount NUMERIC(10, 2);
+BEGIN
+  IF NEW.entry_type <> 'charge'
+     OR NEW.category IS NOT NULL
+     OR (NEW.payment_id IS NULL AND NEW.fee_plan_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR discount_rule IN
+    SELECT r.*, COALESCE(cd.amount, r.amount) AS child_amount
+    FROM public.discount_rules r
+    LEFT JOIN public.child_discounts cd ON cd.discount_rule_id = r.id AND cd.child_id = NEW.child_id
+    WHERE r.active
+      AND (r.starts_on IS NULL OR r.starts_on <= NEW.entry_date)
+      AND (r.ends_on IS NULL OR r.ends_on >= NEW.entry_date)
+      AND NOT COALESCE(cd.excluded, false)
+      AND (r.applies_to <> 'selected' OR cd.child_id IS NOT NULL)
+    ORDER BY r.created_at
+  LOOP
+    EXIT WHEN remaining <= 0;
+
+    IF discount_rule.applies_to = 'siblings' THEN
+      child_position := COALESCE(child_position, public.sibling_position(NEW.child_id, NEW.entry_date));
+      CONTINUE WHEN child_position < discount_rule.sibling_position;
+    END IF;
+
+    discount := LEAST(
+      remaining,
+      CASE discount_rule.discount_type
+        WHEN 'percentage' THEN ROUND(NEW.amount * discount_rule.child_amount / 100, 2)
+        ELSE discount_rule.child_amount
+      END
+    );
+    CONTINUE WHEN discount <= 0;
+
+    INSERT INTO public.ledger_entries (
+      child_id, entry_type, category, amount, entry_date, payment_id,
+      discount_rule_id, discounts_entry_id, description
+    )
+    VALUES (
+      NEW.child_id,
+      'adjustment',
+      'discount',
+      -discount,
+      NEW.entry_date,
+      NEW.payment_id,
+      discount_rule.id,
+      NEW.id,
+      format(
+        '%s: %s off %s',
+        discount_rule.name,
+        CASE discount_rule.discount_type WHEN 'percentage' THEN discount_rule.child_amount::TEXT || '%' ELSE 'Ksh ' || discount_rule.child_amount END,
+        COALESCE(NEW.description, 'charge')
+      )
+    );
+
+    remaining := remaining - discount;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,49 @@
+-- Refunds paid out of the cash box or by mobile money carry their method too.
+-- prepare_cash_up nets every entry with a method, so a cash refund now comes
+-- off the day's expected cash instead of showing as a shortage.
+ALTER TABLE public.ledger_entries
+DROP CONSTRAINT ledger_entries_payment_method_check,
+ADD CONSTRAINT ledger_entries_payment_method_check
+  CHECK (
+    payment_method IS NULL
+    OR entry_type IN ('payment', 'reversal')
+    OR (entry_type = 'adjustment' AND category = 'refund')
+  );
+
+-- Today's date at a given branch
+CREATE OR REPLACE FUNCTION public.center_today(for_center UUID)
+RETURNS DATE AS $$
+  SELECT (now() AT TIME ZONE COALESCE(
+    (SELECT timezone FROM public.center_settings WHERE center_id = for_center),
+    'Africa/Nairobi'
+  ))::date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Staff other than owners post to the branch's today only, so money can't be
+-- slipped into a day that's already cashed up or one that hasn't happened
+-- yet. Entries the database posts itself (daily fees, discounts, late fees)
+-- follow the attendance record they come from, and the daily reset and
+-- M-Pesa callback run without a user.
+CREATE OR REPLACE FUNCTION public.reject_entries_off_today()
+RETURNS TRIGGER AS $$
+DECLARE
+  today DATE;
+BEGIN
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 OR public.has_staff_role('owner') THEN
+    RETURN NEW;
+  END IF;
+
+  today := public.center_today(NEW.center_id);
+  IF NEW.entry_date <> today THEN
+    RAISE EXCEPTION 'Entries can only be dated today (%); ask an owner to record this on %', today, NEW.entry_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Named to run after assign_ledger_entries_center has set the branch
+CREATE TRIGGER reject_ledger_entries_off_today
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_entries_off_today();
@@ -0,0 +1,239 @@
+-- Receipt numbers run per branch. Receipts are filed under their payment's
+-- branch, and each branch's counter carries on from its highest number so far.
+ALTER TABLE public.receipts ADD COLUMN center_id UUID REFERENCES public.centers(id);
+UPDATE public.receipts r SET center_id = l.center_id FROM public.ledger_entries l WHERE l.id = r.ledger_entry_id;
+ALTER TABLE public.receipts ALTER COLUMN center_id SET NOT NULL;
+
+ALTER TABLE public.receipts
+DROP CONSTRAINT receipts_receipt_number_key,
+ADD CONSTRAINT receipts_center_receipt_number_key UNIQUE (center_id, receipt_number);
+
+DROP TABLE public.receipt_counters;
+
+CREATE TABLE public.receipt_counters (
+  center_id UUID NOT NULL PRIMARY KEY REFERENCES public.centers(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.receipt_counters (center_id, last_number)
+SELECT c.id, COALESCE(MAX(r.receipt_number), 0)
+FROM public.centers c
+LEFT JOIN public.receipts r ON r.center_id = c.id
+GROUP BY c.id;
+
+ALTER TABLE public.receipt_counters ENABLE ROW LEVEL SECURITY;
+
+-- A branch's first receipt creates its counter; after that the row lock
+-- queues concurrent payments as before
+CREATE OR REPLACE FUNCTION public.issue_payment_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF NEW.entry_type <> 'payment' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.receipt_counters (center_id, last_number)
+  VALUES (NEW.center_id, 1)
+  ON CONFLICT (center_id) DO UPDATE SET last_number = receipt_counters.last_number + 1
+  RETURNING last_number INTO next_number;
+
+  INSERT INTO public.receipts (
+    center_id, receipt_number, ledger_entry_id, child_id, amount, balance_after, issued_by, issued_by_email
+  )
+  VALUES (
+    NEW.center_id,
+    next_number,
+    NEW.id,
+    NEW.child_id,
+    -NEW.amount,
+    (SELECT COALESCE(SUM(amount), 0) FROM public.ledger_entries WHERE child_id = NEW.child_id),
+    NEW.created_by,
+    (SELECT email FROM auth.users WHERE id = NEW.created_by)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Column defaults use the caller's branch: the one a staff member is assigned
+-- to (the first, for staff in several) or a portal guardian's child's. Owners
+-- aren't assigned to branches and get the first branch's date, so the app
+-- always passes each branch's own date.
+CREATE OR REPLACE FUNCTION public.center_today()
+RETURNS DATE AS $$
+  SELECT public.center_today(COALESCE(
+    (SELECT center_id FROM public.staff_centers WHERE user_id = auth.uid() ORDER BY center_id LIMIT 1),
+    (SELECT center_id FROM public.children WHERE id IN (SELECT public.portal_child_ids()) ORDER BY center_id LIMIT 1),
+    public.default_center_id()
+  ));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Fee plans and discounts belong to one branch, or to every branch when
+-- center_id is NULL. Those set up before this stay shared.
+ALTER TABLE public.fee_plans ADD COLUMN center_id UUID REFERENCES public.centers(id) ON DELETE CASCADE;
+ALTER TABLE public.discount_rules ADD COLUMN center_id UUID REFERENCES public.centers(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_fee_plans_center_id ON public.fee_plans(center_id);
+CREATE INDEX idx_discount_rules_center_id ON public.discount_rules(center_id);
+
+CREATE POLICY "Only assigned branches"
+ON public.fee_plans
+AS RESTRICTIVE
+FOR ALL
+USING (center_id IS NULL OR public.has_center_access(center_id));
+
+CREATE POLICY "Only assigned branches"
+ON public.discount_rules
+AS RESTRICTIVE
+FOR ALL
+USING (center_id IS NULL OR public.has_center_access(center_id));
+
+-- A child's plan must be shared or at their own branch, and a plan can't be
+-- kept to one branch while children elsewhere are on it
+CREATE OR REPLACE FUNCTION public.check_child_fee_plan_center()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.fee_plan_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.fee_plans
+    WHERE id = NEW.fee_plan_id AND (center_id IS NULL OR center_id = NEW.center_id)
+  ) THEN
+    RAISE EXCEPTION 'The fee plan belongs to another branch';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_children_fee_plan_center
+BEFORE INSERT OR UPDATE OF fee_plan_id, center_id ON public.children
+FOR EACH ROW
+EXECUTE FUNCTION public.check_child_fee_plan_center();
+
+CREATE OR REPLACE FUNCTION public.check_fee_plan_children_center()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.center_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.children WHERE fee_plan_id = NEW.id AND center_id <> NEW.center_id
+  ) THEN
+    RAISE EXCEPTION 'Children at other branches are on this plan';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_fee_plans_children_center
+BEFORE UPDATE OF center_id ON public.fee_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.check_fee_plan_children_center();
+
+-- Guardians are seen through their children's branches. Guardians not yet
+-- linked to a child are visible to all staff, so a new guardian can be saved
+-- before the child is.
+CREATE OR REPLACE FUNCTION public.can_access_guardian(target_guardian UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM public.child_guardians WHERE guardian_id = target_guardian)
+    OR EXISTS (
+      SELECT 1
+      FROM public.child_guardians cg
+      JOIN public.children c ON c.id = cg.child_id
+      WHERE cg.guardian_id = target_guardian
+        AND (public.has_center_access(c.center_id) OR c.id IN (SELECT public.portal_child_ids()))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Only assigned branches"
+ON public.guardians
+AS RESTRICTIVE
+FOR ALL
+USING (public.can_access_guardian(id) OR (user_id = auth.uid() AND portal_access));
+
+-- Per-child records follow the child's visibility
+CREATE POLICY "Only assigned branches"
+ON public.child_guardians
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IN (SELECT id FROM public.children));
+
+CREATE POLICY "Only assigned branches"
+ON public.child_discounts
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IN (SELECT id FROM public.children));
+
+CREATE POLICY "Only assigned branches"
+ON public.authorized_pickups
+AS RESTRICTIVE
+FOR ALL
+USING (child_id IN (SELECT id FROM public.children));
+
+-- Discounts only apply to charges at the branches they're for
+CREATE OR REPLACE FUNCTION public.post_charge_discounts()
+RETURNS TRIGGER AS $$
+DECLARE
+  discount_rule RECORD;
+  remaining NUMERIC(10, 2) := NEW.amount;
+  child_position INTEGER;
+  discount NUMERIC(10, 2);
+BEGIN
+  IF NEW.entry_type <> 'charge'
+     OR NEW.category IS NOT NULL
+     OR (NEW.payment_id IS NULL AND NEW.fee_plan_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR discount_rule IN
+    SELECT r.*, COALESCE(cd.amount, r.amount) AS child_amount
+    FROM public.discount_rules r
+    LEFT JOIN public.child_discounts cd ON cd.discount_rule_id = r.id AND cd.child_id = NEW.child_id
+    WHERE r.active
+      AND (r.center_id IS NULL OR r.center_id = NEW.center_id)
+      AND (r.starts_on IS NULL OR r.starts_on <= NEW.entry_date)
+      AND (r.ends_on IS NULL OR r.ends_on >= NEW.entry_date)
+      AND NOT COALESCE(cd.excluded, false)
+      AND (r.applies_to <> 'selected' OR cd.child_id IS NOT NULL)
+    ORDER BY r.created_at
+  LOOP
+    EXIT WHEN remaining <= 0;
+
+    IF discount_rule.applies_to = 'siblings' THEN
+      child_position := COALESCE(child_position, public.sibling_position(NEW.child_id, NEW.entry_date));
+      CONTINUE WHEN child_position < discount_rule.sibling_position;
+    END IF;
+
+    discount := LEAST(
+      remaining,
+      CASE discount_rule.discount_type
+        WHEN 'percentage' THEN ROUND(NEW.amount * discount_rule.child_amount / 100, 2)
+        ELSE discount_rule.child_amount
+      END
+    );
+    CONTINUE WHEN discount <= 0;
+
+    INSERT INTO public.ledger_entries (
+      child_id, entry_type, category, amount, entry_date, payment_id,
+      discount_rule_id, discounts_entry_id, description
+    )
+    VALUES (
+      NEW.child_id,
+      'adjustment',
+      'discount',
+      -discount,
+      NEW.entry_date,
+      NEW.payment_id,
+      discount_rule.id,
+      NEW.id,
+      format(
+        '%s: %s off %s',
+        discount_rule.name,
+        CASE discount_rule.discount_type WHEN 'percentage' THEN discount_rule.child_amount::TEXT || '%' ELSE 'Ksh ' || discount_rule.child_amount END,
+        COALESCE(NEW.description, 'charge')
+      )
+    );
+
+    remaining := remaining - discount;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,29 @@
+-- payments_child_day_attendance_key was skipped on databases that already had
+-- duplicate attendance records, yet the daily reset relies on it to skip
+-- children it has already marked. Keep each child's first record for the day,
+-- reverse the charges posted against the others (their discounts follow) and
+-- create the index. Payments taken against a removed record stay on the ledger.
+CREATE TEMPORARY TABLE duplicate_attendance AS
+SELECT id
+FROM (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY child_id, payment_date ORDER BY created_at, id) AS position
+  FROM public.payments
+  WHERE attendance_status IS NOT NULL
+) ranked
+WHERE position > 1;
+
+INSERT INTO public.ledger_entries (child_id, entry_type, amount, entry_date, reverses_entry_id, description)
+SELECT l.child_id, 'reversal', -l.amount, public.center_today(l.center_id), l.id, 'Duplicate attendance record removed'
+FROM public.ledger_entries l
+WHERE l.payment_id IN (SELECT id FROM duplicate_attendance)
+  AND l.entry_type = 'charge'
+  AND NOT EXISTS (SELECT 1 FROM public.ledger_entries r WHERE r.reverses_entry_id = l.id);
+
+DELETE FROM public.payments WHERE id IN (SELECT id FROM duplicate_attendance);
+DROP TABLE duplicate_attendance;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payments_child_day_attendance_key
+ON public.payments(child_id, payment_date)
+WHERE attendance_status IS NOT NULL;
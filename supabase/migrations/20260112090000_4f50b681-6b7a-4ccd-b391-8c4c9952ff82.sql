@@ -0,0 +1,95 @@
+-- A plan period is billed at most once per child, but a reversed charge no
+-- longer counts: reversing a wrong plan charge and running the daily reset for
+-- that day again bills the period afresh. A unique index can't see reversals,
+-- so the rule moves to a trigger.
+DROP INDEX public.ledger_entries_fee_plan_period;
+
+CREATE INDEX idx_ledger_entries_fee_plan_period
+ON public.ledger_entries(child_id, fee_plan_id, period_start)
+WHERE entry_type = 'charge' AND fee_plan_id IS NOT NULL;
+
+-- Plan periods with a charge that hasn't been reversed
+CREATE OR REPLACE FUNCTION public.billed_fee_plan_periods(for_center UUID, period_starts DATE[])
+RETURNS TABLE (
+  child_id UUID,
+  fee_plan_id UUID,
+  period_start DATE
+) AS $$
+  SELECT l.child_id, l.fee_plan_id, l.period_start
+  FROM public.ledger_entries l
+  WHERE l.center_id = for_center
+    AND l.entry_type = 'charge'
+    AND l.fee_plan_id IS NOT NULL
+    AND l.period_start = ANY(period_starts)
+    AND NOT EXISTS (SELECT 1 FROM public.ledger_entries r WHERE r.reverses_entry_id = l.id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Raised as a unique violation so callers can keep treating it as "already billed"
+CREATE OR REPLACE FUNCTION public.reject_billed_fee_plan_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.entry_type <> 'charge' OR NEW.fee_plan_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Two runs billing the same period wait for each other instead of both passing
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.child_id::TEXT || NEW.fee_plan_id::TEXT || NEW.period_start::TEXT));
+
+  IF EXISTS (
+    SELECT 1 FROM public.ledger_entries l
+    WHERE l.child_id = NEW.child_id
+      AND l.fee_plan_id = NEW.fee_plan_id
+      AND l.period_start = NEW.period_start
+      AND l.entry_type = 'charge'
+      AND NOT EXISTS (SELECT 1 FROM public.ledger_entries r WHERE r.reverses_entry_id = l.id)
+  ) THEN
+    RAISE EXCEPTION 'This plan period has already been billed' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reject_ledger_entries_billed_period
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_billed_fee_plan_period();
+
+-- Same as before, but without ON CONFLICT now the unique index is gone
+CREATE OR REPLACE FUNCTION public.post_attendance_charge()
+RETURNS TRIGGER AS $$
+DECLARE
+  plan public.fee_plans%ROWTYPE;
+BEGIN
+  IF NEW.attendance_status = 'present'
+     AND NEW.amount > 0
+     AND (TG_OP = 'INSERT' OR OLD.attendance_status IS DISTINCT FROM 'present')
+     AND NOT EXISTS (
+       SELECT 1 FROM public.ledger_entries
+       WHERE payment_id = NEW.id AND entry_type = 'charge' AND category IS NULL
+     ) THEN
+    SELECT p.* INTO plan
+    FROM public.fee_plans p
+    JOIN public.children c ON c.fee_plan_id = p.id
+    WHERE c.id = NEW.child_id;
+
+    IF plan.id IS NOT NULL AND plan.billing_period <> 'daily' THEN
+      RETURN NEW;
+    END IF;
+
+    BEGIN
+      INSERT INTO public.ledger_entries (
+        child_id, entry_type, amount, entry_date, payment_id, description, fee_plan_id, period_start, period_end
+      )
+      VALUES (
+        NEW.child_id, 'charge', NEW.amount, NEW.payment_date, NEW.id, 'Daily fee',
+        plan.id, NEW.payment_date, NEW.payment_date
+      );
+    EXCEPTION WHEN unique_violation THEN
+      -- The day was already billed (as an absence the daily reset charged)
+      NULL;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
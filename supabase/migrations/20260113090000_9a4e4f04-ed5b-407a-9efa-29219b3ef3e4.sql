@@ -0,0 +1,27 @@
+-- Refunds for the same child are checked one at a time, so two entered
+-- together can't both pass against the same credit
+CREATE OR REPLACE FUNCTION public.check_refund_within_credit()
+RETURNS TRIGGER AS $$
+DECLARE
+  credit NUMERIC(10, 2);
+BEGIN
+  IF NEW.category IS DISTINCT FROM 'refund' OR NEW.entry_type <> 'adjustment' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'A refund must be a positive amount';
+  END IF;
+
+  -- Held until the refund commits; the other waits and then sees it
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.child_id::TEXT));
+
+  SELECT -COALESCE(SUM(amount), 0) INTO credit FROM public.ledger_entries WHERE child_id = NEW.child_id;
+
+  IF NEW.amount > credit THEN
+    RAISE EXCEPTION 'Refund of % is more than the % credit held', NEW.amount, GREATEST(credit, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
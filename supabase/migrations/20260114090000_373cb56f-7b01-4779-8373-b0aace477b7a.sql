@@ -0,0 +1,28 @@
+-- Money received is net of refunds paid out, as Today's Payment and the
+-- cash-up count it, so a day's figures per method agree on every screen.
+-- Refund reversals carry the refund category and add the money back.
+CREATE OR REPLACE FUNCTION public.ledger_monthly_totals(for_center UUID, from_date DATE, to_date DATE)
+RETURNS TABLE (
+  month_start DATE,
+  class_id UUID,
+  payment_method TEXT,
+  movement NUMERIC,
+  received NUMERIC,
+  received_count BIGINT
+) AS $$
+  SELECT
+    DATE_TRUNC('month', l.entry_date)::DATE,
+    c.class_id,
+    l.payment_method,
+    SUM(l.amount),
+    COALESCE(-SUM(l.amount) FILTER (
+      WHERE COALESCE(o.entry_type, l.entry_type) = 'payment' OR l.category = 'refund'
+    ), 0),
+    COUNT(*) FILTER (WHERE l.entry_type = 'payment')
+      - COUNT(*) FILTER (WHERE l.entry_type = 'reversal' AND o.entry_type = 'payment')
+  FROM public.ledger_entries l
+  JOIN public.children c ON c.id = l.child_id
+  LEFT JOIN public.ledger_entries o ON o.id = l.reverses_entry_id
+  WHERE l.center_id = for_center AND l.entry_date BETWEEN from_date AND to_date
+  GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE SET search_path = public;
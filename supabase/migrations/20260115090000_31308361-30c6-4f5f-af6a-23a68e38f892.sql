@@ -0,0 +1,29 @@
+-- Ledger and attendance rows left undated take today at their own branch. The
+-- column default could only go by the caller's first branch, which for staff
+-- at several branches may be in another timezone than the row's, and
+-- reject_entries_off_today then turned the entry away.
+ALTER TABLE public.ledger_entries ALTER COLUMN entry_date DROP DEFAULT;
+ALTER TABLE public.payments ALTER COLUMN payment_date DROP DEFAULT;
+
+-- Named to run straight after assign_child_center has set the branch
+CREATE OR REPLACE FUNCTION public.assign_branch_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'ledger_entries' THEN
+    NEW.entry_date := COALESCE(NEW.entry_date, public.center_today(NEW.center_id));
+  ELSE
+    NEW.payment_date := COALESCE(NEW.payment_date, public.center_today(NEW.center_id));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER assign_ledger_entries_date
+BEFORE INSERT ON public.ledger_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_branch_date();
+
+CREATE TRIGGER assign_payments_date
+BEFORE INSERT ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_branch_date();
@@ -0,0 +1,50 @@
+-- Mobile money transactions belong to the branch of the child they're posted
+-- to, set when they're matched, or to the branch whose staff ignored them.
+-- Unmatched ones can't be placed until someone recognises the payer, so they
+-- stay in a queue every branch can see and claim from.
+ALTER TABLE public.mobile_money_transactions ADD COLUMN center_id UUID REFERENCES public.centers(id);
+CREATE INDEX idx_mobile_money_transactions_center_id ON public.mobile_money_transactions(center_id);
+
+UPDATE public.mobile_money_transactions t
+SET center_id = c.center_id
+FROM public.children c
+WHERE c.id = t.child_id;
+
+-- Ignored before this, with no record of where: the first branch's
+UPDATE public.mobile_money_transactions
+SET center_id = public.default_center_id()
+WHERE center_id IS NULL AND status <> 'unmatched';
+
+CREATE POLICY "Only assigned branches"
+ON public.mobile_money_transactions
+AS RESTRICTIVE
+FOR ALL
+USING (center_id IS NULL OR public.has_center_access(center_id));
+
+-- Reminder logs go by their child, or by the branch the reminder run was for
+-- when there's no child; those with neither show to owners only
+ALTER TABLE public.sms_messages ADD COLUMN center_id UUID REFERENCES public.centers(id);
+
+UPDATE public.sms_messages m
+SET center_id = c.center_id
+FROM public.children c
+WHERE c.id = m.child_id;
+
+DROP POLICY "Only assigned branches" ON public.sms_messages;
+
+CREATE POLICY "Only assigned branches"
+ON public.sms_messages
+AS RESTRICTIVE
+FOR ALL
+USING (
+  (child_id IS NOT NULL AND child_id IN (SELECT id FROM public.children))
+  OR (child_id IS NULL AND public.has_center_access(center_id))
+);
+
+-- Staff only see where they themselves work; owners manage everyone's
+DROP POLICY "Staff can view branch assignments" ON public.staff_centers;
+
+CREATE POLICY "Staff can view their branch assignments"
+ON public.staff_centers
+FOR SELECT
+USING (user_id = auth.uid() OR public.has_staff_role('owner'));
@@ -21,11 +21,16 @@ export default defineConfig(({ mode }) => ({
         navigateFallbackDenylist: [/^\/~oauth/],
         runtimeCaching: [
           {
+            // Reads fall back to the last response so the app still opens offline;
+            // writes made offline are queued in IndexedDB by the app itself.
+            // Responses hold children's and guardians' details, so they're kept
+            // for a working day at most and cleared on sign-out (see offline-queue.ts)
             urlPattern: /^https:\/\/.*\.supabase\.co\/.*/i,
             handler: "NetworkFirst",
             options: {
               cacheName: "supabase-api",
-              expiration: { maxEntries: 50, maxAgeSeconds: 300 },
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 200, maxAgeSeconds: 12 * 60 * 60 },
             },
           },
         ],